@@ -7,7 +7,8 @@
  * - Photo capture with quality settings
  * - Image preview after capture
  * - Photo upload to Supabase Storage
- * - Share to class feed functionality with modal
+ * - Share to class feed functionality with modal (upload progress, cancel, inline errors)
+ * - Multi-capture sequences: capture several work-in-progress steps and share them as one post
  * - Themed styling that adapts to light/dark mode
  * - Error handling and loading states
  * - Logout functionality for easy user testing
@@ -18,8 +19,15 @@ import { ThemedView } from '@/components/ThemedView';
 import ShareWithClassModal from '@/components/solo/ShareWithClassModal';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { useThemeColor } from '@/hooks/useThemeColor';
-import { uploadPhoto } from '@/lib/photoService';
-import { createJuniPost, getUserDisplayName } from '@/lib/postService';
+import { uploadMedia } from '@/lib/mediaService';
+import {
+  getShareFailureMessage,
+  MAX_POST_IMAGES,
+  shareImageToClass,
+  type PostMetadata,
+  type PostShareSettings,
+  type ShareImageProgress,
+} from '@/lib/postService';
 import { useAuthStore } from '@/store/authStore';
 import { useClassStore } from '@/store/classStore';
 import { useSoloStore } from '@/store/soloStore';
@@ -35,6 +43,9 @@ export default function CameraScreen() {
   // State for captured photo URI
   const [capturedPhoto, setCapturedPhoto] = useState<string | null>(null);
   
+  // Earlier steps of a work-in-progress sequence, oldest first (the current capture is the latest step)
+  const [sequencePhotos, setSequencePhotos] = useState<string[]>([]);
+  
   // State for capturing process
   const [isCapturing, setIsCapturing] = useState(false);
   
@@ -47,12 +58,17 @@ export default function CameraScreen() {
   // State for share modal
   const [isShareModalVisible, setIsShareModalVisible] = useState(false);
   
+  // State for the in-flight share (progress, inline error and its cancel handle)
+  const [shareProgress, setShareProgress] = useState<ShareImageProgress | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const shareAbortRef = useRef<AbortController | null>(null);
+  
   // Camera permissions hook
   const [permission, requestPermission] = useCameraPermissions();
   
   // Auth store for logout functionality
   const { user, signOut } = useAuthStore();
-  const { currentClass, clearClassData, setPendingScrollToPostId } = useClassStore();
+  const { currentClass, userClasses, setCurrentClass, clearClassData, setPendingScrollToPostId } = useClassStore();
   const { setPrepopulatedImageUri } = useSoloStore();
   
   // Themed colors
@@ -62,6 +78,7 @@ export default function CameraScreen() {
 
   console.log('🎥 Camera Screen - Rendering with permission:', permission?.granted);
   console.log('📷 Camera Screen - Captured photo:', capturedPhoto ? 'Photo captured' : 'No photo');
+  console.log('🎞️ Camera Screen - Sequence steps saved:', sequencePhotos.length);
   console.log('⏫ Camera Screen - Upload state:', { isUploading, uploadSuccess });
 
   /**
@@ -162,8 +179,8 @@ export default function CameraScreen() {
    * Upload photo to Supabase and navigate to Juni tab
    */
   const handleUploadPhoto = async () => {
-    if (!capturedPhoto) {
-      console.error('❌ Camera Screen - No photo to upload');
+    if (!capturedPhoto || !user?.id) {
+      console.error('❌ Camera Screen - Missing user or photo to upload');
       Alert.alert('Error', 'No photo to upload');
       return;
     }
@@ -172,7 +189,7 @@ export default function CameraScreen() {
     setIsUploading(true);
 
     try {
-      const result = await uploadPhoto(capturedPhoto);
+      const result = await uploadMedia(capturedPhoto, { bucket: 'photos', userId: user.id });
       
       if (result.success) {
         console.log('✅ Camera Screen - Photo uploaded successfully!');
@@ -223,6 +240,32 @@ export default function CameraScreen() {
     setUploadSuccess(false);
   };
 
+  /**
+   * Keep the current capture as a sequence step and go back to the camera for the next one
+   */
+  const handleAddSequenceStep = () => {
+    if (!capturedPhoto) return;
+
+    if (sequencePhotos.length + 1 >= MAX_POST_IMAGES) {
+      console.log('⚠️ Camera Screen - Sequence is full:', MAX_POST_IMAGES);
+      Alert.alert('Sequence Full', `A post can have up to ${MAX_POST_IMAGES} images.`);
+      return;
+    }
+
+    console.log('➕ Camera Screen - Adding step to sequence:', sequencePhotos.length + 1);
+    setSequencePhotos(current => [...current, capturedPhoto]);
+    setCapturedPhoto(null);
+    setUploadSuccess(false);
+  };
+
+  /**
+   * Discard the saved sequence steps
+   */
+  const handleDiscardSequence = () => {
+    console.log('🗑️ Camera Screen - Discarding sequence');
+    setSequencePhotos([]);
+  };
+
   /**
    * Handle share button press - opens the share with class modal
    */
@@ -240,48 +283,36 @@ export default function CameraScreen() {
 
   /**
    * Handle sharing the image to class feed
+   * Uploads the photos and creates the post as one operation; returns false to keep the modal open.
    */
-  const handleShareToClass = async (caption: string) => {
-    console.log('🚀 Camera Screen - Sharing to class with caption:', caption);
+  const handleShareToClass = async (
+    caption: string,
+    imageUris: string[],
+    settings: PostShareSettings,
+    metadata: PostMetadata
+  ): Promise<boolean> => {
+    console.log('🚀 Camera Screen - Sharing', imageUris.length, 'image(s) to class with caption:', caption);
+    console.log('⚙️ Camera Screen - Share settings:', settings);
     
-    if (!user?.id || !capturedPhoto) {
+    if (!user?.id || imageUris.length === 0) {
       console.error('❌ Camera Screen - Missing user or photo data');
-      return;
+      return false;
     }
 
-    // Check if user has a class
-    if (!currentClass) {
-      console.log('⚠️ Camera Screen - User not enrolled in any class');
-      Alert.alert(
-        'No Class Selected',
-        'Please join a class before sharing your artwork.',
-        [{ text: 'OK' }]
-      );
-      return;
-    }
+    const abortController = new AbortController();
+    shareAbortRef.current = abortController;
+    setShareError(null);
 
     try {
-      // First upload the photo
-      console.log('⏫ Camera Screen - Uploading photo before sharing');
-      const uploadResult = await uploadPhoto(capturedPhoto);
-      
-      if (!uploadResult.success || !uploadResult.publicUrl) {
-        console.error('❌ Camera Screen - Photo upload failed');
-        Alert.alert('Upload Failed', 'Failed to upload photo. Please try again.');
-        return;
-      }
-
-      // Get user's display name
-      const userName = await getUserDisplayName(user.id);
-      
-      // Create the post with the uploaded image URL
-      const result = await createJuniPost({
+      // Upload the photos and create a post in each class (the uploads are rolled back if no post is created)
+      const result = await shareImageToClass({
+        imageUris,
         userId: user.id,
-        imageUrl: uploadResult.publicUrl,
         caption: caption,
-        userName: userName || undefined,
-        maxViewers: 5,
-        durationHours: 5,
+        metadata,
+        ...settings,
+        signal: abortController.signal,
+        onProgress: setShareProgress,
       });
 
       if (result.success && result.postId) {
@@ -290,6 +321,22 @@ export default function CameraScreen() {
         // Close modal
         setIsShareModalVisible(false);
         
+        // Open the class the (first) post went to
+        const sharedClassId = result.results.find(classResult => classResult.success)?.classId;
+        if (sharedClassId && sharedClassId !== currentClass?.id) {
+          const targetClass = userClasses.find(userClass => userClass.id === sharedClassId);
+          if (targetClass) {
+            setCurrentClass(targetClass);
+          }
+        }
+        
+        // Let the artist know about any classes the share didn't reach
+        const failureMessage = getShareFailureMessage(result.results);
+        if (failureMessage) {
+          console.log('⚠️ Camera Screen - Some classes failed:', failureMessage);
+          Alert.alert('Shared to Some Classes', `Couldn't share to:\n${failureMessage}`, [{ text: 'OK' }]);
+        }
+        
         // Set the post ID to scroll to in the class store
         setPendingScrollToPostId(result.postId);
         
@@ -299,27 +346,47 @@ export default function CameraScreen() {
         
         // Reset camera state after navigation
         setCapturedPhoto(null);
+        setSequencePhotos([]);
         setUploadSuccess(false);
-        
-      } else {
-        console.error('❌ Camera Screen - Failed to share:', result.error);
-        Alert.alert(
-          'Share Failed',
-          result.error || 'Failed to share your artwork. Please try again.',
-          [{ text: 'OK' }]
-        );
+        return true;
+      }
+
+      if (result.cancelled) {
+        console.log('🛑 Camera Screen - Share cancelled');
+        return false;
       }
+
+      console.error('❌ Camera Screen - Failed to share:', result.error);
+      setShareError(result.error || 'Failed to share your artwork. Please try again.');
+      return false;
       
     } catch (error) {
       console.error('❌ Camera Screen - Unexpected error sharing:', error);
-      Alert.alert(
-        'Share Failed',
-        'An unexpected error occurred. Please try again.',
-        [{ text: 'OK' }]
-      );
+      setShareError('An unexpected error occurred. Please try again.');
+      return false;
+    } finally {
+      shareAbortRef.current = null;
+      setShareProgress(null);
     }
   };
 
+  /**
+   * Cancel the in-flight share upload
+   * Only possible while uploading; once the post is being created the share completes.
+   */
+  const handleCancelShare = () => {
+    console.log('🛑 Camera Screen - Cancelling share upload');
+    shareAbortRef.current?.abort();
+  };
+
+  /**
+   * Close the share modal and clear any previous share error
+   */
+  const handleCloseShareModal = () => {
+    setIsShareModalVisible(false);
+    setShareError(null);
+  };
+
   // Handle permission not granted
   if (!permission) {
     console.log('⏳ Camera Screen - Permission loading');
@@ -423,11 +490,37 @@ export default function CameraScreen() {
                 </View>
               </TouchableOpacity>
             </View>
+
+            <TouchableOpacity
+              onPress={handleAddSequenceStep}
+              disabled={isUploading}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.sequenceLinkText}>
+                + Add another step ({sequencePhotos.length + 1}/{MAX_POST_IMAGES})
+              </Text>
+            </TouchableOpacity>
           </View>
         </>
       ) : (
         // Camera mode
         <>
+          {/* Discard the sequence in progress */}
+          {sequencePhotos.length > 0 && (
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: 'rgba(0, 0, 0, 0.6)' }]}
+              onPress={handleDiscardSequence}
+              activeOpacity={0.8}
+            >
+              <IconSymbol 
+                name="xmark" 
+                size={20} 
+                color="white" 
+                weight="medium"
+              />
+            </TouchableOpacity>
+          )}
+
           <CameraView 
             ref={cameraRef} 
             style={styles.camera} 
@@ -451,7 +544,9 @@ export default function CameraScreen() {
             
             {!isCapturing && (
               <Text style={styles.captureHintText}>
-                capture your art
+                {sequencePhotos.length > 0
+                  ? `capture step ${sequencePhotos.length + 1} of your sequence`
+                  : 'capture your art'}
               </Text>
             )}
           </View>
@@ -461,9 +556,13 @@ export default function CameraScreen() {
       {/* Share with Class Modal */}
       <ShareWithClassModal
         visible={isShareModalVisible}
-        imageUrl={capturedPhoto}
-        onClose={() => setIsShareModalVisible(false)}
+        imageUrls={capturedPhoto ? [...sequencePhotos, capturedPhoto] : []}
+        onClose={handleCloseShareModal}
         onShare={handleShareToClass}
+        progress={shareProgress?.fraction ?? null}
+        statusMessage={shareProgress?.stage === 'creating_post' ? 'Creating post…' : null}
+        errorMessage={shareError}
+        onCancelShare={shareProgress?.stage === 'uploading' ? handleCancelShare : undefined}
       />
     </View>
   );
@@ -626,6 +725,11 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.6,
   },
+  sequenceLinkText: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   buttonContent: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -5,7 +5,7 @@
  * - View classmates' artwork posts as individual cards in a vertical feed
  * - Scroll through posts with efficient rendering
  * - Access camera to share their own artwork
- * - Engage with posts through comments and interactions
+ * - Engage with posts through threaded comments and emoji reactions
  * - Experience anxiety-reducing, ephemeral content sharing
  * 
  * Design System: Glass morphism cards on white background per redesign specs
@@ -34,16 +34,21 @@ import Animated, {
 
 import { ThemedText } from '@/components/ThemedText';
 import ClassFeedHeader from '@/components/feed/ClassFeedHeader';
+import ClassCreateModal from '@/components/feed/ClassCreateModal';
 import ClassFeedList from '@/components/feed/ClassFeedList';
 import ClassJoinModal from '@/components/feed/ClassJoinModal';
 import ClassListScreen from '@/components/feed/ClassListScreen';
-import CommentInputModal from '@/components/feed/CommentInputModal';
+import ClassSettingsScreen from '@/components/feed/ClassSettingsScreen';
+import CommentInputModal, { type CommentComposerTarget } from '@/components/feed/CommentInputModal';
+import FeedFilterBar, { FEED_FILTER_BAR_HEIGHT } from '@/components/feed/FeedFilterBar';
 import FullScreenArtworkView from '@/components/feed/FullScreenArtworkView';
 import GlassMorphismCard from '@/components/ui/GlassMorphismCard';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { canManageClass } from '@/lib/classService';
+import type { ReactionEmoji } from '@/lib/supabase';
 import { useAuthStore } from '@/store/authStore';
-import { useClassStore, type PostWithUser } from '@/store/classStore';
+import { useClassStore, type FeedFilter, type PostWithUser } from '@/store/classStore';
 import { useSoloStore } from '@/store/soloStore';
 
 export default function ClassFeedScreen() {
@@ -62,11 +67,18 @@ export default function ClassFeedScreen() {
     classPosts, 
     isLoading, 
     isLoadingPosts,
+    isLoadingOlderPosts,
+    hasMorePosts,
+    feedFilter,
     loadUserClasses, 
     loadClassPosts,
+    loadOlderPosts,
+    setFeedFilter,
     setCurrentClass,
     refreshFeed,
     createComment,
+    updateComment,
+    togglePostReaction,
     markPostAsViewed,
     pendingScrollToPostId,
     setPendingScrollToPostId,
@@ -77,11 +89,15 @@ export default function ClassFeedScreen() {
   
   // Local state
   const [showJoinModal, setShowJoinModal] = useState(false);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [showClassList, setShowClassList] = useState(true); // Show class selection by default
   const [selectedPost, setSelectedPost] = useState<PostWithUser | null>(null);
+  const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [showFullScreen, setShowFullScreen] = useState(false);
   const [showCommentModal, setShowCommentModal] = useState(false);
   const [commentPost, setCommentPost] = useState<PostWithUser | null>(null);
+  const [commentTarget, setCommentTarget] = useState<CommentComposerTarget>({});
   const [scrollToPostId, setScrollToPostId] = useState<string | null>(null);
 
   // Swipe gesture values
@@ -187,6 +203,30 @@ export default function ClassFeedScreen() {
     setShowJoinModal(true);
   };
 
+  /**
+   * Handle create class button from class list
+   */
+  const handleCreateClassFromList = () => {
+    console.log('🏗️ Class Feed Screen - Opening create class modal from class list');
+    setShowCreateModal(true);
+  };
+
+  /**
+   * Handle entering a newly created class
+   */
+  const handleClassCreated = (classId: string) => {
+    console.log('🎉 Class Feed Screen - Entering newly created class:', classId);
+    handleClassSelect(classId);
+  };
+
+  /**
+   * Handle class deactivation from settings
+   */
+  const handleClassDeactivated = () => {
+    console.log('🚫 Class Feed Screen - Class deactivated, returning to class list');
+    setShowClassList(true);
+  };
+
   /**
    * Handle camera navigation
    */
@@ -219,31 +259,33 @@ export default function ClassFeedScreen() {
   /**
    * Handle artwork tap - opens full-screen view
    */
-  const handleArtworkPress = useCallback((post: PostWithUser) => {
-    console.log('🖼️ Class Feed Screen - Opening full-screen view for post:', post.id);
+  const handleArtworkPress = useCallback((post: PostWithUser, imageIndex = 0) => {
+    console.log('🖼️ Class Feed Screen - Opening full-screen view for post:', post.id, 'image:', imageIndex);
     setSelectedPost(post);
+    setSelectedImageIndex(imageIndex);
     setShowFullScreen(true);
     
-    // Mark post as viewed
-    if (user?.id && !post.user_has_viewed) {
-      console.log('👁️ Class Feed Screen - Marking post as viewed');
-      markPostAsViewed(post.id, user.id);
+    // Record the view (the full-screen view waits for this to check the view limit)
+    if (user?.id) {
+      console.log('👁️ Class Feed Screen - Recording post view');
+      markPostAsViewed(post.id);
     }
   }, [user?.id, markPostAsViewed]);
 
   /**
-   * Handle comment tap - opens comment input
+   * Handle comment tap - opens comment input (optionally replying to or editing a comment)
    */
-  const handleCommentPress = useCallback((post: PostWithUser) => {
+  const handleCommentPress = useCallback((post: PostWithUser, target: CommentComposerTarget = {}) => {
     console.log('💬 Class Feed Screen - Opening comments for post:', post.id);
     setCommentPost(post);
+    setCommentTarget(target);
     setShowCommentModal(true);
   }, []);
 
   /**
-   * Handle comment submission
+   * Handle comment submission - new comment, reply or edit
    */
-  const handleCommentSubmit = useCallback(async (postId: string, comment: string) => {
+  const handleCommentSubmit = useCallback(async (postId: string, comment: string, target: CommentComposerTarget) => {
     console.log('📤 Class Feed Screen - Submitting comment for post:', postId);
     
     if (!user?.id) {
@@ -251,7 +293,10 @@ export default function ClassFeedScreen() {
       return;
     }
 
-    const result = await createComment(postId, user.id, comment);
+    // Replies to a reply join the thread of the top-level comment
+    const result = target.editing
+      ? await updateComment(postId, target.editing.id, comment)
+      : await createComment(postId, user.id, comment, target.replyTo?.parent_comment_id ?? target.replyTo?.id, target.anchor);
     
     if (result.success) {
       console.log('✅ Class Feed Screen - Comment submitted successfully');
@@ -260,7 +305,20 @@ export default function ClassFeedScreen() {
       console.error('❌ Class Feed Screen - Failed to submit comment:', result.error);
       // Optionally show error feedback
     }
-  }, [user?.id, createComment]);
+  }, [user?.id, createComment, updateComment]);
+
+  /**
+   * Handle reaction tap on a post card
+   */
+  const handleReactionPress = useCallback(async (post: PostWithUser, emoji: ReactionEmoji) => {
+    if (!user?.id) return;
+
+    console.log('❤️ Class Feed Screen - Toggling reaction', emoji, 'on post:', post.id);
+    const result = await togglePostReaction(post.id, user.id, emoji);
+    if (!result.success) {
+      console.error('❌ Class Feed Screen - Failed to toggle reaction:', result.error);
+    }
+  }, [user?.id, togglePostReaction]);
 
   /**
    * Handle refresh
@@ -272,6 +330,34 @@ export default function ClassFeedScreen() {
     }
   }, [currentClass, user?.id, loadClassPosts]);
 
+  /**
+   * Handle loading older posts (infinite scroll upward)
+   */
+  const handleLoadOlder = useCallback(() => {
+    if (currentClass && user?.id) {
+      loadOlderPosts(currentClass.id, user.id);
+    }
+  }, [currentClass, user?.id, loadOlderPosts]);
+
+  /**
+   * Handle filter changes from the filter bar
+   */
+  const handleFilterChange = useCallback((filter: FeedFilter) => {
+    if (user?.id) {
+      setFeedFilter(filter, user.id);
+    }
+  }, [user?.id, setFeedFilter]);
+
+  /**
+   * Handle tag tap on a post - filter the feed by that tag
+   */
+  const handleTagPress = useCallback((tag: string) => {
+    console.log('🏷️ Class Feed Screen - Filtering by tag:', tag);
+    if (user?.id && tag !== feedFilter.tag) {
+      setFeedFilter({ ...feedFilter, tag }, user.id);
+    }
+  }, [user?.id, feedFilter, setFeedFilter]);
+
   /**
    * Handle scroll to specific post (for Juni integration)
    * This will be called when navigating from Juni after sharing
@@ -374,6 +460,7 @@ export default function ClassFeedScreen() {
         <ClassListScreen 
           onClassSelect={handleClassSelect}
           onJoinClass={handleJoinClassFromList}
+          onCreateClass={handleCreateClassFromList}
         />
         
         {/* Join Class Modal */}
@@ -382,6 +469,13 @@ export default function ClassFeedScreen() {
           onClose={() => setShowJoinModal(false)}
           onSuccess={handleJoinSuccess}
         />
+
+        {/* Create Class Modal */}
+        <ClassCreateModal
+          visible={showCreateModal}
+          onClose={() => setShowCreateModal(false)}
+          onCreated={handleClassCreated}
+        />
       </>
     );
   }
@@ -451,7 +545,18 @@ export default function ClassFeedScreen() {
             >
               <ThemedText style={[styles.backButtonText, { color: colors.text }]}>‹</ThemedText>
             </TouchableOpacity>
-            <ClassFeedHeader className={currentClass.name} />
+            <ClassFeedHeader className={currentClass.name}>
+              <FeedFilterBar filter={feedFilter} onChange={handleFilterChange} />
+            </ClassFeedHeader>
+            {canManageClass(currentClass.membership) && (
+              <TouchableOpacity
+                style={styles.settingsButton}
+                onPress={() => setShowSettings(true)}
+                activeOpacity={0.7}
+              >
+                <ThemedText style={styles.settingsButtonText}>⚙️</ThemedText>
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* Scrollable Feed */}
@@ -462,16 +567,23 @@ export default function ClassFeedScreen() {
             onArtworkPress={handleArtworkPress}
             onCommentPress={handleCommentPress}
             onJuniPress={handleJuniPress}
+            onTagPress={handleTagPress}
+            onReactionPress={handleReactionPress}
+            isFiltered={Boolean(feedFilter.medium || feedFilter.tag)}
             className={currentClass.name}
-            headerHeight={100} // Adjust based on actual header height
+            headerHeight={100 + FEED_FILTER_BAR_HEIGHT} // Adjust based on actual header height
             scrollToPostId={scrollToPostId}
             onScrollToPostComplete={handleScrollToPostComplete}
+            onLoadOlder={handleLoadOlder}
+            hasMore={hasMorePosts}
+            isLoadingOlder={isLoadingOlderPosts}
           />
 
           {/* Full-Screen Artwork View */}
           <FullScreenArtworkView
             visible={showFullScreen}
             post={selectedPost}
+            initialImageIndex={selectedImageIndex}
             className={currentClass.name}
             onClose={() => {
               console.log('🔙 Class Feed Screen - Closing full-screen view');
@@ -485,14 +597,24 @@ export default function ClassFeedScreen() {
           <CommentInputModal
             visible={showCommentModal}
             post={commentPost}
+            target={commentTarget}
             onClose={() => {
               console.log('🔙 Class Feed Screen - Closing comment modal');
               setShowCommentModal(false);
               setCommentPost(null);
+              setCommentTarget({});
             }}
             onSubmit={handleCommentSubmit}
           />
 
+          {/* Class Settings (teachers only) */}
+          <ClassSettingsScreen
+            visible={showSettings}
+            classData={currentClass}
+            onClose={() => setShowSettings(false)}
+            onDeactivated={handleClassDeactivated}
+          />
+
           {/* Class Join Modal (in case needed) */}
           <ClassJoinModal
             visible={showJoinModal}
@@ -550,6 +672,30 @@ const styles = StyleSheet.create({
     fontSize: 28,
     fontWeight: '300',
   },
+
+  // Settings Button (teachers only)
+  settingsButton: {
+    position: 'absolute',
+    right: 20,
+    top: Platform.OS === 'ios' ? 60 : 40,
+    zIndex: 101,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    
+    // Shadow
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  settingsButtonText: {
+    fontSize: 18,
+  },
   
   // Empty State Styles
   header: {
@@ -14,6 +14,10 @@
  * - Loading states for AI response generation
  * - RAG system integration for contextual conversations
  * - Error handling for API failures
+ * - Offline outbox: messages queue while offline and send when connectivity returns
+ * - Usage meter in the header with the messages left today (or this month)
+ * - Chat history drawer: switch, rename, delete and start chats, and search past messages
+ * - Share one or several chat images (a work-in-progress sequence) to the class feed
  * - Themed styling that adapts to light/dark mode
  * 
  * Design System: Glass morphism elegance per UIDesign.md specifications
@@ -35,13 +39,23 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { ThemedText } from '@/components/ThemedText';
+import ChatHistoryDrawer from '@/components/solo/ChatHistoryDrawer';
 import ChatInput from '@/components/solo/ChatInput';
 import ShareWithClassModal from '@/components/solo/ShareWithClassModal';
 import SoloChat from '@/components/solo/SoloChat';
+import UsageMeter from '@/components/solo/UsageMeter';
 import GlassMorphismCard from '@/components/ui/GlassMorphismCard';
+import { IconSymbol } from '@/components/ui/IconSymbol';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { createJuniPost, getUserDisplayName } from '@/lib/postService';
+import { getThumbnailUrl } from '@/lib/imageProcessing';
+import {
+  getShareFailureMessage,
+  shareToClasses,
+  type PostMetadata,
+  type PostShareSettings,
+} from '@/lib/postService';
+import { subscribeToConnectivity } from '@/lib/soloOutbox';
 import { useAuthStore } from '@/store/authStore';
 import { useClassStore } from '@/store/classStore';
 import { useSoloStore } from '@/store/soloStore';
@@ -58,23 +72,34 @@ export default function SoloTutorScreen() {
     isLoading,
     isLoadingMessages,
     isSendingMessage,
+    streamingResponse,
     error,
     messageError,
     isInitialized,
     initialize,
-    sendMessage,
+    usage,
+    outbox,
+    isOnline,
+    loadOutbox,
+    queueMessage,
+    retryOutboxMessage,
+    discardOutboxMessage,
+    setOnline,
     clearError,
     clearMessageError,
     resetShareButtonState,
     getMostRecentUserImage,
+    getUserImages,
     setShowShareButton,
   } = useSoloStore();
-  const { currentClass, setPendingScrollToPostId } = useClassStore();
+  const { currentClass, userClasses, setCurrentClass, setPendingScrollToPostId } = useClassStore();
 
   // Local state for share modal
   const [isShareModalVisible, setIsShareModalVisible] = useState(false);
   const [selectedImageForShare, setSelectedImageForShare] = useState<string | null>(null);
+  const [shareCandidateImages, setShareCandidateImages] = useState<string[]>([]);
   const [keyboardVisible, setKeyboardVisible] = useState(false);
+  const [isChatHistoryVisible, setIsChatHistoryVisible] = useState(false);
 
   // Handle keyboard visibility
   useEffect(() => {
@@ -125,6 +150,23 @@ export default function SoloTutorScreen() {
     }
   }, [user?.id, isInitialized, initialize]);
 
+  /**
+   * Restore queued messages for this user
+   */
+  useEffect(() => {
+    if (user?.id) {
+      loadOutbox(user.id);
+    }
+  }, [user?.id, loadOutbox]);
+
+  /**
+   * Track connectivity so the outbox drains when the network returns
+   */
+  useEffect(() => {
+    const unsubscribe = subscribeToConnectivity(setOnline);
+    return unsubscribe;
+  }, [setOnline]);
+
   /**
    * Reset share button state when leaving the solo tab
    * This ensures the share button visibility timer only persists while on the solo tab
@@ -159,48 +201,41 @@ export default function SoloTutorScreen() {
     
     console.log('📸 Solo Tab - Image to share:', imageUrl);
     
-    // Set image and open modal
+    // Offer every image from this chat, with the most recent one preselected
     setSelectedImageForShare(imageUrl);
+    setShareCandidateImages(getUserImages());
     setIsShareModalVisible(true);
   };
 
   /**
    * Handle sharing the image to class feed
    */
-  const handleShareToClass = async (caption: string) => {
-    console.log('🚀 Solo Tab - Sharing to class with caption:', caption);
+  const handleShareToClass = async (
+    caption: string,
+    imageUrls: string[],
+    settings: PostShareSettings,
+    metadata: PostMetadata
+  ) => {
+    console.log('🚀 Solo Tab - Sharing', imageUrls.length, 'image(s) to class with caption:', caption);
+    console.log('⚙️ Solo Tab - Share settings:', settings);
     
-    if (!user?.id || !selectedImageForShare) {
+    if (!user?.id || imageUrls.length === 0) {
       console.error('❌ Solo Tab - Missing user or image data');
       return;
     }
 
-    // Check if user has a class
-    if (!currentClass) {
-      console.log('⚠️ Solo Tab - User not enrolled in any class');
-      
-      // Add inline error message to chat
-      // TODO: Implement inline error message in chat
-      Alert.alert(
-        'No Class Selected',
-        'Please join a class before sharing your artwork.',
-        [{ text: 'OK' }]
-      );
-      return;
-    }
-
     try {
-      // Get user's display name
-      const userName = await getUserDisplayName(user.id);
-      
-      // Create the post
-      const result = await createJuniPost({
+      // Create a post in each chosen class
+      const result = await shareToClasses({
         userId: user.id,
-        imageUrl: selectedImageForShare,
+        // Solo uploads store a thumbnail next to each image; the feed falls back if it is missing
+        images: imageUrls.map(imageUrl => ({
+          imageUrl,
+          thumbnailUrl: getThumbnailUrl(imageUrl),
+        })),
         caption: caption,
-        userName: userName || undefined,
-        maxViewers: 5,
-        durationHours: 5,
+        metadata,
+        ...settings,
       });
 
       if (result.success && result.postId) {
@@ -218,6 +253,22 @@ export default function SoloTutorScreen() {
         // Navigate to class feed
         console.log('📍 Solo Tab - Navigating to class feed, post ID:', result.postId);
         
+        // Open the class the (first) post went to
+        const sharedClassId = result.results.find(classResult => classResult.success)?.classId;
+        if (sharedClassId && sharedClassId !== currentClass?.id) {
+          const targetClass = userClasses.find(userClass => userClass.id === sharedClassId);
+          if (targetClass) {
+            setCurrentClass(targetClass);
+          }
+        }
+        
+        // Let the artist know about any classes the share didn't reach
+        const failureMessage = getShareFailureMessage(result.results);
+        if (failureMessage) {
+          console.log('⚠️ Solo Tab - Some classes failed:', failureMessage);
+          Alert.alert('Shared to Some Classes', `Couldn't share to:\n${failureMessage}`, [{ text: 'OK' }]);
+        }
+        
         // Set the post ID to scroll to in the class store
         setPendingScrollToPostId(result.postId);
         
@@ -272,6 +323,20 @@ export default function SoloTutorScreen() {
         {/* Header - Minimal thin header */}
         <View style={[styles.header, { borderBottomColor: colors.border }]}>
           <View style={styles.headerContent}>
+            <View style={styles.headerRow}>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => setIsChatHistoryVisible(true)}
+                accessibilityLabel="Open chat history"
+              >
+                <IconSymbol name="line.3.horizontal" size={22} color={colors.text} />
+              </TouchableOpacity>
+              <ThemedText type="label" style={[styles.chatTitle, { color: colors.text }]} numberOfLines={1}>
+                {currentChat?.title || 'New chat'}
+              </ThemedText>
+              <View style={styles.headerButton} />
+            </View>
+            {usage && <UsageMeter usage={usage} />}
           </View>
         </View>
 
@@ -305,11 +370,16 @@ export default function SoloTutorScreen() {
           <SoloChat
             messages={messages}
             isLoading={isSendingMessage}
+            streamingResponse={streamingResponse}
             isError={!!messageError}
             errorMessage={messageError || undefined}
             onRetry={clearMessageError}
             onRefresh={() => currentChat && initialize(user.id)}
             isRefreshing={isLoadingMessages}
+            queuedMessages={outbox.filter(queued => queued.chatId === currentChat?.id)}
+            isOffline={!isOnline}
+            onRetryQueued={retryOutboxMessage}
+            onDiscardQueued={discardOutboxMessage}
           />
         </View>
 
@@ -330,7 +400,8 @@ export default function SoloTutorScreen() {
                 userEmail: user?.email
               });
               
-              await sendMessage({
+              // Queued first so the message survives a dropped connection
+              await queueMessage({
                 chatId: currentChat.id,
                 message,
                 imageUri,
@@ -348,10 +419,18 @@ export default function SoloTutorScreen() {
       {/* Share with Class Modal */}
       <ShareWithClassModal
         visible={isShareModalVisible}
-        imageUrl={selectedImageForShare}
+        imageUrls={shareCandidateImages}
+        initialSelectedUrls={selectedImageForShare ? [selectedImageForShare] : undefined}
         onClose={() => setIsShareModalVisible(false)}
         onShare={handleShareToClass}
       />
+
+      {/* Chat History Drawer */}
+      <ChatHistoryDrawer
+        visible={isChatHistoryVisible}
+        userId={user.id}
+        onClose={() => setIsChatHistoryVisible(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -396,6 +475,22 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     paddingVertical: 12,          // Reduced from 20 to 12 for thinner header
     alignItems: 'center',
+    gap: 8,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+  },
+  headerButton: {
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+  },
+  chatTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontWeight: '600',
   },
   title: {
     textAlign: 'center',
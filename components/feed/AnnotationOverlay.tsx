@@ -0,0 +1,234 @@
+/**
+ * Annotation Overlay Component
+ *
+ * Pins and boxes for comments anchored to one image of a post, drawn over that image.
+ * Features:
+ * - Numbered pins (spot) and outlined boxes (area), numbered in comment order across the post
+ * - Positions follow the image's real placement (cover crop or contain letterbox), and pins
+ *   cropped out of view are hidden
+ * - Tap a pin to highlight its comment; the highlighted pin is drawn larger in coral
+ * - Drawing mode: tap to drop a pin or drag to draw a box, with a live preview
+ * - Compact mode for feed cards: small unnumbered markers that don't take touches
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { PanResponder, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import {
+  getAnchorFrame,
+  getImageFrame,
+  isFrameVisible,
+  toCommentAnchor,
+  type AnnotationResizeMode,
+  type Point,
+  type Size,
+} from '@/lib/annotationGeometry';
+import type { CommentAnchor, PostAnnotation } from '@/lib/supabase';
+
+const PIN_SIZE = 24;
+const HIGHLIGHTED_PIN_SIZE = 30;
+const COMPACT_PIN_SIZE = 8;
+
+export interface AnnotationOverlayProps {
+  annotations: PostAnnotation[]; // Every pinned comment on the post (numbering spans images)
+  imageIndex: number; // Only this image's pins are drawn
+  containerSize: Size;
+  imageSize?: Size; // Original image size; nothing is drawn until it is known
+  resizeMode: AnnotationResizeMode;
+  compact?: boolean;
+  highlightedCommentId?: string | null;
+  onPinPress?: (commentId: string) => void;
+  onAnchorCreate?: (anchor: CommentAnchor) => void; // Enables drawing mode
+}
+
+export default function AnnotationOverlay({
+  annotations,
+  imageIndex,
+  containerSize,
+  imageSize,
+  resizeMode,
+  compact = false,
+  highlightedCommentId = null,
+  onPinPress,
+  onAnchorCreate,
+}: AnnotationOverlayProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  // Gesture in progress while drawing (container coordinates)
+  const [draft, setDraft] = useState<{ start: Point; end: Point } | null>(null);
+
+  const imageFrame = imageSize ? getImageFrame(containerSize, imageSize, resizeMode) : null;
+
+  // The responder is created once, so it reads the latest frame and callback from a ref
+  const drawingRef = useRef({ imageFrame, imageIndex, onAnchorCreate });
+  drawingRef.current = { imageFrame, imageIndex, onAnchorCreate };
+
+  const startRef = useRef<Point | null>(null);
+
+  const panResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponder: () => !!drawingRef.current.onAnchorCreate && !!drawingRef.current.imageFrame,
+    onMoveShouldSetPanResponder: () => !!drawingRef.current.onAnchorCreate && !!drawingRef.current.imageFrame,
+    onPanResponderTerminationRequest: () => false,
+    onPanResponderGrant: event => {
+      const start = { x: event.nativeEvent.locationX, y: event.nativeEvent.locationY };
+      startRef.current = start;
+      setDraft({ start, end: start });
+    },
+    onPanResponderMove: (_, gesture) => {
+      const start = startRef.current;
+      if (start) {
+        setDraft({ start, end: { x: start.x + gesture.dx, y: start.y + gesture.dy } });
+      }
+    },
+    onPanResponderRelease: (_, gesture) => {
+      const start = startRef.current;
+      const { imageFrame: frame, imageIndex: index, onAnchorCreate: onCreate } = drawingRef.current;
+      startRef.current = null;
+      setDraft(null);
+
+      if (start && frame && onCreate) {
+        const anchor = toCommentAnchor(start, { x: start.x + gesture.dx, y: start.y + gesture.dy }, frame, index);
+        if (anchor) {
+          console.log('📍 Annotation Overlay - Anchor drawn:', anchor.width ? 'area' : 'spot', 'on image', index);
+          onCreate(anchor);
+        }
+      }
+    },
+    onPanResponderTerminate: () => {
+      startRef.current = null;
+      setDraft(null);
+    },
+  }), []);
+
+  if (!imageFrame) return null;
+
+  const renderAnnotation = (annotation: PostAnnotation, number: number) => {
+    if (annotation.image_index !== imageIndex) return null;
+
+    const frame = getAnchorFrame(annotation, imageFrame);
+    if (!isFrameVisible(frame, containerSize)) return null;
+
+    const isHighlighted = annotation.comment_id === highlightedCommentId;
+    const accent = isHighlighted ? colors.accentCoral : colors.accentSage;
+    const isArea = frame.width > 0 && frame.height > 0;
+    const pinSize = compact ? COMPACT_PIN_SIZE : isHighlighted ? HIGHLIGHTED_PIN_SIZE : PIN_SIZE;
+
+    // Areas are labelled at their top-left corner, spots centred on the point
+    const pinStyle = {
+      left: frame.x - pinSize / 2,
+      top: frame.y - pinSize / 2,
+      width: pinSize,
+      height: pinSize,
+      borderRadius: pinSize / 2,
+      backgroundColor: accent,
+    };
+
+    return (
+      <React.Fragment key={annotation.comment_id}>
+        {isArea && (
+          <View
+            pointerEvents="none"
+            style={[
+              styles.area,
+              {
+                left: frame.x,
+                top: frame.y,
+                width: frame.width,
+                height: frame.height,
+                borderColor: accent,
+                borderWidth: compact ? 1 : 2,
+              },
+            ]}
+          />
+        )}
+        {compact ? (
+          <View pointerEvents="none" style={[styles.pin, styles.compactPin, pinStyle]} />
+        ) : (
+          <TouchableOpacity
+            style={[styles.pin, pinStyle]}
+            onPress={() => onPinPress?.(annotation.comment_id)}
+            disabled={!onPinPress || !!onAnchorCreate}
+            activeOpacity={0.8}
+            accessibilityLabel={`Show comment ${number}`}
+          >
+            <ThemedText style={styles.pinNumber}>{number}</ThemedText>
+          </TouchableOpacity>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  const renderDraft = () => {
+    if (!draft) return null;
+
+    const left = Math.min(draft.start.x, draft.end.x);
+    const top = Math.min(draft.start.y, draft.end.y);
+
+    return (
+      <View
+        pointerEvents="none"
+        style={[
+          styles.area,
+          styles.draft,
+          {
+            left,
+            top,
+            width: Math.abs(draft.end.x - draft.start.x),
+            height: Math.abs(draft.end.y - draft.start.y),
+            borderColor: colors.accentCoral,
+          },
+        ]}
+      />
+    );
+  };
+
+  return (
+    <View
+      style={StyleSheet.absoluteFill}
+      pointerEvents={compact ? 'none' : onAnchorCreate ? 'auto' : 'box-none'}
+      {...(onAnchorCreate ? panResponder.panHandlers : {})}
+    >
+      {/* Pins ignore touches while drawing, so touch positions are measured from the overlay */}
+      <View style={StyleSheet.absoluteFill} pointerEvents={onAnchorCreate ? 'none' : 'box-none'}>
+        {annotations.map((annotation, index) => renderAnnotation(annotation, index + 1))}
+      </View>
+      {renderDraft()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  area: {
+    position: 'absolute',
+    borderRadius: 4,
+  },
+  draft: {
+    borderWidth: 2,
+    borderStyle: 'dashed',
+  },
+  pin: {
+    position: 'absolute',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: 'white',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.3,
+    shadowRadius: 2,
+    elevation: 3,
+  },
+  compactPin: {
+    borderWidth: 1,
+  },
+  pinNumber: {
+    color: 'white',
+    fontSize: 12,
+    lineHeight: 16,
+    fontWeight: '600',
+  },
+});
@@ -4,20 +4,25 @@
  * Individual artwork card for the redesigned class feed interface.
  * Features:
  * - 70% screen width with fixed aspect ratio
- * - Caption/question header from artist for feedback requests
+ * - Loads the post's thumbnails, falling back to the full image if one is missing
+ * - Swipeable carousel for multi-image posts (work-in-progress sequences)
+ * - Artist's chosen frame (classic, modern, vintage) drawn around the artwork
+ * - Title and caption/question header from artist for feedback requests
+ * - Medium, size and time spent line, plus tags (tap a tag to filter the feed)
  * - Primary glass morphism card for artwork container
  * - Secondary glass morphism metadata strip (no gap)
- * - Artist name, view count, expiry timer, and comment icon
+ * - Artist name, view count, expiry timer, and comment icon with comment count
+ * - Emoji reactions on the post (tap to toggle)
+ * - Small markers for comments pinned to the artwork, placed through the square crop
  * - Juni AI icon positioned on side border of artwork
  * - Tap handlers for artwork (full-screen) and comment icon
  * - Typography per UIDesign.md specifications
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
     ActivityIndicator,
     Dimensions,
-    Image,
     Platform,
     StyleSheet,
     TouchableOpacity,
@@ -25,19 +30,30 @@ import {
 } from 'react-native';
 
 import { ThemedText } from '@/components/ThemedText';
+import AnnotationOverlay from '@/components/feed/AnnotationOverlay';
+import ArtworkFrame from '@/components/feed/ArtworkFrame';
+import ArtworkImageCarousel from '@/components/feed/ArtworkImageCarousel';
+import ReactionBar from '@/components/feed/ReactionBar';
 import GlassMorphismCard from '@/components/ui/GlassMorphismCard';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { Colors } from '@/constants/Colors';
+import { getArtMediumLabel } from '@/constants/ArtMediums';
+import { getFrameInset, getFrameStyleSpec } from '@/constants/FrameStyles';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import type { Size } from '@/lib/annotationGeometry';
+import { formatTimeSpent, getPostImages } from '@/lib/postService';
+import type { ReactionEmoji } from '@/lib/supabase';
 import type { PostWithUser } from '@/store/classStore';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
 export interface ArtworkCardProps {
   post: PostWithUser;
-  onArtworkPress: (post: PostWithUser) => void;
+  onArtworkPress: (post: PostWithUser, imageIndex?: number) => void;
   onCommentPress: (post: PostWithUser) => void;
   onJuniPress?: (post: PostWithUser) => void; // New prop for Juni navigation
+  onTagPress?: (tag: string) => void; // Filter the feed by a tag
+  onReactionPress?: (post: PostWithUser, emoji: ReactionEmoji) => void; // Toggle the user's reaction
   isLoading?: boolean; // Loading state for individual card
 }
 
@@ -46,6 +62,8 @@ export default function ArtworkCard({
   onArtworkPress,
   onCommentPress,
   onJuniPress,
+  onTagPress,
+  onReactionPress,
   isLoading = false,
 }: ArtworkCardProps) {
   console.log('🎨 Artwork Card - Rendering card for post:', post.id, 'Loading:', isLoading);
@@ -54,6 +72,14 @@ export default function ArtworkCard({
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
 
+  // Image the carousel is showing, so the full-screen view opens on the same one
+  const [activeImageIndex, setActiveImageIndex] = useState(0);
+  const images = getPostImages(post);
+
+  // Original image sizes, so pinned comments land on the right spot inside the square crop
+  const [imageSizes, setImageSizes] = useState<Record<number, Size>>({});
+  const annotations = post.annotations ?? [];
+
   /**
    * Calculate card dimensions
    * 70% screen width with square aspect ratio
@@ -61,6 +87,12 @@ export default function ArtworkCard({
   const cardWidth = SCREEN_WIDTH * 0.7;
   const cardHeight = cardWidth; // Square aspect ratio
 
+  // The frame sits inside the card, so the artwork shrinks by the frame inset
+  const frameSpec = getFrameStyleSpec(post.frame_style);
+  const frameInset = getFrameInset(post.frame_style);
+  const artworkSize = cardWidth - frameInset * 2;
+  const artworkRadius = frameInset > 0 ? 0 : frameSpec.borderRadius;
+
   /**
    * Format time remaining for expiry timer
    */
@@ -107,12 +139,39 @@ export default function ArtworkCard({
     return post.description;
   };
 
+  /**
+   * Medium, size and time spent joined into one line, e.g. "Charcoal · 9 x 12 in · 2 h"
+   */
+  const getArtworkDetails = () => {
+    const details = [
+      getArtMediumLabel(post.medium),
+      post.dimensions,
+      post.time_spent_minutes ? formatTimeSpent(post.time_spent_minutes) : null,
+    ].filter(Boolean);
+
+    return details.length > 0 ? details.join(' · ') : null;
+  };
+
+  const artworkDetails = getArtworkDetails();
+  const tags = post.tags || [];
+
   /**
    * Handle artwork tap - opens full-screen view
    */
-  const handleArtworkPress = () => {
-    console.log('🖼️ Artwork Card - Artwork tapped for post:', post.id);
-    onArtworkPress(post);
+  const handleArtworkPress = (imageIndex = activeImageIndex) => {
+    console.log('🖼️ Artwork Card - Artwork tapped for post:', post.id, 'image:', imageIndex);
+    onArtworkPress(post, imageIndex);
+  };
+
+  /**
+   * Remember each image's original size (pins can arrive after the image has loaded)
+   */
+  const handleImageLoad = (index: number, size: Size) => {
+    setImageSizes(current => (
+      current[index]?.width === size.width && current[index]?.height === size.height
+        ? current
+        : { ...current, [index]: size }
+    ));
   };
 
   /**
@@ -167,8 +226,13 @@ export default function ArtworkCard({
 
   return (
     <View style={styles.container}>
-      {/* Caption/Question Header */}
+      {/* Title and Caption/Question Header */}
       <GlassMorphismCard type="secondary" style={[styles.captionCard, { width: cardWidth }]}>
+        {post.title ? (
+          <ThemedText type="username" style={[styles.titleText, { color: colors.text }]}>
+            {post.title}
+          </ThemedText>
+        ) : null}
         <ThemedText type="bodyText" style={[styles.captionText, { color: colors.accentDarkSage }]}>
           {getArtistCaption()}
         </ThemedText>
@@ -178,24 +242,43 @@ export default function ArtworkCard({
         {/* Artwork Container with relative positioning for overlay */}
         <View style={styles.artworkWrapper}>
           {/* Artwork Image */}
-          <TouchableOpacity
-            style={styles.artworkContainer}
-            onPress={handleArtworkPress}
-            activeOpacity={0.9}
-          >
+          <View style={[styles.artworkContainer, { borderRadius: frameSpec.borderRadius }]}>
             {isLoading ? (
               // Loading skeleton
-              <View style={[styles.artwork, styles.loadingSkeleton, { backgroundColor: colors.border }]}>
+              <TouchableOpacity
+                style={[styles.artwork, styles.loadingSkeleton, { backgroundColor: colors.border }]}
+                onPress={() => handleArtworkPress()}
+                activeOpacity={0.9}
+              >
                 <ActivityIndicator size="large" color={colors.accentSage} />
-              </View>
+              </TouchableOpacity>
             ) : (
-              <Image
-                source={{ uri: post.image_url }}
-                style={styles.artwork}
-                resizeMode="cover"
-              />
+              <ArtworkFrame frameStyle={post.frame_style} width={cardWidth} height={cardHeight}>
+                <ArtworkImageCarousel
+                  images={images}
+                  width={artworkSize}
+                  height={artworkSize}
+                  useThumbnails
+                  imageStyle={[styles.artwork, { borderRadius: artworkRadius }]}
+                  onPress={handleArtworkPress}
+                  onIndexChange={setActiveImageIndex}
+                  onImageLoad={handleImageLoad}
+                  renderOverlay={annotations.length > 0
+                    ? index => (
+                        <AnnotationOverlay
+                          annotations={annotations}
+                          imageIndex={index}
+                          containerSize={{ width: artworkSize, height: artworkSize }}
+                          imageSize={imageSizes[index]}
+                          resizeMode="cover"
+                          compact
+                        />
+                      )
+                    : undefined}
+                />
+              </ArtworkFrame>
             )}
-          </TouchableOpacity>
+          </View>
           
           {/* Juni AI Icon Overlay - Right Side Border */}
           {onJuniPress && !isLoading && (
@@ -224,6 +307,11 @@ export default function ArtworkCard({
               <ThemedText type="username" style={[styles.artistName, { color: colors.text }]}>
                 {getArtistName()}
               </ThemedText>
+              {artworkDetails && (
+                <ThemedText type="metadata" style={[styles.metadata, { color: colors.textSecondary }]}>
+                  {artworkDetails}
+                </ThemedText>
+              )}
               <View style={styles.statsRow}>
                 <ThemedText type="metadata" style={[styles.metadata, { color: colors.textSecondary }]}>
                   👁 {post.view_count}/{post.max_viewers}
@@ -232,6 +320,29 @@ export default function ArtworkCard({
                   ⏰ {formatTimeRemaining(post.expires_at)}
                 </ThemedText>
               </View>
+              {tags.length > 0 && (
+                <View style={styles.tagsRow}>
+                  {tags.map(tag => (
+                    <TouchableOpacity
+                      key={tag}
+                      onPress={() => onTagPress?.(tag)}
+                      disabled={!onTagPress}
+                      activeOpacity={0.7}
+                    >
+                      <ThemedText type="metadata" style={[styles.metadata, { color: colors.accentDarkSage }]}>
+                        #{tag}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              <View style={styles.reactionsRow}>
+                <ReactionBar
+                  reactions={post.reactions}
+                  onToggle={onReactionPress ? emoji => onReactionPress(post, emoji) : undefined}
+                  size="small"
+                />
+              </View>
             </View>
 
             {/* Right Side - Comment Icon */}
@@ -246,6 +357,11 @@ export default function ArtworkCard({
                 >
                   💬
                 </ThemedText>
+                {post.comments_count > 0 && (
+                  <ThemedText type="metadata" style={[styles.metadata, { color: colors.textSecondary }]}>
+                    {post.comments_count}
+                  </ThemedText>
+                )}
               </TouchableOpacity>
             </View>
           </View>
@@ -265,6 +381,13 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     marginBottom: 8,              // Small gap between caption and artwork
   },
+  titleText: {
+    fontSize: 17,
+    fontFamily: Platform.OS === 'ios' ? 'InstrumentSerif-Regular' : 'serif',
+    lineHeight: 22,
+    textAlign: 'center',
+    marginBottom: 2,
+  },
   captionText: {
     fontSize: 15,                 // Body text size per UIDesign.md (14-16pt)
     fontWeight: '400',            // Regular weight for Montserrat
@@ -321,6 +444,15 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  tagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    columnGap: 8,
+    marginTop: 2,
+  },
+  reactionsRow: {
+    marginTop: 4,
+  },
   metadata: {
     fontSize: 11, // Small details per UIDesign.md
     fontWeight: '400', // Regular weight for Montserrat
@@ -333,6 +465,9 @@ const styles = StyleSheet.create({
     gap: 8, // Space between icons
   },
   actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
     padding: 4,
   },
   actionIcon: {
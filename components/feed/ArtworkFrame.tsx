@@ -0,0 +1,86 @@
+/**
+ * Artwork Frame Component
+ *
+ * Draws the artist's chosen frame around shared artwork.
+ * Features:
+ * - Outer moulding and optional mat from constants/FrameStyles
+ * - Fixed outer size; the artwork gets what is left inside (see getFrameInset)
+ * - Renders the artwork unchanged for 'none' and unknown styles
+ */
+
+import React from 'react';
+import { StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { getFrameStyleSpec } from '@/constants/FrameStyles';
+
+export interface ArtworkFrameProps {
+  frameStyle: string | null | undefined;
+  width: number;
+  height: number;
+  style?: StyleProp<ViewStyle>;
+  children: React.ReactNode;
+}
+
+export default function ArtworkFrame({
+  frameStyle,
+  width,
+  height,
+  style,
+  children,
+}: ArtworkFrameProps) {
+  const spec = getFrameStyleSpec(frameStyle);
+
+  if (spec.frameWidth === 0 && spec.matWidth === 0) {
+    return <View style={[{ width, height }, style]}>{children}</View>;
+  }
+
+  return (
+    <View
+      style={[
+        styles.frame,
+        {
+          width,
+          height,
+          padding: spec.frameWidth - StyleSheet.hairlineWidth, // The edge line is part of the moulding
+          backgroundColor: spec.frameColor,
+          borderRadius: spec.borderRadius,
+          borderColor: spec.frameBorderColor ?? spec.frameColor,
+        },
+        style,
+      ]}
+    >
+      <View
+        style={[
+          styles.mat,
+          {
+            padding: spec.matWidth,
+            backgroundColor: spec.matColor,
+            borderRadius: Math.max(spec.borderRadius - spec.frameWidth / 2, 0),
+          },
+        ]}
+      >
+        <View style={styles.artwork}>{children}</View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  frame: {
+    borderWidth: StyleSheet.hairlineWidth,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  mat: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+  artwork: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+});
@@ -0,0 +1,197 @@
+/**
+ * Artwork Image Carousel Component
+ *
+ * Swipeable, paged image strip for multi-image posts (work-in-progress sequences).
+ * Features:
+ * - Horizontal paging through a post's images in order
+ * - Optional thumbnail mode for the feed, falling back to the full image per page
+ * - Page dots and a "2 / 3" step label when a post has more than one image (optional)
+ * - Renders a plain image (no scrolling) for single-image posts
+ * - Tap handler that reports the visible image index
+ * - Per-image overlay (e.g. annotation pins) that scrolls with its image, and each image's
+ *   original size once loaded
+ */
+
+import React, { useCallback, useState, type ReactNode } from 'react';
+import {
+    FlatList,
+    Image,
+    ImageLoadEventData,
+    NativeScrollEvent,
+    NativeSyntheticEvent,
+    StyleSheet,
+    TouchableOpacity,
+    View,
+    type ImageStyle,
+    type StyleProp,
+} from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import type { Size } from '@/lib/annotationGeometry';
+import type { PostImage } from '@/lib/supabase';
+
+export interface ArtworkImageCarouselProps {
+  images: Pick<PostImage, 'image_url' | 'thumbnail_url'>[];
+  width: number;
+  height: number;
+  useThumbnails?: boolean; // Feed cards load thumbnails; the full-screen view loads full images
+  initialIndex?: number;
+  resizeMode?: 'cover' | 'contain';
+  imageStyle?: StyleProp<ImageStyle>;
+  showIndicators?: boolean; // Hide when the parent shows its own position (e.g. behind overlays)
+  onPress?: (index: number) => void;
+  onIndexChange?: (index: number) => void;
+  onImageLoad?: (index: number, size: Size) => void; // Original pixel size of each image
+  renderOverlay?: (index: number) => ReactNode; // Drawn over each image, same size as the page
+}
+
+export default function ArtworkImageCarousel({
+  images,
+  width,
+  height,
+  useThumbnails = false,
+  initialIndex = 0,
+  resizeMode = 'cover',
+  imageStyle,
+  showIndicators = true,
+  onPress,
+  onIndexChange,
+  onImageLoad,
+  renderOverlay,
+}: ArtworkImageCarouselProps) {
+  const [activeIndex, setActiveIndex] = useState(
+    Math.min(Math.max(initialIndex, 0), Math.max(images.length - 1, 0))
+  );
+
+  // Pages whose thumbnail failed to load (older posts have none), shown with the full image
+  const [failedThumbnails, setFailedThumbnails] = useState<Record<number, boolean>>({});
+
+  const getImageUri = (image: Pick<PostImage, 'image_url' | 'thumbnail_url'>, index: number) =>
+    useThumbnails && image.thumbnail_url && !failedThumbnails[index]
+      ? image.thumbnail_url
+      : image.image_url;
+
+  const handleImageLoad = (index: number, event: NativeSyntheticEvent<ImageLoadEventData>) => {
+    const { width: imageWidth, height: imageHeight } = event.nativeEvent.source;
+    if (imageWidth > 0 && imageHeight > 0) {
+      onImageLoad?.(index, { width: imageWidth, height: imageHeight });
+    }
+  };
+
+  const handleImageError = (image: Pick<PostImage, 'image_url' | 'thumbnail_url'>, index: number) => {
+    if (getImageUri(image, index) !== image.image_url) {
+      console.log('⚠️ Artwork Carousel - Thumbnail failed to load, using full image:', index);
+      setFailedThumbnails(current => ({ ...current, [index]: true }));
+    }
+  };
+
+  /**
+   * Track the visible page once a swipe settles
+   */
+  const handleMomentumScrollEnd = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const index = Math.round(event.nativeEvent.contentOffset.x / width);
+    setActiveIndex(index);
+    onIndexChange?.(index);
+  }, [width, onIndexChange]);
+
+  const renderImage = (image: Pick<PostImage, 'image_url' | 'thumbnail_url'>, index: number) => (
+    <TouchableOpacity
+      activeOpacity={0.9}
+      disabled={!onPress}
+      onPress={() => onPress?.(index)}
+      style={{ width, height }}
+    >
+      <Image
+        source={{ uri: getImageUri(image, index) }}
+        style={[styles.image, imageStyle]}
+        resizeMode={resizeMode}
+        onLoad={event => handleImageLoad(index, event)}
+        onError={() => handleImageError(image, index)}
+      />
+      {renderOverlay && (
+        <View style={StyleSheet.absoluteFill} pointerEvents="box-none">
+          {renderOverlay(index)}
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  if (images.length <= 1) {
+    return images[0] ? renderImage(images[0], 0) : null;
+  }
+
+  return (
+    <View style={{ width, height }}>
+      <FlatList
+        data={images}
+        keyExtractor={(image, index) => `${index}-${image.image_url}`}
+        horizontal
+        pagingEnabled
+        showsHorizontalScrollIndicator={false}
+        initialScrollIndex={activeIndex}
+        getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+        onMomentumScrollEnd={handleMomentumScrollEnd}
+        renderItem={({ item, index }) => renderImage(item, index)}
+        extraData={renderOverlay}
+      />
+
+      {showIndicators && (
+        <>
+          {/* Step label */}
+          <View style={styles.stepBadge} pointerEvents="none">
+            <ThemedText type="caption" style={styles.stepText}>
+              {activeIndex + 1} / {images.length}
+            </ThemedText>
+          </View>
+
+          {/* Page dots */}
+          <View style={styles.dots} pointerEvents="none">
+            {images.map((image, index) => (
+              <View
+                key={`${index}-${image.image_url}`}
+                style={[styles.dot, index === activeIndex && styles.dotActive]}
+              />
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  stepBadge: {
+    position: 'absolute',
+    top: 10,
+    left: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+  },
+  stepText: {
+    color: 'white',
+  },
+  dots: {
+    position: 'absolute',
+    bottom: 10,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  dotActive: {
+    backgroundColor: 'white',
+  },
+});
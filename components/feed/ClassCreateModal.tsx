@@ -0,0 +1,359 @@
+/**
+ * Class Create Modal Component
+ *
+ * This modal lets a user create a new class and become its teacher.
+ * Features:
+ * - Name, description and max students fields
+ * - Calls createClass through the class store (creator auto-joins as teacher)
+ * - Shows the generated join code with copy/share once the class is created
+ * - Glass morphism design matching ClassJoinModal per UIDesign.md
+ */
+
+import React, { useState } from 'react';
+import {
+    Alert,
+    Dimensions,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    StyleSheet,
+    TextInput,
+    TouchableOpacity,
+    TouchableWithoutFeedback,
+    View
+} from 'react-native';
+
+import { Colors } from '../../constants/Colors';
+import { useColorScheme } from '../../hooks/useColorScheme';
+import type { Class } from '../../lib/supabase';
+import { useAuthStore } from '../../store/authStore';
+import { useClassStore } from '../../store/classStore';
+import { ThemedText } from '../ThemedText';
+import GlassMorphismCard from '../ui/GlassMorphismCard';
+import JoinCodeCard from './JoinCodeCard';
+
+const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+
+const DEFAULT_MAX_STUDENTS = 30;
+
+interface ClassCreateModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onCreated?: (classId: string) => void;
+}
+
+export default function ClassCreateModal({ visible, onClose, onCreated }: ClassCreateModalProps) {
+  console.log('🏗️ Class Create Modal - Rendering class create modal');
+
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  // Form state
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [maxStudents, setMaxStudents] = useState(String(DEFAULT_MAX_STUDENTS));
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdClass, setCreatedClass] = useState<Class | null>(null);
+
+  // Stores
+  const { user } = useAuthStore();
+  const { createNewClass } = useClassStore();
+
+  /**
+   * Reset the form for the next time the modal opens
+   */
+  const resetForm = () => {
+    setName('');
+    setDescription('');
+    setMaxStudents(String(DEFAULT_MAX_STUDENTS));
+    setCreatedClass(null);
+  };
+
+  /**
+   * Handle class creation
+   */
+  const handleCreateClass = async () => {
+    console.log('🚀 Class Create Modal - Creating class:', name);
+
+    if (!user) {
+      Alert.alert('Error', 'You must be logged in to create a class.');
+      return;
+    }
+
+    const parsedMaxStudents = parseInt(maxStudents, 10);
+    if (!Number.isInteger(parsedMaxStudents) || parsedMaxStudents < 1) {
+      Alert.alert('Invalid Class Size', 'Max students must be a whole number greater than 0.');
+      return;
+    }
+
+    setIsCreating(true);
+
+    try {
+      const result = await createNewClass(
+        {
+          name,
+          description: description || undefined,
+          maxStudents: parsedMaxStudents,
+        },
+        user.id
+      );
+
+      if (result.success && result.class) {
+        console.log('🎉 Class Create Modal - Class created with code:', result.class.join_code);
+        setCreatedClass(result.class);
+      } else {
+        Alert.alert('Unable to Create Class', result.error || 'Please try again.');
+      }
+    } catch (error) {
+      console.error('❌ Class Create Modal - Unexpected error:', error);
+      Alert.alert('Error', 'An unexpected error occurred. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  /**
+   * Handle modal dismissal
+   */
+  const handleClose = () => {
+    if (isCreating) return;
+    resetForm();
+    onClose();
+  };
+
+  /**
+   * Enter the newly created class
+   */
+  const handleOpenClass = () => {
+    if (!createdClass) return;
+    const classId = createdClass.id;
+    resetForm();
+    onClose();
+    onCreated?.(classId);
+  };
+
+  const canSubmit = name.trim().length > 0 && !isCreating;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <TouchableWithoutFeedback onPress={handleClose}>
+        <View style={styles.modalBackdrop}>
+          <TouchableWithoutFeedback onPress={() => {}}>
+            <KeyboardAvoidingView
+              behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+              style={styles.modalContainer}
+            >
+              <GlassMorphismCard type="primary" style={styles.modalCard}>
+                {createdClass ? (
+                  // Success step: share the join code
+                  <View style={styles.modalContent}>
+                    <View style={styles.header}>
+                      <ThemedText type="screenTitle" style={[styles.title, { color: colors.text }]}>
+                        Class Created!
+                      </ThemedText>
+                      <ThemedText type="bodyText" style={[styles.subtitle, { color: colors.textSecondary }]}>
+                        Share this code with your students so they can join {createdClass.name}.
+                      </ThemedText>
+                    </View>
+
+                    {createdClass.join_code && (
+                      <JoinCodeCard joinCode={createdClass.join_code} className={createdClass.name} />
+                    )}
+
+                    <View style={styles.buttonContainer}>
+                      <TouchableOpacity
+                        style={[styles.primaryButton, { backgroundColor: colors.accentSage }]}
+                        onPress={handleOpenClass}
+                        activeOpacity={0.8}
+                      >
+                        <ThemedText type="button" style={[styles.primaryButtonText, { color: '#FFFFFF' }]}>
+                          Go to Class
+                        </ThemedText>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.cancelButton, { borderColor: colors.border }]}
+                        onPress={handleClose}
+                        activeOpacity={0.8}
+                      >
+                        <ThemedText type="button" style={[styles.cancelButtonText, { color: colors.textSecondary }]}>
+                          Done
+                        </ThemedText>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ) : (
+                  // Form step
+                  <View style={styles.modalContent}>
+                    <View style={styles.header}>
+                      <ThemedText type="screenTitle" style={[styles.title, { color: colors.text }]}>
+                        Create a Class
+                      </ThemedText>
+                      <ThemedText type="bodyText" style={[styles.subtitle, { color: colors.textSecondary }]}>
+                        You&apos;ll be the teacher and get a join code to share.
+                      </ThemedText>
+                    </View>
+
+                    <View style={styles.inputSection}>
+                      <ThemedText type="label" style={{ color: colors.text }}>
+                        Class Name
+                      </ThemedText>
+                      <TextInput
+                        style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+                        value={name}
+                        onChangeText={setName}
+                        placeholder="Monday Drawing Fundamentals"
+                        placeholderTextColor={colors.textTertiary}
+                        maxLength={80}
+                        editable={!isCreating}
+                      />
+
+                      <ThemedText type="label" style={{ color: colors.text }}>
+                        Description (optional)
+                      </ThemedText>
+                      <TextInput
+                        style={[styles.input, styles.multilineInput, { borderColor: colors.border, color: colors.text }]}
+                        value={description}
+                        onChangeText={setDescription}
+                        placeholder="What will this class focus on?"
+                        placeholderTextColor={colors.textTertiary}
+                        maxLength={200}
+                        multiline
+                        editable={!isCreating}
+                      />
+
+                      <ThemedText type="label" style={{ color: colors.text }}>
+                        Max Students
+                      </ThemedText>
+                      <TextInput
+                        style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+                        value={maxStudents}
+                        onChangeText={(text) => setMaxStudents(text.replace(/[^0-9]/g, ''))}
+                        keyboardType="number-pad"
+                        maxLength={3}
+                        editable={!isCreating}
+                      />
+                    </View>
+
+                    <View style={styles.buttonContainer}>
+                      <TouchableOpacity
+                        style={[
+                          styles.primaryButton,
+                          { backgroundColor: canSubmit ? colors.accentSage : colors.surface }
+                        ]}
+                        onPress={handleCreateClass}
+                        disabled={!canSubmit}
+                        activeOpacity={0.8}
+                      >
+                        <ThemedText type="button" style={[
+                          styles.primaryButtonText,
+                          { color: canSubmit ? '#FFFFFF' : colors.textSecondary }
+                        ]}>
+                          {isCreating ? 'Creating...' : 'Create Class'}
+                        </ThemedText>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.cancelButton, { borderColor: colors.border, opacity: isCreating ? 0.6 : 1 }]}
+                        onPress={handleClose}
+                        disabled={isCreating}
+                        activeOpacity={0.8}
+                      >
+                        <ThemedText type="button" style={[styles.cancelButtonText, { color: colors.textSecondary }]}>
+                          Cancel
+                        </ThemedText>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                )}
+              </GlassMorphismCard>
+            </KeyboardAvoidingView>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    width: '100%',
+  },
+  modalCard: {
+    width: Math.min(screenWidth - 48, 400),
+    maxHeight: screenHeight * 0.85,
+  },
+  modalContent: {
+    padding: 32,
+    gap: 24,
+  },
+
+  // Header
+  header: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+
+  // Inputs
+  inputSection: {
+    gap: 8,
+  },
+  input: {
+    minHeight: 48,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  multilineInput: {
+    minHeight: 72,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+
+  // Buttons
+  buttonContainer: {
+    gap: 12,
+  },
+  primaryButton: {
+    height: 56,
+    borderRadius: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -8,6 +8,7 @@
  * - Glass morphism styling consistent with app design system
  * - Safe area handling for iOS notches and Android status bars
  * - Subtle shadow/border to separate from scrolling content
+ * - Optional content under the title card (e.g. the feed filter bar)
  */
 
 import React from 'react';
@@ -25,9 +26,10 @@ import { useColorScheme } from '@/hooks/useColorScheme';
 
 export interface ClassFeedHeaderProps {
   className: string;
+  children?: React.ReactNode; // Rendered under the title card
 }
 
-export default function ClassFeedHeader({ className }: ClassFeedHeaderProps) {
+export default function ClassFeedHeader({ className, children }: ClassFeedHeaderProps) {
   console.log('📚 Class Feed Header - Rendering header for class:', className);
   
   const colorScheme = useColorScheme();
@@ -46,6 +48,7 @@ export default function ClassFeedHeader({ className }: ClassFeedHeaderProps) {
             </ThemedText>
           </View>
         </GlassMorphismCard>
+        {children}
       </SafeAreaView>
     </View>
   );
@@ -8,13 +8,18 @@
  * - Pull-to-refresh functionality
  * - Loading states for individual cards
  * - Scroll-to-post functionality for Juni integration
- * - Empty state handling
+ * - Infinite scroll upward: older posts load when nearing the top of the feed
+ * - Tap a post's tag to filter the feed by it
+ * - Empty state handling (including when a filter matches nothing)
  */
 
 import React, { useCallback, useEffect, useRef } from 'react';
 import {
+    ActivityIndicator,
     Dimensions,
     FlatList,
+    NativeScrollEvent,
+    NativeSyntheticEvent,
     RefreshControl,
     StyleSheet,
     View,
@@ -25,21 +30,31 @@ import { ThemedText } from '@/components/ThemedText';
 import GlassMorphismCard from '@/components/ui/GlassMorphismCard';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import type { ReactionEmoji } from '@/lib/supabase';
 import type { PostWithUser } from '@/store/classStore';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
+// Distance from the top of the list (in px) at which older posts start loading
+const LOAD_OLDER_THRESHOLD = 400;
+
 export interface ClassFeedListProps {
   posts: PostWithUser[];
   isLoading: boolean;
   onRefresh: () => void;
-  onArtworkPress: (post: PostWithUser) => void;
+  onArtworkPress: (post: PostWithUser, imageIndex?: number) => void;
   onCommentPress: (post: PostWithUser) => void;
   onJuniPress?: (post: PostWithUser) => void; // New prop for Juni navigation
+  onTagPress?: (tag: string) => void; // Filter the feed by a tag
+  onReactionPress?: (post: PostWithUser, emoji: ReactionEmoji) => void; // Toggle a reaction on a post
+  isFiltered?: boolean; // Whether a medium or tag filter is applied
   className: string;
   headerHeight?: number; // Height of fixed header to add padding
   scrollToPostId?: string | null; // Post ID to scroll to when set
   onScrollToPostComplete?: () => void; // Callback when scroll completes
+  onLoadOlder?: () => void; // Load the next page of older posts
+  hasMore?: boolean; // Whether older posts are available
+  isLoadingOlder?: boolean; // Whether an older page is currently loading
 }
 
 export default function ClassFeedList({
@@ -49,16 +64,54 @@ export default function ClassFeedList({
   onArtworkPress,
   onCommentPress,
   onJuniPress,
+  onTagPress,
+  onReactionPress,
+  isFiltered = false,
   className,
   headerHeight = 100, // Default header height including safe area
   scrollToPostId,
   onScrollToPostComplete,
+  onLoadOlder,
+  hasMore = false,
+  isLoadingOlder = false,
 }: ClassFeedListProps) {
   console.log('📋 Class Feed List - Rendering list with', posts.length, 'posts');
   
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const listRef = useRef<FlatList<PostWithUser>>(null);
+  const hasScrolledToLatestRef = useRef(false);
+
+  /**
+   * Start at the newest post (bottom) when the feed first loads
+   */
+  useEffect(() => {
+    if (posts.length === 0) {
+      hasScrolledToLatestRef.current = false;
+      return;
+    }
+
+    if (!hasScrolledToLatestRef.current && !scrollToPostId) {
+      hasScrolledToLatestRef.current = true;
+      setTimeout(() => {
+        listRef.current?.scrollToEnd({ animated: false });
+      }, 100);
+    }
+  }, [posts.length, scrollToPostId]);
+
+  /**
+   * Load older posts when the user scrolls near the top
+   */
+  const handleScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (!onLoadOlder || !hasMore || isLoadingOlder || !hasScrolledToLatestRef.current) {
+      return;
+    }
+
+    if (event.nativeEvent.contentOffset.y <= LOAD_OLDER_THRESHOLD) {
+      console.log('📜 Class Feed List - Near top, loading older posts');
+      onLoadOlder();
+    }
+  }, [onLoadOlder, hasMore, isLoadingOlder]);
 
   /**
    * Effect to handle scroll-to-post when scrollToPostId is provided
@@ -95,8 +148,10 @@ export default function ClassFeedList({
       onArtworkPress={onArtworkPress}
       onCommentPress={onCommentPress}
       onJuniPress={onJuniPress}
+      onTagPress={onTagPress}
+      onReactionPress={onReactionPress}
     />
-  ), [onArtworkPress, onCommentPress, onJuniPress]);
+  ), [onArtworkPress, onCommentPress, onJuniPress, onTagPress, onReactionPress]);
 
   /**
    * Key extractor for FlatList
@@ -110,10 +165,12 @@ export default function ClassFeedList({
     <View style={[styles.emptyStateContainer, { minHeight: SCREEN_HEIGHT - headerHeight - 100 }]}>
       <GlassMorphismCard type="primary" style={styles.emptyStateCard}>
         <ThemedText type="screenTitle" style={[styles.emptyStateTitle, { color: colors.text }]}>
-          Share your art
+          {isFiltered ? 'No matching artwork' : 'Share your art'}
         </ThemedText>
         <ThemedText type="bodyText" style={[styles.emptyStateText, { color: colors.textSecondary }]}>
-          Be the first to share artwork in {className}
+          {isFiltered
+            ? `No posts in ${className} match this filter yet`
+            : `Be the first to share artwork in ${className}`}
         </ThemedText>
       </GlassMorphismCard>
     </View>
@@ -156,6 +213,10 @@ export default function ClassFeedList({
           />
         }
         ListEmptyComponent={renderEmptyState}
+        onScroll={handleScroll}
+        scrollEventThrottle={100}
+        // Keep the visible post in place when older posts are prepended
+        maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
         // Performance optimizations
         removeClippedSubviews={true}
         maxToRenderPerBatch={5}
@@ -168,6 +229,13 @@ export default function ClassFeedList({
           index,
         })}
       />
+
+      {/* Older posts loading indicator (overlay so item offsets stay fixed) */}
+      {isLoadingOlder && (
+        <View style={[styles.loadingOlderContainer, { top: headerHeight }]} pointerEvents="none">
+          <ActivityIndicator size="small" color={colors.textSecondary} />
+        </View>
+      )}
     </View>
   );
 }
@@ -185,6 +253,13 @@ const styles = StyleSheet.create({
     paddingBottom: 100,           // Space for floating camera button
     paddingHorizontal: 20,        // Add horizontal padding to prevent icon cutoff
   },
+  loadingOlderContainer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
   emptyListContent: {
     flexGrow: 1,
   },
@@ -5,6 +5,7 @@
  * Features:
  * - Lists all classes the user is enrolled in
  * - "Join a Class +" button in top right corner
+ * - "Create" button for starting a new class as its teacher
  * - Glass morphism design matching the app's aesthetic
  * - Mental breathing room and better app orientation
  */
@@ -18,6 +19,7 @@ import {
 } from 'react-native';
 import { Colors } from '../../constants/Colors';
 import { useColorScheme } from '../../hooks/useColorScheme';
+import { canManageClass } from '../../lib/classService';
 import { useClassStore } from '../../store/classStore';
 import { ThemedText } from '../ThemedText';
 import GlassMorphismCard from '../ui/GlassMorphismCard';
@@ -25,9 +27,10 @@ import GlassMorphismCard from '../ui/GlassMorphismCard';
 interface ClassListScreenProps {
   onClassSelect: (classId: string) => void;
   onJoinClass: () => void;
+  onCreateClass: () => void;
 }
 
-export default function ClassListScreen({ onClassSelect, onJoinClass }: ClassListScreenProps) {
+export default function ClassListScreen({ onClassSelect, onJoinClass, onCreateClass }: ClassListScreenProps) {
   console.log('📚 Class List Screen - Rendering class selection interface');
 
   const colorScheme = useColorScheme();
@@ -66,6 +69,14 @@ export default function ClassListScreen({ onClassSelect, onJoinClass }: ClassLis
     onJoinClass();
   };
 
+  /**
+   * Handle create class button press
+   */
+  const handleCreateClassPress = () => {
+    console.log('🏗️ Class List Screen - Opening create class modal');
+    onCreateClass();
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
       {/* Soft gradient background per UIDesign.md */}
@@ -77,16 +88,29 @@ export default function ClassListScreen({ onClassSelect, onJoinClass }: ClassLis
           Your Classes
         </ThemedText>
         
-        {/* Join Class Button */}
-        <TouchableOpacity
-          style={[styles.joinButton, { backgroundColor: colors.accentSage }]}
-          onPress={handleJoinClassPress}
-          activeOpacity={0.8}
-        >
-          <ThemedText type="button" style={styles.joinButtonText}>
-            Join a Class +
-          </ThemedText>
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          {/* Create Class Button */}
+          <TouchableOpacity
+            style={[styles.createButton, { borderColor: colors.accentSage }]}
+            onPress={handleCreateClassPress}
+            activeOpacity={0.8}
+          >
+            <ThemedText type="button" style={[styles.createButtonText, { color: colors.accentSage }]}>
+              Create
+            </ThemedText>
+          </TouchableOpacity>
+
+          {/* Join Class Button */}
+          <TouchableOpacity
+            style={[styles.joinButton, { backgroundColor: colors.accentSage }]}
+            onPress={handleJoinClassPress}
+            activeOpacity={0.8}
+          >
+            <ThemedText type="button" style={styles.joinButtonText}>
+              Join a Class +
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Content */}
@@ -128,6 +152,11 @@ export default function ClassListScreen({ onClassSelect, onJoinClass }: ClassLis
                       <ThemedText type="metadata" style={[styles.classDetails, { color: colors.textSecondary }]}>
                         {userClass.description || 'Art class'}
                       </ThemedText>
+                      {canManageClass(userClass.membership) && (
+                        <ThemedText type="caption" style={[styles.teacherBadge, { color: colors.accentTan }]}>
+                          🎓 You teach this class
+                        </ThemedText>
+                      )}
                       
                       {/* Call to action text */}
                       <ThemedText type="caption" style={[styles.tapToEnter, { color: colors.accentSage }]}>
@@ -178,6 +207,21 @@ const styles = StyleSheet.create({
   title: {
     // Instrument Serif 24pt per UIDesign.md applied via ThemedText type="screenTitle"
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  createButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 7,
+    borderRadius: 20, // Pill shape
+    borderWidth: 1,
+  },
+  createButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   joinButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -255,6 +299,10 @@ const styles = StyleSheet.create({
     fontSize: 12, // 12pt per UIDesign.md
     marginBottom: 6,
   },
+  teacherBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
   tapToEnter: {
     fontSize: 11,
     fontWeight: '600',
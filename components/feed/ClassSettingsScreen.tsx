@@ -0,0 +1,408 @@
+/**
+ * Class Settings Screen Component
+ *
+ * Teacher-only screen for managing a class, presented as a full-screen modal from the feed.
+ * Features:
+ * - Edit class name, description and max students
+ * - Join code with copy/share and regeneration
+ * - Roster of active members with their roles
+ * - Deactivate the class (with confirmation)
+ *
+ * Permissions are enforced by RLS; the UI is only shown to teachers/admins.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+import { Colors } from '../../constants/Colors';
+import { useColorScheme } from '../../hooks/useColorScheme';
+import { getClassRoster, type ClassRosterMember } from '../../lib/classService';
+import type { Class, ClassMember } from '../../lib/supabase';
+import { useClassStore } from '../../store/classStore';
+import { ThemedText } from '../ThemedText';
+import GlassMorphismCard from '../ui/GlassMorphismCard';
+import JoinCodeCard from './JoinCodeCard';
+
+interface ClassSettingsScreenProps {
+  visible: boolean;
+  classData: (Class & { membership: ClassMember }) | null;
+  onClose: () => void;
+  onDeactivated?: () => void;
+}
+
+export default function ClassSettingsScreen({
+  visible,
+  classData,
+  onClose,
+  onDeactivated,
+}: ClassSettingsScreenProps) {
+  console.log('⚙️ Class Settings Screen - Rendering settings for class:', classData?.name);
+
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const { updateClassDetails, regenerateClassJoinCode, deactivateClass } = useClassStore();
+
+  // Form state
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [maxStudents, setMaxStudents] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  // Roster state
+  const [roster, setRoster] = useState<ClassRosterMember[]>([]);
+  const [isLoadingRoster, setIsLoadingRoster] = useState(false);
+
+  /**
+   * Load the roster for the class
+   */
+  const loadRoster = useCallback(async (classId: string) => {
+    setIsLoadingRoster(true);
+    const members = await getClassRoster(classId);
+    setRoster(members);
+    setIsLoadingRoster(false);
+  }, []);
+
+  /**
+   * Reset the form to the saved class details whenever the screen opens
+   */
+  useEffect(() => {
+    if (visible && classData) {
+      setName(classData.name);
+      setDescription(classData.description || '');
+      setMaxStudents(String(classData.max_students));
+    }
+  }, [visible, classData]);
+
+  /**
+   * Reload the roster whenever the screen opens
+   */
+  const classId = classData?.id;
+  useEffect(() => {
+    if (visible && classId) {
+      loadRoster(classId);
+    }
+  }, [visible, classId, loadRoster]);
+
+  if (!classData) {
+    return null;
+  }
+
+  const hasChanges =
+    name.trim() !== classData.name ||
+    description.trim() !== (classData.description || '') ||
+    maxStudents !== String(classData.max_students);
+
+  /**
+   * Save edited class details
+   */
+  const handleSave = async () => {
+    const parsedMaxStudents = parseInt(maxStudents, 10);
+    if (!Number.isInteger(parsedMaxStudents) || parsedMaxStudents < 1) {
+      Alert.alert('Invalid Class Size', 'Max students must be a whole number greater than 0.');
+      return;
+    }
+
+    if (parsedMaxStudents < roster.length) {
+      Alert.alert('Class Too Small', `This class already has ${roster.length} members.`);
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await updateClassDetails(classData.id, {
+      name,
+      description,
+      maxStudents: parsedMaxStudents,
+    });
+    setIsSaving(false);
+
+    if (result.success) {
+      Alert.alert('Saved', 'Class details updated.');
+    } else {
+      Alert.alert('Unable to Save', result.error || 'Please try again.');
+    }
+  };
+
+  /**
+   * Regenerate the join code after confirmation
+   */
+  const handleRegenerateCode = () => {
+    Alert.alert(
+      'Regenerate Join Code?',
+      'The current code will stop working. Students who already joined stay in the class.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Regenerate',
+          onPress: async () => {
+            setIsRegenerating(true);
+            const result = await regenerateClassJoinCode(classData.id);
+            setIsRegenerating(false);
+
+            if (!result.success) {
+              Alert.alert('Unable to Regenerate', result.error || 'Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Deactivate the class after confirmation
+   */
+  const handleDeactivate = () => {
+    Alert.alert(
+      'Deactivate Class?',
+      `${classData.name} will be hidden from all members and can no longer be joined.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Deactivate',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deactivateClass(classData.id);
+
+            if (result.success) {
+              onClose();
+              onDeactivated?.();
+            } else {
+              Alert.alert('Unable to Deactivate', result.error || 'Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: colors.border }]}>
+          <ThemedText type="screenTitle" style={{ color: colors.text }}>
+            Class Settings
+          </ThemedText>
+          <TouchableOpacity onPress={onClose} activeOpacity={0.7} style={styles.closeButton}>
+            <ThemedText type="button" style={{ color: colors.accentSage }}>
+              Done
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {/* Details */}
+          <GlassMorphismCard type="secondary" style={styles.section}>
+            <ThemedText type="heading" style={[styles.sectionTitle, { color: colors.text }]}>
+              Details
+            </ThemedText>
+
+            <ThemedText type="label" style={{ color: colors.text }}>Class Name</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+              value={name}
+              onChangeText={setName}
+              maxLength={80}
+              editable={!isSaving}
+            />
+
+            <ThemedText type="label" style={{ color: colors.text }}>Description</ThemedText>
+            <TextInput
+              style={[styles.input, styles.multilineInput, { borderColor: colors.border, color: colors.text }]}
+              value={description}
+              onChangeText={setDescription}
+              placeholder="What will this class focus on?"
+              placeholderTextColor={colors.textTertiary}
+              maxLength={200}
+              multiline
+              editable={!isSaving}
+            />
+
+            <ThemedText type="label" style={{ color: colors.text }}>Max Students</ThemedText>
+            <TextInput
+              style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+              value={maxStudents}
+              onChangeText={(text) => setMaxStudents(text.replace(/[^0-9]/g, ''))}
+              keyboardType="number-pad"
+              maxLength={3}
+              editable={!isSaving}
+            />
+
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                { backgroundColor: hasChanges && name.trim() ? colors.accentSage : colors.surface }
+              ]}
+              onPress={handleSave}
+              disabled={!hasChanges || !name.trim() || isSaving}
+              activeOpacity={0.8}
+            >
+              <ThemedText type="button" style={[
+                styles.primaryButtonText,
+                { color: hasChanges && name.trim() ? '#FFFFFF' : colors.textSecondary }
+              ]}>
+                {isSaving ? 'Saving...' : 'Save Changes'}
+              </ThemedText>
+            </TouchableOpacity>
+          </GlassMorphismCard>
+
+          {/* Join code */}
+          <GlassMorphismCard type="secondary" style={styles.section}>
+            <ThemedText type="heading" style={[styles.sectionTitle, { color: colors.text }]}>
+              Invite Students
+            </ThemedText>
+            {classData.join_code && (
+              <JoinCodeCard joinCode={classData.join_code} className={classData.name} />
+            )}
+            <TouchableOpacity
+              style={[styles.secondaryButton, { borderColor: colors.border }]}
+              onPress={handleRegenerateCode}
+              disabled={isRegenerating}
+              activeOpacity={0.8}
+            >
+              <ThemedText type="button" style={[styles.secondaryButtonText, { color: colors.text }]}>
+                {isRegenerating ? 'Regenerating...' : 'Regenerate Code'}
+              </ThemedText>
+            </TouchableOpacity>
+          </GlassMorphismCard>
+
+          {/* Roster */}
+          <GlassMorphismCard type="secondary" style={styles.section}>
+            <ThemedText type="heading" style={[styles.sectionTitle, { color: colors.text }]}>
+              Roster ({roster.length}/{classData.max_students})
+            </ThemedText>
+            {isLoadingRoster ? (
+              <ActivityIndicator color={colors.textSecondary} />
+            ) : roster.length === 0 ? (
+              <ThemedText type="bodyText" style={{ color: colors.textSecondary }}>
+                No members yet
+              </ThemedText>
+            ) : (
+              roster.map((member) => (
+                <View key={member.id} style={[styles.rosterRow, { borderBottomColor: colors.border }]}>
+                  <ThemedText type="username" style={{ color: colors.text }}>
+                    {member.user?.username || 'Artist'}
+                  </ThemedText>
+                  <ThemedText type="caption" style={[styles.roleBadge, { color: colors.textSecondary }]}>
+                    {member.role}
+                  </ThemedText>
+                </View>
+              ))
+            )}
+          </GlassMorphismCard>
+
+          {/* Danger zone */}
+          <TouchableOpacity
+            style={[styles.dangerButton, { borderColor: colors.accentCoral }]}
+            onPress={handleDeactivate}
+            activeOpacity={0.8}
+          >
+            <ThemedText type="button" style={[styles.secondaryButtonText, { color: colors.accentCoral }]}>
+              Deactivate Class
+            </ThemedText>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+    paddingBottom: 48,
+  },
+  section: {
+    padding: 20,
+    gap: 8,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+  },
+  input: {
+    minHeight: 48,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  multilineInput: {
+    minHeight: 72,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  primaryButton: {
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rosterRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  roleBadge: {
+    textTransform: 'capitalize',
+  },
+  dangerButton: {
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+});
@@ -167,14 +167,16 @@ export default function ClassWelcomeScreen({ classData, onGetStarted }: ClassWel
           </ThemedText>
           
           <View style={styles.classInfoList}>
-            <View style={styles.classInfoItem}>
-              <ThemedText type="label" style={[styles.classInfoLabel, { color: colors.textSecondary }]}>
-                Join Code:
-              </ThemedText>
-              <ThemedText type="bodyText" style={[styles.classInfoValue, { color: colors.text, fontFamily: 'Montserrat_600SemiBold' }]}>
-                {classData.join_code}
-              </ThemedText>
-            </View>
+            {classData.join_code && (
+              <View style={styles.classInfoItem}>
+                <ThemedText type="label" style={[styles.classInfoLabel, { color: colors.textSecondary }]}>
+                  Join Code:
+                </ThemedText>
+                <ThemedText type="bodyText" style={[styles.classInfoValue, { color: colors.text, fontFamily: 'Montserrat_600SemiBold' }]}>
+                  {classData.join_code}
+                </ThemedText>
+              </View>
+            )}
             
             {classData.description && (
               <View style={styles.classInfoItem}>
@@ -1,9 +1,11 @@
 /**
  * Comment Input Modal Component
  * 
- * Modal overlay for adding comments to artwork posts.
+ * Modal overlay for adding, replying to and editing comments on artwork posts.
  * Features:
  * - Glass morphism design with slide-up animation
+ * - Reply mode (names the classmate being answered) and edit mode (prefilled)
+ * - Notes when the new comment is pinned to a spot or area of the artwork
  * - Character counter and limit
  * - Encouraging placeholder text
  * - Warm sage accent for send button
@@ -30,29 +32,43 @@ import GlassMorphismCard from '@/components/ui/GlassMorphismCard';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { useAuthStore } from '@/store/authStore';
-import type { PostWithUser } from '@/store/classStore';
+import type { CommentAnchor } from '@/lib/supabase';
+import type { CommentWithUser, PostWithUser } from '@/store/classStore';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 const MAX_COMMENT_LENGTH = 200;
 
+/**
+ * What the comment being written is for: a new top-level comment (empty, or pinned to
+ * the artwork with an anchor), a reply to an existing comment, or an edit of the user's own comment
+ */
+export interface CommentComposerTarget {
+  replyTo?: CommentWithUser;
+  editing?: CommentWithUser;
+  anchor?: CommentAnchor;
+}
+
 export interface CommentInputModalProps {
   visible: boolean;
   post: PostWithUser | null;
+  target?: CommentComposerTarget;
   onClose: () => void;
-  onSubmit: (postId: string, comment: string) => void;
+  onSubmit: (postId: string, comment: string, target: CommentComposerTarget) => void;
 }
 
 export default function CommentInputModal({
   visible,
   post,
+  target = {},
   onClose,
   onSubmit,
 }: CommentInputModalProps) {
-  console.log('💬 Comment Input Modal - Rendering for post:', post?.id, 'Visible:', visible);
+  console.log('💬 Comment Input Modal - Rendering for post:', post?.id, 'Visible:', visible, 'Reply:', !!target.replyTo, 'Edit:', !!target.editing);
   
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const { user } = useAuthStore();
+  const editingContent = target.editing?.content;
   
   // State
   const [comment, setComment] = useState('');
@@ -67,6 +83,9 @@ export default function CommentInputModal({
    */
   useEffect(() => {
     if (visible) {
+      // Prefill the existing text when editing
+      setComment(editingContent ?? '');
+
       // Slide down from top and fade in
       Animated.parallel([
         Animated.timing(slideAnim, {
@@ -86,7 +105,7 @@ export default function CommentInputModal({
       fadeAnim.setValue(0);
       setComment('');
     }
-  }, [visible, slideAnim, fadeAnim]);
+  }, [visible, slideAnim, fadeAnim, editingContent]);
 
   /**
    * Handle close with animation
@@ -117,10 +136,10 @@ export default function CommentInputModal({
   const handleSubmit = useCallback(() => {
     if (comment.trim() && post) {
       console.log('📤 Comment Input Modal - Submitting comment:', comment.length, 'chars');
-      onSubmit(post.id, comment.trim());
+      onSubmit(post.id, comment.trim(), target);
       handleClose();
     }
-  }, [comment, post, onSubmit, handleClose]);
+  }, [comment, post, target, onSubmit, handleClose]);
 
   /**
    * Character count color
@@ -134,6 +153,18 @@ export default function CommentInputModal({
 
   if (!post) return null;
 
+  const title = target.editing ? 'Edit Comment' : target.replyTo ? 'Reply' : 'Add Encouragement';
+  const recipientLabel = target.editing ? 'Editing your comment on' : target.replyTo ? 'Replying to' : 'Encouraging';
+  const recipientName = target.replyTo
+    ? target.replyTo.user?.username || 'Classmate'
+    : post.user?.username || 'Anonymous Artist';
+  const imageCount = post.images?.length ?? 1;
+  const anchorLabel = target.anchor
+    ? `📍 Pinned to ${target.anchor.width ? 'an area' : 'a spot'}${imageCount > 1 ? ` on image ${target.anchor.image_index + 1}` : ' on the artwork'}`
+    : null;
+  const isUnchanged = !!target.editing && comment.trim() === target.editing.content;
+  const canSubmit = !!comment.trim() && comment.length <= MAX_COMMENT_LENGTH && !isUnchanged;
+
   return (
     <Modal
       visible={visible}
@@ -168,7 +199,7 @@ export default function CommentInputModal({
                   {/* Header */}
                   <View style={styles.header}>
                     <ThemedText type="screenTitle" style={[styles.title, { color: colors.text }]}>
-                      Add Encouragement
+                      {title}
                     </ThemedText>
                     <TouchableOpacity onPress={handleClose} activeOpacity={0.7}>
                       <ThemedText style={[styles.closeButton, { color: colors.textSecondary }]}>
@@ -180,11 +211,25 @@ export default function CommentInputModal({
                   {/* Artist Info */}
                   <View style={styles.artistInfo}>
                     <ThemedText type="metadata" style={[styles.artistLabel, { color: colors.textSecondary }]}>
-                      Encouraging
+                      {recipientLabel}
                     </ThemedText>
                     <ThemedText type="bodyText" style={[styles.artistName, { color: colors.text }]}>
-                      {post.user?.username || 'Anonymous Artist'}
+                      {recipientName}
                     </ThemedText>
+                    {target.replyTo && (
+                      <ThemedText
+                        type="metadata"
+                        style={[styles.artistLabel, { color: colors.textSecondary }]}
+                        numberOfLines={2}
+                      >
+                        “{target.replyTo.content}”
+                      </ThemedText>
+                    )}
+                    {anchorLabel && (
+                      <ThemedText type="metadata" style={[styles.artistLabel, { color: colors.accentDarkSage }]}>
+                        {anchorLabel}
+                      </ThemedText>
+                    )}
                   </View>
 
                   {/* Input Container */}
@@ -197,7 +242,7 @@ export default function CommentInputModal({
                   ]}>
                     <TextInput
                       style={[styles.input, { color: colors.text }]}
-                      placeholder="Add encouraging feedback..."
+                      placeholder={target.replyTo ? 'Write a reply...' : 'Add encouraging feedback...'}
                       placeholderTextColor={colors.textTertiary}
                       value={comment}
                       onChangeText={setComment}
@@ -224,16 +269,16 @@ export default function CommentInputModal({
                       style={[
                         styles.sendButton,
                         { 
-                          backgroundColor: comment.trim() ? colors.accentSage : colors.border,
-                          opacity: comment.trim() ? 1 : 0.5,
+                          backgroundColor: canSubmit ? colors.accentSage : colors.border,
+                          opacity: canSubmit ? 1 : 0.5,
                         }
                       ]}
                       onPress={handleSubmit}
-                      disabled={!comment.trim() || comment.length > MAX_COMMENT_LENGTH}
+                      disabled={!canSubmit}
                       activeOpacity={0.8}
                     >
                       <ThemedText type="button" style={styles.sendButtonText}>
-                        Send
+                        {target.editing ? 'Save' : 'Send'}
                       </ThemedText>
                     </TouchableOpacity>
                   </View>
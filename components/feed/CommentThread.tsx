@@ -0,0 +1,233 @@
+/**
+ * Comment Thread Component
+ *
+ * Threaded comments for a post, shown in the full-screen artwork view.
+ * Features:
+ * - Top-level comments oldest first, each followed by its replies (one level deep)
+ * - Reply on any comment (replies to a reply join the same thread)
+ * - Edit and delete actions on the user's own comments, with an "edited" marker
+ * - Emoji reactions per comment
+ * - Numbered 📍 badge on comments pinned to the artwork (tap to highlight the pin), and a
+ *   highlighted state for the comment whose pin was tapped
+ * - Glass text styling for the dark full-screen overlay
+ */
+
+import React from 'react';
+import { ActivityIndicator, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import ReactionBar from '@/components/feed/ReactionBar';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import type { ReactionEmoji } from '@/lib/supabase';
+import type { CommentWithUser } from '@/store/classStore';
+
+export interface CommentThreadProps {
+  comments: CommentWithUser[];
+  currentUserId?: string;
+  isLoading?: boolean;
+  onReply: (comment: CommentWithUser) => void;
+  onEdit: (comment: CommentWithUser) => void;
+  onDelete: (comment: CommentWithUser) => void;
+  onToggleReaction: (comment: CommentWithUser, emoji: ReactionEmoji) => void;
+  annotationNumbers?: Record<string, number>; // Pin number per pinned comment ID
+  highlightedCommentId?: string | null;
+  onAnnotationPress?: (comment: CommentWithUser) => void;
+}
+
+/**
+ * Format when a comment was posted, e.g. "now", "5m ago", "3h ago"
+ */
+function formatCommentTime(timestamp: string): string {
+  const diffMins = Math.floor((Date.now() - new Date(timestamp).getTime()) / (1000 * 60));
+
+  if (diffMins < 1) return 'now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffMins < 1440) return `${Math.floor(diffMins / 60)}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
+export default function CommentThread({
+  comments,
+  currentUserId,
+  isLoading = false,
+  onReply,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  annotationNumbers = {},
+  highlightedCommentId = null,
+  onAnnotationPress,
+}: CommentThreadProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const topLevelComments = comments.filter(comment => !comment.parent_comment_id);
+  const getReplies = (commentId: string) =>
+    comments.filter(comment => comment.parent_comment_id === commentId);
+
+  const renderComment = (comment: CommentWithUser, isReply: boolean) => {
+    const isOwn = comment.user_id === currentUserId;
+    const annotationNumber = annotationNumbers[comment.id];
+    const isHighlighted = comment.id === highlightedCommentId;
+
+    return (
+      <View
+        key={comment.id}
+        style={[
+          styles.comment,
+          isReply && styles.reply,
+          isHighlighted && [styles.highlighted, { borderColor: colors.accentCoral }],
+        ]}
+      >
+        <View style={styles.commentHeader}>
+          {annotationNumber !== undefined && (
+            <TouchableOpacity
+              style={[styles.pinBadge, { backgroundColor: isHighlighted ? colors.accentCoral : colors.accentSage }]}
+              onPress={() => onAnnotationPress?.(comment)}
+              disabled={!onAnnotationPress}
+              activeOpacity={0.7}
+              accessibilityLabel={`Show pin ${annotationNumber} on the artwork`}
+            >
+              <ThemedText style={styles.pinBadgeText}>📍{annotationNumber}</ThemedText>
+            </TouchableOpacity>
+          )}
+          <ThemedText type="username" glassText={true} style={styles.author}>
+            {comment.user?.username || 'Classmate'}
+          </ThemedText>
+          <ThemedText type="metadata" glassText={true} style={styles.meta}>
+            {formatCommentTime(comment.created_at)}
+            {comment.is_edited ? ' · edited' : ''}
+          </ThemedText>
+        </View>
+
+        <ThemedText type="bodyText" glassText={true} style={styles.content}>
+          {comment.content}
+        </ThemedText>
+
+        <View style={styles.commentFooter}>
+          <ReactionBar
+            reactions={comment.reactions}
+            onToggle={emoji => onToggleReaction(comment, emoji)}
+            glassText={true}
+            size="small"
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => onReply(comment)} activeOpacity={0.7}>
+              <ThemedText type="metadata" glassText={true} style={styles.action}>
+                Reply
+              </ThemedText>
+            </TouchableOpacity>
+            {isOwn && (
+              <>
+                <TouchableOpacity onPress={() => onEdit(comment)} activeOpacity={0.7}>
+                  <ThemedText type="metadata" glassText={true} style={styles.action}>
+                    Edit
+                  </ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => onDelete(comment)} activeOpacity={0.7}>
+                  <ThemedText type="metadata" glassText={true} style={styles.action}>
+                    Delete
+                  </ThemedText>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  if (isLoading && comments.length === 0) {
+    return (
+      <View style={styles.emptyState}>
+        <ActivityIndicator size="small" color="white" />
+      </View>
+    );
+  }
+
+  if (topLevelComments.length === 0) {
+    return (
+      <View style={styles.emptyState}>
+        <ThemedText type="metadata" glassText={true} style={styles.meta}>
+          No comments yet. Be the first to encourage this artist!
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {topLevelComments.map(comment => (
+        <View key={comment.id} style={styles.thread}>
+          {renderComment(comment, false)}
+          {getReplies(comment.id).map(reply => renderComment(reply, true))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  thread: {
+    gap: 8,
+  },
+  comment: {
+    gap: 4,
+  },
+  reply: {
+    marginLeft: 20,
+    paddingLeft: 10,
+    borderLeftWidth: 1,
+    borderLeftColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  highlighted: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 6,
+  },
+  commentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  pinBadge: {
+    paddingHorizontal: 6,
+    borderRadius: 10,
+  },
+  pinBadgeText: {
+    color: 'white',
+    fontSize: 11,
+    lineHeight: 16,
+  },
+  author: {
+    fontSize: 15,
+  },
+  meta: {
+    fontSize: 11,
+    opacity: 0.8,
+  },
+  content: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  commentFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  action: {
+    fontSize: 12,
+  },
+  emptyState: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+});
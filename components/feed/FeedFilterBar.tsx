@@ -0,0 +1,98 @@
+/**
+ * Feed Filter Bar Component
+ *
+ * Row of filter chips shown under the class feed header.
+ * Features:
+ * - "All" plus one chip per medium; tapping the selected medium clears it
+ * - Active tag chip (set by tapping a tag on a post) with a clear button
+ * - Horizontally scrollable so every medium fits on small screens
+ */
+
+import React from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ART_MEDIUMS, ArtMediumLabels } from '@/constants/ArtMediums';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import type { ArtMedium } from '@/lib/supabase';
+import type { FeedFilter } from '@/store/classStore';
+
+// Height of the bar, so the feed can leave room for it under the header
+export const FEED_FILTER_BAR_HEIGHT = 44;
+
+export interface FeedFilterBarProps {
+  filter: FeedFilter;
+  onChange: (filter: FeedFilter) => void;
+}
+
+export default function FeedFilterBar({ filter, onChange }: FeedFilterBarProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const handleMediumPress = (medium?: ArtMedium) => {
+    const nextMedium = medium === filter.medium ? undefined : medium;
+    console.log('🔎 Feed Filter Bar - Medium selected:', nextMedium ?? 'all');
+    onChange({ ...filter, medium: nextMedium });
+  };
+
+  const handleClearTag = () => {
+    console.log('🔎 Feed Filter Bar - Clearing tag:', filter.tag);
+    onChange({ ...filter, tag: undefined });
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          borderColor: isSelected ? colors.accentSage : colors.glassBorderSecondary,
+          backgroundColor: isSelected ? colors.glassSecondary : colors.background,
+        },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.8}
+    >
+      <ThemedText type="caption" style={{ color: isSelected ? colors.text : colors.textSecondary }}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+    >
+      {filter.tag && renderChip('tag', `#${filter.tag}  ✕`, true, handleClearTag)}
+      {renderChip('all', 'All', !filter.medium, () => handleMediumPress(undefined))}
+      {ART_MEDIUMS.map(medium => renderChip(
+        medium,
+        ArtMediumLabels[medium],
+        medium === filter.medium,
+        () => handleMediumPress(medium)
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: FEED_FILTER_BAR_HEIGHT,
+    flexGrow: 0,
+  },
+  content: {
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+});
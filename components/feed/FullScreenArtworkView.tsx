@@ -3,54 +3,133 @@
  * 
  * Displays artwork in full-screen with glass morphism overlays for post information.
  * Features:
- * - Full-screen artwork background with dark gradient overlay
+ * - Full-screen artwork background with dark gradient overlay (full-size image, not the feed thumbnail)
+ * - Swipe between the images of a multi-image post, starting on the one tapped in the feed
+ * - Artist's chosen frame drawn around the artwork
  * - Glass morphism cards for post info, stats, and actions
  * - Smooth transitions and animations
- * - Comment overlay that slides up from bottom
+ * - Comment panel with threaded replies, edit/delete of own comments and comment reactions
+ * - Annotation mode: tap the artwork to pin a comment to a spot, or drag to mark an area;
+ *   numbered pins highlight their comment (and the comment's pin badge highlights the pin)
+ * - Emoji reactions on the post
+ * - "Ask Juni to critique" action and AI feedback panel for the artist
+ * - Waits for the view to be recorded and shows a "view limit reached" state when no slots are left
  * - Pinch-to-zoom capability
  * 
  * Design follows UIDesign.md specifications for full-screen artwork display
  */
 
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
+    ActivityIndicator,
+    Alert,
     Animated,
     Dimensions,
-    ImageBackground,
     Modal,
     SafeAreaView,
+    ScrollView,
     StyleSheet,
     TouchableOpacity,
     View
 } from 'react-native';
 
 import { ThemedText } from '@/components/ThemedText';
+import ArtworkFrame from '@/components/feed/ArtworkFrame';
+import AnnotationOverlay from '@/components/feed/AnnotationOverlay';
+import ArtworkImageCarousel from '@/components/feed/ArtworkImageCarousel';
+import CommentThread from '@/components/feed/CommentThread';
+import type { CommentComposerTarget } from '@/components/feed/CommentInputModal';
+import ReactionBar from '@/components/feed/ReactionBar';
 import GlassMorphismCard from '@/components/ui/GlassMorphismCard';
 import { Colors } from '@/constants/Colors';
+import { getFrameInset } from '@/constants/FrameStyles';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import type { PostWithUser } from '@/store/classStore';
+import type { Size } from '@/lib/annotationGeometry';
+import { getPostImages } from '@/lib/postService';
+import type { CommentAnchor, ReactionEmoji } from '@/lib/supabase';
+import { useAuthStore } from '@/store/authStore';
+import { useClassStore, type CommentWithUser, type PostWithUser } from '@/store/classStore';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 export interface FullScreenArtworkViewProps {
   visible: boolean;
   post: PostWithUser | null;
+  initialImageIndex?: number; // Image to open on for multi-image posts
   className: string;
   onClose: () => void;
-  onCommentPress: (post: PostWithUser) => void;
+  onCommentPress: (post: PostWithUser, target?: CommentComposerTarget) => void;
 }
 
 export default function FullScreenArtworkView({
   visible,
-  post,
+  post: initialPost,
+  initialImageIndex = 0,
   className,
   onClose,
   onCommentPress,
 }: FullScreenArtworkViewProps) {
-  console.log('🖼️ Full-Screen Artwork View - Rendering:', post?.id, 'Visible:', visible);
+  console.log('🖼️ Full-Screen Artwork View - Rendering:', initialPost?.id, 'Visible:', visible);
   
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
+  const { user } = useAuthStore();
+  const {
+    classPosts,
+    postComments,
+    isLoadingComments,
+    loadPostComments,
+    deleteComment,
+    togglePostReaction,
+    toggleCommentReaction,
+    postFeedback,
+    isRequestingFeedback,
+    loadPostFeedback,
+    requestPostFeedback,
+    postViewStatus,
+    viewErrors,
+    markPostAsViewed,
+  } = useClassStore();
+
+  // Follow the live copy of the post so counts and reactions stay current while open
+  const post = (initialPost && classPosts.find(p => p.id === initialPost.id)) || initialPost;
+  
+  // AI feedback and comment panel state (one panel at a time)
+  const [showFeedback, setShowFeedback] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const comments = useMemo(() => (post ? postComments[post.id] ?? [] : []), [post, postComments]);
+  const isLoadingPostComments = post ? !!isLoadingComments[post.id] : false;
+
+  // Annotation state: drawing mode, the pin/comment pair being highlighted, and each
+  // image's original size (needed to place pins)
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [highlightedCommentId, setHighlightedCommentId] = useState<string | null>(null);
+  const [imageSizes, setImageSizes] = useState<Record<number, Size>>({});
+  const annotations = useMemo(() => post?.annotations ?? [], [post]);
+  const annotationNumbers = useMemo(
+    () => Object.fromEntries(annotations.map((annotation, index) => [annotation.comment_id, index + 1])),
+    [annotations]
+  );
+  const isOwner = !!post && post.user_id === user?.id;
+  const feedback = post ? postFeedback[post.id] : null;
+  const isRequesting = post ? !!isRequestingFeedback[post.id] : false;
+
+  // View limit state (owners never wait on the view check)
+  const viewStatus = post ? postViewStatus[post.id] : undefined;
+  const viewError = post ? viewErrors[post.id] : null;
+  const isCheckingView = !isOwner && !viewStatus && !viewError;
+  const isViewBlocked = !!viewStatus && !viewStatus.allowed;
+  
+  // Multi-image posts
+  const images = post ? getPostImages(post) : [];
+  const [activeImageIndex, setActiveImageIndex] = useState(initialImageIndex);
+  const frameInset = getFrameInset(post?.frame_style);
+
+  useEffect(() => {
+    if (visible) {
+      setActiveImageIndex(initialImageIndex);
+    }
+  }, [visible, initialImageIndex]);
   
   // Animation values
   const fadeAnim = useState(new Animated.Value(0))[0];
@@ -79,6 +158,23 @@ export default function FullScreenArtworkView({
     }
   }, [visible, fadeAnim, slideAnim]);
 
+  /**
+   * Load existing AI feedback when the artist opens their post
+   */
+  const postId = post?.id;
+  const hasAiFeedback = !!post?.has_ai_feedback;
+  useEffect(() => {
+    if (visible && postId && (isOwner || hasAiFeedback)) {
+      loadPostFeedback(postId);
+    }
+    if (!visible) {
+      setShowFeedback(false);
+      setShowComments(false);
+      setIsAnnotating(false);
+      setHighlightedCommentId(null);
+    }
+  }, [visible, postId, hasAiFeedback, isOwner, loadPostFeedback]);
+
   /**
    * Format time remaining for expiry timer
    */
@@ -121,17 +217,317 @@ export default function FullScreenArtworkView({
   }, [fadeAnim, slideAnim, onClose]);
 
   /**
-   * Handle comment button press
+   * Handle comment button press - toggle the comment panel
    */
   const handleCommentPress = useCallback(() => {
+    if (!post) return;
+
+    if (showComments) {
+      setShowComments(false);
+      return;
+    }
+
+    console.log('💬 Full-Screen Artwork View - Opening comments for post:', post.id);
+    setShowFeedback(false);
+    setIsAnnotating(false);
+    setShowComments(true);
+    loadPostComments(post.id);
+  }, [post, showComments, loadPostComments]);
+
+  /**
+   * Toggle annotation mode (the whole artwork is shown while placing a pin)
+   */
+  const handleAnnotatePress = useCallback(() => {
+    console.log('📍 Full-Screen Artwork View - Annotation mode:', !isAnnotating);
+    setShowFeedback(false);
+    setShowComments(false);
+    setIsAnnotating(!isAnnotating);
+  }, [isAnnotating]);
+
+  /**
+   * Highlight a pinned comment, opening the comment panel to show it
+   */
+  const handlePinPress = useCallback((commentId: string) => {
+    if (!post) return;
+
+    console.log('📍 Full-Screen Artwork View - Pin tapped for comment:', commentId);
+    setHighlightedCommentId(commentId);
+    setShowFeedback(false);
+    if (!showComments) {
+      setShowComments(true);
+      loadPostComments(post.id);
+    }
+  }, [post, showComments, loadPostComments]);
+
+  /**
+   * Remember each image's original size once it loads
+   */
+  const handleImageLoad = useCallback((index: number, size: Size) => {
+    setImageSizes(current => (
+      current[index]?.width === size.width && current[index]?.height === size.height
+        ? current
+        : { ...current, [index]: size }
+    ));
+  }, []);
+
+  /**
+   * Open the comment composer for a new comment, a reply or an edit
+   */
+  const handleComposePress = useCallback((target?: CommentComposerTarget) => {
     if (post) {
-      console.log('💬 Full-Screen Artwork View - Opening comments for post:', post.id);
-      onCommentPress(post);
+      console.log('✏️ Full-Screen Artwork View - Opening composer for post:', post.id, target?.editing ? 'edit' : target?.replyTo ? 'reply' : 'new');
+      onCommentPress(post, target);
     }
   }, [post, onCommentPress]);
 
+  /**
+   * A spot or area was marked on the artwork - write the pinned comment
+   */
+  const handleAnchorCreate = useCallback((anchor: CommentAnchor) => {
+    setIsAnnotating(false);
+    handleComposePress({ anchor });
+  }, [handleComposePress]);
+
+  /**
+   * Confirm and delete one of the user's own comments
+   */
+  const handleDeleteComment = useCallback((comment: CommentWithUser) => {
+    if (!post) return;
+
+    const hasReplies = comments.some(c => c.parent_comment_id === comment.id);
+    Alert.alert(
+      'Delete comment?',
+      hasReplies ? 'Replies to this comment will be deleted too.' : 'This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            console.log('🗑️ Full-Screen Artwork View - Deleting comment:', comment.id);
+            const result = await deleteComment(post.id, comment.id);
+            if (!result.success) {
+              Alert.alert('Could not delete comment', result.error || 'Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  }, [post, comments, deleteComment]);
+
+  /**
+   * Toggle the user's reaction on the post
+   */
+  const handlePostReaction = useCallback((emoji: ReactionEmoji) => {
+    if (post && user?.id) {
+      togglePostReaction(post.id, user.id, emoji);
+    }
+  }, [post, user?.id, togglePostReaction]);
+
+  /**
+   * Toggle the user's reaction on a comment
+   */
+  const handleCommentReaction = useCallback((comment: CommentWithUser, emoji: ReactionEmoji) => {
+    if (post && user?.id) {
+      toggleCommentReaction(post.id, comment.id, user.id, emoji);
+    }
+  }, [post, user?.id, toggleCommentReaction]);
+
+  /**
+   * Handle critique button press - request a critique or toggle the panel
+   */
+  const handleCritiquePress = useCallback(async () => {
+    if (!post) return;
+
+    setShowComments(false);
+    setIsAnnotating(false);
+    setShowFeedback(true);
+    // Opening the panel on an unfinished critique asks again: the server returns it if it is
+    // still in flight and retries it if its run died
+    const shouldRequest = !feedback
+      || feedback.feedback_status === 'failed'
+      || (!showFeedback && feedback.feedback_status !== 'completed');
+    if (shouldRequest) {
+      console.log('🎨 Full-Screen Artwork View - Asking Juni to critique post:', post.id);
+      await requestPostFeedback(post.id);
+    } else if (showFeedback) {
+      setShowFeedback(false);
+    }
+  }, [post, feedback, showFeedback, requestPostFeedback]);
+
+  /**
+   * Retry recording the view after a failure
+   */
+  const handleRetryView = useCallback(() => {
+    if (post) {
+      console.log('🔁 Full-Screen Artwork View - Retrying view for post:', post.id);
+      markPostAsViewed(post.id);
+    }
+  }, [post, markPostAsViewed]);
+
+  /**
+   * Get the title and message shown when the artwork can't be viewed
+   */
+  const getViewGateMessage = (): { title: string; message: string } => {
+    if (viewError) {
+      return { title: 'Could not open artwork', message: 'Check your connection and try again.' };
+    }
+
+    switch (viewStatus?.reason) {
+      case 'limit_reached':
+        return {
+          title: 'View limit reached',
+          message: `All ${viewStatus.maxViewers} viewer spots for this artwork have been taken.`,
+        };
+      case 'expired':
+        return { title: 'Artwork expired', message: 'This artwork is no longer on display.' };
+      default:
+        return { title: 'Artwork unavailable', message: 'This artwork is no longer available.' };
+    }
+  };
+
+  /**
+   * Render the view check / view limit reached state in place of the artwork
+   */
+  const renderViewGate = () => {
+    const { title, message } = getViewGateMessage();
+
+    return (
+      <SafeAreaView style={styles.gateContainer}>
+        {isCheckingView ? (
+          <ActivityIndicator size="large" color="white" />
+        ) : (
+          <GlassMorphismCard type="primary" style={styles.gateCard}>
+            <ThemedText style={styles.gateIcon}>{viewError ? '⚠️' : '🔒'}</ThemedText>
+            <ThemedText type="heading" glassText={true} style={styles.gateTitle}>
+              {title}
+            </ThemedText>
+            <ThemedText type="bodyText" glassText={true} style={styles.gateMessage}>
+              {message}
+            </ThemedText>
+            {viewError && (
+              <TouchableOpacity onPress={handleRetryView} activeOpacity={0.7}>
+                <ThemedText type="button" glassText={true}>
+                  Try again
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+          </GlassMorphismCard>
+        )}
+        <TouchableOpacity style={styles.gateCloseButton} onPress={onClose} activeOpacity={0.7}>
+          <ThemedText type="button" glassText={true}>
+            Close
+          </ThemedText>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  };
+
+  /**
+   * Render the AI feedback panel
+   */
+  const renderFeedbackPanel = () => {
+    if (!showFeedback) return null;
+
+    const status = isRequesting ? 'processing' : feedback?.feedback_status;
+
+    return (
+      <GlassMorphismCard type="primary" style={styles.feedbackCard}>
+        <ThemedText type="label" glassText={true} style={styles.feedbackTitle}>
+          Juni&apos;s critique
+        </ThemedText>
+
+        {(status === 'pending' || status === 'processing') && (
+          <View style={styles.feedbackLoading}>
+            <ActivityIndicator size="small" color="white" />
+            <ThemedText type="metadata" glassText={true} style={styles.feedbackText}>
+              Juni is looking at your artwork...
+            </ThemedText>
+          </View>
+        )}
+
+        {status === 'completed' && feedback?.feedback_text && (
+          <ScrollView style={styles.feedbackScroll} showsVerticalScrollIndicator={false}>
+            <ThemedText type="bodyText" glassText={true} style={styles.feedbackText}>
+              {feedback.feedback_text}
+            </ThemedText>
+          </ScrollView>
+        )}
+
+        {status === 'failed' && (
+          <View style={styles.feedbackLoading}>
+            <ThemedText type="metadata" glassText={true} style={[styles.feedbackText, { color: colors.accentCoral }]}>
+              {feedback?.error_message || 'Juni could not critique this artwork.'}
+            </ThemedText>
+            {isOwner && (
+              <TouchableOpacity onPress={handleCritiquePress} activeOpacity={0.7}>
+                <ThemedText type="button" glassText={true}>
+                  Try again
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </GlassMorphismCard>
+    );
+  };
+
+  /**
+   * Render the comment panel
+   */
+  const renderCommentsPanel = () => {
+    if (!showComments) return null;
+
+    return (
+      <GlassMorphismCard type="primary" style={styles.feedbackCard}>
+        <View style={styles.commentsHeader}>
+          <ThemedText type="label" glassText={true} style={styles.feedbackTitle}>
+            Comments
+          </ThemedText>
+          <TouchableOpacity onPress={() => handleComposePress()} activeOpacity={0.7}>
+            <ThemedText type="button" glassText={true} style={styles.feedbackTitle}>
+              Add comment
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+        <ScrollView style={styles.feedbackScroll} showsVerticalScrollIndicator={false}>
+          <CommentThread
+            comments={comments}
+            currentUserId={user?.id}
+            isLoading={isLoadingPostComments}
+            onReply={comment => handleComposePress({ replyTo: comment })}
+            onEdit={comment => handleComposePress({ editing: comment })}
+            onDelete={handleDeleteComment}
+            onToggleReaction={handleCommentReaction}
+            annotationNumbers={annotationNumbers}
+            highlightedCommentId={highlightedCommentId}
+            onAnnotationPress={comment => setHighlightedCommentId(comment.id)}
+          />
+        </ScrollView>
+      </GlassMorphismCard>
+    );
+  };
+
   if (!post) return null;
 
+  const artworkSize = { width: SCREEN_WIDTH - frameInset * 2, height: SCREEN_HEIGHT - frameInset * 2 };
+  const artworkResizeMode = isAnnotating ? 'contain' : 'cover';
+
+  if (isCheckingView || isViewBlocked || viewError) {
+    return (
+      <Modal
+        visible={visible}
+        animationType="fade"
+        transparent={false}
+        onRequestClose={onClose}
+      >
+        <View style={styles.container}>
+          {renderViewGate()}
+        </View>
+      </Modal>
+    );
+  }
+
   return (
     <Modal
       visible={visible}
@@ -140,17 +536,45 @@ export default function FullScreenArtworkView({
       onRequestClose={handleClose}
     >
       <View style={styles.container}>
-        {/* Full-Screen Artwork Background */}
-        <ImageBackground
-          source={{ uri: post.image_url }}
-          style={styles.backgroundImage}
-          resizeMode="cover"
-        >
+        {/* Full-Screen Artwork Background (swipeable for multi-image posts) */}
+        <View style={styles.backgroundImage}>
+          <ArtworkFrame
+            frameStyle={post.frame_style}
+            width={SCREEN_WIDTH}
+            height={SCREEN_HEIGHT}
+            style={StyleSheet.absoluteFill}
+          >
+            <ArtworkImageCarousel
+              key={`${post.id}-${initialImageIndex}`}
+              images={images}
+              width={artworkSize.width}
+              height={artworkSize.height}
+              initialIndex={initialImageIndex}
+              resizeMode={artworkResizeMode}
+              showIndicators={false}
+              onIndexChange={setActiveImageIndex}
+              onImageLoad={handleImageLoad}
+              renderOverlay={index => (
+                <AnnotationOverlay
+                  annotations={annotations}
+                  imageIndex={index}
+                  containerSize={artworkSize}
+                  imageSize={imageSizes[index]}
+                  resizeMode={artworkResizeMode}
+                  highlightedCommentId={highlightedCommentId}
+                  onPinPress={handlePinPress}
+                  onAnchorCreate={isAnnotating ? handleAnchorCreate : undefined}
+                />
+              )}
+            />
+          </ArtworkFrame>
+
           {/* Dark gradient overlay per UIDesign.md */}
-          <View style={styles.gradientOverlay} />
+          <View style={styles.gradientOverlay} pointerEvents="none" />
 
-          {/* Animated Content */}
+          {/* Animated Content (empty areas pass swipes through to the images) */}
           <Animated.View 
+            pointerEvents="box-none"
             style={[
               styles.overlayContainer,
               {
@@ -158,7 +582,7 @@ export default function FullScreenArtworkView({
               },
             ]}
           >
-            <SafeAreaView style={styles.safeArea}>
+            <SafeAreaView style={styles.safeArea} pointerEvents="box-none">
               {/* Top Card - Post Information with Close Button */}
               <Animated.View
                 style={{
@@ -197,6 +621,27 @@ export default function FullScreenArtworkView({
                 </GlassMorphismCard>
               </Animated.View>
 
+              {/* AI Feedback / Comments Panel (empty space passes touches to the artwork) */}
+              <Animated.View
+                pointerEvents="box-none"
+                style={[
+                  styles.feedbackContainer,
+                  {
+                    transform: [{ translateY: slideAnim }],
+                  },
+                ]}
+              >
+                {renderFeedbackPanel()}
+                {renderCommentsPanel()}
+                {isAnnotating && (
+                  <GlassMorphismCard type="secondary" style={styles.annotationHint}>
+                    <ThemedText type="metadata" glassText={true} style={styles.statText}>
+                      Tap a spot or drag a box on the artwork to comment on it
+                    </ThemedText>
+                  </GlassMorphismCard>
+                )}
+              </Animated.View>
+
               {/* Bottom Container */}
               <View style={styles.bottomContainer}>
                 {/* Bottom Left - Stats Card */}
@@ -214,7 +659,7 @@ export default function FullScreenArtworkView({
                       glassText={true} 
                       style={styles.statText}
                     >
-                      {post.view_count}/{post.max_viewers} viewers
+                      {viewStatus?.viewCount ?? post.view_count}/{post.max_viewers} viewers
                     </ThemedText>
                     <ThemedText 
                       type="metadata" 
@@ -223,6 +668,21 @@ export default function FullScreenArtworkView({
                     >
                       Expires in {formatTimeRemaining(post.expires_at)}
                     </ThemedText>
+                    {images.length > 1 && (
+                      <ThemedText 
+                        type="metadata" 
+                        glassText={true} 
+                        style={styles.statText}
+                      >
+                        Image {activeImageIndex + 1} of {images.length}
+                      </ThemedText>
+                    )}
+                    <ReactionBar
+                      reactions={post.reactions}
+                      onToggle={handlePostReaction}
+                      glassText={true}
+                      size="small"
+                    />
                   </GlassMorphismCard>
                 </Animated.View>
 
@@ -235,10 +695,43 @@ export default function FullScreenArtworkView({
                     },
                   ]}
                 >
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={handleAnnotatePress}
+                    activeOpacity={0.7}
+                    accessibilityLabel={isAnnotating ? 'Cancel annotation' : 'Comment on a spot'}
+                  >
+                    <GlassMorphismCard type="secondary" style={styles.actionButtonContent}>
+                      <ThemedText style={styles.actionIcon}>{isAnnotating ? '×' : '📍'}</ThemedText>
+                    </GlassMorphismCard>
+                  </TouchableOpacity>
+                  {(isOwner || feedback?.feedback_status === 'completed') && (
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={isOwner ? handleCritiquePress : () => { setShowComments(false); setIsAnnotating(false); setShowFeedback(!showFeedback); }}
+                      activeOpacity={0.7}
+                      disabled={isRequesting}
+                      accessibilityLabel="Ask Juni to critique"
+                    >
+                      <GlassMorphismCard type="secondary" style={styles.actionButtonContent}>
+                        <ThemedText style={styles.actionIcon}>🎨</ThemedText>
+                        {!feedback && isOwner ? (
+                          <ThemedText 
+                            type="metadata" 
+                            glassText={true} 
+                            style={styles.commentCount}
+                          >
+                            Critique
+                          </ThemedText>
+                        ) : null}
+                      </GlassMorphismCard>
+                    </TouchableOpacity>
+                  )}
                   <TouchableOpacity
                     style={styles.actionButton}
                     onPress={handleCommentPress}
                     activeOpacity={0.7}
+                    accessibilityLabel={showComments ? 'Hide comments' : 'Show comments'}
                   >
                     <GlassMorphismCard type="secondary" style={styles.actionButtonContent}>
                       <ThemedText style={styles.actionIcon}>💬</ThemedText>
@@ -257,7 +750,7 @@ export default function FullScreenArtworkView({
               </View>
             </SafeAreaView>
           </Animated.View>
-        </ImageBackground>
+        </View>
       </View>
     </Modal>
   );
@@ -369,4 +862,69 @@ const styles = StyleSheet.create({
   commentCount: {
     fontSize: 12,
   },
+  
+  // AI Feedback Panel
+  feedbackContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    paddingVertical: 12,
+  },
+  feedbackCard: {
+    padding: 16,
+    gap: 8,
+  },
+  feedbackTitle: {
+    fontSize: 14,
+  },
+  annotationHint: {
+    padding: 12,
+    alignSelf: 'center',
+  },
+  commentsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  feedbackScroll: {
+    maxHeight: SCREEN_HEIGHT * 0.3,
+  },
+  feedbackLoading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  feedbackText: {
+    lineHeight: 22,
+  },
+
+  // View gate (checking / view limit reached)
+  gateContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    gap: 24,
+  },
+  gateCard: {
+    padding: 24,
+    alignItems: 'center',
+    gap: 8,
+    width: '100%',
+  },
+  gateIcon: {
+    fontSize: 32,
+    lineHeight: 40,
+  },
+  gateTitle: {
+    textAlign: 'center',
+  },
+  gateMessage: {
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  gateCloseButton: {
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
 }); 
\ No newline at end of file
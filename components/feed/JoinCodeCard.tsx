@@ -0,0 +1,123 @@
+/**
+ * Join Code Card Component
+ *
+ * Displays a class join code with copy and share actions so teachers can invite students.
+ * Used by the class creation flow and the class settings screen.
+ */
+
+import * as Clipboard from 'expo-clipboard';
+import React, { useState } from 'react';
+import {
+    Share,
+    StyleSheet,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+import { Colors } from '../../constants/Colors';
+import { useColorScheme } from '../../hooks/useColorScheme';
+import { ThemedText } from '../ThemedText';
+
+interface JoinCodeCardProps {
+  joinCode: string;
+  className: string;
+}
+
+export default function JoinCodeCard({ joinCode, className }: JoinCodeCardProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [copied, setCopied] = useState(false);
+
+  /**
+   * Copy the join code to the clipboard
+   */
+  const handleCopy = async () => {
+    console.log('📋 Join Code Card - Copying join code');
+    await Clipboard.setStringAsync(joinCode);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  /**
+   * Open the system share sheet with an invite message
+   */
+  const handleShare = async () => {
+    console.log('📤 Join Code Card - Sharing join code');
+    try {
+      await Share.share({
+        message: `Join my class "${className}" on Draft with code ${joinCode}`,
+      });
+    } catch (error) {
+      console.error('❌ Join Code Card - Share failed:', error);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.surface }]}>
+      <ThemedText type="caption" style={[styles.label, { color: colors.textSecondary }]}>
+        Join Code
+      </ThemedText>
+      <ThemedText selectable style={[styles.code, { color: colors.text }]}>
+        {joinCode}
+      </ThemedText>
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, { borderColor: colors.border }]}
+          onPress={handleCopy}
+          activeOpacity={0.8}
+        >
+          <ThemedText type="button" style={[styles.actionText, { color: colors.text }]}>
+            {copied ? 'Copied ✓' : 'Copy'}
+          </ThemedText>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, { backgroundColor: colors.accentSage, borderColor: colors.accentSage }]}
+          onPress={handleShare}
+          activeOpacity={0.8}
+        >
+          <ThemedText type="button" style={[styles.actionText, { color: '#FFFFFF' }]}>
+            Share
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 20,
+    borderRadius: 16,
+    alignItems: 'center',
+    gap: 8,
+  },
+  label: {
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  code: {
+    fontSize: 28,
+    lineHeight: 36,
+    fontFamily: 'Montserrat_600SemiBold',
+    letterSpacing: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 20,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
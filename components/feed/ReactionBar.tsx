@@ -0,0 +1,114 @@
+/**
+ * Reaction Bar Component
+ *
+ * Row of emoji reactions for a post or comment.
+ * Features:
+ * - One button per allowed emoji, with its count once anyone has reacted
+ * - Highlights the emoji the current user reacted with; tapping toggles it
+ * - Light variant for glass overlays on dark backgrounds (full-screen view)
+ */
+
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { REACTION_EMOJIS } from '@/constants/Reactions';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import type { ReactionEmoji } from '@/lib/supabase';
+import type { ReactionSummary } from '@/store/classStore';
+
+export interface ReactionBarProps {
+  reactions?: ReactionSummary[];
+  onToggle?: (emoji: ReactionEmoji) => void; // Omit to show counts only
+  glassText?: boolean; // White text for dark glass overlays
+  size?: 'small' | 'regular';
+}
+
+export default function ReactionBar({
+  reactions = [],
+  onToggle,
+  glassText = false,
+  size = 'regular',
+}: ReactionBarProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const isSmall = size === 'small';
+
+  return (
+    <View style={styles.container}>
+      {REACTION_EMOJIS.map(emoji => {
+        const reaction = reactions.find(r => r.emoji === emoji);
+        const count = reaction?.count ?? 0;
+        const reacted = !!reaction?.reacted;
+
+        // Without a toggle there is nothing to do with an unused emoji
+        if (!onToggle && count === 0) return null;
+
+        return (
+          <TouchableOpacity
+            key={emoji}
+            style={[
+              styles.reaction,
+              isSmall && styles.reactionSmall,
+              {
+                borderColor: reacted ? colors.accentSage : 'transparent',
+                backgroundColor: reacted ? colors.glassSecondary : 'transparent',
+              },
+            ]}
+            onPress={() => onToggle?.(emoji)}
+            disabled={!onToggle}
+            activeOpacity={0.7}
+            accessibilityLabel={`${reacted ? 'Remove' : 'Add'} ${emoji} reaction`}
+          >
+            <ThemedText style={[styles.emoji, isSmall && styles.emojiSmall, { opacity: count > 0 ? 1 : 0.5 }]}>
+              {emoji}
+            </ThemedText>
+            {count > 0 && (
+              <ThemedText
+                type="metadata"
+                glassText={glassText}
+                style={[styles.count, !glassText && { color: colors.textSecondary }]}
+              >
+                {count}
+              </ThemedText>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  reaction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  reactionSmall: {
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+  },
+  emoji: {
+    fontSize: 16,
+    lineHeight: 20,
+  },
+  emojiSmall: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  count: {
+    fontSize: 11,
+    lineHeight: 15,
+  },
+});
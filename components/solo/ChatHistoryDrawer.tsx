@@ -0,0 +1,518 @@
+/**
+ * Chat History Drawer Component
+ *
+ * Full-screen sheet listing the user's Solo chats with Juni, opened from the Solo header.
+ *
+ * Features:
+ * - Chats ordered by last activity, each with its latest image thumbnail and last message
+ * - Juni's rolling summary of longer chats under the last message
+ * - "New chat" action that starts a fresh conversation
+ * - Inline rename (pencil button or long-press on a chat)
+ * - Swipe left to delete, with a confirmation alert
+ * - Full-text search over every message (debounced); matched words are highlighted and a
+ *   result opens its chat
+ * - Themed styling that adapts to light/dark mode
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Image,
+  Modal,
+  SafeAreaView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import ReanimatedSwipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+
+import { ThemedText } from '@/components/ThemedText';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { getThumbnailUrl } from '@/lib/imageProcessing';
+import type { SoloAIChatPreview, SoloMessageSearchResult } from '@/lib/supabase';
+import { useSoloStore } from '@/store/soloStore';
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Matches the markers search_solo_messages wraps around matched words
+const HIGHLIGHT_PATTERN = /«([^»]*)»/g;
+
+const UNTITLED_CHAT = 'New chat';
+
+export interface ChatHistoryDrawerProps {
+  visible: boolean;
+  userId: string;
+  onClose: () => void;
+}
+
+/**
+ * Format when a chat was last active, e.g. "now", "5m ago", "3h ago", "Yesterday"
+ */
+function formatChatTime(timestamp: string): string {
+  const diffMins = Math.floor((Date.now() - new Date(timestamp).getTime()) / (1000 * 60));
+
+  if (diffMins < 1) return 'now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffMins < 1440) return `${Math.floor(diffMins / 60)}h ago`;
+  if (diffMins < 2880) return 'Yesterday';
+  return new Date(timestamp).toLocaleDateString();
+}
+
+interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a search snippet into plain and highlighted parts
+ */
+function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of snippet.matchAll(HIGHLIGHT_PATTERN)) {
+    if (match.index > lastIndex) {
+      parts.push({ text: snippet.slice(lastIndex, match.index), highlighted: false });
+    }
+    parts.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < snippet.length) {
+    parts.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+
+  return parts;
+}
+
+interface ChatRowProps {
+  chat: SoloAIChatPreview;
+  isCurrent: boolean;
+  onPress: () => void;
+  onRename: (title: string) => Promise<boolean>;
+  onDelete: () => void;
+}
+
+/**
+ * One chat in the list, swipeable to reveal Delete, with an inline title editor
+ */
+function ChatRow({ chat, isCurrent, onPress, onRename, onDelete }: ChatRowProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(chat.title ?? '');
+
+  const startRename = () => {
+    setDraftTitle(chat.title ?? '');
+    setIsRenaming(true);
+  };
+
+  const saveRename = async () => {
+    if (!isRenaming) return;
+    setIsRenaming(false);
+    if (draftTitle.trim() === (chat.title ?? '')) return;
+
+    console.log('📝 Chat History - Renaming chat:', chat.id);
+    const renamed = await onRename(draftTitle);
+    if (!renamed) {
+      Alert.alert('Rename Failed', "Couldn't rename this chat. Please try again.");
+    }
+  };
+
+  const preview = chat.last_message
+    ? `${chat.last_message_role === 'user' ? 'You: ' : ''}${chat.last_message}`
+    : 'No messages yet';
+
+  return (
+    <ReanimatedSwipeable
+      friction={2}
+      rightThreshold={40}
+      overshootRight={false}
+      renderRightActions={(_progress, _translation, swipeable) => (
+        <TouchableOpacity
+          style={[styles.deleteAction, { backgroundColor: colors.accentCoral }]}
+          onPress={() => {
+            swipeable.close();
+            onDelete();
+          }}
+          activeOpacity={0.8}
+          accessibilityLabel="Delete chat"
+        >
+          <IconSymbol name="trash" size={20} color="#FFFFFF" />
+          <ThemedText type="metadata" style={styles.deleteActionText}>
+            Delete
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+    >
+      <TouchableOpacity
+        style={[
+          styles.chatRow,
+          { backgroundColor: isCurrent ? colors.surface : colors.background, borderBottomColor: colors.border },
+        ]}
+        onPress={onPress}
+        onLongPress={startRename}
+        activeOpacity={0.7}
+        disabled={isRenaming}
+      >
+        {chat.last_image_url ? (
+          <Image source={{ uri: getThumbnailUrl(chat.last_image_url) }} style={styles.thumbnail} />
+        ) : (
+          <View style={[styles.thumbnail, styles.thumbnailPlaceholder, { backgroundColor: colors.surface }]}>
+            <IconSymbol name="brain" size={22} color={colors.accentSage} />
+          </View>
+        )}
+
+        <View style={styles.chatDetails}>
+          <View style={styles.chatTitleRow}>
+            {isRenaming ? (
+              <TextInput
+                style={[styles.titleInput, { color: colors.text, borderColor: colors.accentSage }]}
+                value={draftTitle}
+                onChangeText={setDraftTitle}
+                onBlur={saveRename} // "Done" blurs the input, so this also saves on submit
+                placeholder={UNTITLED_CHAT}
+                placeholderTextColor={colors.textTertiary}
+                maxLength={80}
+                autoFocus
+                returnKeyType="done"
+                selectTextOnFocus
+              />
+            ) : (
+              <ThemedText type="label" style={[styles.chatTitle, { color: colors.text }]} numberOfLines={1}>
+                {chat.title || UNTITLED_CHAT}
+              </ThemedText>
+            )}
+            {!isRenaming && (
+              <ThemedText type="smallDetail" style={{ color: colors.textTertiary }}>
+                {formatChatTime(chat.last_message_at ?? chat.updated_at)}
+              </ThemedText>
+            )}
+          </View>
+          <ThemedText type="metadata" style={{ color: colors.textSecondary }} numberOfLines={chat.summary ? 1 : 2}>
+            {preview}
+          </ThemedText>
+          {chat.summary && (
+            <ThemedText type="smallDetail" style={[styles.summary, { color: colors.textTertiary }]} numberOfLines={2}>
+              {chat.summary}
+            </ThemedText>
+          )}
+        </View>
+
+        {!isRenaming && (
+          <TouchableOpacity
+            style={styles.renameButton}
+            onPress={startRename}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            accessibilityLabel="Rename chat"
+          >
+            <IconSymbol name="pencil" size={16} color={colors.textTertiary} />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    </ReanimatedSwipeable>
+  );
+}
+
+export default function ChatHistoryDrawer({ visible, userId, onClose }: ChatHistoryDrawerProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const {
+    userChats,
+    currentChat,
+    isLoadingChats,
+    isCreatingChat,
+    searchResults,
+    isSearching,
+    loadChats,
+    switchToChat,
+    createNewChat,
+    deleteChat,
+    updateChatTitle,
+    searchMessages,
+    clearSearch,
+  } = useSoloStore();
+  const [query, setQuery] = useState('');
+
+  // Refresh previews every time the drawer opens
+  useEffect(() => {
+    if (visible) {
+      loadChats(userId);
+    }
+  }, [visible, userId, loadChats]);
+
+  // Debounced search
+  useEffect(() => {
+    const timer = setTimeout(() => searchMessages(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, searchMessages]);
+
+  const handleClose = () => {
+    setQuery('');
+    clearSearch();
+    onClose();
+  };
+
+  const openChat = async (chatId: string) => {
+    console.log('💬 Chat History - Opening chat:', chatId);
+    handleClose();
+    if (chatId !== currentChat?.id) {
+      await switchToChat(chatId);
+    }
+  };
+
+  const handleNewChat = async () => {
+    console.log('🆕 Chat History - Starting a new chat');
+    const chat = await createNewChat(userId);
+    if (chat) {
+      handleClose();
+    }
+  };
+
+  const confirmDelete = (chat: SoloAIChatPreview) => {
+    Alert.alert(
+      'Delete Chat',
+      `Delete "${chat.title || UNTITLED_CHAT}" and all its messages? Juni will also forget this conversation.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            console.log('🗑️ Chat History - Deleting chat:', chat.id);
+            const deleted = await deleteChat(chat.id, userId);
+            // Always leave the user a chat to talk in
+            if (deleted && useSoloStore.getState().userChats.length === 0) {
+              await createNewChat(userId);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSearchResult = ({ item }: { item: SoloMessageSearchResult }) => (
+    <TouchableOpacity
+      style={[styles.resultRow, { borderBottomColor: colors.border }]}
+      onPress={() => openChat(item.chat_id)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.chatTitleRow}>
+        <ThemedText type="label" style={[styles.chatTitle, { color: colors.text }]} numberOfLines={1}>
+          {item.chat_title || UNTITLED_CHAT}
+        </ThemedText>
+        <ThemedText type="smallDetail" style={{ color: colors.textTertiary }}>
+          {formatChatTime(item.created_at)}
+        </ThemedText>
+      </View>
+      <ThemedText type="metadata" style={{ color: colors.textSecondary }} numberOfLines={3}>
+        {item.role === 'user' ? 'You: ' : 'Juni: '}
+        {splitSnippet(item.snippet).map((part, index) => (
+          <ThemedText
+            key={index}
+            type="metadata"
+            style={part.highlighted ? [styles.highlight, { color: colors.text }] : undefined}
+          >
+            {part.text}
+          </ThemedText>
+        ))}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const isSearchActive = query.trim().length > 0;
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+      <GestureHandlerRootView style={styles.flex}>
+        <SafeAreaView style={[styles.flex, { backgroundColor: colors.background }]}>
+          {/* Header */}
+          <View style={[styles.header, { borderBottomColor: colors.border }]}>
+            <TouchableOpacity onPress={handleClose} style={styles.headerButton} accessibilityLabel="Close chats">
+              <IconSymbol name="xmark" size={20} color={colors.text} />
+            </TouchableOpacity>
+            <ThemedText type="heading" style={{ color: colors.text }}>
+              Chats
+            </ThemedText>
+            <TouchableOpacity
+              onPress={handleNewChat}
+              style={styles.headerButton}
+              disabled={isCreatingChat}
+              accessibilityLabel="New chat"
+            >
+              {isCreatingChat ? (
+                <ActivityIndicator size="small" color={colors.accentSage} />
+              ) : (
+                <IconSymbol name="square.and.pencil" size={22} color={colors.accentSage} />
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {/* Search */}
+          <View style={[styles.searchBar, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <IconSymbol name="magnifyingglass" size={18} color={colors.textTertiary} />
+            <TextInput
+              style={[styles.searchInput, { color: colors.text }]}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search your messages"
+              placeholderTextColor={colors.textTertiary}
+              returnKeyType="search"
+              autoCorrect={false}
+              clearButtonMode="while-editing"
+            />
+            {isSearching && <ActivityIndicator size="small" color={colors.accentSage} />}
+          </View>
+
+          {isSearchActive ? (
+            <FlatList
+              data={searchResults}
+              keyExtractor={(item) => item.message_id}
+              renderItem={renderSearchResult}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                !isSearching ? (
+                  <ThemedText type="bodyText" style={[styles.emptyText, { color: colors.textSecondary }]}>
+                    No messages match &quot;{query.trim()}&quot;
+                  </ThemedText>
+                ) : null
+              }
+            />
+          ) : (
+            <FlatList
+              data={userChats}
+              keyExtractor={(item) => item.id}
+              renderItem={({ item }) => (
+                <ChatRow
+                  chat={item}
+                  isCurrent={item.id === currentChat?.id}
+                  onPress={() => openChat(item.id)}
+                  onRename={(title) => updateChatTitle(item.id, userId, title)}
+                  onDelete={() => confirmDelete(item)}
+                />
+              )}
+              refreshing={isLoadingChats}
+              onRefresh={() => loadChats(userId)}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                !isLoadingChats ? (
+                  <ThemedText type="bodyText" style={[styles.emptyText, { color: colors.textSecondary }]}>
+                    No chats yet. Start one with the pencil button.
+                  </ThemedText>
+                ) : null
+              }
+            />
+          )}
+        </SafeAreaView>
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  chatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+  },
+  thumbnailPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chatDetails: {
+    flex: 1,
+    gap: 2,
+  },
+  chatTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  chatTitle: {
+    flex: 1,
+    fontWeight: '600',
+  },
+  summary: {
+    fontStyle: 'italic',
+  },
+  titleInput: {
+    flex: 1,
+    fontSize: 14,
+    paddingVertical: 2,
+    borderBottomWidth: 1,
+  },
+  renameButton: {
+    padding: 4,
+  },
+  deleteAction: {
+    width: 88,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+  },
+  deleteActionText: {
+    color: '#FFFFFF',
+  },
+  resultRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  highlight: {
+    fontWeight: '700',
+  },
+  emptyText: {
+    textAlign: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 48,
+  },
+});
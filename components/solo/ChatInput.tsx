@@ -41,6 +41,7 @@ import GlassMorphismCard from '@/components/ui/GlassMorphismCard';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { MAX_SOLO_MESSAGE_LENGTH } from '@/lib/soloService';
 import { useSoloStore } from '@/store/soloStore';
 
 export interface ChatInputProps {
@@ -330,6 +331,7 @@ export default function ChatInput({
           placeholder={!isShowingInstructionalText ? placeholder : undefined}
           placeholderTextColor={colors.glassPlaceholder}
           multiline={true}
+          maxLength={MAX_SOLO_MESSAGE_LENGTH}
           textAlignVertical="top"
           editable={!disabled && !isLoading}
           returnKeyType="default"
@@ -7,6 +7,8 @@
  * - Image display for user uploads with proper scaling
  * - Glass morphism design per UIDesign.md specifications
  * - Message timestamps and metadata
+ * - Live rendering of partially streamed AI replies
+ * - Delivery status in place of the timestamp for queued (outbox) messages
  * - Proper text wrapping and layout
  * 
  * Features:
@@ -33,11 +35,15 @@ import type { SoloAIMessage } from '@/lib/supabase';
 export interface ChatMessageProps {
   message: SoloAIMessage;
   isLatest?: boolean;
+  isStreaming?: boolean; // Partial AI reply still receiving tokens
+  statusLabel?: string; // Delivery status shown instead of the timestamp (queued messages)
 }
 
 export default function ChatMessage({
   message,
   isLatest = false,
+  isStreaming = false,
+  statusLabel,
 }: ChatMessageProps) {
   // Minimal logging for debugging - only log when needed
 
@@ -100,6 +106,11 @@ export default function ChatMessage({
         ]}
       >
         {message.content}
+        {isStreaming && (
+          <ThemedText type="bodyText" style={{ color: colors.accentSage }}>
+            ▍
+          </ThemedText>
+        )}
       </ThemedText>
     );
   };
@@ -117,7 +128,7 @@ export default function ChatMessage({
           isUser ? styles.timestampUser : styles.timestampAI
         ]}
       >
-        {formatTimestamp(message.created_at)}
+        {statusLabel ?? (isStreaming ? 'typing...' : formatTimestamp(message.created_at))}
       </ThemedText>
     );
   };
@@ -0,0 +1,123 @@
+/**
+ * Frame Style Picker Component
+ *
+ * Row of frame options shown when sharing artwork with the class.
+ * Features:
+ * - One chip per frame style with a small preview swatch
+ * - Highlights the selected frame with the sage accent
+ * - Disabled while a share is in progress
+ */
+
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { FRAME_STYLES, FrameStyles } from '@/constants/FrameStyles';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import type { FrameStyle } from '@/lib/supabase';
+
+// Preview swatches are drawn at a third of the real frame size
+const SWATCH_SCALE = 1 / 3;
+
+export interface FrameStylePickerProps {
+  value: FrameStyle;
+  onChange: (frameStyle: FrameStyle) => void;
+  disabled?: boolean;
+}
+
+export default function FrameStylePicker({
+  value,
+  onChange,
+  disabled = false,
+}: FrameStylePickerProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const handleSelect = (frameStyle: FrameStyle) => {
+    if (disabled || frameStyle === value) return;
+
+    console.log('🖼️ Frame Picker - Selected frame:', frameStyle);
+    onChange(frameStyle);
+  };
+
+  return (
+    <View style={styles.container}>
+      {FRAME_STYLES.map(frameStyle => {
+        const spec = FrameStyles[frameStyle];
+        const isSelected = frameStyle === value;
+
+        return (
+          <TouchableOpacity
+            key={frameStyle}
+            style={[
+              styles.option,
+              {
+                borderColor: isSelected ? colors.accentSage : colors.glassBorderSecondary,
+                backgroundColor: isSelected ? colors.glassSecondary : 'transparent',
+                opacity: disabled ? 0.5 : 1,
+              },
+            ]}
+            onPress={() => handleSelect(frameStyle)}
+            disabled={disabled}
+            activeOpacity={0.8}
+          >
+            {/* Swatch: moulding, mat, then a plain artwork square */}
+            <View
+              style={[
+                styles.swatch,
+                {
+                  padding: Math.ceil(spec.frameWidth * SWATCH_SCALE),
+                  backgroundColor: spec.frameWidth > 0 ? spec.frameColor : 'transparent',
+                  borderRadius: Math.ceil(spec.borderRadius * SWATCH_SCALE),
+                },
+              ]}
+            >
+              <View
+                style={[
+                  styles.swatchMat,
+                  {
+                    padding: Math.ceil(spec.matWidth * SWATCH_SCALE),
+                    backgroundColor: spec.matColor,
+                  },
+                ]}
+              >
+                <View style={[styles.swatchArtwork, { backgroundColor: colors.accentSage }]} />
+              </View>
+            </View>
+            <ThemedText type="caption" style={{ color: isSelected ? colors.text : colors.textSecondary }}>
+              {spec.label}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    overflow: 'hidden',
+  },
+  swatchMat: {
+    flex: 1,
+  },
+  swatchArtwork: {
+    flex: 1,
+    borderRadius: 2,
+  },
+});
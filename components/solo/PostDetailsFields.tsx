@@ -0,0 +1,269 @@
+/**
+ * Post Details Fields Component
+ *
+ * Optional structured details about the artwork, used by the Share with Class modal.
+ * Features:
+ * - Collapsed by default behind an "Add details" toggle (kept open while a detail is invalid)
+ * - Title, medium chips, physical size and time spent (hours + minutes)
+ * - Free-form tags with a preview of how they'll be saved
+ * - Inline validation message for values the posts table would reject
+ */
+
+import React, { useState } from 'react';
+import { ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { ART_MEDIUMS, ArtMediumLabels } from '@/constants/ArtMediums';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import {
+  MAX_POST_DIMENSIONS_LENGTH,
+  MAX_POST_TITLE_LENGTH,
+  normalizeTags,
+  type PostMetadata,
+} from '@/lib/postService';
+import type { ArtMedium } from '@/lib/supabase';
+
+/**
+ * Details as typed into the form (converted with toPostMetadata when sharing)
+ */
+export interface PostDetailsInput {
+  title: string;
+  medium?: ArtMedium;
+  dimensions: string;
+  hours: string;
+  minutes: string;
+  tags: string; // Comma-separated
+}
+
+export const EMPTY_POST_DETAILS: PostDetailsInput = {
+  title: '',
+  dimensions: '',
+  hours: '',
+  minutes: '',
+  tags: '',
+};
+
+/**
+ * Convert form input to post metadata, leaving out blank fields
+ */
+export function toPostMetadata(input: PostDetailsInput): PostMetadata {
+  const hours = parseInt(input.hours, 10) || 0;
+  const minutes = parseInt(input.minutes, 10) || 0;
+  const timeSpentMinutes = hours * 60 + minutes;
+
+  return {
+    title: input.title.trim() || undefined,
+    medium: input.medium,
+    dimensions: input.dimensions.trim() || undefined,
+    timeSpentMinutes: timeSpentMinutes > 0 ? timeSpentMinutes : undefined,
+    tags: normalizeTags(input.tags),
+  };
+}
+
+export interface PostDetailsFieldsProps {
+  value: PostDetailsInput;
+  onChange: (value: PostDetailsInput) => void;
+  error?: string | null;
+  disabled?: boolean;
+}
+
+export default function PostDetailsFields({
+  value,
+  onChange,
+  error = null,
+  disabled = false,
+}: PostDetailsFieldsProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const metadata = toPostMetadata(value);
+  const tags = metadata.tags ?? [];
+  const hasDetails = Boolean(
+    metadata.title || metadata.medium || metadata.dimensions || metadata.timeSpentMinutes || tags.length > 0
+  );
+  const showFields = isExpanded || Boolean(error);
+
+  const update = (changes: Partial<PostDetailsInput>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const handleMediumPress = (medium: ArtMedium) => {
+    console.log('🏷️ Post Details - Medium selected:', medium);
+    update({ medium: medium === value.medium ? undefined : medium });
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      borderColor: colors.glassBorderSecondary,
+      backgroundColor: colors.glassInput,
+      color: colors.text,
+    },
+  ];
+
+  return (
+    <View style={styles.container}>
+      {/* Toggle */}
+      <TouchableOpacity
+        style={styles.toggleRow}
+        onPress={() => setIsExpanded(!showFields)}
+        disabled={Boolean(error)}
+        activeOpacity={0.7}
+      >
+        <ThemedText type="label" style={{ color: colors.textSecondary }}>
+          {hasDetails ? 'Details' : 'Add details (optional)'}
+        </ThemedText>
+        <IconSymbol
+          name={showFields ? 'chevron.up' : 'chevron.down'}
+          size={14}
+          color={colors.textSecondary}
+          weight="regular"
+        />
+      </TouchableOpacity>
+
+      {showFields && (
+        <View style={styles.fields}>
+          {/* Title */}
+          <TextInput
+            style={inputStyle}
+            value={value.title}
+            onChangeText={title => update({ title })}
+            placeholder="Title"
+            placeholderTextColor={colors.glassPlaceholder}
+            maxLength={MAX_POST_TITLE_LENGTH}
+            editable={!disabled}
+          />
+
+          {/* Medium */}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {ART_MEDIUMS.map(medium => {
+              const isSelected = medium === value.medium;
+
+              return (
+                <TouchableOpacity
+                  key={medium}
+                  style={[
+                    styles.chip,
+                    {
+                      borderColor: isSelected ? colors.accentSage : colors.glassBorderSecondary,
+                      backgroundColor: isSelected ? colors.glassSecondary : 'transparent',
+                      opacity: disabled ? 0.5 : 1,
+                    },
+                  ]}
+                  onPress={() => handleMediumPress(medium)}
+                  disabled={disabled}
+                  activeOpacity={0.8}
+                >
+                  <ThemedText type="caption" style={{ color: isSelected ? colors.text : colors.textSecondary }}>
+                    {ArtMediumLabels[medium]}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {/* Size and Time Spent */}
+          <View style={styles.row}>
+            <TextInput
+              style={[inputStyle, styles.sizeInput]}
+              value={value.dimensions}
+              onChangeText={dimensions => update({ dimensions })}
+              placeholder="Size, e.g. 9 x 12 in"
+              placeholderTextColor={colors.glassPlaceholder}
+              maxLength={MAX_POST_DIMENSIONS_LENGTH}
+              editable={!disabled}
+            />
+            <TextInput
+              style={[inputStyle, styles.timeInput]}
+              value={value.hours}
+              onChangeText={hours => update({ hours: hours.replace(/\D/g, '') })}
+              placeholder="h"
+              placeholderTextColor={colors.glassPlaceholder}
+              keyboardType="number-pad"
+              maxLength={4}
+              editable={!disabled}
+            />
+            <TextInput
+              style={[inputStyle, styles.timeInput]}
+              value={value.minutes}
+              onChangeText={minutes => update({ minutes: minutes.replace(/\D/g, '') })}
+              placeholder="min"
+              placeholderTextColor={colors.glassPlaceholder}
+              keyboardType="number-pad"
+              maxLength={3}
+              editable={!disabled}
+            />
+          </View>
+
+          {/* Tags */}
+          <TextInput
+            style={inputStyle}
+            value={value.tags}
+            onChangeText={tagText => update({ tags: tagText })}
+            placeholder="Tags, separated by commas"
+            placeholderTextColor={colors.glassPlaceholder}
+            autoCapitalize="none"
+            editable={!disabled}
+          />
+          {tags.length > 0 && (
+            <ThemedText type="caption" style={{ color: colors.accentDarkSage }}>
+              {tags.map(tag => `#${tag}`).join('  ')}
+            </ThemedText>
+          )}
+
+          {error && (
+            <ThemedText type="caption" style={{ color: colors.accentCoral }}>
+              {error}
+            </ThemedText>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  fields: {
+    gap: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    fontFamily: 'Montserrat_400Regular',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  sizeInput: {
+    flex: 1,
+  },
+  timeInput: {
+    width: 56,
+    textAlign: 'center',
+  },
+});
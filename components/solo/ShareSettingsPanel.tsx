@@ -0,0 +1,235 @@
+/**
+ * Share Settings Panel Component
+ *
+ * Controls for how a shared post is published, used by the Share with Class modal.
+ * Features:
+ * - Target class selection: one or more of the classes the user belongs to
+ * - Viewer limit stepper, kept within the posts table limits (1 - 50)
+ * - Lifetime presets (1h, 5h, 24h, 7d)
+ * - Preview of who can see the post and when it will expire
+ */
+
+import React from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import {
+  getPostExpiryDate,
+  MAX_POST_VIEWERS,
+  MIN_POST_VIEWERS,
+  POST_DURATION_PRESETS,
+} from '@/lib/postService';
+import type { Class } from '@/lib/supabase';
+
+export interface ShareSettingsPanelProps {
+  classes: Pick<Class, 'id' | 'name'>[];
+  classIds: string[];
+  maxViewers: number;
+  durationHours: number;
+  onToggleClass: (classId: string) => void;
+  onMaxViewersChange: (maxViewers: number) => void;
+  onDurationChange: (durationHours: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Format the expiry time, e.g. "today at 3:45 PM" or "Tue, Jul 15 at 9:00 AM"
+ */
+function formatExpiry(expiresAt: Date): string {
+  const time = expiresAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+  if (expiresAt.toDateString() === new Date().toDateString()) {
+    return `today at ${time}`;
+  }
+
+  const day = expiresAt.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+  return `${day} at ${time}`;
+}
+
+export default function ShareSettingsPanel({
+  classes,
+  classIds,
+  maxViewers,
+  durationHours,
+  onToggleClass,
+  onMaxViewersChange,
+  onDurationChange,
+  disabled = false,
+}: ShareSettingsPanelProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const selectedClasses = classes.filter(classItem => classIds.includes(classItem.id));
+  const expiresAt = getPostExpiryDate(durationHours);
+
+  const viewerLabel = `${maxViewers} ${maxViewers === 1 ? 'classmate' : 'classmates'}`;
+  const classLabel = selectedClasses.length === 1
+    ? ` in ${selectedClasses[0].name}`
+    : selectedClasses.length > 1
+      ? ` in each of ${selectedClasses.length} classes`
+      : '';
+  const previewMessage = classes.length === 0
+    ? 'Join a class to share your artwork.'
+    : `Visible to ${viewerLabel}${classLabel} until ${formatExpiry(expiresAt)}`;
+
+  /**
+   * Step the viewer limit, staying within the allowed range
+   */
+  const stepViewers = (delta: number) => {
+    const next = Math.min(Math.max(maxViewers + delta, MIN_POST_VIEWERS), MAX_POST_VIEWERS);
+    if (next !== maxViewers) {
+      onMaxViewersChange(next);
+    }
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          borderColor: isSelected ? colors.accentSage : colors.glassBorderSecondary,
+          backgroundColor: isSelected ? colors.glassSecondary : 'transparent',
+          opacity: disabled ? 0.5 : 1,
+        },
+      ]}
+      onPress={onPress}
+      disabled={disabled}
+      activeOpacity={0.8}
+    >
+      <ThemedText type="caption" style={{ color: isSelected ? colors.text : colors.textSecondary }}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Target Classes (only a choice when the user is in more than one) */}
+      {classes.length > 1 && (
+        <View style={styles.section}>
+          <ThemedText type="label" style={{ color: colors.textSecondary }}>
+            Share to
+          </ThemedText>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {classes.map(classItem => renderChip(
+              classItem.id,
+              classItem.name,
+              classIds.includes(classItem.id),
+              () => onToggleClass(classItem.id)
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      {/* Viewer Limit */}
+      <View style={styles.row}>
+        <ThemedText type="label" style={{ color: colors.textSecondary }}>
+          Viewer limit
+        </ThemedText>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            style={[styles.stepButton, { backgroundColor: colors.glassSecondary }]}
+            onPress={() => stepViewers(-1)}
+            disabled={disabled || maxViewers <= MIN_POST_VIEWERS}
+            activeOpacity={0.8}
+          >
+            <ThemedText type="button" style={{ color: colors.text }}>−</ThemedText>
+          </TouchableOpacity>
+          <ThemedText type="bodyText" style={[styles.stepValue, { color: colors.text }]}>
+            {maxViewers}
+          </ThemedText>
+          <TouchableOpacity
+            style={[styles.stepButton, { backgroundColor: colors.glassSecondary }]}
+            onPress={() => stepViewers(1)}
+            disabled={disabled || maxViewers >= MAX_POST_VIEWERS}
+            activeOpacity={0.8}
+          >
+            <ThemedText type="button" style={{ color: colors.text }}>+</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {/* Lifetime */}
+      <View style={styles.section}>
+        <ThemedText type="label" style={{ color: colors.textSecondary }}>
+          Visible for
+        </ThemedText>
+        <View style={styles.chipRow}>
+          {POST_DURATION_PRESETS.map(preset => renderChip(
+            preset.label,
+            preset.label,
+            preset.hours === durationHours,
+            () => onDurationChange(preset.hours)
+          ))}
+        </View>
+      </View>
+
+      {/* Expiry Preview */}
+      <View style={[styles.previewContainer, { backgroundColor: colors.glassSecondary }]}>
+        <IconSymbol
+          name="info.circle"
+          size={16}
+          color={colors.textSecondary}
+          weight="regular"
+        />
+        <ThemedText type="caption" style={[styles.previewText, { color: colors.textSecondary }]}>
+          {previewMessage}
+        </ThemedText>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  section: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  previewContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+  },
+  previewText: {
+    flex: 1,
+  },
+});
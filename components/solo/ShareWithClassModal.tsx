@@ -5,8 +5,14 @@
  * Features:
  * - Glass morphism design without blurred background per UIDesign.md
  * - Image preview of the artwork to be shared
+ * - Multi-image selection for work-in-progress sequences (kept in the order they were made)
  * - Caption/question input field for context
+ * - Optional details: title, medium, size, time spent and tags
+ * - Frame picker (none, classic, modern, vintage) saved with the post
+ * - Target classes (one or several), viewer limit and lifetime controls with an expiry preview
  * - Share button to confirm and post to class feed
+ * - Optional upload progress bar, cancellable while uploading
+ * - Inline error message (the modal stays open when a share fails)
  * - Smooth open/close animations
  * - Proper keyboard handling for caption input
  * 
@@ -18,11 +24,13 @@ import React, { useEffect, useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Animated,
+    Dimensions,
     Image,
     Keyboard,
     KeyboardAvoidingView,
     Modal,
     Platform,
+    ScrollView,
     StyleSheet,
     TextInput,
     TouchableOpacity,
@@ -31,32 +39,77 @@ import {
 } from 'react-native';
 
 import { ThemedText } from '@/components/ThemedText';
+import FrameStylePicker from '@/components/solo/FrameStylePicker';
+import PostDetailsFields, {
+    EMPTY_POST_DETAILS,
+    toPostMetadata,
+    type PostDetailsInput,
+} from '@/components/solo/PostDetailsFields';
+import ShareSettingsPanel from '@/components/solo/ShareSettingsPanel';
 import GlassMorphismCard from '@/components/ui/GlassMorphismCard';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { Colors } from '@/constants/Colors';
+import { DEFAULT_FRAME_STYLE } from '@/constants/FrameStyles';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import {
+    DEFAULT_POST_DURATION_HOURS,
+    DEFAULT_POST_VIEWERS,
+    MAX_POST_IMAGES,
+    validatePostMetadata,
+    validatePostSettings,
+    type PostMetadata,
+    type PostShareSettings,
+} from '@/lib/postService';
+import type { FrameStyle } from '@/lib/supabase';
+import { useAuthStore } from '@/store/authStore';
+import { useClassStore } from '@/store/classStore';
+
+const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
 export interface ShareWithClassModalProps {
   visible: boolean;
-  imageUrl: string | null;
+  imageUrls: string[]; // Candidate images in the order they were made
+  initialSelectedUrls?: string[]; // Defaults to every candidate
   onClose: () => void;
-  onShare: (caption: string) => Promise<void>;
+  onShare: (
+    caption: string,
+    imageUrls: string[],
+    settings: PostShareSettings,
+    metadata: PostMetadata
+  ) => Promise<boolean | void>; // Return false to keep the modal open
   isLoading?: boolean;
+  progress?: number | null; // Upload progress 0 - 1, shown while sharing
+  statusMessage?: string | null; // Replaces the default "Uploading…" label
+  errorMessage?: string | null;
+  onCancelShare?: () => void; // Enables cancelling while a share is in progress
 }
 
 export default function ShareWithClassModal({
   visible,
-  imageUrl,
+  imageUrls,
+  initialSelectedUrls,
   onClose,
   onShare,
   isLoading = false,
+  progress = null,
+  statusMessage = null,
+  errorMessage = null,
+  onCancelShare,
 }: ShareWithClassModalProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
+  const { user } = useAuthStore();
+  const { currentClass, userClasses, loadUserClasses } = useClassStore();
   
   // Local state
   const [caption, setCaption] = useState('');
+  const [details, setDetails] = useState<PostDetailsInput>(EMPTY_POST_DETAILS);
   const [isSharing, setIsSharing] = useState(false);
+  const [frameStyle, setFrameStyle] = useState<FrameStyle>(DEFAULT_FRAME_STYLE);
+  const [pickedClassIds, setPickedClassIds] = useState<string[] | null>(null); // null until the user changes the classes
+  const [maxViewers, setMaxViewers] = useState(DEFAULT_POST_VIEWERS);
+  const [durationHours, setDurationHours] = useState(DEFAULT_POST_DURATION_HOURS);
+  const [pickedUrls, setPickedUrls] = useState<string[] | null>(null); // null until the user changes the selection
   
   // Animation values
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -65,7 +118,7 @@ export default function ShareWithClassModal({
   // Handle modal visibility animations
   useEffect(() => {
     if (visible) {
-      console.log('📸 Share Modal - Opening with image:', imageUrl);
+      console.log('📸 Share Modal - Opening with images:', imageUrls.length);
       
       // Fade in and scale up
       Animated.parallel([
@@ -102,21 +155,98 @@ export default function ShareWithClassModal({
   useEffect(() => {
     if (!visible) {
       setCaption('');
+      setDetails(EMPTY_POST_DETAILS);
       setIsSharing(false);
+      setPickedUrls(null);
+      setFrameStyle(DEFAULT_FRAME_STYLE);
+      setPickedClassIds(null);
+      setMaxViewers(DEFAULT_POST_VIEWERS);
+      setDurationHours(DEFAULT_POST_DURATION_HOURS);
     }
   }, [visible]);
 
+  // Images going into the post, in the order they were made
+  const initialUrls = initialSelectedUrls ?? imageUrls;
+  const selectedUrls = pickedUrls
+    ?? imageUrls.filter(url => initialUrls.includes(url)).slice(0, MAX_POST_IMAGES);
+
+  // Load the user's classes if no screen has yet (sharing can happen before the feed tab is opened)
+  useEffect(() => {
+    if (visible && user?.id && userClasses.length === 0) {
+      console.log('📚 Share Modal - Loading classes to share to');
+      loadUserClasses(user.id);
+    }
+  }, [visible, user?.id, userClasses.length, loadUserClasses]);
+
+  // Classes the post goes to (the current class, or the first one, unless the user picks others)
+  const defaultClassId = currentClass?.id ?? userClasses[0]?.id;
+  const classIds = pickedClassIds ?? (defaultClassId ? [defaultClassId] : []);
+  const settingsError = validatePostSettings({ maxViewers, durationHours });
+  const metadata = toPostMetadata(details);
+  const metadataError = validatePostMetadata(metadata);
+
+  const isBusy = isSharing || isLoading;
+  const canShare = caption.trim().length > 0
+    && selectedUrls.length > 0
+    && classIds.length > 0
+    && !settingsError
+    && !metadataError;
+
+  /**
+   * Add or remove a class to share to (at least one stays selected)
+   */
+  const toggleClass = (classId: string) => {
+    if (classIds.includes(classId)) {
+      if (classIds.length > 1) {
+        setPickedClassIds(classIds.filter(selected => selected !== classId));
+      }
+      return;
+    }
+
+    setPickedClassIds(userClasses
+      .map(userClass => userClass.id)
+      .filter(id => id === classId || classIds.includes(id)));
+  };
+
+  /**
+   * Toggle an image in or out of the post, keeping the order the images were made in
+   */
+  const toggleImage = (url: string) => {
+    if (isSharing || isLoading) return;
+
+    if (selectedUrls.includes(url)) {
+      // A post always needs at least one image
+      if (selectedUrls.length > 1) {
+        setPickedUrls(selectedUrls.filter(selected => selected !== url));
+      }
+      return;
+    }
+
+    if (selectedUrls.length >= MAX_POST_IMAGES) {
+      console.log('⚠️ Share Modal - Image limit reached:', MAX_POST_IMAGES);
+      return;
+    }
+
+    setPickedUrls(imageUrls.filter(candidate => candidate === url || selectedUrls.includes(candidate)));
+  };
+
   /**
    * Handle share button press
    */
   const handleShare = async () => {
-    if (isSharing || isLoading || !caption.trim()) return;
+    if (isSharing || isLoading || !canShare) return;
     
-    console.log('🚀 Share Modal - Sharing with caption:', caption);
+    const settings: PostShareSettings = { classIds, maxViewers, durationHours, frameStyle };
+    console.log('🚀 Share Modal - Sharing', selectedUrls.length, 'image(s) with caption:', caption, 'settings:', settings);
+    console.log('🏷️ Share Modal - Details:', metadata);
     setIsSharing(true);
     
     try {
-      await onShare(caption.trim());
+      const shared = await onShare(caption.trim(), selectedUrls, settings, metadata);
+      if (shared === false) {
+        console.log('⚠️ Share Modal - Share did not complete, keeping modal open');
+        return;
+      }
       console.log('✅ Share Modal - Successfully shared');
       onClose();
     } catch (error) {
@@ -127,19 +257,40 @@ export default function ShareWithClassModal({
     }
   };
 
+
+  /**
+   * Close the modal, or cancel the share while one is in progress
+   */
+  const handleDismiss = () => {
+    if (!isBusy) {
+      onClose();
+      return;
+    }
+
+    if (onCancelShare) {
+      console.log('🛑 Share Modal - Cancelling share');
+      onCancelShare();
+    }
+  };
+
   // Don't render if no image
-  if (!imageUrl) return null;
+  if (imageUrls.length === 0) return null;
+
+  const coverUrl = selectedUrls[0] ?? imageUrls[imageUrls.length - 1];
+
+
+  const progressPercent = progress !== null ? Math.round(Math.min(Math.max(progress, 0), 1) * 100) : null;
 
   return (
     <Modal
       transparent
       visible={visible}
       animationType="none"
-      onRequestClose={onClose}
+      onRequestClose={handleDismiss}
     >
       <TouchableWithoutFeedback onPress={() => {
         Keyboard.dismiss();
-        onClose();
+        handleDismiss();
       }}>
         <Animated.View 
           style={[
@@ -173,7 +324,7 @@ export default function ShareWithClassModal({
                       </ThemedText>
                       <TouchableOpacity
                         style={[styles.closeButton, { backgroundColor: colors.glassSecondary }]}
-                        onPress={onClose}
+                        onPress={handleDismiss}
                         activeOpacity={0.8}
                       >
                         <IconSymbol
@@ -186,16 +337,79 @@ export default function ShareWithClassModal({
                     </View>
                   </TouchableWithoutFeedback>
 
-                  {/* Image Preview */}
-                  <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
-                    <View style={styles.imageContainer}>
-                      <Image
-                        source={{ uri: imageUrl }}
-                        style={styles.previewImage}
-                        resizeMode="cover"
-                      />
+                  {/* Body (scrolls on small screens) */}
+                  <ScrollView
+                    style={styles.body}
+                    contentContainerStyle={styles.bodyContent}
+                    keyboardShouldPersistTaps="handled"
+                    showsVerticalScrollIndicator={false}
+                  >
+                    {/* Image Preview */}
+                    <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+                      <View style={styles.imageContainer}>
+                        <Image
+                          source={{ uri: coverUrl }}
+                          style={styles.previewImage}
+                          resizeMode="cover"
+                        />
+                      </View>
+                    </TouchableWithoutFeedback>
+
+                    {/* Sequence Picker */}
+                    {imageUrls.length > 1 && (
+                      <View style={styles.sequenceContainer}>
+                        <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                          {selectedUrls.length} of {imageUrls.length} images selected (max {MAX_POST_IMAGES})
+                        </ThemedText>
+                        <ScrollView
+                          horizontal
+                          showsHorizontalScrollIndicator={false}
+                          contentContainerStyle={styles.sequenceList}
+                        >
+                          {imageUrls.map(url => {
+                            const selectedIndex = selectedUrls.indexOf(url);
+                            const isSelected = selectedIndex !== -1;
+
+                            return (
+                              <TouchableOpacity
+                                key={url}
+                                onPress={() => toggleImage(url)}
+                                activeOpacity={0.8}
+                                style={[
+                                  styles.sequenceItem,
+                                  { borderColor: isSelected ? colors.accentSage : 'transparent' },
+                                ]}
+                              >
+                                <Image
+                                  source={{ uri: url }}
+                                  style={[styles.sequenceImage, !isSelected && styles.sequenceImageUnselected]}
+                                  resizeMode="cover"
+                                />
+                                {isSelected && (
+                                  <View style={[styles.sequenceBadge, { backgroundColor: colors.accentSage }]}>
+                                    <ThemedText type="caption" style={styles.sequenceBadgeText}>
+                                      {selectedIndex + 1}
+                                    </ThemedText>
+                                  </View>
+                                )}
+                              </TouchableOpacity>
+                            );
+                          })}
+                      </ScrollView>
                     </View>
-                  </TouchableWithoutFeedback>
+                  )}
+
+                  {/* Frame Picker */}
+                  <View style={styles.frameContainer}>
+                    <ThemedText type="label" style={{ color: colors.textSecondary }}>
+                      Frame
+                    </ThemedText>
+                    <FrameStylePicker
+                      value={frameStyle}
+                      onChange={setFrameStyle}
+                      disabled={isBusy}
+                    />
+                  </View>
 
                   {/* Caption Input */}
                   <View style={styles.inputContainer}>
@@ -227,20 +441,59 @@ export default function ShareWithClassModal({
                     </ThemedText>
                   </View>
 
-                  {/* Share Settings Info */}
-                  <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
-                    <View style={[styles.infoContainer, { backgroundColor: colors.glassSecondary }]}>
+                  {/* Details */}
+                  <PostDetailsFields
+                    value={details}
+                    onChange={setDetails}
+                    error={metadataError}
+                    disabled={isBusy}
+                  />
+
+                  {/* Share Settings */}
+                  <ShareSettingsPanel
+                    classes={userClasses}
+                    classIds={classIds}
+                    maxViewers={maxViewers}
+                    durationHours={durationHours}
+                    onToggleClass={toggleClass}
+                    onMaxViewersChange={setMaxViewers}
+                    onDurationChange={setDurationHours}
+                    disabled={isBusy}
+                  />
+
+                  {/* Upload Progress */}
+                  {isBusy && progressPercent !== null && (
+                    <View style={styles.progressContainer}>
+                      <View style={[styles.progressTrack, { backgroundColor: colors.glassSecondary }]}>
+                        <View
+                          style={[
+                            styles.progressFill,
+                            { width: `${progressPercent}%`, backgroundColor: colors.accentSage },
+                          ]}
+                        />
+                      </View>
+                      <ThemedText type="caption" style={{ color: colors.textSecondary }}>
+                        {statusMessage || `Uploading… ${progressPercent}%`}
+                      </ThemedText>
+                    </View>
+                  )}
+
+                  {/* Error Message */}
+                  {errorMessage && !isBusy && (
+                    <View style={[styles.errorContainer, { backgroundColor: colors.glassSecondary }]}>
                       <IconSymbol
-                        name="info.circle"
+                        name="exclamationmark.triangle"
                         size={16}
-                        color={colors.textSecondary}
+                        color={colors.accentCoral}
                         weight="regular"
                       />
-                      <ThemedText type="caption" style={[styles.infoText, { color: colors.textSecondary }]}>
-                        Your post will be visible to 5 classmates for 5 hours
+                      <ThemedText type="caption" style={[styles.errorText, { color: colors.accentCoral }]}>
+                        {errorMessage}
                       </ThemedText>
                     </View>
-                  </TouchableWithoutFeedback>
+                  )}
+
+                  </ScrollView>
 
                   {/* Action Buttons */}
                   <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
@@ -250,8 +503,8 @@ export default function ShareWithClassModal({
                           styles.cancelButton,
                           { backgroundColor: colors.glassSecondary }
                         ]}
-                        onPress={onClose}
-                        disabled={isSharing || isLoading}
+                        onPress={handleDismiss}
+                        disabled={isBusy && !onCancelShare}
                         activeOpacity={0.8}
                       >
                         <ThemedText type="button" style={[styles.cancelButtonText, { color: colors.text }]}>
@@ -263,12 +516,12 @@ export default function ShareWithClassModal({
                         style={[
                           styles.shareButton,
                           { 
-                            backgroundColor: caption.trim() ? '#4CAF50' : colors.border,
-                            opacity: caption.trim() && !isSharing && !isLoading ? 1 : 0.5,
+                            backgroundColor: canShare ? '#4CAF50' : colors.border,
+                            opacity: canShare && !isSharing && !isLoading ? 1 : 0.5,
                           }
                         ]}
                         onPress={handleShare}
-                        disabled={!caption.trim() || isSharing || isLoading}
+                        disabled={!canShare || isSharing || isLoading}
                         activeOpacity={0.8}
                       >
                         {isSharing || isLoading ? (
@@ -325,6 +578,12 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  body: {
+    maxHeight: SCREEN_HEIGHT * 0.6,
+  },
+  bodyContent: {
+    gap: 20,
+  },
   imageContainer: {
     borderRadius: 12,
     overflow: 'hidden',
@@ -334,6 +593,44 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
+  sequenceContainer: {
+    gap: 8,
+  },
+  frameContainer: {
+    gap: 8,
+  },
+  sequenceList: {
+    gap: 8,
+  },
+  sequenceItem: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    borderWidth: 2,
+    overflow: 'hidden',
+  },
+  sequenceImage: {
+    width: '100%',
+    height: '100%',
+  },
+  sequenceImageUnselected: {
+    opacity: 0.4,
+  },
+  sequenceBadge: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sequenceBadgeText: {
+    color: 'white',
+    fontSize: 11,
+    lineHeight: 14,
+  },
   inputContainer: {
     gap: 8,
   },
@@ -353,14 +650,26 @@ const styles = StyleSheet.create({
   characterCount: {
     textAlign: 'right',
   },
-  infoContainer: {
+  progressContainer: {
+    gap: 6,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  errorContainer: {
     flexDirection: 'row',
     alignItems: 'center',
     gap: 8,
     padding: 12,
     borderRadius: 8,
   },
-  infoText: {
+  errorText: {
     flex: 1,
   },
   actionButtons: {
@@ -5,6 +5,7 @@
  * It handles:
  * - Chat message display with user and AI message bubbles
  * - Loading states during AI response generation
+ * - Live partial AI replies while the response streams in
  * - Error handling for API failures
  * - Chat scrolling and message ordering
  * - Integration with the Solo store for state management
@@ -16,6 +17,8 @@
  * - Image display support for user uploads
  * - Loading indicators during AI processing
  * - Error states with retry functionality
+ * - Queued (offline outbox) messages with sending/failed/retry states; a failure's reason is
+ *   shown when the server gave one, and Retry is hidden when retrying can't help
  * - Empty state for new chat sessions
  */
 
@@ -35,6 +38,8 @@ import { ThemedText } from '@/components/ThemedText';
 import GlassMorphismCard from '@/components/ui/GlassMorphismCard';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import type { OutboxMessage } from '@/lib/soloOutbox';
+import { isPermanentAIError } from '@/lib/soloService';
 import type { SoloAIMessage } from '@/lib/supabase';
 
 import ChatMessage from './ChatMessage';
@@ -42,21 +47,31 @@ import ChatMessage from './ChatMessage';
 export interface SoloChatProps {
   messages: SoloAIMessage[];
   isLoading: boolean;
+  streamingResponse?: string | null;
   isError: boolean;
   errorMessage?: string;
   onRetry?: () => void;
   onRefresh?: () => void;
   isRefreshing?: boolean;
+  queuedMessages?: OutboxMessage[];
+  isOffline?: boolean;
+  onRetryQueued?: (messageId: string) => void;
+  onDiscardQueued?: (messageId: string) => void;
 }
 
 export default function SoloChat({
   messages,
   isLoading,
+  streamingResponse,
   isError,
   errorMessage,
   onRetry,
   onRefresh,
   isRefreshing = false,
+  queuedMessages = [],
+  isOffline = false,
+  onRetryQueued,
+  onDiscardQueued,
 }: SoloChatProps) {
   // Reduced logging - only log significant state changes
 
@@ -107,6 +122,26 @@ export default function SoloChat({
     }
   }, [messages.length]);
 
+  /**
+   * Scroll to newly queued messages
+   */
+  useEffect(() => {
+    if (queuedMessages.length > 0 && flatListRef.current) {
+      setTimeout(() => {
+        flatListRef.current?.scrollToEnd({ animated: true });
+      }, 100);
+    }
+  }, [queuedMessages.length]);
+
+  /**
+   * Keep the streaming reply in view as it grows
+   */
+  useEffect(() => {
+    if (streamingResponse && flatListRef.current) {
+      flatListRef.current.scrollToEnd({ animated: false });
+    }
+  }, [streamingResponse]);
+
   /**
    * Render individual chat message
    */
@@ -119,11 +154,99 @@ export default function SoloChat({
     );
   };
 
+  /**
+   * Render the partial AI reply while tokens are streaming in
+   */
+  const renderStreamingMessage = () => {
+    if (!isLoading || !streamingResponse) return null;
+
+    return (
+      <ChatMessage
+        message={{
+          id: 'streaming',
+          chat_id: messages[messages.length - 1]?.chat_id ?? '',
+          role: 'assistant',
+          content: streamingResponse,
+          created_at: new Date().toISOString(),
+        }}
+        isLatest
+        isStreaming
+      />
+    );
+  };
+
+  /**
+   * Get the delivery status shown on a queued message
+   */
+  const getQueuedStatusLabel = (queued: OutboxMessage): string => {
+    switch (queued.status) {
+      case 'sending':
+        return 'Sending...';
+      case 'failed':
+        return 'Not sent';
+      default:
+        return isOffline ? 'Waiting for connection' : 'Queued';
+    }
+  };
+
+  /**
+   * Render messages still in the outbox, oldest first
+   * If an earlier attempt already saved the user message (only Juni's reply failed),
+   * only the status row is shown so the message isn't duplicated.
+   */
+  const renderQueuedMessages = () => {
+    if (queuedMessages.length === 0) return null;
+
+    return queuedMessages.map((queued) => {
+      const isSaved = messages.some(message => message.client_message_id === queued.id);
+
+      return (
+        <View key={queued.id} style={queued.status === 'failed' ? undefined : styles.queuedMessagePending}>
+          {!isSaved && (
+            <ChatMessage
+              message={{
+                id: queued.id,
+                chat_id: queued.chatId,
+                role: 'user',
+                content: queued.message,
+                image_url: queued.uploadedImageUrl ?? queued.imageUri,
+                created_at: queued.createdAt,
+              }}
+              statusLabel={getQueuedStatusLabel(queued)}
+            />
+          )}
+          {queued.status === 'failed' && (
+            <View style={styles.queuedActions}>
+              <ThemedText type="caption" style={[styles.queuedError, { color: colors.accentCoral }]}>
+                {queued.errorCode ? queued.error : isSaved ? 'Juni could not reply' : 'Message not sent'}
+              </ThemedText>
+              {onRetryQueued && !isPermanentAIError(queued.errorCode) && (
+                <TouchableOpacity onPress={() => onRetryQueued(queued.id)} activeOpacity={0.7}>
+                  <ThemedText type="caption" style={[styles.queuedAction, { color: colors.accentSage }]}>
+                    Retry
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+              {onDiscardQueued && (
+                <TouchableOpacity onPress={() => onDiscardQueued(queued.id)} activeOpacity={0.7}>
+                  <ThemedText type="caption" style={[styles.queuedAction, { color: colors.textSecondary }]}>
+                    Discard
+                  </ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+      );
+    });
+  };
+
   /**
    * Render loading indicator for AI response
    */
   const renderLoadingIndicator = () => {
-    if (!isLoading) return null;
+    // Once tokens arrive the streaming message replaces the spinner
+    if (!isLoading || streamingResponse) return null;
     
     return (
       <View style={styles.loadingContainer}>
@@ -235,9 +358,11 @@ export default function SoloChat({
         }}
         automaticallyAdjustContentInsets={false} // We handle this manually
         automaticallyAdjustKeyboardInsets={false} // Disable automatic adjustment to control manually
-        ListEmptyComponent={renderEmptyState}
+        ListEmptyComponent={queuedMessages.length === 0 ? renderEmptyState : null}
         ListFooterComponent={
           <View style={styles.footerContainer}>
+            {renderQueuedMessages()}
+            {renderStreamingMessage()}
             {renderLoadingIndicator()}
             {renderErrorState()}
           </View>
@@ -369,6 +494,27 @@ const styles = StyleSheet.create({
     // Montserrat 16pt per UIDesign.md applied via ThemedText type="bodyText"
   },
   
+  // Queued Messages
+  queuedMessagePending: {
+    opacity: 0.7,                 // Dimmed until delivered
+  },
+  queuedActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 12,                      // 12px gap between actions
+    paddingHorizontal: 8,
+    paddingBottom: 8,
+  },
+  queuedError: {
+    // Montserrat 11pt per UIDesign.md applied via ThemedText type="caption"
+    flexShrink: 1,                // Longer server reasons wrap instead of pushing the actions off-screen
+  },
+  queuedAction: {
+    fontWeight: '600',
+    paddingVertical: 4,           // Larger touch target
+  },
+  
   // Footer Container
   footerContainer: {
     paddingBottom: 0,             // No bottom padding - handled by parent container
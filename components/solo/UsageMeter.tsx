@@ -0,0 +1,80 @@
+/**
+ * Usage Meter Component
+ *
+ * Thin meter in the Solo Tutor header showing how many Juni messages the student has left.
+ *
+ * Features:
+ * - "N of M messages left today", or this month when the monthly quota runs out first
+ * - Progress bar that turns coral when fewer than a fifth of the messages are left
+ * - Reset hint once the quota is used up
+ * - Themed styling that adapts to light/dark mode
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import type { AIUsageSummary } from '@/lib/supabase';
+
+// Share of the quota left below which the meter turns coral
+const LOW_USAGE_THRESHOLD = 0.2;
+
+export interface UsageMeterProps {
+  usage: AIUsageSummary;
+}
+
+export default function UsageMeter({ usage }: UsageMeterProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const dailyLeft = Math.max(usage.daily_limit - usage.daily_used, 0);
+  const monthlyLeft = Math.max(usage.monthly_limit - usage.monthly_used, 0);
+
+  // Show whichever quota runs out first
+  const isMonthly = monthlyLeft < dailyLeft;
+  const left = isMonthly ? monthlyLeft : dailyLeft;
+  const limit = isMonthly ? usage.monthly_limit : usage.daily_limit;
+  const period = isMonthly ? 'this month' : 'today';
+  const resetsAt = new Date(isMonthly ? usage.monthly_resets_at : usage.daily_resets_at);
+
+  const fractionLeft = limit > 0 ? left / limit : 0;
+  const barColor = fractionLeft < LOW_USAGE_THRESHOLD ? colors.accentCoral : colors.accentSage;
+
+  const label = left > 0
+    ? `${left} of ${limit} messages left ${period}`
+    : `No messages left ${period} · resets ${isMonthly ? resetsAt.toLocaleDateString() : resetsAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`;
+
+  return (
+    <View style={styles.container} accessibilityRole="progressbar" accessibilityLabel={label}>
+      <ThemedText type="metadata" style={[styles.label, { color: colors.textSecondary }]}>
+        {label}
+      </ThemedText>
+      <View style={[styles.track, { backgroundColor: colors.border }]}>
+        <View style={[styles.fill, { width: `${fractionLeft * 100}%`, backgroundColor: barColor }]} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  label: {
+    textAlign: 'center',
+    marginBottom: 6,
+  },
+  track: {
+    width: '60%',
+    height: 3,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+});
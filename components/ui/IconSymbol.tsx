@@ -18,10 +18,19 @@ const MAPPING = {
   'paperplane.fill': 'send',
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
+  'chevron.up': 'expand-less', // Collapsible sections
+  'chevron.down': 'expand-more',
   'camera.fill': 'camera-alt',
   'brain': 'psychology', // Solo AI Tutor icon
   'plus': 'add', // Plus icon for image upload
   'checkmark': 'check', // Checkmark for completion
+  'exclamationmark.triangle': 'warning', // Inline error messages
+  'xmark': 'close', // Close buttons
+  'line.3.horizontal': 'menu', // Solo chat list
+  'square.and.pencil': 'edit-note', // New chat
+  'pencil': 'edit', // Rename
+  'trash': 'delete', // Swipe-to-delete
+  'magnifyingglass': 'search', // Message search
 } as IconMapping;
 
 /**
@@ -0,0 +1,51 @@
+/**
+ * Art Mediums
+ *
+ * Mediums artists can tag shared artwork with, used by the share modal and the feed filter.
+ * The allowed values match the posts.medium check constraint.
+ */
+
+import type { ArtMedium } from '@/lib/supabase';
+
+// In picker order
+export const ART_MEDIUMS: ArtMedium[] = [
+  'pencil',
+  'charcoal',
+  'ink',
+  'watercolor',
+  'gouache',
+  'acrylic',
+  'oil',
+  'pastel',
+  'digital',
+  'mixed_media',
+  'other',
+];
+
+export const ArtMediumLabels: Record<ArtMedium, string> = {
+  pencil: 'Pencil',
+  charcoal: 'Charcoal',
+  ink: 'Ink',
+  watercolor: 'Watercolor',
+  gouache: 'Gouache',
+  acrylic: 'Acrylic',
+  oil: 'Oil',
+  pastel: 'Pastel',
+  digital: 'Digital',
+  mixed_media: 'Mixed media',
+  other: 'Other',
+};
+
+/**
+ * Check that a value is one of the allowed mediums
+ */
+export function isArtMedium(value: unknown): value is ArtMedium {
+  return typeof value === 'string' && (ART_MEDIUMS as string[]).includes(value);
+}
+
+/**
+ * Display label for a post's medium, or null when it has none (or an unknown one)
+ */
+export function getArtMediumLabel(medium: string | null | undefined): string | null {
+  return isArtMedium(medium) ? ArtMediumLabels[medium] : null;
+}
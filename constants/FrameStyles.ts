@@ -0,0 +1,83 @@
+/**
+ * Artwork Frame Styles
+ *
+ * Frames artists can pick when sharing artwork with their class.
+ * Each frame is an outer moulding plus an optional mat between the moulding and the artwork.
+ * The allowed values match the posts.frame_style check constraint.
+ */
+
+import type { FrameStyle } from '@/lib/supabase';
+
+export interface FrameStyleSpec {
+  label: string;
+  frameWidth: number;          // Moulding thickness
+  frameColor: string;
+  frameBorderColor?: string;   // Thin edge line around the moulding
+  matWidth: number;            // Mat between the moulding and the artwork (0 = no mat)
+  matColor: string;
+  borderRadius: number;
+}
+
+// In picker order
+export const FRAME_STYLES: FrameStyle[] = ['none', 'classic', 'modern', 'vintage'];
+
+export const DEFAULT_FRAME_STYLE: FrameStyle = 'none';
+
+export const FrameStyles: Record<FrameStyle, FrameStyleSpec> = {
+  none: {
+    label: 'None',
+    frameWidth: 0,
+    frameColor: 'transparent',
+    matWidth: 0,
+    matColor: 'transparent',
+    borderRadius: 16,            // Same rounded corners as unframed artwork cards
+  },
+  classic: {
+    label: 'Classic',
+    frameWidth: 10,
+    frameColor: '#7A5A32',       // Walnut moulding
+    frameBorderColor: '#5C4224',
+    matWidth: 8,
+    matColor: '#F6F1E7',         // Off-white mat
+    borderRadius: 4,
+  },
+  modern: {
+    label: 'Modern',
+    frameWidth: 4,
+    frameColor: '#2C2C2C',       // Thin charcoal edge
+    matWidth: 0,
+    matColor: 'transparent',
+    borderRadius: 2,
+  },
+  vintage: {
+    label: 'Vintage',
+    frameWidth: 12,
+    frameColor: '#B8956A',       // Aged gilt (warm tan accent)
+    frameBorderColor: '#8A6E4B',
+    matWidth: 6,
+    matColor: '#EFE6D2',         // Cream mat
+    borderRadius: 8,
+  },
+};
+
+/**
+ * Check that a value is one of the allowed frame styles
+ */
+export function isFrameStyle(value: unknown): value is FrameStyle {
+  return typeof value === 'string' && (FRAME_STYLES as string[]).includes(value);
+}
+
+/**
+ * Get the frame spec for a post, treating missing or unknown values as no frame
+ */
+export function getFrameStyleSpec(frameStyle: string | null | undefined): FrameStyleSpec {
+  return FrameStyles[isFrameStyle(frameStyle) ? frameStyle : DEFAULT_FRAME_STYLE];
+}
+
+/**
+ * Space the frame takes up on each side of the artwork
+ */
+export function getFrameInset(frameStyle: string | null | undefined): number {
+  const spec = getFrameStyleSpec(frameStyle);
+  return spec.frameWidth + spec.matWidth;
+}
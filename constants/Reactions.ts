@@ -0,0 +1,19 @@
+/**
+ * Reactions
+ *
+ * Emoji classmates can react to posts and comments with.
+ * Kept to a small, encouraging set; the allowed values match the post_reactions and
+ * comment_reactions check constraints.
+ */
+
+import type { ReactionEmoji } from '@/lib/supabase';
+
+// In display order
+export const REACTION_EMOJIS: ReactionEmoji[] = ['❤️', '👏', '🔥', '😍', '💡'];
+
+/**
+ * Check that a value is one of the allowed reaction emoji
+ */
+export function isReactionEmoji(value: unknown): value is ReactionEmoji {
+  return typeof value === 'string' && (REACTION_EMOJIS as string[]).includes(value);
+}
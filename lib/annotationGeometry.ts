@@ -0,0 +1,153 @@
+/**
+ * Annotation Geometry
+ *
+ * Converts between comment anchors and points on screen:
+ * - Where an image actually lands in its container (cover crops it, contain letterboxes it)
+ * - A tap or drag on the artwork → pin or rectangle anchor, rounded the way comments.anchor_* store it
+ * - An anchor → its on-screen frame, and whether that frame shows inside a cropped view
+ *
+ * Anchors are fractions (0-1) of the original image, so the same anchor lands on the same spot
+ * in the full-screen view, in a square feed card, and on any screen size.
+ */
+
+import type { Comment, CommentAnchor } from './supabase';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Frame extends Point, Size {}
+
+export type AnnotationResizeMode = 'cover' | 'contain';
+
+// Drags shorter than this (in points) drop a pin instead of drawing a rectangle
+export const MIN_ANNOTATION_DRAG = 12;
+
+// comments.anchor_* are NUMERIC(5, 4)
+const ANCHOR_SCALE = 10000;
+
+/**
+ * Clamp a fraction to 0-1 and convert it to whole anchor units
+ */
+function toAnchorUnits(fraction: number): number {
+  return Math.round(Math.min(Math.max(fraction, 0), 1) * ANCHOR_SCALE);
+}
+
+/**
+ * Frame the image occupies inside its container for a resize mode
+ * (with cover the frame is larger than the container and partly off-screen)
+ */
+export function getImageFrame(container: Size, image: Size, resizeMode: AnnotationResizeMode): Frame {
+  const scaleX = container.width / image.width;
+  const scaleY = container.height / image.height;
+  const scale = resizeMode === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const width = image.width * scale;
+  const height = image.height * scale;
+
+  return {
+    x: (container.width - width) / 2,
+    y: (container.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Whether a point in the container lands on the image (not on letterboxing)
+ */
+export function isPointOnImage(point: Point, imageFrame: Frame): boolean {
+  return (
+    point.x >= imageFrame.x &&
+    point.x <= imageFrame.x + imageFrame.width &&
+    point.y >= imageFrame.y &&
+    point.y <= imageFrame.y + imageFrame.height
+  );
+}
+
+/**
+ * Build an anchor from a gesture on the image: a pin for a tap, a rectangle for a drag
+ * Returns null when the gesture starts off the image.
+ */
+export function toCommentAnchor(
+  start: Point,
+  end: Point,
+  imageFrame: Frame,
+  imageIndex: number
+): CommentAnchor | null {
+  if (!isPointOnImage(start, imageFrame)) return null;
+
+  const unitsX = (x: number) => toAnchorUnits((x - imageFrame.x) / imageFrame.width);
+  const unitsY = (y: number) => toAnchorUnits((y - imageFrame.y) / imageFrame.height);
+
+  const isDrag = Math.hypot(end.x - start.x, end.y - start.y) >= MIN_ANNOTATION_DRAG;
+  const left = unitsX(Math.min(start.x, end.x));
+  const top = unitsY(Math.min(start.y, end.y));
+  const width = unitsX(Math.max(start.x, end.x)) - left;
+  const height = unitsY(Math.max(start.y, end.y)) - top;
+
+  // A flat drag (e.g. along an edge) has no area, so it becomes a pin where it started
+  if (!isDrag || width === 0 || height === 0) {
+    return {
+      image_index: imageIndex,
+      x: unitsX(start.x) / ANCHOR_SCALE,
+      y: unitsY(start.y) / ANCHOR_SCALE,
+    };
+  }
+
+  // Whole units keep x + width <= 1 exactly, as the comments_anchor_rect_range check requires
+  return {
+    image_index: imageIndex,
+    x: left / ANCHOR_SCALE,
+    y: top / ANCHOR_SCALE,
+    width: width / ANCHOR_SCALE,
+    height: height / ANCHOR_SCALE,
+  };
+}
+
+/**
+ * On-screen frame of an anchor (a pin has no width or height)
+ */
+export function getAnchorFrame(anchor: CommentAnchor, imageFrame: Frame): Frame {
+  return {
+    x: imageFrame.x + anchor.x * imageFrame.width,
+    y: imageFrame.y + anchor.y * imageFrame.height,
+    width: (anchor.width ?? 0) * imageFrame.width,
+    height: (anchor.height ?? 0) * imageFrame.height,
+  };
+}
+
+/**
+ * Whether an anchor's frame shows inside the container (cropped-away anchors are hidden)
+ */
+export function isFrameVisible(frame: Frame, container: Size): boolean {
+  return (
+    frame.x + frame.width >= 0 &&
+    frame.x <= container.width &&
+    frame.y + frame.height >= 0 &&
+    frame.y <= container.height
+  );
+}
+
+/**
+ * Read a comment's anchor, or null when it isn't pinned to the artwork
+ */
+export function getCommentAnchor(
+  comment: Pick<Comment, 'anchor_image_index' | 'anchor_x' | 'anchor_y' | 'anchor_width' | 'anchor_height'>
+): CommentAnchor | null {
+  if (comment.anchor_x == null || comment.anchor_y == null) return null;
+
+  // NUMERIC columns may arrive as strings
+  return {
+    image_index: Number(comment.anchor_image_index ?? 0),
+    x: Number(comment.anchor_x),
+    y: Number(comment.anchor_y),
+    width: comment.anchor_width == null ? null : Number(comment.anchor_width),
+    height: comment.anchor_height == null ? null : Number(comment.anchor_height),
+  };
+}
@@ -3,22 +3,17 @@
  * 
  * This service handles all class-related operations including:
  * - Class creation and management
- * - Join code validation and verification
+ * - Join code format validation; joining itself is checked by the join_class_with_code database function
  * - Class membership management
  * - Class discovery and listing
+ * - Teacher tools: editing details, join code regeneration, deactivation and rosters
  */
 
 import type { Class, ClassMember } from './supabase';
 import { supabase } from './supabase';
 
-/**
- * Class validation result interface
- */
-export interface ClassValidationResult {
-  isValid: boolean;
-  class?: Class;
-  error?: string;
-}
+// Every class column except join_code, which only staff can read (through class_join_codes)
+const CLASS_COLUMNS = 'id, name, description, created_by, is_active, max_students, created_at, updated_at';
 
 /**
  * Class join result interface
@@ -41,6 +36,33 @@ export interface ClassCreationOptions {
   joinCode?: string; // Optional custom join code
 }
 
+/**
+ * Editable class details (teachers/admins only)
+ */
+export interface ClassUpdateOptions {
+  name?: string;
+  description?: string;
+  maxStudents?: number;
+}
+
+/**
+ * Roster entry shown on the class settings screen
+ */
+export interface ClassRosterMember extends ClassMember {
+  user?: {
+    id: string;
+    username?: string;
+    avatar_url?: string;
+  };
+}
+
+/**
+ * Whether a membership role can manage the class
+ */
+export function canManageClass(membership?: ClassMember | null): boolean {
+  return membership?.role === 'teacher' || membership?.role === 'admin';
+}
+
 /**
  * Validate join code format
  */
@@ -67,17 +89,27 @@ export function normalizeJoinCode(joinCode: string): string {
   return joinCode.trim().toUpperCase();
 }
 
+// Row returned by the join_class_with_code database function
+interface JoinClassRow {
+  is_member: boolean;
+  reason: 'joined' | 'rejoined' | 'already_member' | 'not_found' | 'full';
+  joined_class_id: string | null;
+}
+
 /**
- * Validate and find class by join code
+ * Join a class with join code
+ *
+ * The join_class_with_code database function checks the code, rejoins former members and
+ * enforces the class size, so membership can't be gained without the code.
  */
-export async function validateClassJoinCode(joinCode: string): Promise<ClassValidationResult> {
-  console.log('🔍 Class Service - Validating class join code:', joinCode);
+export async function joinClass(joinCode: string, userId: string): Promise<ClassJoinResult> {
+  console.log('🚀 Class Service - User attempting to join class:', { joinCode, userId });
 
   try {
     // Validate format first
     if (!validateJoinCodeFormat(joinCode)) {
       return {
-        isValid: false,
+        success: false,
         error: 'Join code must be 6 characters (letters and numbers only)'
       };
     }
@@ -85,179 +117,75 @@ export async function validateClassJoinCode(joinCode: string): Promise<ClassVali
     const normalizedCode = normalizeJoinCode(joinCode);
     console.log('📝 Class Service - Normalized join code:', normalizedCode);
 
-    // Look up class by join code
-    const { data: classData, error } = await supabase
-      .from('classes')
-      .select('*')
-      .eq('join_code', normalizedCode)
-      .eq('is_active', true)
-      .single();
-
-    if (error) {
-      console.error('❌ Class Service - Database error:', error);
-      
-      if (error.code === 'PGRST116') {
-        return {
-          isValid: false,
-          error: 'Class not found. Please check your join code.'
-        };
-      }
-      
-      return {
-        isValid: false,
-        error: 'Failed to validate join code. Please try again.'
-      };
-    }
-
-    if (!classData) {
-      console.log('❌ Class Service - No class found with join code');
-      return {
-        isValid: false,
-        error: 'Class not found. Please check your join code.'
-      };
-    }
-
-    console.log('✅ Class Service - Class found:', classData.name);
-    return {
-      isValid: true,
-      class: classData as Class
-    };
-
-  } catch (error) {
-    console.error('❌ Class Service - Unexpected error during validation:', error);
-    return {
-      isValid: false,
-      error: 'An error occurred while validating the join code'
-    };
-  }
-}
-
-/**
- * Join a class with join code
- */
-export async function joinClass(joinCode: string, userId: string): Promise<ClassJoinResult> {
-  console.log('🚀 Class Service - User attempting to join class:', { joinCode, userId });
+    const { data, error: joinError } = await supabase.rpc('join_class_with_code', {
+      code: normalizedCode
+    });
 
-  try {
-    // First validate the join code and get class info
-    const validation = await validateClassJoinCode(joinCode);
-    
-    if (!validation.isValid || !validation.class) {
-      console.log('❌ Class Service - Join code validation failed');
+    if (joinError) {
+      console.error('❌ Class Service - Error joining class:', joinError);
       return {
         success: false,
-        error: validation.error
+        error: 'Failed to join class. Please try again.'
       };
     }
 
-    const classData = validation.class;
-    console.log('✅ Class Service - Join code validated for class:', classData.name);
-
-    // Check if user is already a member
-    const { data: existingMembership, error: membershipError } = await supabase
-      .from('class_members')
-      .select('*')
-      .eq('class_id', classData.id)
-      .eq('user_id', userId)
-      .single();
+    const result = (data as JoinClassRow[] | null)?.[0];
+    console.log('📊 Class Service - Join result:', result?.reason);
 
-    if (membershipError && membershipError.code !== 'PGRST116') {
-      console.error('❌ Class Service - Error checking existing membership:', membershipError);
+    if (!result || result.reason === 'not_found' || !result.joined_class_id) {
       return {
         success: false,
-        error: 'Failed to check class membership'
+        error: 'Class not found. Please check your join code.'
       };
     }
 
-    if (existingMembership) {
-      console.log('ℹ️ Class Service - User is already a member');
-      
-      if (existingMembership.is_active) {
-        return {
-          success: true,
-          membership: existingMembership as ClassMember,
-          class: classData,
-          error: 'You are already a member of this class',
-          isExistingMember: true
-        };
-      } else {
-        // Reactivate membership
-        const { data: reactivatedMembership, error: reactivateError } = await supabase
-          .from('class_members')
-          .update({ is_active: true })
-          .eq('id', existingMembership.id)
-          .select()
-          .single();
-
-        if (reactivateError) {
-          console.error('❌ Class Service - Error reactivating membership:', reactivateError);
-          return {
-            success: false,
-            error: 'Failed to rejoin class'
-          };
-        }
-
-        console.log('✅ Class Service - Membership reactivated');
-        return {
-          success: true,
-          membership: reactivatedMembership as ClassMember,
-          class: classData,
-          isExistingMember: true
-        };
-      }
-    }
-
-    // Check class capacity
-    const { data: memberCount, error: countError } = await supabase
-      .from('class_members')
-      .select('id', { count: 'exact' })
-      .eq('class_id', classData.id)
-      .eq('is_active', true);
-
-    if (countError) {
-      console.error('❌ Class Service - Error checking member count:', countError);
+    if (result.reason === 'full') {
       return {
         success: false,
-        error: 'Failed to check class capacity'
+        error: 'This class is full. Please try a different class.'
       };
     }
 
-    const currentMemberCount = memberCount?.length || 0;
-    console.log('📊 Class Service - Current member count:', currentMemberCount, '/', classData.max_students);
-
-    if (currentMemberCount >= classData.max_students) {
+    // Now a member, so the class and the membership are readable
+    const [{ data: classData, error: classError }, { data: membership, error: membershipError }] = await Promise.all([
+      supabase
+        .from('classes')
+        .select(CLASS_COLUMNS)
+        .eq('id', result.joined_class_id)
+        .single(),
+      supabase
+        .from('class_members')
+        .select('*')
+        .eq('class_id', result.joined_class_id)
+        .eq('user_id', userId)
+        .single()
+    ]);
+
+    if (classError || membershipError) {
+      console.error('❌ Class Service - Error loading joined class:', classError || membershipError);
       return {
         success: false,
-        error: 'This class is full. Please try a different class.'
+        error: 'Joined the class, but it could not be loaded. Please refresh your classes.'
       };
     }
 
-    // Create new membership
-    const { data: newMembership, error: createError } = await supabase
-      .from('class_members')
-      .insert({
-        class_id: classData.id,
-        user_id: userId,
-        role: 'student',
-        is_active: true
-      })
-      .select()
-      .single();
-
-    if (createError) {
-      console.error('❌ Class Service - Error creating membership:', createError);
+    if (result.reason === 'already_member') {
+      console.log('ℹ️ Class Service - User is already a member');
       return {
-        success: false,
-        error: 'Failed to join class. Please try again.'
+        success: true,
+        membership: membership as ClassMember,
+        class: classData as Class,
+        error: 'You are already a member of this class',
+        isExistingMember: true
       };
     }
 
-    console.log('🎉 Class Service - Successfully joined class!');
+    console.log(result.reason === 'rejoined' ? '✅ Class Service - Membership reactivated' : '🎉 Class Service - Successfully joined class!');
     return {
       success: true,
-      membership: newMembership as ClassMember,
-      class: classData,
-      isExistingMember: false
+      membership: membership as ClassMember,
+      class: classData as Class,
+      isExistingMember: result.reason === 'rejoined'
     };
 
   } catch (error) {
@@ -289,7 +217,6 @@ export async function getUserClasses(userId: string): Promise<Array<Class & { me
           id,
           name,
           description,
-          join_code,
           created_by,
           is_active,
           max_students,
@@ -325,6 +252,24 @@ export async function getUserClasses(userId: string): Promise<Array<Class & { me
         } as ClassMember
       })) as Array<Class & { membership: ClassMember }>;
 
+    // Join codes are only readable by staff, so load them for the classes the user manages
+    const managedClassIds = userClasses.filter(c => canManageClass(c.membership)).map(c => c.id);
+    if (managedClassIds.length > 0) {
+      const { data: joinCodes, error: joinCodesError } = await supabase
+        .from('class_join_codes')
+        .select('class_id, join_code')
+        .in('class_id', managedClassIds);
+
+      if (joinCodesError) {
+        console.error('❌ Class Service - Error fetching join codes:', joinCodesError);
+      } else {
+        const joinCodeByClass = new Map(joinCodes.map(row => [row.class_id, row.join_code]));
+        userClasses.forEach(c => {
+          c.join_code = joinCodeByClass.get(c.id);
+        });
+      }
+    }
+
     console.log('✅ Class Service - Found', userClasses.length, 'classes for user');
     return userClasses;
 
@@ -335,28 +280,26 @@ export async function getUserClasses(userId: string): Promise<Array<Class & { me
 }
 
 /**
- * Create a new class
+ * Create a new class with the creator as its teacher
+ *
+ * The create_class database function adds the class and the teacher membership together,
+ * so a failure can't leave behind a class nobody is allowed to manage.
  */
 export async function createClass(options: ClassCreationOptions, creatorId: string): Promise<{
   success: boolean;
   class?: Class;
+  membership?: ClassMember;
   error?: string;
 }> {
   console.log('🏗️ Class Service - Creating new class:', options);
 
   try {
-    const { data: newClass, error } = await supabase
-      .from('classes')
-      .insert({
-        name: options.name.trim(),
-        description: options.description?.trim(),
-        max_students: options.maxStudents || 30,
-        join_code: options.joinCode, // Will be auto-generated if not provided
-        created_by: creatorId,
-        is_active: true
-      })
-      .select()
-      .single();
+    const { data: newClass, error } = await supabase.rpc('create_class', {
+      class_name: options.name.trim(),
+      class_description: options.description?.trim() || null,
+      class_max_students: options.maxStudents || 30,
+      class_join_code: options.joinCode || null // Will be auto-generated if not provided
+    });
 
     if (error) {
       console.error('❌ Class Service - Error creating class:', error);
@@ -376,19 +319,26 @@ export async function createClass(options: ClassCreationOptions, creatorId: stri
 
     console.log('🎉 Class Service - Class created successfully:', newClass.name);
     
-    // Auto-join the creator as a teacher
-    await supabase
+    // Load the teacher membership create_class added
+    const { data: membership, error: membershipError } = await supabase
       .from('class_members')
-      .insert({
-        class_id: newClass.id,
-        user_id: creatorId,
-        role: 'teacher',
-        is_active: true
-      });
+      .select('*')
+      .eq('class_id', newClass.id)
+      .eq('user_id', creatorId)
+      .single();
+
+    if (membershipError) {
+      console.error('❌ Class Service - Error loading teacher membership:', membershipError);
+      return {
+        success: false,
+        error: 'Class created, but it could not be loaded. Please refresh your classes.'
+      };
+    }
 
     return {
       success: true,
-      class: newClass as Class
+      class: newClass as Class,
+      membership: membership as ClassMember
     };
 
   } catch (error) {
@@ -434,4 +384,173 @@ export async function leaveClass(classId: string, userId: string): Promise<{
       error: 'An unexpected error occurred while leaving the class'
     };
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Update class details (teachers/admins only, enforced by RLS)
+ */
+export async function updateClass(classId: string, updates: ClassUpdateOptions): Promise<{
+  success: boolean;
+  class?: Class;
+  error?: string;
+}> {
+  console.log('✏️ Class Service - Updating class:', { classId, updates });
+
+  try {
+    if (updates.name !== undefined && !updates.name.trim()) {
+      return { success: false, error: 'Class name cannot be empty' };
+    }
+
+    if (updates.maxStudents !== undefined && (!Number.isInteger(updates.maxStudents) || updates.maxStudents < 1)) {
+      return { success: false, error: 'Max students must be a whole number greater than 0' };
+    }
+
+    const { data: updatedClass, error } = await supabase
+      .from('classes')
+      .update({
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.description !== undefined && { description: updates.description.trim() || null }),
+        ...(updates.maxStudents !== undefined && { max_students: updates.maxStudents })
+      })
+      .eq('id', classId)
+      .select(CLASS_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('❌ Class Service - Error updating class:', error);
+
+      if (error.code === 'PGRST116') {
+        return { success: false, error: 'Only teachers can edit this class' };
+      }
+
+      return { success: false, error: 'Failed to update class. Please try again.' };
+    }
+
+    console.log('✅ Class Service - Class updated:', updatedClass.name);
+    return { success: true, class: updatedClass as Class };
+
+  } catch (error) {
+    console.error('❌ Class Service - Unexpected error updating class:', error);
+    return {
+      success: false,
+      error: 'An unexpected error occurred while updating the class'
+    };
+  }
+}
+
+/**
+ * Replace the class join code with a new unique one (teachers/admins only)
+ */
+export async function regenerateJoinCode(classId: string): Promise<{
+  success: boolean;
+  joinCode?: string;
+  error?: string;
+}> {
+  console.log('🔁 Class Service - Regenerating join code for class:', classId);
+
+  try {
+    const { data: joinCode, error } = await supabase.rpc('regenerate_class_join_code', {
+      target_class_id: classId
+    });
+
+    if (error) {
+      console.error('❌ Class Service - Error regenerating join code:', error);
+      return { success: false, error: 'Failed to regenerate join code. Only teachers can do this.' };
+    }
+
+    console.log('✅ Class Service - New join code generated');
+    return { success: true, joinCode: joinCode as string };
+
+  } catch (error) {
+    console.error('❌ Class Service - Unexpected error regenerating join code:', error);
+    return {
+      success: false,
+      error: 'An unexpected error occurred while regenerating the join code'
+    };
+  }
+}
+
+/**
+ * Deactivate a class (teachers/admins only)
+ * 
+ * Deactivated classes disappear from members' class lists and can no longer be joined.
+ */
+export async function deactivateClass(classId: string): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  console.log('🚫 Class Service - Deactivating class:', classId);
+
+  try {
+    const { data, error } = await supabase
+      .from('classes')
+      .update({ is_active: false })
+      .eq('id', classId)
+      .select('id');
+
+    if (error) {
+      console.error('❌ Class Service - Error deactivating class:', error);
+      return { success: false, error: 'Failed to deactivate class. Please try again.' };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Only teachers can deactivate this class' };
+    }
+
+    console.log('✅ Class Service - Class deactivated');
+    return { success: true };
+
+  } catch (error) {
+    console.error('❌ Class Service - Unexpected error deactivating class:', error);
+    return {
+      success: false,
+      error: 'An unexpected error occurred while deactivating the class'
+    };
+  }
+}
+
+/**
+ * Get the active roster for a class (teachers/admins only, enforced by RLS)
+ */
+export async function getClassRoster(classId: string): Promise<ClassRosterMember[]> {
+  console.log('👥 Class Service - Fetching roster for class:', classId);
+
+  try {
+    const { data: members, error } = await supabase
+      .from('class_members')
+      .select('*')
+      .eq('class_id', classId)
+      .eq('is_active', true)
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Class Service - Error fetching roster:', error);
+      return [];
+    }
+
+    // Fetch user data separately (no foreign key from class_members to public.users)
+    const userIds = (members || []).map(member => member.user_id);
+    const { data: users, error: usersError } = await supabase
+      .from('users')
+      .select('id, username, avatar_url')
+      .in('id', userIds);
+
+    if (usersError) {
+      console.error('❌ Class Service - Error fetching roster users:', usersError);
+    }
+
+    const userMap = new Map(users?.map(user => [user.id, user]) || []);
+
+    const roster = (members || []).map(member => ({
+      ...member,
+      user: userMap.get(member.user_id) || undefined
+    })) as ClassRosterMember[];
+
+    console.log('✅ Class Service - Roster has', roster.length, 'members');
+    return roster;
+
+  } catch (error) {
+    console.error('❌ Class Service - Unexpected error fetching roster:', error);
+    return [];
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Feedback Service
+ *
+ * This service handles Juni's AI critiques for artwork shared to a class feed:
+ * - Requesting a critique via the generate-post-feedback Edge Function
+ * - Fetching the current critique (and its processing status) for a post
+ */
+
+import type { AIFeedback } from './supabase';
+import { supabase } from './supabase';
+
+/**
+ * Feedback request result interface
+ */
+export interface FeedbackRequestResult {
+  success: boolean;
+  feedback?: AIFeedback;
+  error?: string;
+}
+
+/**
+ * Ask Juni to critique a post
+ *
+ * The Edge Function moves the ai_feedback row through pending → processing → completed/failed
+ * and returns the final row. Completed or in-flight critiques are returned as-is; failed ones,
+ * and pending ones whose run died, are retried.
+ */
+export async function requestPostFeedback(postId: string): Promise<FeedbackRequestResult> {
+  console.log('🎨 Feedback Service - Requesting critique for post:', postId);
+
+  try {
+    const { data: responseData, error: functionError } = await supabase.functions.invoke(
+      'generate-post-feedback',
+      {
+        body: { post_id: postId },
+      }
+    );
+
+    if (functionError) {
+      console.error('❌ Feedback Service - Edge Function error:', functionError);
+      return {
+        success: false,
+        error: `Critique service error: ${functionError.message}`,
+      };
+    }
+
+    if (!responseData?.success) {
+      console.error('❌ Feedback Service - Critique failed:', responseData?.error);
+      return {
+        success: false,
+        error: responseData?.error || 'Juni could not critique this artwork',
+      };
+    }
+
+    console.log('✅ Feedback Service - Critique status:', responseData.feedback?.feedback_status);
+    return {
+      success: true,
+      feedback: responseData.feedback as AIFeedback,
+    };
+
+  } catch (error) {
+    console.error('❌ Feedback Service - Unexpected error requesting critique:', error);
+    return {
+      success: false,
+      error: `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Get the critique for a post (null when none has been requested)
+ */
+export async function getPostFeedback(postId: string): Promise<AIFeedback | null> {
+  console.log('🔍 Feedback Service - Fetching critique for post:', postId);
+
+  try {
+    const { data: feedback, error } = await supabase
+      .from('ai_feedback')
+      .select('*')
+      .eq('post_id', postId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ Feedback Service - Error fetching critique:', error);
+      return null;
+    }
+
+    return (feedback as AIFeedback) || null;
+
+  } catch (error) {
+    console.error('❌ Feedback Service - Unexpected error fetching critique:', error);
+    return null;
+  }
+}
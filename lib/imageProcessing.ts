@@ -0,0 +1,202 @@
+/**
+ * Image Processing Service
+ *
+ * This service prepares images on the device before mediaService uploads them:
+ * - Resizing to fit maxWidth / maxHeight (never upscaling)
+ * - JPEG compression using the requested quality
+ * - Orientation normalization (the EXIF rotation is baked into the pixels)
+ * - EXIF metadata stripping, including GPS location (re-encoding writes no EXIF)
+ * - Optional thumbnail variant for feed previews
+ *
+ * Thumbnails are stored next to the original with a `_thumb` suffix
+ * (e.g. {userId}/{hash}.jpg → {userId}/{hash}_thumb.jpg).
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+
+/**
+ * Image processing options
+ */
+export interface ImageProcessingOptions {
+  maxWidth?: number;
+  maxHeight?: number;
+  quality?: number; // 0.0 - 1.0 JPEG quality
+  generateThumbnail?: boolean;
+}
+
+/**
+ * A processed image variant saved on the device
+ */
+export interface ProcessedImageVariant {
+  uri: string;
+  width: number;
+  height: number;
+  fileSize: number;
+}
+
+/**
+ * Image processing result interface
+ */
+export interface ImageProcessingResult {
+  success: boolean;
+  image?: ProcessedImageVariant;
+  thumbnail?: ProcessedImageVariant;
+  error?: string;
+}
+
+// Defaults keep artwork detail while bringing phone photos well under the upload limits
+const DEFAULT_MAX_DIMENSION = 2048;
+const DEFAULT_QUALITY = 0.8;
+
+// Feed thumbnails
+const THUMBNAIL_MAX_DIMENSION = 480;
+const THUMBNAIL_QUALITY = 0.7;
+
+const THUMBNAIL_SUFFIX = '_thumb';
+
+/**
+ * Work out the size that fits inside the bounds while keeping the aspect ratio
+ * Returns null when the image already fits (no upscaling).
+ */
+function getFittedSize(
+  width: number,
+  height: number,
+  maxWidth: number,
+  maxHeight: number
+): { width: number; height: number } | null {
+  const scale = Math.min(maxWidth / width, maxHeight / height);
+
+  if (scale >= 1) {
+    return null;
+  }
+
+  return {
+    width: Math.max(Math.round(width * scale), 1),
+    height: Math.max(Math.round(height * scale), 1),
+  };
+}
+
+/**
+ * Clamp a quality value into the 0-1 range expected by the encoder
+ */
+function normalizeQuality(quality: number | undefined, fallback: number): number {
+  if (quality === undefined || Number.isNaN(quality)) {
+    return fallback;
+  }
+
+  return Math.min(Math.max(quality, 0), 1);
+}
+
+/**
+ * Get file size from URI
+ */
+async function getFileSize(uri: string): Promise<number> {
+  try {
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    return fileInfo.exists && 'size' in fileInfo ? fileInfo.size : 0;
+  } catch (error) {
+    console.error('❌ Image Processing - Error getting file size:', error);
+    return 0;
+  }
+}
+
+/**
+ * Render one variant of the image as a JPEG
+ */
+async function renderVariant(
+  imageUri: string,
+  maxWidth: number,
+  maxHeight: number,
+  quality: number
+): Promise<ProcessedImageVariant> {
+  // Loading the image applies its EXIF orientation, so the rendered pixels are upright
+  const original = await ImageManipulator.manipulate(imageUri).renderAsync();
+  const fittedSize = getFittedSize(original.width, original.height, maxWidth, maxHeight);
+
+  const rendered = fittedSize
+    ? await ImageManipulator.manipulate(original).resize(fittedSize).renderAsync()
+    : original;
+
+  // Re-encoding writes a fresh JPEG without the source EXIF block (GPS, device info)
+  const saved = await rendered.saveAsync({
+    compress: quality,
+    format: SaveFormat.JPEG,
+  });
+
+  return {
+    uri: saved.uri,
+    width: saved.width,
+    height: saved.height,
+    fileSize: await getFileSize(saved.uri),
+  };
+}
+
+/**
+ * Resize, compress and clean an image before upload
+ *
+ * Always re-encodes the image, even when it is already small enough, so orientation is
+ * normalized and location metadata never leaves the device.
+ */
+export async function processImage(
+  imageUri: string,
+  options: ImageProcessingOptions = {}
+): Promise<ImageProcessingResult> {
+  console.log('🛠️ Image Processing - Preparing image for upload:', imageUri);
+  console.log('⚙️ Processing options:', options);
+
+  try {
+    const maxWidth = options.maxWidth ?? DEFAULT_MAX_DIMENSION;
+    const maxHeight = options.maxHeight ?? DEFAULT_MAX_DIMENSION;
+    const quality = normalizeQuality(options.quality, DEFAULT_QUALITY);
+
+    const image = await renderVariant(imageUri, maxWidth, maxHeight, quality);
+    console.log('✅ Image Processing - Image ready:', `${image.width}x${image.height}`, image.fileSize, 'bytes');
+
+    let thumbnail: ProcessedImageVariant | undefined;
+    if (options.generateThumbnail) {
+      // Build the thumbnail from the processed image so it is already upright and clean
+      thumbnail = await renderVariant(
+        image.uri,
+        THUMBNAIL_MAX_DIMENSION,
+        THUMBNAIL_MAX_DIMENSION,
+        THUMBNAIL_QUALITY
+      );
+      console.log('✅ Image Processing - Thumbnail ready:', `${thumbnail.width}x${thumbnail.height}`, thumbnail.fileSize, 'bytes');
+    }
+
+    return { success: true, image, thumbnail };
+
+  } catch (error) {
+    console.error('❌ Image Processing - Error processing image:', error);
+    return {
+      success: false,
+      error: `Failed to process image: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Get the storage path of a file's thumbnail
+ */
+export function getThumbnailPath(filePath: string): string {
+  const extensionIndex = filePath.lastIndexOf('.');
+  const slashIndex = filePath.lastIndexOf('/');
+
+  if (extensionIndex <= slashIndex) {
+    return `${filePath}${THUMBNAIL_SUFFIX}`;
+  }
+
+  return `${filePath.substring(0, extensionIndex)}${THUMBNAIL_SUFFIX}${filePath.substring(extensionIndex)}`;
+}
+
+/**
+ * Get the public URL of an image's thumbnail
+ * Works on public storage URLs because the thumbnail sits next to the original.
+ */
+export function getThumbnailUrl(imageUrl: string): string {
+  const [baseUrl, query] = imageUrl.split('?');
+  const thumbnailUrl = getThumbnailPath(baseUrl);
+
+  return query ? `${thumbnailUrl}?${query}` : thumbnailUrl;
+}
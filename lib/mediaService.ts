@@ -0,0 +1,624 @@
+/**
+ * Media Service
+ *
+ * This service handles every image the app stores, replacing the separate photo and
+ * Solo image upload services:
+ * - Typed bucket registry (cache control, size limit and processing defaults per bucket)
+ * - Content-hash object keys ({userId}/{sha256}.jpg), so an image that was already uploaded
+ *   (e.g. a camera photo later sent to Juni or shared from Solo to a class) is reused instead
+ *   of uploaded again
+ * - On-device resizing, compression and thumbnail generation (see imageProcessing)
+ * - Resumable, chunked uploads (TUS) with progress callbacks; interrupted uploads continue
+ *   from the last stored chunk on the next attempt
+ * - Cancellation through an AbortSignal; files stored by a cancelled upload are removed
+ * - A `photos` row for every stored asset, so ownership and cleanup are tracked the same way
+ *   for every bucket
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { decode, encode } from 'base64-arraybuffer';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+
+import { getThumbnailPath, processImage, type ImageProcessingOptions } from './imageProcessing';
+import { Photo, supabase, supabaseAnonKey, supabaseUrl } from './supabase';
+
+/**
+ * Storage buckets the app uploads to
+ */
+export type MediaBucket = 'photos' | 'solo-images';
+
+/**
+ * Per-bucket upload settings
+ */
+export interface MediaBucketConfig {
+  cacheControl: string; // Seconds, as expected by Supabase Storage
+  maxFileSize: number; // Bytes, checked after processing
+  processing: Required<Pick<ImageProcessingOptions, 'maxWidth' | 'maxHeight' | 'quality'>>;
+}
+
+/**
+ * Bucket registry
+ */
+export const MEDIA_BUCKETS: Record<MediaBucket, MediaBucketConfig> = {
+  // Camera photos and class post images
+  photos: {
+    cacheControl: '3600', // Cache for 1 hour
+    maxFileSize: 20 * 1024 * 1024, // 20MB
+    processing: { maxWidth: 2048, maxHeight: 2048, quality: 0.8 },
+  },
+  // Images sent to Juni (AI analysis doesn't benefit from more detail than this)
+  'solo-images': {
+    cacheControl: '1800', // Cache for 30 minutes (shorter than photos)
+    maxFileSize: 10 * 1024 * 1024, // 10MB, matches the bucket's file_size_limit
+    processing: { maxWidth: 1536, maxHeight: 1536, quality: 0.8 },
+  },
+};
+
+/**
+ * Upload progress across the image and its thumbnail
+ */
+export interface MediaUploadProgress {
+  bytesUploaded: number;
+  bytesTotal: number;
+  fraction: number; // 0 - 1
+}
+
+/**
+ * Media upload options
+ */
+export interface MediaUploadOptions {
+  bucket: MediaBucket;
+  userId: string;
+  quality?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  generateThumbnail?: boolean; // Defaults to true
+  onProgress?: (progress: MediaUploadProgress) => void;
+  signal?: AbortSignal; // Aborting cancels the upload and removes anything it stored
+}
+
+/**
+ * Media upload result interface
+ */
+export interface MediaUploadResult {
+  success: boolean;
+  asset?: Photo;
+  publicUrl?: string;
+  thumbnailUrl?: string;
+  reused?: boolean; // True when an identical image was already stored
+  cancelled?: boolean; // True when the upload was aborted through its signal
+  error?: string;
+}
+
+// Processed images are always JPEG
+const MEDIA_MIME_TYPE = 'image/jpeg';
+
+// Supabase Storage requires 6MB chunks for resumable uploads
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+
+// AsyncStorage key for upload URLs of unfinished resumable uploads
+const RESUMABLE_UPLOADS_STORAGE_KEY = 'media_resumable_uploads_v1';
+
+const UPLOAD_CANCELLED_MESSAGE = 'Upload cancelled';
+
+/**
+ * Stop between upload steps once the caller has cancelled
+ */
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error(UPLOAD_CANCELLED_MESSAGE);
+  }
+}
+
+/**
+ * Hash a local file's contents (SHA-256, hex)
+ */
+async function hashFile(localUri: string): Promise<string> {
+  const base64 = await FileSystem.readAsStringAsync(localUri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, base64);
+}
+
+/**
+ * Find an asset the user already stored with the same content
+ */
+async function findAssetByHash(userId: string, contentHash: string): Promise<Photo | null> {
+  const { data, error } = await supabase
+    .from('photos')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('content_hash', contentHash)
+    .maybeSingle();
+
+  if (error) {
+    console.error('⚠️ Media Service - Error looking up existing asset, uploading instead:', error);
+    return null;
+  }
+
+  return data as Photo | null;
+}
+
+/**
+ * Get the public URL of a stored object
+ */
+export function getMediaPublicUrl(bucket: MediaBucket, filePath: string): string {
+  return supabase.storage.from(bucket).getPublicUrl(filePath).data.publicUrl;
+}
+
+/**
+ * Encode TUS Upload-Metadata ("key base64(value)" pairs)
+ */
+function encodeUploadMetadata(metadata: Record<string, string>): string {
+  const encoder = new TextEncoder();
+
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${encode(encoder.encode(value).buffer as ArrayBuffer)}`)
+    .join(',');
+}
+
+/**
+ * Load the upload URLs of unfinished resumable uploads
+ */
+async function loadResumableUploads(): Promise<Record<string, string>> {
+  try {
+    const stored = await AsyncStorage.getItem(RESUMABLE_UPLOADS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('❌ Media Service - Error loading resumable uploads:', error);
+    return {};
+  }
+}
+
+/**
+ * Remember (or forget, with null) the upload URL of a resumable upload
+ */
+async function saveResumableUpload(key: string, uploadUrl: string | null): Promise<void> {
+  try {
+    const uploads = await loadResumableUploads();
+    if (uploadUrl) {
+      uploads[key] = uploadUrl;
+    } else {
+      delete uploads[key];
+    }
+    await AsyncStorage.setItem(RESUMABLE_UPLOADS_STORAGE_KEY, JSON.stringify(uploads));
+  } catch (error) {
+    console.error('❌ Media Service - Error saving resumable upload:', error);
+  }
+}
+
+/**
+ * Upload a local file with the TUS resumable upload protocol
+ *
+ * Sends the file in 6MB chunks and reports the bytes stored after each one. If an earlier
+ * attempt for the same object was interrupted, the upload continues from the server's offset.
+ * An object that already exists (same content hash) counts as uploaded; `created` tells the
+ * caller whether this call stored the object, so only those are removed on cancellation.
+ *
+ * Aborting the signal terminates the server-side upload and rethrows.
+ */
+async function uploadResumable(
+  localUri: string,
+  bucket: MediaBucket,
+  filePath: string,
+  fileSize: number,
+  onBytesUploaded: (bytesUploaded: number) => void,
+  signal?: AbortSignal
+): Promise<{ created?: boolean; error?: string }> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData.session?.access_token;
+  if (!accessToken) {
+    return { error: 'You need to be signed in to upload images' };
+  }
+
+  const baseHeaders = {
+    Authorization: `Bearer ${accessToken}`,
+    apikey: supabaseAnonKey,
+    'Tus-Resumable': '1.0.0',
+  };
+  const uploadKey = `${bucket}/${filePath}`;
+
+  let uploadUrl: string | null = (await loadResumableUploads())[uploadKey] ?? null;
+  let offset = 0;
+
+  // Forget the upload so it is never resumed; a cancelled one is also terminated on the server
+  const discardUpload = async () => {
+    if (uploadUrl && signal?.aborted) {
+      console.log('🛑 Media Service - Terminating cancelled upload:', uploadKey);
+      await fetch(uploadUrl, { method: 'DELETE', headers: baseHeaders }).catch(() => undefined);
+    }
+    await saveResumableUpload(uploadKey, null);
+  };
+
+  try {
+    // Step 1: Resume an interrupted upload, if the server still has it
+    if (uploadUrl) {
+      const headResponse = await fetch(uploadUrl, { method: 'HEAD', headers: baseHeaders, signal });
+      const serverOffset = Number(headResponse.headers.get('Upload-Offset'));
+
+      if (headResponse.ok && Number.isFinite(serverOffset)) {
+        offset = serverOffset;
+        console.log('⏯️ Media Service - Resuming upload at byte', offset, 'of', fileSize);
+      } else {
+        uploadUrl = null;
+        await saveResumableUpload(uploadKey, null);
+      }
+    }
+
+    // Step 2: Create the upload
+    if (!uploadUrl) {
+      const createResponse = await fetch(`${supabaseUrl}/storage/v1/upload/resumable`, {
+        method: 'POST',
+        headers: {
+          ...baseHeaders,
+          'Upload-Length': String(fileSize),
+          'Upload-Metadata': encodeUploadMetadata({
+            bucketName: bucket,
+            objectName: filePath,
+            contentType: MEDIA_MIME_TYPE,
+            cacheControl: MEDIA_BUCKETS[bucket].cacheControl,
+          }),
+          'x-upsert': 'false', // Keys are content hashes, so an existing object is the same image
+        },
+        signal,
+      });
+
+      if (createResponse.status === 409) {
+        console.log('♻️ Media Service - Object already stored:', uploadKey);
+        onBytesUploaded(fileSize);
+        return { created: false };
+      }
+
+      uploadUrl = createResponse.headers.get('Location');
+      if (!createResponse.ok || !uploadUrl) {
+        const message = await createResponse.text().catch(() => '');
+        return { error: `Failed to start upload (${createResponse.status}) ${message}`.trim() };
+      }
+
+      await saveResumableUpload(uploadKey, uploadUrl);
+    }
+  } catch (error) {
+    // Aborted or failed before any chunk was sent (e.g. during the HEAD or create request)
+    await discardUpload();
+    throw error;
+  }
+
+  onBytesUploaded(offset);
+
+  // Step 3: Send the remaining chunks
+  try {
+    while (offset < fileSize) {
+      throwIfCancelled(signal);
+
+      const length = Math.min(RESUMABLE_CHUNK_SIZE, fileSize - offset);
+      const chunk = await FileSystem.readAsStringAsync(localUri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: offset,
+        length,
+      });
+
+      const patchResponse = await fetch(uploadUrl, {
+        method: 'PATCH',
+        headers: {
+          ...baseHeaders,
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream',
+        },
+        body: decode(chunk),
+        signal,
+      });
+
+      if (!patchResponse.ok) {
+        // Keep the upload URL so the next attempt resumes from the stored offset
+        const message = await patchResponse.text().catch(() => '');
+        return { error: `Upload interrupted at byte ${offset} (${patchResponse.status}) ${message}`.trim() };
+      }
+
+      offset = Number(patchResponse.headers.get('Upload-Offset')) || offset + length;
+      onBytesUploaded(offset);
+    }
+  } catch (error) {
+    // A cancelled upload must not be resumed later; other failures keep it for the next attempt
+    if (signal?.aborted) {
+      await discardUpload();
+    }
+    throw error;
+  }
+
+  await saveResumableUpload(uploadKey, null);
+  console.log('✅ Media Service - Uploaded', fileSize, 'bytes to', uploadKey);
+  return { created: true };
+}
+
+/**
+ * Upload an image to a bucket and record it in the photos table
+ *
+ * Images the user already stored (same content) are returned without uploading again.
+ */
+export async function uploadMedia(
+  localUri: string,
+  options: MediaUploadOptions
+): Promise<MediaUploadResult> {
+  console.log('📤 Media Service - Starting upload to bucket:', options.bucket);
+  console.log('📍 Local URI:', localUri);
+
+  const bucketConfig = MEDIA_BUCKETS[options.bucket];
+  const { signal } = options;
+
+  // Objects stored by this call, removed again if it is cancelled
+  const createdPaths: string[] = [];
+
+  try {
+    // Step 1: Reuse an identical image the user already stored
+    const contentHash = await hashFile(localUri);
+    console.log('🔑 Media Service - Content hash:', contentHash);
+
+    throwIfCancelled(signal);
+    const existingAsset = await findAssetByHash(options.userId, contentHash);
+    if (existingAsset?.public_url) {
+      console.log('♻️ Media Service - Reusing stored asset:', existingAsset.id);
+      options.onProgress?.({ bytesUploaded: existingAsset.file_size, bytesTotal: existingAsset.file_size, fraction: 1 });
+
+      return {
+        success: true,
+        asset: existingAsset,
+        publicUrl: existingAsset.public_url,
+        thumbnailUrl: existingAsset.thumbnail_url,
+        reused: true,
+      };
+    }
+
+    // Step 2: Resize, compress and strip metadata before anything leaves the device
+    const processed = await processImage(localUri, {
+      maxWidth: options.maxWidth ?? bucketConfig.processing.maxWidth,
+      maxHeight: options.maxHeight ?? bucketConfig.processing.maxHeight,
+      quality: options.quality ?? bucketConfig.processing.quality,
+      generateThumbnail: options.generateThumbnail ?? true,
+    });
+
+    if (!processed.success || !processed.image) {
+      return {
+        success: false,
+        error: processed.error || 'Failed to process image',
+      };
+    }
+
+    throwIfCancelled(signal);
+
+    const image = processed.image;
+    if (image.fileSize > bucketConfig.maxFileSize) {
+      console.error('❌ Media Service - File too large:', image.fileSize, 'bytes');
+      return {
+        success: false,
+        error: `Image file is too large. Please choose an image smaller than ${Math.round(bucketConfig.maxFileSize / (1024 * 1024))}MB.`,
+      };
+    }
+
+    // Step 3: Upload the image, then its thumbnail
+    // Uploads go in the user's folder to match the storage RLS policies
+    const fileName = `${contentHash}.jpg`;
+    const filePath = `${options.userId}/${fileName}`;
+    const thumbnailPath = getThumbnailPath(filePath);
+    const thumbnail = processed.thumbnail;
+    const bytesTotal = image.fileSize + (thumbnail?.fileSize ?? 0);
+
+    console.log('📂 Media Service - File path:', filePath);
+    console.log('📊 Media Service - Processed size:', image.fileSize, 'bytes', `(${image.width}x${image.height})`);
+
+    const reportProgress = (bytesUploaded: number) => {
+      options.onProgress?.({
+        bytesUploaded,
+        bytesTotal,
+        fraction: bytesTotal > 0 ? Math.min(bytesUploaded / bytesTotal, 1) : 1,
+      });
+    };
+
+    const { created, error: uploadError } = await uploadResumable(
+      image.uri,
+      options.bucket,
+      filePath,
+      image.fileSize,
+      reportProgress,
+      signal
+    );
+
+    if (uploadError) {
+      console.error('❌ Media Service - Upload error:', uploadError);
+      return {
+        success: false,
+        error: `Failed to upload image: ${uploadError}`,
+      };
+    }
+
+    if (created) {
+      createdPaths.push(filePath);
+    }
+
+    // Thumbnail is optional: previews fall back to the full image if it is missing
+    let thumbnailUrl: string | undefined;
+    if (thumbnail) {
+      const { created: thumbnailCreated, error: thumbnailError } = await uploadResumable(
+        thumbnail.uri,
+        options.bucket,
+        thumbnailPath,
+        thumbnail.fileSize,
+        (bytesUploaded) => reportProgress(image.fileSize + bytesUploaded),
+        signal
+      );
+
+      if (thumbnailCreated) {
+        createdPaths.push(thumbnailPath);
+      }
+
+      if (thumbnailError) {
+        console.error('⚠️ Media Service - Thumbnail upload failed, continuing without it:', thumbnailError);
+      } else {
+        thumbnailUrl = getMediaPublicUrl(options.bucket, thumbnailPath);
+      }
+    }
+
+    // Step 4: Record the asset (last chance to cancel)
+    throwIfCancelled(signal);
+    const publicUrl = getMediaPublicUrl(options.bucket, filePath);
+    const assetMetadata = {
+      user_id: options.userId,
+      file_name: fileName,
+      file_path: filePath,
+      file_size: image.fileSize,
+      mime_type: MEDIA_MIME_TYPE,
+      width: image.width,
+      height: image.height,
+      taken_at: new Date().toISOString(),
+      storage_bucket: options.bucket,
+      public_url: publicUrl,
+      thumbnail_url: thumbnailUrl || null,
+      content_hash: contentHash,
+    };
+
+    console.log('💾 Media Service - Saving asset metadata:', assetMetadata);
+
+    const { data: assetData, error: dbError } = await supabase
+      .from('photos')
+      .insert(assetMetadata)
+      .select()
+      .single();
+
+    if (dbError) {
+      // Another upload of the same image finished first; use its row
+      if (dbError.code === '23505') {
+        const racedAsset = await findAssetByHash(options.userId, contentHash);
+        if (racedAsset?.public_url) {
+          return {
+            success: true,
+            asset: racedAsset,
+            publicUrl: racedAsset.public_url,
+            thumbnailUrl: racedAsset.thumbnail_url,
+            reused: true,
+          };
+        }
+      }
+
+      console.error('❌ Media Service - Database error:', dbError);
+
+      // Cleanup: untracked files would never be removed
+      console.log('🧹 Media Service - Cleaning up uploaded files due to database error');
+      await supabase.storage.from(options.bucket).remove([filePath, thumbnailPath]);
+
+      return {
+        success: false,
+        error: `Failed to save image metadata: ${dbError.message}`,
+      };
+    }
+
+    console.log('✅ Media Service - Upload completed:', publicUrl);
+
+    return {
+      success: true,
+      asset: assetData as Photo,
+      publicUrl,
+      thumbnailUrl,
+      reused: false,
+    };
+
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log('🛑 Media Service - Upload cancelled, removing stored files:', createdPaths);
+      if (createdPaths.length > 0) {
+        await supabase.storage.from(options.bucket).remove(createdPaths);
+      }
+
+      return {
+        success: false,
+        cancelled: true,
+        error: UPLOAD_CANCELLED_MESSAGE,
+      };
+    }
+
+    console.error('❌ Media Service - Unexpected error during upload:', error);
+    return {
+      success: false,
+      error: `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Get the assets a user has stored, newest first
+ */
+export async function getUserMedia(userId: string, bucket?: MediaBucket): Promise<Photo[]> {
+  console.log('👤 Media Service - Fetching assets for user:', userId, bucket || 'all buckets');
+
+  try {
+    let query = supabase
+      .from('photos')
+      .select('*')
+      .eq('user_id', userId)
+      .order('uploaded_at', { ascending: false });
+
+    if (bucket) {
+      query = query.eq('storage_bucket', bucket);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('❌ Media Service - Error fetching user assets:', error);
+      return [];
+    }
+
+    console.log('✅ Media Service - Fetched', data?.length || 0, 'assets');
+    return (data || []) as Photo[];
+
+  } catch (error) {
+    console.error('❌ Media Service - Unexpected error fetching user assets:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete an asset (its file, its thumbnail and its photos row)
+ */
+export async function deleteMedia(assetId: string): Promise<boolean> {
+  console.log('🗑️ Media Service - Deleting asset:', assetId);
+
+  try {
+    const { data: asset, error: fetchError } = await supabase
+      .from('photos')
+      .select('file_path, storage_bucket')
+      .eq('id', assetId)
+      .single();
+
+    if (fetchError || !asset) {
+      console.error('❌ Media Service - Error fetching asset for deletion:', fetchError);
+      return false;
+    }
+
+    const { error: storageError } = await supabase.storage
+      .from(asset.storage_bucket)
+      .remove([asset.file_path, getThumbnailPath(asset.file_path)]);
+
+    if (storageError) {
+      console.error('❌ Media Service - Error deleting from storage:', storageError);
+      // Continue with database deletion even if storage deletion fails
+    }
+
+    const { error: dbError } = await supabase
+      .from('photos')
+      .delete()
+      .eq('id', assetId);
+
+    if (dbError) {
+      console.error('❌ Media Service - Error deleting asset row:', dbError);
+      return false;
+    }
+
+    console.log('✅ Media Service - Asset deleted');
+    return true;
+
+  } catch (error) {
+    console.error('❌ Media Service - Unexpected error deleting asset:', error);
+    return false;
+  }
+}
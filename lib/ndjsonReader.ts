@@ -0,0 +1,64 @@
+/**
+ * NDJSON Reader
+ *
+ * Incremental parser for newline-delimited JSON that arrives in chunks, such as the growing
+ * responseText of a streaming XMLHttpRequest.
+ *
+ * Features:
+ * - Holds back a partial last line until the rest of it arrives
+ * - Skips blank lines
+ * - Throws NDJSONParseError (carrying the bad line) instead of a bare SyntaxError
+ *
+ * Has no imports so it can be tested without the app: npm test (scripts/ndjson-reader.test.mjs)
+ */
+
+/**
+ * A line that is not valid JSON
+ */
+export class NDJSONParseError extends Error {
+  readonly line: string;
+
+  constructor(line: string) {
+    super(`Malformed NDJSON line: ${line.length > 200 ? `${line.slice(0, 200)}…` : line}`);
+    this.name = 'NDJSONParseError';
+    this.line = line;
+  }
+}
+
+export interface NDJSONReader<T> {
+  push: (chunk: string) => T[]; // Parses every line the chunk completes
+  end: () => T[]; // Parses whatever is left once the stream has finished
+}
+
+function parseLines<T>(lines: string[]): T[] {
+  return lines
+    .filter(line => line.trim())
+    .map(line => {
+      try {
+        return JSON.parse(line) as T;
+      } catch {
+        throw new NDJSONParseError(line);
+      }
+    });
+}
+
+/**
+ * Create a reader for one stream
+ */
+export function createNDJSONReader<T>(): NDJSONReader<T> {
+  let buffer = '';
+
+  return {
+    push: (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      return parseLines<T>(lines);
+    },
+    end: () => {
+      const rest = buffer;
+      buffer = '';
+      return parseLines<T>([rest]);
+    },
+  };
+}
@@ -5,15 +5,25 @@
  * to share artwork with the class feed.
  * 
  * Features:
- * - Creates ephemeral posts with configurable viewer and duration settings
+ * - Creates ephemeral posts with configurable viewer and duration settings, validated against
+ *   the posts table constraints
+ * - Shares to any class the user belongs to (defaults to the current class), loading the
+ *   user's classes first if no tab has yet
+ * - Shares the same artwork to several classes at once with per-class results
  * - Reuses image URLs from Juni chat (no re-upload needed)
- * - Associates posts with user's current enrolled class
- * - Includes user caption and metadata
+ * - Multi-image posts for work-in-progress sequences (sketch → underpainting → final)
+ * - Uploads camera photos and creates the post as one operation, with progress, cancellation
+ *   and rollback of the uploaded image if the post can't be created
+ * - Includes user caption, structured metadata (title, medium, size, time spent, tags) and the
+ *   chosen frame style
  * - Returns post ID for navigation purposes
  */
 
-import { useClassStore } from '../store/classStore';
-import type { Post } from './supabase';
+import { ART_MEDIUMS, isArtMedium } from '../constants/ArtMediums';
+import { DEFAULT_FRAME_STYLE, FRAME_STYLES, isFrameStyle } from '../constants/FrameStyles';
+import { useClassStore, type PostWithUser } from '../store/classStore';
+import { deleteMedia, uploadMedia, type MediaUploadResult } from './mediaService';
+import type { ArtMedium, Class, ClassMember, FrameStyle, Post, PostImage } from './supabase';
 import { supabase } from './supabase';
 
 /**
@@ -25,16 +35,213 @@ export interface PostCreationResult {
   error?: string;
 }
 
+// Most images in one post (matches the post_images position check)
+export const MAX_POST_IMAGES = 10;
+
+// Viewer limits (match the posts.max_viewers check)
+export const MIN_POST_VIEWERS = 1;
+export const MAX_POST_VIEWERS = 50;
+export const DEFAULT_POST_VIEWERS = 5;
+
+export const DEFAULT_POST_DURATION_HOURS = 5;
+
+/**
+ * Lifetimes offered when sharing
+ */
+export const POST_DURATION_PRESETS = [
+  { label: '1h', hours: 1 },
+  { label: '5h', hours: 5 },
+  { label: '24h', hours: 24 },
+  { label: '7d', hours: 24 * 7 },
+] as const;
+
+/**
+ * How a shared post is published: where, to how many viewers, for how long and in which frame
+ */
+export interface PostShareSettings {
+  classIds: string[]; // One post is created in each class
+  maxViewers: number;
+  durationHours: number;
+  frameStyle: FrameStyle;
+}
+
+/**
+ * Check viewer and duration settings against the posts table constraints
+ * (max_viewers between 1 and 50, duration_minutes a positive whole number)
+ *
+ * @returns An error message, or null when the settings are valid
+ */
+export function validatePostSettings(settings: { maxViewers: number; durationHours: number }): string | null {
+  const { maxViewers, durationHours } = settings;
+
+  if (!Number.isInteger(maxViewers) || maxViewers < MIN_POST_VIEWERS || maxViewers > MAX_POST_VIEWERS) {
+    return `Viewer limit must be between ${MIN_POST_VIEWERS} and ${MAX_POST_VIEWERS}.`;
+  }
+
+  if (!Number.isFinite(durationHours) || Math.round(durationHours * 60) <= 0) {
+    return 'Duration must be at least one minute.';
+  }
+
+  return null;
+}
+
+// Metadata limits (match the posts table checks)
+export const MAX_POST_TITLE_LENGTH = 80;
+export const MAX_POST_DIMENSIONS_LENGTH = 40;
+export const MAX_POST_TIME_SPENT_MINUTES = 100000;
+export const MAX_POST_TAGS = 10;
+export const MAX_POST_TAG_LENGTH = 30;
+
+/**
+ * Structured details about the artwork, shown on the post and used to filter the class feed
+ */
+export interface PostMetadata {
+  title?: string;
+  medium?: ArtMedium;
+  dimensions?: string; // Physical size, e.g. "9 x 12 in"
+  timeSpentMinutes?: number;
+  tags?: string[];
+}
+
+/**
+ * Turn free-form tag input into stored tags
+ * Accepts "#Portrait, figure study" style text or a list; tags are trimmed, lowercased,
+ * stripped of leading '#', have inner spaces replaced with '-' and are de-duplicated.
+ */
+export function normalizeTags(input: string | string[]): string[] {
+  const rawTags = typeof input === 'string' ? input.split(/[,\n]/) : input;
+  const tags: string[] = [];
+
+  for (const rawTag of rawTags) {
+    const tag = rawTag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+    if (tag && !tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Check post metadata against the posts table constraints
+ *
+ * @returns An error message, or null when the metadata is valid
+ */
+export function validatePostMetadata(metadata: PostMetadata): string | null {
+  const { title, medium, dimensions, timeSpentMinutes, tags = [] } = metadata;
+
+  if (title && title.length > MAX_POST_TITLE_LENGTH) {
+    return `Title must be at most ${MAX_POST_TITLE_LENGTH} characters.`;
+  }
+
+  if (medium !== undefined && !isArtMedium(medium)) {
+    return `Unknown medium "${medium}". Choose one of: ${ART_MEDIUMS.join(', ')}.`;
+  }
+
+  if (dimensions && dimensions.length > MAX_POST_DIMENSIONS_LENGTH) {
+    return `Size must be at most ${MAX_POST_DIMENSIONS_LENGTH} characters.`;
+  }
+
+  if (
+    timeSpentMinutes !== undefined &&
+    (!Number.isInteger(timeSpentMinutes) || timeSpentMinutes <= 0 || timeSpentMinutes > MAX_POST_TIME_SPENT_MINUTES)
+  ) {
+    return 'Time spent must be a whole number of minutes greater than zero.';
+  }
+
+  if (tags.length > MAX_POST_TAGS) {
+    return `Use at most ${MAX_POST_TAGS} tags.`;
+  }
+
+  const longTag = tags.find(tag => tag.length > MAX_POST_TAG_LENGTH);
+  if (longTag) {
+    return `Tag "${longTag}" is too long (at most ${MAX_POST_TAG_LENGTH} characters).`;
+  }
+
+  return null;
+}
+
+/**
+ * Format time spent for display, e.g. "45 min", "2 h" or "3 h 30 min"
+ */
+export function formatTimeSpent(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+
+  if (hours === 0) return `${remainder} min`;
+  if (remainder === 0) return `${hours} h`;
+  return `${hours} h ${remainder} min`;
+}
+
+/**
+ * When a post shared now would expire
+ */
+export function getPostExpiryDate(durationHours: number, from: Date = new Date()): Date {
+  return new Date(from.getTime() + Math.round(durationHours * 60) * 60 * 1000);
+}
+
+/**
+ * An uploaded image to include in a post
+ */
+export interface SharedImage {
+  imageUrl: string;
+  thumbnailUrl?: string; // Smaller variant shown in the class feed
+}
+
 /**
  * Options for creating a post from Juni
  */
 export interface CreateJuniPostOptions {
   userId: string;
-  imageUrl: string;
-  caption: string;
-  userName?: string;
-  maxViewers?: number;
-  durationHours?: number;
+  images: SharedImage[]; // In display order; the first is the cover
+  caption: string; // Stored as the post description
+  metadata?: PostMetadata;
+  classId?: string; // Defaults to the current class
+  maxViewers?: number; // Defaults to 5
+  durationHours?: number; // Defaults to 5
+  frameStyle?: FrameStyle; // Defaults to 'none'
+}
+
+/**
+ * Options for sharing the same artwork to several classes
+ */
+export interface MultiClassPostOptions extends Omit<CreateJuniPostOptions, 'classId'> {
+  classIds: string[];
+}
+
+/**
+ * Outcome of sharing to one class
+ */
+export interface ClassShareResult {
+  classId: string;
+  className?: string;
+  success: boolean;
+  postId?: string;
+  error?: string;
+}
+
+/**
+ * Result of sharing to several classes
+ * `success` is true when at least one post was created; `postId` is the first one.
+ */
+export interface MultiClassPostResult extends PostCreationResult {
+  results: ClassShareResult[];
+}
+
+/**
+ * Get the user's classes, loading them into the class store if no screen has yet
+ * (Solo and the camera can share before the class feed tab has been opened)
+ */
+async function ensureUserClasses(userId: string): Promise<Array<Class & { membership: ClassMember }>> {
+  const { userClasses, loadUserClasses } = useClassStore.getState();
+
+  if (userClasses.length > 0) {
+    return userClasses;
+  }
+
+  console.log('📚 Post Service - Loading user classes before sharing');
+  await loadUserClasses(userId);
+  return useClassStore.getState().userClasses;
 }
 
 /**
@@ -47,52 +254,107 @@ export async function createJuniPost(
   options: CreateJuniPostOptions
 ): Promise<PostCreationResult> {
   console.log('🎨 Post Service - Creating Juni share post');
-  console.log('📸 Image URL:', options.imageUrl);
+  console.log('📸 Images:', options.images.map(image => image.imageUrl));
   console.log('💬 Caption:', options.caption);
-  console.log('👤 User:', options.userId, options.userName);
+  console.log('👤 User:', options.userId);
+  console.log('🏷️ Metadata:', options.metadata);
 
   try {
-    // Get the current class from the store
+    // Share to the chosen class, or the current one (or the only one the user is in)
+    const userClasses = await ensureUserClasses(options.userId);
     const { currentClass } = useClassStore.getState();
+    const targetClassId = options.classId
+      ?? currentClass?.id
+      ?? (userClasses.length === 1 ? userClasses[0].id : undefined);
+
+    if (!targetClassId) {
+      console.error('❌ Post Service - No class to share to');
+      return {
+        success: false,
+        error: userClasses.length === 0
+          ? 'No class selected. Please join a class first.'
+          : 'Please choose a class to share to.',
+      };
+    }
+
+    const targetClass = userClasses.find(userClass => userClass.id === targetClassId);
     
-    if (!currentClass) {
-      console.error('❌ Post Service - No current class selected');
+    if (!targetClass) {
+      console.error('❌ Post Service - Not a member of class:', targetClassId);
       return {
         success: false,
-        error: 'No class selected. Please join a class first.',
+        error: 'You can only share to classes you belong to.',
       };
     }
 
-    console.log('📚 Post Service - Sharing to class:', currentClass.name);
+    console.log('📚 Post Service - Sharing to class:', targetClass.name);
 
-    // Calculate expiration time
-    const durationHours = options.durationHours || 5; // Default 5 hours
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + durationHours);
+    if (options.images.length === 0 || options.images.length > MAX_POST_IMAGES) {
+      return {
+        success: false,
+        error: `Please choose between 1 and ${MAX_POST_IMAGES} images to share.`,
+      };
+    }
 
-    // Prepare post description with user name and caption
-    const description = options.userName 
-      ? `${options.userName}: ${options.caption}`
-      : options.caption;
+    const frameStyle = options.frameStyle ?? DEFAULT_FRAME_STYLE;
+    if (!isFrameStyle(frameStyle)) {
+      return {
+        success: false,
+        error: `Unknown frame style "${frameStyle}". Choose one of: ${FRAME_STYLES.join(', ')}.`,
+      };
+    }
+
+    const maxViewers = options.maxViewers ?? DEFAULT_POST_VIEWERS;
+    const durationHours = options.durationHours ?? DEFAULT_POST_DURATION_HOURS;
+    const settingsError = validatePostSettings({ maxViewers, durationHours });
+    if (settingsError) {
+      console.error('❌ Post Service - Invalid post settings:', settingsError);
+      return { success: false, error: settingsError };
+    }
+
+    // Blank text fields are stored as missing rather than empty strings
+    const metadata = options.metadata ?? {};
+    const title = metadata.title?.trim() || undefined;
+    const dimensions = metadata.dimensions?.trim() || undefined;
+    const tags = normalizeTags(metadata.tags ?? []);
+    const metadataError = validatePostMetadata({ ...metadata, title, dimensions, tags });
+    if (metadataError) {
+      console.error('❌ Post Service - Invalid post metadata:', metadataError);
+      return { success: false, error: metadataError };
+    }
+
+    // Calculate expiration time
+    const durationMinutes = Math.round(durationHours * 60);
+    const expiresAt = getPostExpiryDate(durationHours);
 
     // Prepare post data
     const postData: Partial<Post> = {
       user_id: options.userId,
-      class_id: currentClass.id,
-      image_url: options.imageUrl,
-      description: description,
-      max_viewers: options.maxViewers || 5, // Default 5 viewers
-      duration_minutes: durationHours * 60,
+      class_id: targetClass.id,
+      image_url: options.images[0].imageUrl,
+      thumbnail_url: options.images[0].thumbnailUrl,
+      frame_style: frameStyle,
+      title,
+      description: options.caption.trim() || undefined,
+      medium: metadata.medium,
+      dimensions,
+      time_spent_minutes: metadata.timeSpentMinutes,
+      tags,
+      max_viewers: maxViewers,
+      duration_minutes: durationMinutes,
       expires_at: expiresAt.toISOString(),
     };
 
     console.log('📝 Post Service - Creating post with data:', {
       ...postData,
-      class_name: currentClass.name,
+      class_name: targetClass.name,
     });
 
     // Use the classStore's createPost method which handles the database insert
-    const result = await useClassStore.getState().createPost(postData);
+    const result = await useClassStore.getState().createPost(
+      postData,
+      options.images.map(image => ({ image_url: image.imageUrl, thumbnail_url: image.thumbnailUrl }))
+    );
 
     if (result.success && result.postId) {
       console.log('✅ Post Service - Post created successfully:', result.postId);
@@ -118,31 +380,199 @@ export async function createJuniPost(
 }
 
 /**
- * Get user's display name
- * 
- * @param userId - User ID
- * @returns User's display name or null
+ * Share the same artwork to several classes, one post per class
+ *
+ * Classes are posted to one at a time; a failure in one class doesn't stop the others.
+ *
+ * @param options - Post options plus the classes to share to
+ * @returns Per-class results; success when at least one post was created
  */
-export async function getUserDisplayName(userId: string): Promise<string | null> {
-  try {
-    console.log('👤 Post Service - Fetching user display name for:', userId);
-    
-    const { data: user, error } = await supabase
-      .from('users')
-      .select('username')
-      .eq('id', userId)
-      .single();
-
-    if (error || !user) {
-      console.error('❌ Post Service - Error fetching user:', error);
-      return null;
-    }
+export async function shareToClasses(
+  options: MultiClassPostOptions
+): Promise<MultiClassPostResult> {
+  const { classIds, ...postOptions } = options;
+  const uniqueClassIds = Array.from(new Set(classIds));
+  console.log('📚 Post Service - Sharing to', uniqueClassIds.length, 'classes');
 
-    console.log('✅ Post Service - User display name:', user.username);
-    return user.username || null;
+  if (uniqueClassIds.length === 0) {
+    return { success: false, error: 'Please choose a class to share to.', results: [] };
+  }
 
-  } catch (error) {
-    console.error('❌ Post Service - Unexpected error fetching user:', error);
+  const userClasses = await ensureUserClasses(options.userId);
+  const results: ClassShareResult[] = [];
+
+  for (const classId of uniqueClassIds) {
+    const result = await createJuniPost({ ...postOptions, classId });
+    results.push({
+      classId,
+      className: userClasses.find(userClass => userClass.id === classId)?.name,
+      success: result.success,
+      postId: result.postId,
+      error: result.error,
+    });
+  }
+
+  const created = results.filter(result => result.success);
+  console.log('✅ Post Service - Shared to', created.length, 'of', results.length, 'classes');
+
+  if (created.length === 0) {
+    return { success: false, error: results[0].error || 'Failed to create post', results };
+  }
+
+  return { success: true, postId: created[0].postId, results };
+}
+
+/**
+ * Describe the classes a multi-class share didn't reach, for showing to the user
+ *
+ * @returns A message, or null when every class succeeded
+ */
+export function getShareFailureMessage(results: ClassShareResult[]): string | null {
+  const failed = results.filter(result => !result.success);
+
+  if (failed.length === 0) {
     return null;
   }
-} 
\ No newline at end of file
+
+  return failed
+    .map(result => `${result.className || 'Unknown class'}: ${result.error || 'Failed to create post'}`)
+    .join('\n');
+}
+
+/**
+ * Stages of sharing a local image
+ * - uploading: the image is being uploaded (cancellable)
+ * - creating_post: the post is being created (too late to cancel)
+ */
+export type ShareImageStage = 'uploading' | 'creating_post';
+
+/**
+ * Progress of sharing a local image
+ */
+export interface ShareImageProgress {
+  stage: ShareImageStage;
+  fraction: number; // Upload progress, 0 - 1
+}
+
+/**
+ * Options for uploading a local image and sharing it with the class
+ */
+export interface ShareImageOptions extends Omit<MultiClassPostOptions, 'images'> {
+  imageUris: string[]; // In display order; the first is the cover
+  onProgress?: (progress: ShareImageProgress) => void;
+  signal?: AbortSignal; // Aborting during the upload cancels the share and removes the upload
+}
+
+/**
+ * Share result - `cancelled` is true when the user aborted the upload
+ * `results` is empty when the share stopped before any post was attempted.
+ */
+export interface ShareImageResult extends MultiClassPostResult {
+  cancelled?: boolean;
+}
+
+/**
+ * Remove images uploaded for a share that didn't go through
+ * Images that were already stored before this share (reused) are left alone.
+ */
+async function rollbackShareUploads(uploads: MediaUploadResult[]): Promise<void> {
+  for (const upload of uploads) {
+    if (upload.reused || !upload.asset) {
+      continue;
+    }
+
+    console.log('↩️ Post Service - Rolling back uploaded image:', upload.asset.id);
+    const deleted = await deleteMedia(upload.asset.id);
+    if (!deleted) {
+      console.error('❌ Post Service - Failed to roll back uploaded image:', upload.asset.id);
+    }
+  }
+}
+
+/**
+ * Upload local images and create a post for them in each chosen class as one operation
+ *
+ * The images are uploaded once and shared by every class's post. Either the images and at least
+ * one post end up stored, or nothing does: uploads are removed if the share is cancelled, any
+ * upload fails, or no post can be created.
+ *
+ * @param options - Image, post, class and progress options
+ * @returns Per-class results with the first post ID
+ */
+export async function shareImageToClass(
+  options: ShareImageOptions
+): Promise<ShareImageResult> {
+  const { imageUris, onProgress, signal, ...postOptions } = options;
+  console.log('📤 Post Service - Uploading', imageUris.length, 'images to share');
+
+  if (imageUris.length === 0 || imageUris.length > MAX_POST_IMAGES) {
+    return {
+      success: false,
+      error: `Please choose between 1 and ${MAX_POST_IMAGES} images to share.`,
+      results: [],
+    };
+  }
+
+  // Step 1: Upload the images in order (progress is split evenly between them)
+  const uploads: MediaUploadResult[] = [];
+  const sharedImages: SharedImage[] = [];
+  onProgress?.({ stage: 'uploading', fraction: 0 });
+
+  for (const [index, imageUri] of imageUris.entries()) {
+    const upload = await uploadMedia(imageUri, {
+      bucket: 'photos',
+      userId: options.userId,
+      signal,
+      onProgress: (progress) => onProgress?.({
+        stage: 'uploading',
+        fraction: (index + progress.fraction) / imageUris.length,
+      }),
+    });
+
+    if (!upload.success || !upload.publicUrl) {
+      console.error('❌ Post Service - Image upload failed:', upload.error);
+      await rollbackShareUploads(uploads);
+      return {
+        success: false,
+        cancelled: upload.cancelled,
+        error: upload.error || 'Failed to upload image',
+        results: [],
+      };
+    }
+
+    uploads.push(upload);
+    sharedImages.push({ imageUrl: upload.publicUrl, thumbnailUrl: upload.thumbnailUrl });
+  }
+
+  // Cancelled right as the last upload finished
+  if (signal?.aborted) {
+    await rollbackShareUploads(uploads);
+    return { success: false, cancelled: true, error: 'Share cancelled', results: [] };
+  }
+
+  // Step 2: Create the posts, rolling back the uploads if none could be created
+  onProgress?.({ stage: 'creating_post', fraction: 1 });
+  const result = await shareToClasses({
+    ...postOptions,
+    images: sharedImages,
+  });
+
+  if (!result.success) {
+    await rollbackShareUploads(uploads);
+  }
+
+  return result;
+}
+
+/**
+ * Get the images of a post in display order
+ * Falls back to the cover image for posts loaded without their image rows.
+ */
+export function getPostImages(post: PostWithUser): Pick<PostImage, 'image_url' | 'thumbnail_url'>[] {
+  if (post.images && post.images.length > 0) {
+    return post.images;
+  }
+
+  return [{ image_url: post.image_url, thumbnail_url: post.thumbnail_url }];
+}
+ 
\ No newline at end of file
@@ -0,0 +1,159 @@
+/**
+ * Solo Outbox Service
+ *
+ * This service persists Solo chat messages that haven't reached Juni yet, so nothing the user
+ * typed or picked is lost when the network drops:
+ * - Outbox persisted in AsyncStorage (survives app restarts)
+ * - Picked images copied into the app's document directory until the message is delivered
+ * - Client-generated idempotency key per message (the edge function replays saved exchanges)
+ * - Connectivity checks via NetInfo
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+
+import type { AIErrorCode, SendMessageOptions } from './soloService';
+
+// AsyncStorage key for the outbox
+const OUTBOX_STORAGE_KEY = 'solo_outbox_v1';
+
+// Where queued images are kept until their message is delivered
+const OUTBOX_IMAGE_DIRECTORY = `${FileSystem.documentDirectory}solo-outbox/`;
+
+/**
+ * Delivery state of a queued message
+ * - queued: waiting to be sent (e.g. offline or behind an earlier message)
+ * - sending: currently being delivered
+ * - failed: last attempt failed, retried on reconnect or by the user (unless the error is permanent)
+ */
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+/**
+ * A Solo chat message waiting in the outbox
+ */
+export interface OutboxMessage {
+  id: string; // Client-generated idempotency key (sent as client_message_id)
+  chatId: string;
+  userId: string;
+  message: string;
+  imageUri?: string; // Local copy of the picked image
+  uploadedImageUrl?: string; // Set once the image upload succeeded
+  status: OutboxStatus;
+  error?: string;
+  errorCode?: AIErrorCode; // Why the last attempt failed, when the server said so
+  attempts: number; // Sends since the last manual retry or reconnect (caps automatic retries)
+  createdAt: string;
+}
+
+/**
+ * Check whether the device can currently reach the internet
+ */
+export function isNetworkAvailable(state: NetInfoState): boolean {
+  return !!state.isConnected && state.isInternetReachable !== false;
+}
+
+/**
+ * Subscribe to connectivity changes
+ */
+export function subscribeToConnectivity(onChange: (isOnline: boolean) => void): () => void {
+  return NetInfo.addEventListener((state) => onChange(isNetworkAvailable(state)));
+}
+
+/**
+ * Get the current connectivity
+ */
+export async function checkConnectivity(): Promise<boolean> {
+  const state = await NetInfo.fetch();
+  return isNetworkAvailable(state);
+}
+
+/**
+ * Load the persisted outbox
+ *
+ * Messages left "sending" by an interrupted session are queued again;
+ * the idempotency key makes re-sending them safe.
+ */
+export async function loadOutbox(): Promise<OutboxMessage[]> {
+  try {
+    const stored = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    const messages = JSON.parse(stored) as OutboxMessage[];
+    console.log('📮 Solo Outbox - Loaded', messages.length, 'queued messages');
+
+    return messages.map((message) =>
+      message.status === 'sending' ? { ...message, status: 'queued' } : message
+    );
+  } catch (error) {
+    console.error('❌ Solo Outbox - Error loading outbox:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist the outbox
+ */
+export async function saveOutbox(messages: OutboxMessage[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(messages));
+  } catch (error) {
+    console.error('❌ Solo Outbox - Error saving outbox:', error);
+  }
+}
+
+/**
+ * Copy a picked image into the outbox directory so it outlives the picker's cache
+ * Falls back to the original URI if the copy fails.
+ */
+async function persistOutboxImage(imageUri: string, messageId: string): Promise<string> {
+  try {
+    await FileSystem.makeDirectoryAsync(OUTBOX_IMAGE_DIRECTORY, { intermediates: true });
+
+    const extension = imageUri.split('?')[0].split('.').pop() || 'jpg';
+    const destination = `${OUTBOX_IMAGE_DIRECTORY}${messageId}.${extension}`;
+    await FileSystem.copyAsync({ from: imageUri, to: destination });
+
+    return destination;
+  } catch (error) {
+    console.error('❌ Solo Outbox - Error copying image, using original URI:', error);
+    return imageUri;
+  }
+}
+
+/**
+ * Create an outbox entry for a message the user just sent
+ */
+export async function createOutboxMessage(options: SendMessageOptions): Promise<OutboxMessage> {
+  const id = Crypto.randomUUID();
+  console.log('📮 Solo Outbox - Queueing message:', id);
+
+  return {
+    id,
+    chatId: options.chatId,
+    userId: options.userId,
+    message: options.message,
+    imageUri: options.imageUri ? await persistOutboxImage(options.imageUri, id) : undefined,
+    status: 'queued',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Delete the outbox's copy of a message image once it is no longer needed
+ */
+export async function removeOutboxImage(message: OutboxMessage): Promise<void> {
+  if (!message.imageUri?.startsWith(OUTBOX_IMAGE_DIRECTORY)) {
+    return;
+  }
+
+  try {
+    await FileSystem.deleteAsync(message.imageUri, { idempotent: true });
+  } catch (error) {
+    console.error('❌ Solo Outbox - Error deleting queued image:', error);
+  }
+}
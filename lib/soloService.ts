@@ -5,13 +5,50 @@
  * - Chat creation and management
  * - Message sending and AI response handling
  * - Integration with Supabase Edge Function for RAG-powered AI responses
- * - Chat history retrieval and management
- * - Error handling for AI API failures
+ * - Streaming AI responses token-by-token with fallback to a single response; a malformed
+ *   stream fails the send with INVALID_RESPONSE instead of leaving it hanging
+ * - Chat history retrieval and management: chat previews (last message, latest image, summary)
+ *   and full-text search over message content
+ * - Picks up the title the Edge Function gives a chat after its first exchange
+ * - Error handling for AI API failures: the Edge Function's `error_code` picks a user-facing
+ *   message and whether the send is worth retrying
+ * - Idempotency keys so outbox retries never duplicate messages
+ * - Usage summary (messages left today / this month) and rate limit messages that say when
+ *   the student can send again
  */
 
-import { uploadSoloImage } from './soloImageService';
-import type { SoloAIChat, SoloAIMessage } from './supabase';
-import { supabase } from './supabase';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+import { uploadMedia } from './mediaService';
+import { createNDJSONReader, NDJSONParseError } from './ndjsonReader';
+import type {
+  AIUsageSummary,
+  SoloAIChat,
+  SoloAIChatPreview,
+  SoloAIMessage,
+  SoloMessageSearchResult,
+} from './supabase';
+import { supabase, supabaseAnonKey, supabaseUrl } from './supabase';
+
+/**
+ * Error codes returned by the get-ai-response Edge Function
+ * (mirrors EdgeErrorCode in supabase/functions/_shared/errors.ts, plus INVALID_RESPONSE,
+ * which the client raises itself when the reply can't be parsed)
+ */
+export type AIErrorCode =
+  | 'INVALID_INPUT'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_ERROR'
+  | 'INTERNAL_ERROR'
+  | 'INVALID_RESPONSE';
+
+// Longest message the Edge Function accepts
+export const MAX_SOLO_MESSAGE_LENGTH = 4000;
 
 /**
  * AI response result interface
@@ -21,6 +58,9 @@ export interface AIResponseResult {
   userMessage?: SoloAIMessage;
   aiMessage?: SoloAIMessage;
   error?: string;
+  errorCode?: AIErrorCode;
+  retryAfterSeconds?: number; // RATE_LIMITED: when the student can send again
+  chatTitle?: string; // Set when this exchange gave the chat its automatic title
   processingTimeMs?: number;
 }
 
@@ -41,6 +81,140 @@ export interface SendMessageOptions {
   message: string;
   imageUri?: string;
   userId: string;
+  clientMessageId?: string; // Idempotency key - retries with the same key replay the saved exchange
+  uploadedImageUrl?: string; // Image already uploaded by an earlier attempt (skips the upload)
+  onImageUploaded?: (imageUrl: string) => void; // Lets the outbox remember the upload between retries
+  onUserMessageSaved?: (message: SoloAIMessage) => void; // Streaming: user message persisted
+  onToken?: (partialResponse: string) => void; // Streaming: enables streaming mode when provided
+}
+
+/**
+ * Edge Function request payload
+ */
+interface AIRequestPayload {
+  chat_id: string;
+  user_message: string;
+  image_url?: string;
+  user_id: string;
+  stream?: boolean;
+  client_message_id?: string;
+}
+
+/**
+ * NDJSON events emitted by the Edge Function in streaming mode
+ */
+type AIStreamEvent =
+  | { type: 'start'; user_message_id: string; user_message_created_at: string }
+  | { type: 'token'; delta: string }
+  | {
+      type: 'done';
+      ai_response: string;
+      ai_message_id: string;
+      ai_message_created_at: string;
+      chat_title?: string;
+      processing_time_ms: number;
+    }
+  | { type: 'error'; error: string; error_code?: AIErrorCode; processing_time_ms: number };
+
+/**
+ * Error body returned by the Edge Function for rejected requests
+ */
+interface AIErrorBody {
+  error?: string;
+  error_code?: string;
+  limit?: 'burst' | 'daily' | 'monthly'; // RATE_LIMITED only
+  retry_after_seconds?: number; // RATE_LIMITED only
+}
+
+// What the user sees for each error code, instead of the raw server error
+const AI_ERROR_MESSAGES: Record<AIErrorCode, string> = {
+  INVALID_INPUT: "Juni couldn't read that message. Try shortening it or sending a different image.",
+  UNAUTHORIZED: 'Your session has expired. Please sign in again to keep chatting with Juni.',
+  FORBIDDEN: "You don't have access to this chat. Try starting a new chat.",
+  NOT_FOUND: 'This chat no longer exists. Try starting a new chat.',
+  METHOD_NOT_ALLOWED: 'Something went wrong sending your message. Please update the app and try again.',
+  RATE_LIMITED: "You're sending messages faster than Juni can answer. Wait a moment and try again.",
+  UPSTREAM_TIMEOUT: 'Juni is taking too long to answer. Please try again.',
+  UPSTREAM_ERROR: 'Juni is having trouble answering right now. Please try again.',
+  INTERNAL_ERROR: 'Something went wrong on our side. Please try again.',
+  INVALID_RESPONSE: "Juni's reply got garbled on the way. Please try again.",
+};
+
+// RATE_LIMITED, by the limit that was hit
+const RATE_LIMIT_MESSAGES = {
+  burst: (seconds: number) =>
+    `You're sending messages faster than Juni can answer. Try again in ${seconds} second${seconds === 1 ? '' : 's'}.`,
+  daily: () => "You've used all of today's messages with Juni. Come back tomorrow to keep chatting!",
+  monthly: () => "You've used all of this month's messages with Juni. They refresh on the 1st.",
+};
+
+// Shown when the request never got an answer (no error code)
+const AI_NETWORK_ERROR_MESSAGE = "Couldn't reach Juni. Check your connection and try again.";
+
+// Temporary failures: sending the same message again is expected to work
+const RETRYABLE_AI_ERRORS: AIErrorCode[] = ['UPSTREAM_TIMEOUT', 'UPSTREAM_ERROR', 'INTERNAL_ERROR', 'INVALID_RESPONSE'];
+
+// Failures that no retry can fix - the message has to be changed or discarded
+const PERMANENT_AI_ERRORS: AIErrorCode[] = ['INVALID_INPUT', 'FORBIDDEN', 'NOT_FOUND', 'METHOD_NOT_ALLOWED'];
+
+/**
+ * Whether a failed send may be retried automatically
+ * Sends without a code never got an answer (e.g. a dropped connection), so they are retryable too.
+ */
+export function isRetryableAIError(errorCode?: AIErrorCode): boolean {
+  return !errorCode || RETRYABLE_AI_ERRORS.includes(errorCode);
+}
+
+/**
+ * Whether a failed send can never succeed as-is (offering "Retry" would be pointless)
+ */
+export function isPermanentAIError(errorCode?: AIErrorCode): boolean {
+  return !!errorCode && PERMANENT_AI_ERRORS.includes(errorCode);
+}
+
+/**
+ * Work out the error code of a failed request from its body, or from the HTTP status
+ */
+function getAIErrorCode(status: number, body: AIErrorBody | null): AIErrorCode | undefined {
+  if (body?.error_code && body.error_code in AI_ERROR_MESSAGES) {
+    return body.error_code as AIErrorCode;
+  }
+  if (status === 401) return 'UNAUTHORIZED';
+  if (status === 403) return 'FORBIDDEN';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 504) return 'UPSTREAM_TIMEOUT';
+  return undefined;
+}
+
+/**
+ * Failed result for an error code, with the message the user should see
+ */
+function toAIErrorResult(errorCode: AIErrorCode, serverError?: string, body?: AIErrorBody | null): AIResponseResult {
+  console.error('❌ Solo Service - AI request failed with', errorCode + ':', serverError);
+
+  if (errorCode === 'RATE_LIMITED' && body?.limit) {
+    const retryAfterSeconds = body.retry_after_seconds ?? 0;
+    return {
+      success: false,
+      error: RATE_LIMIT_MESSAGES[body.limit](retryAfterSeconds),
+      errorCode,
+      retryAfterSeconds,
+    };
+  }
+
+  return {
+    success: false,
+    error: AI_ERROR_MESSAGES[errorCode],
+    errorCode,
+  };
+}
+
+/**
+ * Streaming result - `started` is true once the user message was persisted,
+ * after which falling back to the non-streaming path would duplicate it
+ */
+interface AIStreamResult extends AIResponseResult {
+  started: boolean;
 }
 
 /**
@@ -113,6 +287,61 @@ export async function getUserChats(userId: string): Promise<SoloAIChat[]> {
   }
 }
 
+/**
+ * Get the signed-in user's chats with their last message and latest image,
+ * most recently active first
+ */
+export async function getChatPreviews(): Promise<SoloAIChatPreview[]> {
+  console.log('📋 Solo Service - Fetching chat previews');
+
+  try {
+    const { data: chats, error } = await supabase.rpc('get_solo_chat_previews');
+
+    if (error) {
+      console.error('❌ Solo Service - Error fetching chat previews:', error);
+      throw new Error(`Failed to fetch chats: ${error.message}`);
+    }
+
+    console.log('✅ Solo Service - Retrieved', chats?.length || 0, 'chat previews');
+    return (chats || []) as SoloAIChatPreview[];
+
+  } catch (error) {
+    console.error('❌ Solo Service - Unexpected error fetching chat previews:', error);
+    throw error;
+  }
+}
+
+/**
+ * Full-text search over the signed-in user's messages, best matches first
+ * Supports web search syntax ("quoted phrases", -excluded words).
+ */
+export async function searchMessages(query: string, limit: number = 20): Promise<SoloMessageSearchResult[]> {
+  console.log('🔎 Solo Service - Searching messages for:', query);
+
+  if (!query.trim()) {
+    return [];
+  }
+
+  try {
+    const { data: results, error } = await supabase.rpc('search_solo_messages', {
+      search_query: query.trim(),
+      result_limit: limit,
+    });
+
+    if (error) {
+      console.error('❌ Solo Service - Error searching messages:', error);
+      throw new Error(`Failed to search messages: ${error.message}`);
+    }
+
+    console.log('✅ Solo Service - Found', results?.length || 0, 'matching messages');
+    return (results || []) as SoloMessageSearchResult[];
+
+  } catch (error) {
+    console.error('❌ Solo Service - Unexpected error searching messages:', error);
+    throw error;
+  }
+}
+
 /**
  * Get messages for a specific chat
  */
@@ -152,12 +381,13 @@ export async function sendMessage(options: SendMessageOptions): Promise<AIRespon
   const startTime = Date.now();
 
   try {
-    let imageUrl: string | undefined;
+    let imageUrl: string | undefined = options.uploadedImageUrl;
 
-    // Upload image if provided
-    if (options.imageUri) {
+    // Upload image if provided (and not already uploaded by an earlier attempt)
+    if (options.imageUri && !imageUrl) {
       console.log('📤 Solo Service - Uploading image for AI analysis');
-      const uploadResult = await uploadSoloImage(options.imageUri, {
+      const uploadResult = await uploadMedia(options.imageUri, {
+        bucket: 'solo-images',
         userId: options.userId,
       });
 
@@ -171,14 +401,19 @@ export async function sendMessage(options: SendMessageOptions): Promise<AIRespon
 
       imageUrl = uploadResult.publicUrl;
       console.log('✅ Solo Service - Image uploaded successfully');
+
+      if (imageUrl) {
+        options.onImageUploaded?.(imageUrl);
+      }
     }
 
     // Prepare request payload for Edge Function
-    const requestPayload = {
+    const requestPayload: AIRequestPayload = {
       chat_id: options.chatId,
       user_message: options.message,
       image_url: imageUrl,
       user_id: options.userId,
+      client_message_id: options.clientMessageId,
     };
 
     console.log('📡 Solo Service - Calling Edge Function with payload');
@@ -187,8 +422,32 @@ export async function sendMessage(options: SendMessageOptions): Promise<AIRespon
       message_length: requestPayload.user_message.length,
       has_image: !!requestPayload.image_url,
       user_id: requestPayload.user_id,
+      client_message_id: requestPayload.client_message_id,
     });
 
+    // Stream the response when the caller wants live tokens
+    if (options.onToken) {
+      const streamResult = await streamAIResponse(requestPayload, options);
+
+      // A coded failure would fail the same way without streaming, so it is returned as-is
+      if (streamResult.success || streamResult.started || streamResult.errorCode) {
+        const processingTime = Date.now() - startTime;
+        console.log('⏱️ Solo Service - Total streaming time:', processingTime, 'ms');
+        return {
+          success: streamResult.success,
+          userMessage: streamResult.userMessage,
+          aiMessage: streamResult.aiMessage,
+          error: streamResult.error,
+          errorCode: streamResult.errorCode,
+          retryAfterSeconds: streamResult.retryAfterSeconds,
+          chatTitle: streamResult.chatTitle,
+          processingTimeMs: processingTime,
+        };
+      }
+
+      console.log('⚠️ Solo Service - Streaming unavailable, falling back to standard request:', streamResult.error);
+    }
+
     // Call the Edge Function
     const { data: responseData, error: functionError } = await supabase.functions.invoke(
       'get-ai-response',
@@ -199,18 +458,22 @@ export async function sendMessage(options: SendMessageOptions): Promise<AIRespon
 
     if (functionError) {
       console.error('❌ Solo Service - Edge Function error:', functionError);
+
+      if (functionError instanceof FunctionsHttpError) {
+        const errorResponse: Response = functionError.context;
+        const errorBody: AIErrorBody | null = await errorResponse.json().catch(() => null);
+        const errorCode = getAIErrorCode(errorResponse.status, errorBody) ?? 'INTERNAL_ERROR';
+        return toAIErrorResult(errorCode, errorBody?.error, errorBody);
+      }
+
       return {
         success: false,
-        error: `AI service error: ${functionError.message}`,
+        error: AI_NETWORK_ERROR_MESSAGE,
       };
     }
 
     if (!responseData?.success) {
-      console.error('❌ Solo Service - AI response failed:', responseData?.error);
-      return {
-        success: false,
-        error: responseData?.error || 'AI failed to generate response',
-      };
+      return toAIErrorResult(getAIErrorCode(200, responseData) ?? 'INTERNAL_ERROR', responseData?.error, responseData);
     }
 
     console.log('✅ Solo Service - AI response received successfully');
@@ -259,6 +522,7 @@ export async function sendMessage(options: SendMessageOptions): Promise<AIRespon
       success: true,
       userMessage,
       aiMessage,
+      chatTitle: responseData.chat_title,
       processingTimeMs: processingTime,
     };
 
@@ -274,6 +538,150 @@ export async function sendMessage(options: SendMessageOptions): Promise<AIRespon
   }
 }
 
+/**
+ * Call the Edge Function in streaming mode
+ *
+ * Uses XMLHttpRequest because React Native's fetch does not expose a readable
+ * response body; responseText grows as chunks arrive and is parsed line by line.
+ */
+async function streamAIResponse(
+  payload: AIRequestPayload,
+  options: SendMessageOptions
+): Promise<AIStreamResult> {
+  console.log('🌊 Solo Service - Streaming AI response');
+
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData.session?.access_token || supabaseAnonKey;
+
+  let userMessage: SoloAIMessage | undefined;
+  let aiMessage: SoloAIMessage | undefined;
+  let partialResponse = '';
+  let streamError: string | undefined;
+  let errorCode: AIErrorCode | undefined;
+  let errorBody: AIErrorBody | null = null;
+  let chatTitle: string | undefined;
+
+  const handleEvent = (event: AIStreamEvent) => {
+    switch (event.type) {
+      case 'start':
+        userMessage = {
+          id: event.user_message_id,
+          chat_id: payload.chat_id,
+          role: 'user',
+          content: payload.user_message,
+          image_url: payload.image_url,
+          client_message_id: payload.client_message_id,
+          created_at: event.user_message_created_at,
+        };
+        options.onUserMessageSaved?.(userMessage);
+        break;
+      case 'token':
+        partialResponse += event.delta;
+        options.onToken?.(partialResponse);
+        break;
+      case 'done':
+        aiMessage = {
+          id: event.ai_message_id,
+          chat_id: payload.chat_id,
+          role: 'assistant',
+          content: event.ai_response,
+          created_at: event.ai_message_created_at,
+        };
+        chatTitle = event.chat_title;
+        console.log('✅ Solo Service - Stream completed in', event.processing_time_ms, 'ms');
+        break;
+      case 'error':
+        streamError = event.error;
+        errorCode = event.error_code ?? 'INTERNAL_ERROR';
+        break;
+    }
+  };
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const reader = createNDJSONReader<AIStreamEvent>();
+      let offset = 0;
+
+      // Handle every complete line received since the last progress event (and the rest at the end).
+      // Errors must reject here: an exception inside an XHR callback would leave the promise
+      // unsettled and the send hanging.
+      const flush = (final: boolean): boolean => {
+        try {
+          const chunk = xhr.responseText.substring(offset);
+          offset = xhr.responseText.length;
+          reader.push(chunk).forEach(handleEvent);
+          if (final) reader.end().forEach(handleEvent);
+          return true;
+        } catch (error) {
+          if (error instanceof NDJSONParseError) {
+            console.error('❌ Solo Service - Malformed stream event:', error.line);
+            errorCode = 'INVALID_RESPONSE';
+          }
+          xhr.abort();
+          reject(error);
+          return false;
+        }
+      };
+
+      xhr.open('POST', `${supabaseUrl}/functions/v1/get-ai-response`);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+      xhr.setRequestHeader('apikey', supabaseAnonKey);
+
+      xhr.onprogress = () => {
+        if (xhr.status === 200) flush(false);
+      };
+      xhr.onload = () => {
+        if (xhr.status !== 200) {
+          try {
+            errorBody = JSON.parse(xhr.responseText);
+          } catch {
+            // Not a JSON error body (e.g. a gateway error page)
+          }
+          errorCode = getAIErrorCode(xhr.status, errorBody);
+          reject(new Error(`Edge Function returned status ${xhr.status}`));
+          return;
+        }
+        if (flush(true)) resolve();
+      };
+      xhr.onerror = () => reject(new Error('Network request failed'));
+
+      xhr.send(JSON.stringify({ ...payload, stream: true }));
+    });
+  } catch (error) {
+    console.error('❌ Solo Service - Streaming request failed:', error);
+    streamError = error instanceof Error ? error.message : 'Streaming failed';
+  }
+
+  if (errorCode) {
+    return {
+      ...toAIErrorResult(errorCode, streamError, errorBody),
+      started: !!userMessage,
+      userMessage,
+    };
+  }
+
+  // Without a code the stream never finished (e.g. the connection dropped mid-reply)
+  if (streamError || !userMessage || !aiMessage) {
+    console.error('❌ Solo Service - Stream did not complete:', streamError || 'ended unexpectedly');
+    return {
+      success: false,
+      started: !!userMessage,
+      userMessage,
+      error: AI_NETWORK_ERROR_MESSAGE,
+    };
+  }
+
+  return {
+    success: true,
+    started: true,
+    userMessage,
+    aiMessage,
+    chatTitle,
+  };
+}
+
 /**
  * Get a specific user message by ID
  */
@@ -420,4 +828,28 @@ export async function getOrCreateDefaultChat(userId: string): Promise<SoloAIChat
     console.error('❌ Solo Service - Unexpected error getting/creating default chat:', error);
     return null;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Get how many Juni messages the user has used and has left today and this month
+ */
+export async function getAIUsageSummary(): Promise<AIUsageSummary | null> {
+  console.log('📈 Solo Service - Fetching AI usage summary');
+
+  try {
+    const { data, error } = await supabase.rpc('get_ai_usage_summary').single();
+
+    if (error) {
+      console.error('❌ Solo Service - Error fetching AI usage summary:', error);
+      return null;
+    }
+
+    const summary = data as AIUsageSummary;
+    console.log('✅ Solo Service - AI usage:', summary.daily_used, '/', summary.daily_limit, 'today,', summary.monthly_used, '/', summary.monthly_limit, 'this month');
+    return summary;
+
+  } catch (error) {
+    console.error('❌ Solo Service - Unexpected error fetching AI usage summary:', error);
+    return null;
+  }
+}
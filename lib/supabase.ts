@@ -20,8 +20,8 @@ console.log('📋 DEBUG: Full expo config extra:', JSON.stringify(Constants.expo
 
 // SIMPLIFIED CONFIGURATION:
 // Always use production Supabase for everything
-const supabaseUrl = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_URL;
-const supabaseAnonKey = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_ANON_KEY;
+export const supabaseUrl = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_URL;
+export const supabaseAnonKey = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_ANON_KEY;
 
 console.log('🔧 Supabase Config - CLOUD-ONLY MODE');
 console.log('📍 Supabase URL:', supabaseUrl ? `Set ✓ (${supabaseUrl.substring(0, 30)}...)` : 'Missing ❌');
@@ -114,12 +114,14 @@ export interface Photo {
   uploaded_at: string;
   storage_bucket: string;
   public_url?: string;
+  thumbnail_url?: string;
+  content_hash?: string; // SHA-256 of the original file, used to skip re-uploads
 }
 
 export interface Class {
   id: string;
   name: string;
-  join_code: string;
+  join_code?: string; // Only readable by class staff (class_join_codes view)
   description?: string;
   created_by?: string;
   is_active: boolean;
@@ -137,17 +139,40 @@ export interface ClassMember {
   is_active: boolean;
 }
 
+// Frame drawn around shared artwork (matches the posts.frame_style check constraint)
+export type FrameStyle = 'none' | 'classic' | 'modern' | 'vintage';
+
+// Medium the artwork was made in (matches the posts.medium check constraint)
+export type ArtMedium =
+  | 'pencil'
+  | 'charcoal'
+  | 'ink'
+  | 'watercolor'
+  | 'gouache'
+  | 'acrylic'
+  | 'oil'
+  | 'pastel'
+  | 'digital'
+  | 'mixed_media'
+  | 'other';
+
 export interface Post {
   id: string;
   user_id: string;
   class_id: string;
   image_url: string;
   image_path?: string;
-  frame_style?: string;
+  thumbnail_url?: string;
+  frame_style: FrameStyle;
   title?: string;
   description?: string;
+  medium?: ArtMedium;
+  dimensions?: string; // Physical size as the artist wrote it, e.g. "9 x 12 in"
+  time_spent_minutes?: number;
+  tags: string[]; // Lowercase, without '#'
   max_viewers: number;
   view_count: number;
+  comments_count: number; // Includes replies; kept by a trigger on comments
   duration_minutes: number;
   expires_at: string;
   is_expired: boolean;
@@ -155,6 +180,15 @@ export interface Post {
   updated_at: string;
 }
 
+export interface PostImage {
+  id: string;
+  post_id: string;
+  image_url: string;
+  thumbnail_url?: string;
+  position: number; // 0 is the cover (also stored on the post)
+  created_at: string;
+}
+
 export interface PostView {
   id: string;
   post_id: string;
@@ -166,20 +200,60 @@ export interface Comment {
   id: string;
   post_id: string;
   user_id: string;
+  parent_comment_id?: string | null; // Set on replies; always a top-level comment
   content: string;
   is_edited: boolean;
   created_at: string;
   updated_at: string;
+  // Annotation pin (top-level comments only); see CommentAnchor
+  anchor_image_index?: number | null;
+  anchor_x?: number | null;
+  anchor_y?: number | null;
+  anchor_width?: number | null;
+  anchor_height?: number | null;
+}
+
+// Spot on one of a post's images that a comment is pinned to. x/y (and width/height for a
+// rectangle) are fractions (0-1) of the original image, measured from its top-left corner.
+export interface CommentAnchor {
+  image_index: number; // post_images position
+  x: number;
+  y: number;
+  width?: number | null;
+  height?: number | null;
+}
+
+// A pinned comment's anchor, as returned with each post by get_class_feed
+export interface PostAnnotation extends CommentAnchor {
+  comment_id: string;
+}
+
+// Emoji reactions (match the post_reactions / comment_reactions check constraints)
+export type ReactionEmoji = '❤️' | '👏' | '🔥' | '😍' | '💡';
+
+export interface PostReaction {
+  post_id: string;
+  user_id: string;
+  emoji: ReactionEmoji;
+  created_at: string;
+}
+
+export interface CommentReaction {
+  comment_id: string;
+  user_id: string;
+  emoji: ReactionEmoji;
+  created_at: string;
 }
 
 export interface AIFeedback {
   id: string;
   post_id: string;
   user_id: string;
-  feedback_text: string;
+  feedback_text?: string; // Set once the critique has completed
   feedback_status: 'pending' | 'processing' | 'completed' | 'failed';
   processing_time_ms?: number;
   ai_model: string;
+  error_message?: string;
   created_at: string;
   updated_at: string;
 }
@@ -190,7 +264,8 @@ export interface AIFeedback {
 export interface SoloAIChat {
   id: string;
   user_id: string;
-  title?: string;
+  title?: string; // Generated by the Edge Function after the first exchange unless the user names the chat
+  summary?: string | null; // Rolling summary of the messages older than Juni's recent window
   created_at: string;
   updated_at: string;
 }
@@ -202,9 +277,47 @@ export interface SoloAIMessage {
   content: string;
   image_url?: string;
   embedding?: number[];
+  client_message_id?: string; // Idempotency key from the offline outbox
   created_at: string;
 }
 
+/**
+ * Chat list entry (from get_solo_chat_previews); chats created in the app start without a preview
+ */
+export interface SoloAIChatPreview extends SoloAIChat {
+  last_message?: string | null;
+  last_message_role?: 'user' | 'assistant' | null;
+  last_message_at?: string | null;
+  last_image_url?: string | null; // Latest image in the chat, for the thumbnail
+  message_count?: number;
+}
+
+/**
+ * Full-text search hit (from search_solo_messages)
+ */
+export interface SoloMessageSearchResult {
+  message_id: string;
+  chat_id: string;
+  chat_title: string | null;
+  role: 'user' | 'assistant';
+  snippet: string; // Matched words wrapped in « and »
+  image_url: string | null;
+  created_at: string;
+  rank: number;
+}
+
+/**
+ * Juni messages used and allowed for the signed-in user (from get_ai_usage_summary)
+ */
+export interface AIUsageSummary {
+  daily_used: number;
+  daily_limit: number;
+  daily_resets_at: string;
+  monthly_used: number;
+  monthly_limit: number;
+  monthly_resets_at: string;
+}
+
 export interface Database {
   public: {
     Tables: {
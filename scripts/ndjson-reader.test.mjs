@@ -0,0 +1,51 @@
+/**
+ * NDJSON Reader tests
+ * Proves streamed Juni replies are split into events correctly and that a malformed line
+ * fails with NDJSONParseError (which the Solo service turns into INVALID_RESPONSE).
+ *
+ * Run with: npm test (scripts/ts-loader.mjs loads the TypeScript module)
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createNDJSONReader, NDJSONParseError } from '../lib/ndjsonReader.ts';
+
+describe('createNDJSONReader', () => {
+  it('parses complete lines and holds back a partial one', () => {
+    const reader = createNDJSONReader();
+
+    assert.deepEqual(reader.push('{"type":"start"}\n{"type":"tok'), [{ type: 'start' }]);
+    assert.deepEqual(reader.push('en","delta":"Hi"}\n'), [{ type: 'token', delta: 'Hi' }]);
+    assert.deepEqual(reader.end(), []);
+  });
+
+  it('skips blank lines', () => {
+    const reader = createNDJSONReader();
+
+    assert.deepEqual(reader.push('\n{"type":"start"}\n\n  \n'), [{ type: 'start' }]);
+  });
+
+  it('parses a last line that has no trailing newline when the stream ends', () => {
+    const reader = createNDJSONReader();
+
+    assert.deepEqual(reader.push('{"type":"done"}'), []);
+    assert.deepEqual(reader.end(), [{ type: 'done' }]);
+  });
+
+  it('throws NDJSONParseError for a malformed line', () => {
+    const reader = createNDJSONReader();
+
+    assert.throws(
+      () => reader.push('{"type":"start"}\n{"type":"token","delta":\n'),
+      (error) => error instanceof NDJSONParseError && error.line === '{"type":"token","delta":'
+    );
+  });
+
+  it('throws NDJSONParseError for a line cut off at the end of the stream', () => {
+    const reader = createNDJSONReader();
+
+    reader.push('{"type":"done","ai_resp');
+    assert.throws(() => reader.end(), NDJSONParseError);
+  });
+});
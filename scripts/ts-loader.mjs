@@ -0,0 +1,40 @@
+/**
+ * TypeScript loader for Node's test runner
+ *
+ * Lets scripts/*.test.mjs import dependency-free TypeScript modules from lib/ on any Node
+ * version the app builds with (Node 20 can't load .ts files by itself).
+ *
+ * Features:
+ * - Registers itself as a module hook when loaded with --import
+ * - Strips types from .ts files with the project's own typescript package (no type checking)
+ *
+ * Usage: node --import ./scripts/ts-loader.mjs --test scripts/*.test.mjs (what npm test runs)
+ */
+
+import { readFile } from 'node:fs/promises';
+import { register } from 'node:module';
+import { isMainThread } from 'node:worker_threads';
+import ts from 'typescript';
+
+// Hooks run on their own thread, which loads this file again; only register from the app thread
+if (isMainThread) {
+  register(import.meta.url);
+}
+
+export async function load(url, context, nextLoad) {
+  if (!url.startsWith('file:') || !url.endsWith('.ts')) {
+    return nextLoad(url, context);
+  }
+
+  const source = await readFile(new URL(url), 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    fileName: url,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+      inlineSourceMap: true,
+    },
+  });
+
+  return { format: 'module', source: outputText, shortCircuit: true };
+}
@@ -4,15 +4,59 @@
  * This store manages global class and feed state including:
  * - Current active class context
  * - Class membership management
- * - Feed posts and interactions
+ * - Feed posts (including multi-image sequences) and interactions
+ * - Threaded comments (one level of replies) with edit/delete, and emoji reactions on posts and comments
+ * - Annotation comments pinned to a spot or area of the artwork
+ * - Feed filtering by medium or tag
+ * - Juni AI critiques for posts
  * - Real-time updates and notifications
  */
 
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+  RealtimePostgresDeletePayload,
+  RealtimePostgresInsertPayload,
+  RealtimePostgresUpdatePayload,
+} from '@supabase/supabase-js';
 import { create } from 'zustand';
-import { getUserClasses, joinClass, leaveClass } from '../lib/classService';
-import type { Class, ClassMember, Comment, Post } from '../lib/supabase';
+import {
+  createClass,
+  deactivateClass,
+  getUserClasses,
+  joinClass,
+  leaveClass,
+  regenerateJoinCode,
+  updateClass,
+  type ClassCreationOptions,
+  type ClassUpdateOptions,
+} from '../lib/classService';
+import { REACTION_EMOJIS } from '../constants/Reactions';
+import { getCommentAnchor } from '../lib/annotationGeometry';
+import { getPostFeedback, requestPostFeedback } from '../lib/feedbackService';
+import type {
+  AIFeedback,
+  ArtMedium,
+  Class,
+  ClassMember,
+  Comment,
+  CommentAnchor,
+  CommentReaction,
+  Post,
+  PostAnnotation,
+  PostImage,
+  PostReaction,
+  ReactionEmoji,
+} from '../lib/supabase';
 import { supabase } from '../lib/supabase';
 
+// How many people reacted with one emoji, and whether the current user is one of them
+export interface ReactionSummary {
+  emoji: ReactionEmoji;
+  count: number;
+  reacted: boolean;
+}
+
 // Extended post interface with user information
 export interface PostWithUser extends Post {
   user?: {
@@ -20,11 +64,16 @@ export interface PostWithUser extends Post {
     username?: string;
     avatar_url?: string;
   };
-  comments_count?: number;
+  reactions?: ReactionSummary[];
+  annotations?: PostAnnotation[]; // Pinned comments, oldest first
   has_ai_feedback?: boolean;
   user_has_viewed?: boolean;
+  images?: PostImage[]; // Ordered by position; position 0 is the cover
 }
 
+// Image to attach to a new post, in display order
+export type NewPostImage = Pick<PostImage, 'image_url' | 'thumbnail_url'>;
+
 // Extended comment interface with user information
 export interface CommentWithUser extends Comment {
   user?: {
@@ -32,6 +81,210 @@ export interface CommentWithUser extends Comment {
     username?: string;
     avatar_url?: string;
   };
+  reactions?: ReactionSummary[];
+}
+
+// Narrows the class feed to one medium and/or one tag (empty = every post)
+export interface FeedFilter {
+  medium?: ArtMedium;
+  tag?: string; // Lowercase, without '#'
+}
+
+// Row returned by the get_class_feed database function
+interface ClassFeedRow extends Post {
+  username: string | null;
+  avatar_url: string | null;
+  has_ai_feedback: boolean;
+  user_has_viewed: boolean;
+  images: PostImage[];
+  reactions: ReactionSummary[];
+  annotations: PostAnnotation[];
+}
+
+// Outcome of recording a view with the record_post_view database function
+export type PostViewReason =
+  | 'owner'
+  | 'recorded'
+  | 'already_viewed'
+  | 'limit_reached'
+  | 'expired'
+  | 'not_member'
+  | 'not_found';
+
+export interface PostViewResult {
+  allowed: boolean;
+  alreadyViewed: boolean;
+  viewCount: number;
+  maxViewers: number;
+  remainingViews: number;
+  reason: PostViewReason;
+}
+
+// Row returned by the record_post_view database function
+interface PostViewRow {
+  allowed: boolean;
+  already_viewed: boolean;
+  view_count: number;
+  max_viewers: number;
+  remaining_views: number;
+  reason: PostViewReason;
+}
+
+// Number of posts fetched per feed page
+const FEED_PAGE_SIZE = 20;
+
+// How often the feed drops posts whose expires_at has passed
+const EXPIRED_POST_PRUNE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Fetch one page of the class feed in a single round trip
+ * 
+ * Pages older than `before` when given, otherwise the newest page.
+ * Returned oldest first so newest posts appear at bottom (chat-style).
+ */
+async function fetchClassFeedPage(
+  classId: string,
+  before: Pick<Post, 'id' | 'created_at'> | null,
+  filter: FeedFilter
+): Promise<{ posts: PostWithUser[]; error?: string }> {
+  const { data, error } = await supabase.rpc('get_class_feed', {
+    target_class_id: classId,
+    before_created_at: before?.created_at ?? null,
+    before_id: before?.id ?? null,
+    page_size: FEED_PAGE_SIZE,
+    filter_medium: filter.medium ?? null,
+    filter_tag: filter.tag ?? null
+  });
+
+  if (error) {
+    return { posts: [], error: error.message };
+  }
+
+  const posts = ((data || []) as ClassFeedRow[]).map(({ username, avatar_url, ...post }) => ({
+    ...post,
+    user: {
+      id: post.user_id,
+      username: username ?? undefined,
+      avatar_url: avatar_url ?? undefined
+    }
+  }));
+
+  return { posts: posts.reverse() };
+}
+
+/**
+ * Whether a post belongs in the feed under the given filter
+ * (used for realtime inserts, which arrive unfiltered)
+ */
+function matchesFeedFilter(post: Pick<Post, 'medium' | 'tags'>, filter: FeedFilter): boolean {
+  if (filter.medium && post.medium !== filter.medium) return false;
+  if (filter.tag && !(post.tags || []).includes(filter.tag)) return false;
+  return true;
+}
+
+// Realtime channel for the current class feed (one at a time)
+let feedChannel: RealtimeChannel | null = null;
+
+// Drops expired posts while the feed is subscribed. Classmates lose read access to a post
+// once it expires, so Realtime never sends them the is_expired update.
+let expiredPostTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Add or remove one reaction from a summary, keeping emoji in display order
+ * `byViewer` marks whether the reaction is the current user's own.
+ */
+function applyReaction(
+  reactions: ReactionSummary[] | undefined,
+  emoji: ReactionEmoji,
+  delta: 1 | -1,
+  byViewer: boolean
+): ReactionSummary[] {
+  const existing = (reactions || []).find(reaction => reaction.emoji === emoji);
+  const updated: ReactionSummary = {
+    emoji,
+    count: Math.max((existing?.count || 0) + delta, 0),
+    reacted: byViewer ? delta === 1 : !!existing?.reacted,
+  };
+
+  return [...(reactions || []).filter(reaction => reaction.emoji !== emoji), updated]
+    .filter(reaction => reaction.count > 0)
+    .sort((a, b) => REACTION_EMOJIS.indexOf(a.emoji) - REACTION_EMOJIS.indexOf(b.emoji));
+}
+
+/**
+ * Remove a comment and its replies from a loaded thread
+ */
+function removeComment(comments: CommentWithUser[], commentId: string): CommentWithUser[] {
+  return comments.filter(comment => comment.id !== commentId && comment.parent_comment_id !== commentId);
+}
+
+/**
+ * Read a post's comment count (kept by a database trigger, so it includes replies and
+ * replies removed along with their parent)
+ */
+async function fetchCommentCount(postId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('posts')
+    .select('comments_count')
+    .eq('id', postId)
+    .maybeSingle();
+
+  if (error || !data) {
+    console.error('❌ Class Store - Error loading comment count:', error);
+    return null;
+  }
+
+  return data.comments_count;
+}
+
+/**
+ * Set one post's comment count in the feed
+ */
+function withCommentCount(posts: PostWithUser[], postId: string, commentsCount: number): PostWithUser[] {
+  return posts.map(post => (post.id === postId ? { ...post, comments_count: commentsCount } : post));
+}
+
+/**
+ * Add a pinned comment's anchor to its post in the feed (no-op for unpinned comments)
+ */
+function withAnnotation(posts: PostWithUser[], comment: Comment): PostWithUser[] {
+  const anchor = getCommentAnchor(comment);
+  if (!anchor) return posts;
+
+  return posts.map(post =>
+    post.id === comment.post_id && !post.annotations?.some(a => a.comment_id === comment.id)
+      ? { ...post, annotations: [...(post.annotations || []), { ...anchor, comment_id: comment.id }] }
+      : post
+  );
+}
+
+/**
+ * Remove a deleted comment's anchor from whichever post it was on
+ */
+function withoutAnnotation(posts: PostWithUser[], commentId: string): PostWithUser[] {
+  return posts.map(post =>
+    post.annotations?.some(a => a.comment_id === commentId)
+      ? { ...post, annotations: post.annotations.filter(a => a.comment_id !== commentId) }
+      : post
+  );
+}
+
+/**
+ * Apply edited class details to the class list and the current class
+ */
+function mergeClassUpdate(
+  state: Pick<ClassState, 'userClasses' | 'currentClass'>,
+  updatedClass: Class
+): Pick<ClassState, 'userClasses' | 'currentClass'> {
+  const { userClasses, currentClass } = state;
+  return {
+    userClasses: userClasses.map(c =>
+      c.id === updatedClass.id ? { ...c, ...updatedClass, membership: c.membership } : c
+    ),
+    currentClass: currentClass?.id === updatedClass.id
+      ? { ...currentClass, ...updatedClass, membership: currentClass.membership }
+      : currentClass
+  };
 }
 
 // Class state interface
@@ -43,7 +296,14 @@ export interface ClassState {
   postComments: { [postId: string]: CommentWithUser[] };
   isLoading: boolean;
   isLoadingPosts: boolean;
+  isLoadingOlderPosts: boolean;
+  hasMorePosts: boolean;
+  feedFilter: FeedFilter;
   isLoadingComments: { [postId: string]: boolean };
+  postFeedback: { [postId: string]: AIFeedback | null };
+  isRequestingFeedback: { [postId: string]: boolean };
+  postViewStatus: { [postId: string]: PostViewResult };
+  viewErrors: { [postId: string]: string | null };
   
   // Feed state
   feedRefreshKey: number;
@@ -56,15 +316,36 @@ export interface ClassState {
   joinClassWithCode: (joinCode: string, userId: string) => Promise<{ success: boolean; error?: string; isExistingMember?: boolean }>;
   leaveCurrentClass: (userId: string) => Promise<{ success: boolean; error?: string }>;
   
+  // Teacher actions
+  createNewClass: (options: ClassCreationOptions, userId: string) => Promise<{ success: boolean; class?: Class; error?: string }>;
+  updateClassDetails: (classId: string, updates: ClassUpdateOptions) => Promise<{ success: boolean; error?: string }>;
+  regenerateClassJoinCode: (classId: string) => Promise<{ success: boolean; joinCode?: string; error?: string }>;
+  deactivateClass: (classId: string) => Promise<{ success: boolean; error?: string }>;
+  
   // Feed actions
   loadClassPosts: (classId: string, userId: string) => Promise<void>;
+  loadOlderPosts: (classId: string, userId: string) => Promise<void>;
+  setFeedFilter: (filter: FeedFilter, userId: string) => Promise<void>;
   loadPostComments: (postId: string) => Promise<void>;
   refreshFeed: () => void;
-  markPostAsViewed: (postId: string, userId: string) => Promise<void>;
-  createPost: (postData: Partial<Post>) => Promise<{ success: boolean; postId?: string; error?: string }>;
-  createComment: (postId: string, userId: string, content: string) => Promise<{ success: boolean; error?: string }>;
+  markPostAsViewed: (postId: string) => Promise<{ success: boolean; result?: PostViewResult; error?: string }>;
+  createPost: (postData: Partial<Post>, images?: NewPostImage[]) => Promise<{ success: boolean; postId?: string; error?: string }>;
+  createComment: (postId: string, userId: string, content: string, parentCommentId?: string, anchor?: CommentAnchor) => Promise<{ success: boolean; error?: string }>;
+  updateComment: (postId: string, commentId: string, content: string) => Promise<{ success: boolean; error?: string }>;
+  deleteComment: (postId: string, commentId: string) => Promise<{ success: boolean; error?: string }>;
+  togglePostReaction: (postId: string, userId: string, emoji: ReactionEmoji) => Promise<{ success: boolean; error?: string }>;
+  toggleCommentReaction: (postId: string, commentId: string, userId: string, emoji: ReactionEmoji) => Promise<{ success: boolean; error?: string }>;
   setPendingScrollToPostId: (postId: string | null) => void;
   
+  // Realtime actions
+  subscribeToClassFeed: (classId: string) => void;
+  unsubscribeFromClassFeed: () => void;
+  pruneExpiredPosts: () => void;
+  
+  // AI feedback actions
+  loadPostFeedback: (postId: string) => Promise<void>;
+  requestPostFeedback: (postId: string) => Promise<{ success: boolean; error?: string }>;
+  
   // Internal state setters
   setLoading: (loading: boolean) => void;
   setLoadingPosts: (loading: boolean) => void;
@@ -80,7 +361,14 @@ export const useClassStore = create<ClassState>((set, get) => ({
   postComments: {},
   isLoading: false,
   isLoadingPosts: false,
+  isLoadingOlderPosts: false,
+  hasMorePosts: false,
+  feedFilter: {},
   isLoadingComments: {},
+  postFeedback: {},
+  isRequestingFeedback: {},
+  postViewStatus: {},
+  viewErrors: {},
   feedRefreshKey: 0,
   lastPostUpdate: null,
   pendingScrollToPostId: null,
@@ -122,12 +410,22 @@ export const useClassStore = create<ClassState>((set, get) => ({
   // Set current active class
   setCurrentClass: (classData) => {
     console.log('🎯 Class Store - Setting current class:', classData?.name || 'None');
+    get().unsubscribeFromClassFeed();
     set({ 
       currentClass: classData,
       classPosts: [], // Clear posts when switching classes
+      hasMorePosts: false,
+      feedFilter: {}, // Tags and mediums differ between classes
       postComments: {},
+      postFeedback: {},
+      postViewStatus: {},
+      viewErrors: {},
       feedRefreshKey: get().feedRefreshKey + 1
     });
+
+    if (classData) {
+      get().subscribeToClassFeed(classData.id);
+    }
   },
 
   // Join a class with join code
@@ -209,15 +507,21 @@ export const useClassStore = create<ClassState>((set, get) => ({
         // Remove from user classes
         const { userClasses } = get();
         const updatedClasses = userClasses.filter(c => c.id !== currentClass.id);
+        const nextClass = updatedClasses.length > 0 ? updatedClasses[0] : null;
         
+        get().unsubscribeFromClassFeed();
         set({ 
           userClasses: updatedClasses,
-          currentClass: updatedClasses.length > 0 ? updatedClasses[0] : null,
+          currentClass: nextClass,
           classPosts: [],
           postComments: {},
           isLoading: false 
         });
 
+        if (nextClass) {
+          get().subscribeToClassFeed(nextClass.id);
+        }
+
         return { success: true };
       } else {
         console.log('❌ Class Store - Failed to leave class:', result.error);
@@ -235,20 +539,95 @@ export const useClassStore = create<ClassState>((set, get) => ({
     }
   },
 
-  // Load posts for current class
+  // Create a class with the current user as its teacher
+  createNewClass: async (options: ClassCreationOptions, userId: string) => {
+    console.log('🏗️ Class Store - Creating class:', options.name);
+    set({ isLoading: true });
+
+    try {
+      const result = await createClass(options, userId);
+
+      if (!result.success || !result.class || !result.membership) {
+        console.log('❌ Class Store - Failed to create class:', result.error);
+        set({ isLoading: false });
+        return { success: false, error: result.error };
+      }
+
+      const newClass = { ...result.class, membership: result.membership };
+      set({
+        userClasses: [...get().userClasses, newClass],
+        isLoading: false
+      });
+
+      console.log('🎉 Class Store - Class created:', newClass.name);
+      return { success: true, class: result.class };
+
+    } catch (error) {
+      console.error('❌ Class Store - Unexpected error creating class:', error);
+      set({ isLoading: false });
+      return { success: false, error: 'An unexpected error occurred while creating the class' };
+    }
+  },
+
+  // Edit class name/description/max students (teachers only)
+  updateClassDetails: async (classId: string, updates: ClassUpdateOptions) => {
+    console.log('✏️ Class Store - Updating class details:', classId);
+    const result = await updateClass(classId, updates);
+
+    if (result.success && result.class) {
+      set(mergeClassUpdate(get(), result.class));
+      return { success: true };
+    }
+
+    return { success: false, error: result.error };
+  },
+
+  // Regenerate the class join code (teachers only)
+  regenerateClassJoinCode: async (classId: string) => {
+    console.log('🔁 Class Store - Regenerating join code:', classId);
+    const result = await regenerateJoinCode(classId);
+
+    if (result.success && result.joinCode) {
+      const existing = get().userClasses.find(c => c.id === classId);
+      if (existing) {
+        set(mergeClassUpdate(get(), { ...existing, join_code: result.joinCode }));
+      }
+      return { success: true, joinCode: result.joinCode };
+    }
+
+    return { success: false, error: result.error };
+  },
+
+  // Deactivate a class and remove it from the class list (teachers only)
+  deactivateClass: async (classId: string) => {
+    console.log('🚫 Class Store - Deactivating class:', classId);
+    const result = await deactivateClass(classId);
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    if (get().currentClass?.id === classId) {
+      get().setCurrentClass(null);
+    }
+    set({ userClasses: get().userClasses.filter(c => c.id !== classId) });
+
+    return { success: true };
+  },
+
+  // Load the newest page of posts for current class
   loadClassPosts: async (classId: string, userId: string) => {
     console.log('📰 Class Store - Loading posts for class:', classId);
+    const filter = get().feedFilter;
     set({ isLoadingPosts: true });
 
     try {
-      // Fetch posts first (without user join to avoid foreign key error)
-      // Order by created_at ascending so newest posts appear at bottom (chat-style)
-      const { data: posts, error } = await supabase
-        .from('posts')
-        .select('*')
-        .eq('class_id', classId)
-        .eq('is_expired', false)
-        .order('created_at', { ascending: true });
+      const { posts, error } = await fetchClassFeedPage(classId, null, filter);
+
+      // A newer load with a different filter is in progress; let it finish instead
+      if (get().feedFilter !== filter) {
+        return;
+      }
 
       if (error) {
         console.error('❌ Class Store - Error loading posts:', error);
@@ -256,65 +635,16 @@ export const useClassStore = create<ClassState>((set, get) => ({
         return;
       }
 
-      // Get unique user IDs from posts
-      const userIds = [...new Set(posts?.map(post => post.user_id) || [])];
-      
-      // Fetch user data separately
-      const { data: users, error: usersError } = await supabase
-        .from('users')
-        .select('id, username, avatar_url')
-        .in('id', userIds);
-
-      if (usersError) {
-        console.error('❌ Class Store - Error loading users:', usersError);
-      }
-
-      // Create user lookup map
-      const userMap = new Map(users?.map(user => [user.id, user]) || []);
-
-      // Check if user has viewed each post and get additional metadata
-      const postsWithMetadata = await Promise.all(
-        (posts || []).map(async (post) => {
-          // Check if user has viewed this post
-          const { data: viewData } = await supabase
-            .from('post_views')
-            .select('id')
-            .eq('post_id', post.id)
-            .eq('user_id', userId)
-            .single();
-
-          // Get comment count
-          const { count: commentsCount } = await supabase
-            .from('comments')
-            .select('id', { count: 'exact' })
-            .eq('post_id', post.id);
-
-          // Check if post has AI feedback
-          const { data: aiFeedback } = await supabase
-            .from('ai_feedback')
-            .select('id')
-            .eq('post_id', post.id)
-            .single();
-
-          return {
-            ...post,
-            user: userMap.get(post.user_id) || null,
-            comments_count: commentsCount || 0,
-            has_ai_feedback: !!aiFeedback,
-            user_has_viewed: !!viewData
-          } as PostWithUser;
-        })
-      );
-
-      console.log('✅ Class Store - Loaded', postsWithMetadata.length, 'posts');
+      console.log('✅ Class Store - Loaded', posts.length, 'posts');
       console.log('🔧 DEBUG - Posts loaded successfully:', {
         classId,
-        postsCount: postsWithMetadata.length,
-        postTitles: postsWithMetadata.map(p => p.image_url?.substring(0, 50) + '...'),
+        postsCount: posts.length,
+        postTitles: posts.map(p => p.image_url?.substring(0, 50) + '...'),
         timestamp: Date.now()
       });
       set({ 
-        classPosts: postsWithMetadata,
+        classPosts: posts,
+        hasMorePosts: posts.length === FEED_PAGE_SIZE,
         isLoadingPosts: false,
         lastPostUpdate: new Date()
       });
@@ -325,6 +655,65 @@ export const useClassStore = create<ClassState>((set, get) => ({
     }
   },
 
+  // Load the page of posts older than the oldest one in the feed
+  loadOlderPosts: async (classId: string, userId: string) => {
+    const { classPosts, hasMorePosts, isLoadingPosts, isLoadingOlderPosts } = get();
+    if (!hasMorePosts || isLoadingPosts || isLoadingOlderPosts || classPosts.length === 0) {
+      return;
+    }
+
+    const oldestPost = classPosts[0];
+    console.log('📜 Class Store - Loading posts older than:', oldestPost.created_at);
+    set({ isLoadingOlderPosts: true });
+
+    try {
+      const filter = get().feedFilter;
+      const { posts, error } = await fetchClassFeedPage(classId, oldestPost, filter);
+
+      if (error) {
+        console.error('❌ Class Store - Error loading older posts:', error);
+        set({ isLoadingOlderPosts: false });
+        return;
+      }
+
+      // Ignore the page if the user switched classes or filters while it was loading
+      if (get().currentClass?.id !== classId || get().feedFilter !== filter) {
+        set({ isLoadingOlderPosts: false });
+        return;
+      }
+
+      const existingIds = new Set(get().classPosts.map(post => post.id));
+      const olderPosts = posts.filter(post => !existingIds.has(post.id));
+
+      console.log('✅ Class Store - Loaded', olderPosts.length, 'older posts');
+      set({
+        classPosts: [...olderPosts, ...get().classPosts],
+        hasMorePosts: posts.length === FEED_PAGE_SIZE,
+        isLoadingOlderPosts: false
+      });
+
+    } catch (error) {
+      console.error('❌ Class Store - Unexpected error loading older posts:', error);
+      set({ isLoadingOlderPosts: false });
+    }
+  },
+
+  // Narrow the current class feed to a medium and/or tag, then reload it
+  setFeedFilter: async (filter: FeedFilter, userId: string) => {
+    console.log('🔎 Class Store - Setting feed filter:', filter);
+    set({
+      feedFilter: filter,
+      classPosts: [],
+      hasMorePosts: false,
+      isLoadingOlderPosts: false
+    });
+
+    const { currentClass } = get();
+    if (currentClass) {
+      await get().loadClassPosts(currentClass.id, userId);
+    }
+  },
+
   // Load comments for a specific post
   loadPostComments: async (postId: string) => {
     console.log('💬 Class Store - Loading comments for post:', postId);
@@ -351,23 +740,44 @@ export const useClassStore = create<ClassState>((set, get) => ({
 
       // Get unique user IDs from comments
       const userIds = [...new Set(comments?.map(comment => comment.user_id) || [])];
+      const commentIds = (comments || []).map(comment => comment.id);
       
-      // Fetch user data separately
-      const { data: users, error: usersError } = await supabase
-        .from('users')
-        .select('id, username, avatar_url')
-        .in('id', userIds);
+      // Fetch user data and comment reactions separately
+      const [{ data: users, error: usersError }, { data: reactions, error: reactionsError }] = await Promise.all([
+        supabase
+          .from('users')
+          .select('id, username, avatar_url')
+          .in('id', userIds),
+        supabase
+          .from('comment_reactions')
+          .select('comment_id, user_id, emoji')
+          .in('comment_id', commentIds)
+      ]);
 
       if (usersError) {
         console.error('❌ Class Store - Error loading comment users:', usersError);
       }
+      if (reactionsError) {
+        console.error('❌ Class Store - Error loading comment reactions:', reactionsError);
+      }
 
       // Create user lookup map
       const userMap = new Map(users?.map(user => [user.id, user]) || []);
 
+      // Summarize reactions per comment
+      const viewerId = get().currentClass?.membership.user_id;
+      const reactionMap = new Map<string, ReactionSummary[]>();
+      for (const reaction of (reactions || []) as Pick<CommentReaction, 'comment_id' | 'user_id' | 'emoji'>[]) {
+        reactionMap.set(
+          reaction.comment_id,
+          applyReaction(reactionMap.get(reaction.comment_id), reaction.emoji, 1, reaction.user_id === viewerId)
+        );
+      }
+
       const commentsWithUsers = (comments || []).map(comment => ({
         ...comment,
-        user: userMap.get(comment.user_id) || null
+        user: userMap.get(comment.user_id) || null,
+        reactions: reactionMap.get(comment.id) || []
       })) as CommentWithUser[];
 
       console.log('✅ Class Store - Loaded', commentsWithUsers.length, 'comments');
@@ -399,57 +809,82 @@ export const useClassStore = create<ClassState>((set, get) => ({
     set({ feedRefreshKey: get().feedRefreshKey + 1 });
   },
 
-  // Mark post as viewed
-  markPostAsViewed: async (postId: string, userId: string) => {
-    console.log('👁️ Class Store - Marking post as viewed:', postId);
+  // Record a view atomically (checks the view limit, records the view and counts it)
+  markPostAsViewed: async (postId: string) => {
+    console.log('👁️ Class Store - Recording post view:', postId);
+
+    set({ viewErrors: { ...get().viewErrors, [postId]: null } });
 
     try {
-      // Record the view
-      await supabase
-        .from('post_views')
-        .insert({
-          post_id: postId,
-          user_id: userId
-        });
+      const { data, error } = await supabase
+        .rpc('record_post_view', { target_post_id: postId })
+        .single();
 
-      // Increment view count using the database function
-      await supabase.rpc('increment_post_view', {
-        post_id: postId,
-        viewer_id: userId
-      });
+      if (error || !data) {
+        console.error('❌ Class Store - Error recording post view:', error);
+        const message = error?.message || 'Failed to record view';
+        set({ viewErrors: { ...get().viewErrors, [postId]: message } });
+        return { success: false, error: message };
+      }
 
-      // Update local state
-      const { classPosts } = get();
-      const updatedPosts = classPosts.map(post => 
-        post.id === postId 
-          ? { ...post, user_has_viewed: true, view_count: post.view_count + 1 }
+      const row = data as PostViewRow;
+      const result: PostViewResult = {
+        allowed: row.allowed,
+        alreadyViewed: row.already_viewed,
+        viewCount: row.view_count,
+        maxViewers: row.max_viewers,
+        remainingViews: row.remaining_views,
+        reason: row.reason
+      };
+
+      console.log('✅ Class Store - Post view result:', result.reason, 'remaining:', result.remainingViews);
+
+      // Sync the post with the server's count
+      const updatedPosts = get().classPosts.map(post =>
+        post.id === postId
+          ? {
+              ...post,
+              view_count: result.viewCount,
+              user_has_viewed: post.user_has_viewed || (result.allowed && result.reason !== 'owner')
+            }
           : post
       );
 
-      set({ classPosts: updatedPosts });
+      set({
+        classPosts: updatedPosts,
+        postViewStatus: { ...get().postViewStatus, [postId]: result }
+      });
 
+      return { success: true, result };
     } catch (error) {
-      // Ignore errors (user might have already viewed this post)
-      console.log('ℹ️ Class Store - Post view not recorded (already viewed?)');
+      console.error('❌ Class Store - Unexpected error recording post view:', error);
+      set({ viewErrors: { ...get().viewErrors, [postId]: 'Failed to record view' } });
+      return { success: false, error: 'Failed to record view' };
     }
   },
 
-  // Create a new post in the current class
-  createPost: async (postData: Partial<Post>) => {
-    console.log('📝 Class Store - Creating new post');
-    const { currentClass } = get();
+  // Create a new post in postData.class_id, or the current class
+  createPost: async (postData: Partial<Post>, images?: NewPostImage[]) => {
+    console.log('📝 Class Store - Creating new post with', images?.length || 1, 'images');
+    const { currentClass, userClasses } = get();
+    const targetClassId = postData.class_id ?? currentClass?.id;
     
-    if (!currentClass) {
+    if (!targetClassId) {
       console.error('❌ Class Store - No current class selected');
       return { success: false, error: 'No class selected' };
     }
 
+    if (!userClasses.some(userClass => userClass.id === targetClassId)) {
+      console.error('❌ Class Store - Not a member of target class:', targetClassId);
+      return { success: false, error: 'You can only post to classes you belong to' };
+    }
+
     try {
       const { data: newPost, error } = await supabase
         .from('posts')
         .insert({
           ...postData,
-          class_id: currentClass.id,
+          class_id: targetClassId,
           view_count: 0,
           is_expired: false
         })
@@ -462,9 +897,32 @@ export const useClassStore = create<ClassState>((set, get) => ({
       }
 
       console.log('✅ Class Store - Post created successfully:', newPost.id);
+
+      // Attach the images in order (a single-image post gets its cover row)
+      const postImages = images?.length
+        ? images
+        : [{ image_url: newPost.image_url, thumbnail_url: newPost.thumbnail_url }];
+
+      const { error: imagesError } = await supabase
+        .from('post_images')
+        .insert(postImages.map((image, position) => ({
+          post_id: newPost.id,
+          image_url: image.image_url,
+          thumbnail_url: image.thumbnail_url ?? null,
+          position
+        })));
+
+      if (imagesError) {
+        // Don't leave a post behind without its images
+        console.error('❌ Class Store - Error attaching post images, removing post:', imagesError);
+        await supabase.from('posts').delete().eq('id', newPost.id);
+        return { success: false, error: imagesError.message };
+      }
       
-      // Refresh the feed to include the new post
-      await get().loadClassPosts(currentClass.id, postData.user_id!);
+      // Refresh the feed to include the new post (other classes load it when opened)
+      if (targetClassId === currentClass?.id) {
+        await get().loadClassPosts(targetClassId, postData.user_id!);
+      }
       
       return { success: true, postId: newPost.id };
     } catch (error) {
@@ -473,9 +931,9 @@ export const useClassStore = create<ClassState>((set, get) => ({
     }
   },
 
-  // Create a new comment on a post
-  createComment: async (postId: string, userId: string, content: string) => {
-    console.log('💬 Class Store - Creating comment on post:', postId);
+  // Create a new comment (or a reply to a top-level comment) on a post, optionally pinned to the artwork
+  createComment: async (postId: string, userId: string, content: string, parentCommentId?: string, anchor?: CommentAnchor) => {
+    console.log('💬 Class Store - Creating comment on post:', postId, parentCommentId ? `(reply to ${parentCommentId})` : '', anchor ? '(pinned)' : '');
     
     try {
       const { data: newComment, error } = await supabase
@@ -483,7 +941,13 @@ export const useClassStore = create<ClassState>((set, get) => ({
         .insert({
           post_id: postId,
           user_id: userId,
+          parent_comment_id: parentCommentId ?? null,
           content: content.trim(),
+          anchor_image_index: anchor?.image_index ?? null,
+          anchor_x: anchor?.x ?? null,
+          anchor_y: anchor?.y ?? null,
+          anchor_width: anchor?.width ?? null,
+          anchor_height: anchor?.height ?? null,
         })
         .select()
         .single();
@@ -494,18 +958,16 @@ export const useClassStore = create<ClassState>((set, get) => ({
       }
 
       console.log('✅ Class Store - Comment created successfully:', newComment.id);
+      set({ classPosts: withAnnotation(get().classPosts, newComment as Comment) });
       
-      // Update local post to increment comment count
-      const { classPosts } = get();
-      const updatedPosts = classPosts.map(post => 
-        post.id === postId 
-          ? { ...post, comments_count: (post.comments_count || 0) + 1 }
-          : post
-      );
-      set({ classPosts: updatedPosts });
-      
-      // Reload comments for this post
-      await get().loadPostComments(postId);
+      // Reload comments and the count for this post (realtime may also update the count)
+      const [, commentsCount] = await Promise.all([
+        get().loadPostComments(postId),
+        fetchCommentCount(postId)
+      ]);
+      if (commentsCount !== null) {
+        set({ classPosts: withCommentCount(get().classPosts, postId, commentsCount) });
+      }
       
       return { success: true };
     } catch (error) {
@@ -514,6 +976,192 @@ export const useClassStore = create<ClassState>((set, get) => ({
     }
   },
 
+  // Edit the content of one of the user's own comments
+  updateComment: async (postId: string, commentId: string, content: string) => {
+    console.log('✏️ Class Store - Editing comment:', commentId);
+
+    try {
+      const { data: updatedComment, error } = await supabase
+        .from('comments')
+        .update({ content: content.trim() })
+        .eq('id', commentId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ Class Store - Error editing comment:', error);
+        return { success: false, error: error.message };
+      }
+
+      console.log('✅ Class Store - Comment edited successfully:', commentId);
+      const comments = get().postComments[postId];
+      if (comments) {
+        set({
+          postComments: {
+            ...get().postComments,
+            [postId]: comments.map(comment =>
+              comment.id === commentId ? { ...comment, ...(updatedComment as Comment) } : comment
+            )
+          }
+        });
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Class Store - Unexpected error editing comment:', error);
+      return { success: false, error: 'Failed to edit comment' };
+    }
+  },
+
+  // Delete one of the user's own comments (replies to it are removed with it)
+  deleteComment: async (postId: string, commentId: string) => {
+    console.log('🗑️ Class Store - Deleting comment:', commentId);
+
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .delete()
+        .eq('id', commentId);
+
+      if (error) {
+        console.error('❌ Class Store - Error deleting comment:', error);
+        return { success: false, error: error.message };
+      }
+
+      console.log('✅ Class Store - Comment deleted successfully:', commentId);
+      const comments = get().postComments[postId];
+      if (comments) {
+        set({ postComments: { ...get().postComments, [postId]: removeComment(comments, commentId) } });
+      }
+      set({ classPosts: withoutAnnotation(get().classPosts, commentId) });
+
+      const commentsCount = await fetchCommentCount(postId);
+      if (commentsCount !== null) {
+        set({ classPosts: withCommentCount(get().classPosts, postId, commentsCount) });
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Class Store - Unexpected error deleting comment:', error);
+      return { success: false, error: 'Failed to delete comment' };
+    }
+  },
+
+  // Add or remove the user's reaction on a post (shown immediately, undone if the request fails)
+  togglePostReaction: async (postId: string, userId: string, emoji: ReactionEmoji) => {
+    const post = get().classPosts.find(p => p.id === postId);
+    const hasReacted = !!post?.reactions?.some(reaction => reaction.emoji === emoji && reaction.reacted);
+    console.log('😍 Class Store - Toggling post reaction:', postId, emoji, hasReacted ? 'off' : 'on');
+
+    const applyToPost = (delta: 1 | -1) => set({
+      classPosts: get().classPosts.map(p =>
+        p.id === postId ? { ...p, reactions: applyReaction(p.reactions, emoji, delta, true) } : p
+      )
+    });
+
+    applyToPost(hasReacted ? -1 : 1);
+
+    const { error } = hasReacted
+      ? await supabase
+          .from('post_reactions')
+          .delete()
+          .match({ post_id: postId, user_id: userId, emoji })
+      : await supabase
+          .from('post_reactions')
+          .insert({ post_id: postId, user_id: userId, emoji });
+
+    if (error) {
+      console.error('❌ Class Store - Error toggling post reaction:', error);
+      applyToPost(hasReacted ? 1 : -1);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  },
+
+  // Add or remove the user's reaction on a comment (shown immediately, undone if the request fails)
+  toggleCommentReaction: async (postId: string, commentId: string, userId: string, emoji: ReactionEmoji) => {
+    const comment = get().postComments[postId]?.find(c => c.id === commentId);
+    const hasReacted = !!comment?.reactions?.some(reaction => reaction.emoji === emoji && reaction.reacted);
+    console.log('😍 Class Store - Toggling comment reaction:', commentId, emoji, hasReacted ? 'off' : 'on');
+
+    const applyToComment = (delta: 1 | -1) => {
+      const comments = get().postComments[postId];
+      if (!comments) return;
+      set({
+        postComments: {
+          ...get().postComments,
+          [postId]: comments.map(c =>
+            c.id === commentId ? { ...c, reactions: applyReaction(c.reactions, emoji, delta, true) } : c
+          )
+        }
+      });
+    };
+
+    applyToComment(hasReacted ? -1 : 1);
+
+    const { error } = hasReacted
+      ? await supabase
+          .from('comment_reactions')
+          .delete()
+          .match({ comment_id: commentId, user_id: userId, emoji })
+      : await supabase
+          .from('comment_reactions')
+          .insert({ comment_id: commentId, user_id: userId, emoji });
+
+    if (error) {
+      console.error('❌ Class Store - Error toggling comment reaction:', error);
+      applyToComment(hasReacted ? 1 : -1);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  },
+
+  // Load Juni's critique for a post
+  loadPostFeedback: async (postId: string) => {
+    console.log('🎨 Class Store - Loading AI feedback for post:', postId);
+    const feedback = await getPostFeedback(postId);
+    set({ postFeedback: { ...get().postFeedback, [postId]: feedback } });
+  },
+
+  // Ask Juni to critique a post
+  requestPostFeedback: async (postId: string) => {
+    console.log('🎨 Class Store - Requesting AI feedback for post:', postId);
+    set({ isRequestingFeedback: { ...get().isRequestingFeedback, [postId]: true } });
+
+    try {
+      const result = await requestPostFeedback(postId);
+
+      if (result.success && result.feedback) {
+        const feedback = result.feedback;
+        set({ postFeedback: { ...get().postFeedback, [postId]: feedback } });
+
+        // Show the feedback badge on the post once the critique is ready
+        if (feedback.feedback_status === 'completed') {
+          const { classPosts } = get();
+          set({
+            classPosts: classPosts.map(post =>
+              post.id === postId ? { ...post, has_ai_feedback: true } : post
+            ),
+          });
+        }
+
+        return { success: true };
+      }
+
+      // The Edge Function records failures on the row, reload it so the panel can show them
+      await get().loadPostFeedback(postId);
+      return { success: false, error: result.error };
+
+    } catch (error) {
+      console.error('❌ Class Store - Unexpected error requesting AI feedback:', error);
+      return { success: false, error: 'Failed to request critique' };
+    } finally {
+      set({ isRequestingFeedback: { ...get().isRequestingFeedback, [postId]: false } });
+    }
+  },
+
   // State setters
   setLoading: (isLoading) => set({ isLoading }),
   setLoadingPosts: (isLoadingPosts) => set({ isLoadingPosts }),
@@ -524,9 +1172,272 @@ export const useClassStore = create<ClassState>((set, get) => ({
     } 
   }),
 
+  // Subscribe to live post and comment changes for a class
+  subscribeToClassFeed: (classId: string) => {
+    get().unsubscribeFromClassFeed();
+    console.log('📡 Class Store - Subscribing to realtime feed for class:', classId);
+
+    feedChannel = supabase
+      .channel(`class-feed-${classId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'posts', filter: `class_id=eq.${classId}` },
+        (payload: RealtimePostgresInsertPayload<Post>) => {
+          handlePostInserted(payload.new);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'posts', filter: `class_id=eq.${classId}` },
+        (payload: RealtimePostgresUpdatePayload<Post>) => {
+          handlePostUpdated(payload.new);
+        }
+      )
+      .on(
+        // post_images has no class_id, so filter to posts in the feed client-side
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'post_images' },
+        (payload: RealtimePostgresInsertPayload<PostImage>) => {
+          handlePostImageInserted(payload.new);
+        }
+      )
+      .on(
+        // comments has no class_id, so filter to posts in the feed client-side
+        // (comment counts arrive with the post update from the count trigger)
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'comments' },
+        (payload: RealtimePostgresInsertPayload<Comment>) => {
+          handleCommentInserted(payload.new);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'comments' },
+        (payload: RealtimePostgresUpdatePayload<Comment>) => {
+          handleCommentUpdated(payload.new);
+        }
+      )
+      .on(
+        // Deletes only carry the comment ID
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'comments' },
+        (payload: RealtimePostgresDeletePayload<Comment>) => {
+          if (payload.old.id) handleCommentDeleted(payload.old.id);
+        }
+      )
+      .on(
+        // Reaction deletes carry the primary key, which is every column the summary needs
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'post_reactions' },
+        (payload: RealtimePostgresChangesPayload<PostReaction>) => {
+          if (payload.eventType === 'UPDATE') return; // Reactions are only added or removed
+          const reaction = payload.eventType === 'INSERT' ? payload.new : payload.old;
+          handlePostReactionChanged(reaction, payload.eventType === 'INSERT' ? 1 : -1);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'comment_reactions' },
+        (payload: RealtimePostgresChangesPayload<CommentReaction>) => {
+          if (payload.eventType === 'UPDATE') return; // Reactions are only added or removed
+          const reaction = payload.eventType === 'INSERT' ? payload.new : payload.old;
+          handleCommentReactionChanged(reaction, payload.eventType === 'INSERT' ? 1 : -1);
+        }
+      )
+      .subscribe((status) => {
+        console.log('📡 Class Store - Realtime feed status:', status);
+      });
+
+    expiredPostTimer = setInterval(() => get().pruneExpiredPosts(), EXPIRED_POST_PRUNE_INTERVAL_MS);
+
+    // Realtime handlers (closures over get/set, ignore events from a previous class)
+    async function handlePostInserted(newPost: Post) {
+      if (get().currentClass?.id !== classId || newPost.is_expired) return;
+      if (get().classPosts.some(post => post.id === newPost.id)) return;
+      if (!matchesFeedFilter(newPost, get().feedFilter)) return;
+
+      console.log('🆕 Class Store - Realtime post inserted:', newPost.id);
+      const [{ data: author }, { data: images }] = await Promise.all([
+        supabase
+          .from('users')
+          .select('id, username, avatar_url')
+          .eq('id', newPost.user_id)
+          .maybeSingle(),
+        // Images inserted after this lookup arrive through handlePostImageInserted
+        supabase
+          .from('post_images')
+          .select('*')
+          .eq('post_id', newPost.id)
+          .order('position', { ascending: true })
+      ]);
+
+      // Re-check after the author lookup in case the feed reloaded or the class changed
+      const { currentClass, classPosts } = get();
+      if (currentClass?.id !== classId || classPosts.some(post => post.id === newPost.id)) return;
+
+      set({
+        classPosts: [
+          ...classPosts,
+          {
+            ...newPost,
+            user: author || { id: newPost.user_id },
+            has_ai_feedback: false,
+            user_has_viewed: false,
+            images: (images || []) as PostImage[],
+            reactions: [],
+            annotations: []
+          }
+        ],
+        lastPostUpdate: new Date()
+      });
+    }
+
+    function handlePostUpdated(updatedPost: Post) {
+      if (get().currentClass?.id !== classId) return;
+      const { classPosts } = get();
+
+      if (updatedPost.is_expired) {
+        console.log('⏰ Class Store - Realtime post expired:', updatedPost.id);
+        set({ classPosts: classPosts.filter(post => post.id !== updatedPost.id) });
+        return;
+      }
+
+      set({
+        classPosts: classPosts.map(post =>
+          post.id === updatedPost.id ? { ...post, ...updatedPost } : post
+        )
+      });
+    }
+
+    function handlePostImageInserted(newImage: PostImage) {
+      if (get().currentClass?.id !== classId) return;
+
+      const { classPosts } = get();
+      const post = classPosts.find(p => p.id === newImage.post_id);
+      if (!post || post.images?.some(image => image.id === newImage.id)) return;
+
+      console.log('🖼️ Class Store - Realtime image added to post:', newImage.post_id, newImage.position);
+      const images = [...(post.images || []), newImage].sort((a, b) => a.position - b.position);
+      set({
+        classPosts: classPosts.map(p => (p.id === post.id ? { ...p, images } : p))
+      });
+    }
+
+    function handleCommentInserted(newComment: Comment) {
+      if (get().currentClass?.id !== classId) return;
+
+      // Pins show on feed cards even when the thread isn't loaded
+      set({ classPosts: withAnnotation(get().classPosts, newComment) });
+
+      const { postComments } = get();
+      const comments = postComments[newComment.post_id];
+      if (!comments || comments.some(comment => comment.id === newComment.id)) return;
+
+      // Refresh the thread if it's already loaded
+      console.log('💬 Class Store - Realtime comment on post:', newComment.post_id);
+      get().loadPostComments(newComment.post_id);
+    }
+
+    function handleCommentUpdated(updatedComment: Comment) {
+      if (get().currentClass?.id !== classId) return;
+
+      const { postComments } = get();
+      const comments = postComments[updatedComment.post_id];
+      if (!comments?.some(comment => comment.id === updatedComment.id)) return;
+
+      console.log('✏️ Class Store - Realtime comment edited:', updatedComment.id);
+      set({
+        postComments: {
+          ...postComments,
+          [updatedComment.post_id]: comments.map(comment =>
+            comment.id === updatedComment.id ? { ...comment, ...updatedComment } : comment
+          )
+        }
+      });
+    }
+
+    function handleCommentDeleted(commentId: string) {
+      if (get().currentClass?.id !== classId) return;
+
+      set({ classPosts: withoutAnnotation(get().classPosts, commentId) });
+
+      const { postComments } = get();
+      const postId = Object.keys(postComments).find(id =>
+        postComments[id].some(comment => comment.id === commentId)
+      );
+      if (!postId) return;
+
+      console.log('🗑️ Class Store - Realtime comment deleted:', commentId);
+      set({ postComments: { ...postComments, [postId]: removeComment(postComments[postId], commentId) } });
+    }
+
+    // The user's own reactions are applied when toggled, so only other people's are counted here
+    function handlePostReactionChanged(reaction: Partial<PostReaction>, delta: 1 | -1) {
+      const { currentClass, classPosts } = get();
+      if (currentClass?.id !== classId || !reaction.post_id || !reaction.emoji) return;
+      if (reaction.user_id === currentClass.membership.user_id) return;
+      if (!classPosts.some(post => post.id === reaction.post_id)) return;
+
+      set({
+        classPosts: classPosts.map(post =>
+          post.id === reaction.post_id
+            ? { ...post, reactions: applyReaction(post.reactions, reaction.emoji!, delta, false) }
+            : post
+        )
+      });
+    }
+
+    function handleCommentReactionChanged(reaction: Partial<CommentReaction>, delta: 1 | -1) {
+      const { currentClass, postComments } = get();
+      if (currentClass?.id !== classId || !reaction.comment_id || !reaction.emoji) return;
+      if (reaction.user_id === currentClass.membership.user_id) return;
+
+      const postId = Object.keys(postComments).find(id =>
+        postComments[id].some(comment => comment.id === reaction.comment_id)
+      );
+      if (!postId) return;
+
+      set({
+        postComments: {
+          ...postComments,
+          [postId]: postComments[postId].map(comment =>
+            comment.id === reaction.comment_id
+              ? { ...comment, reactions: applyReaction(comment.reactions, reaction.emoji!, delta, false) }
+              : comment
+          )
+        }
+      });
+    }
+  },
+
+  // Tear down the realtime feed subscription
+  unsubscribeFromClassFeed: () => {
+    if (feedChannel) {
+      console.log('📡 Class Store - Unsubscribing from realtime feed');
+      supabase.removeChannel(feedChannel);
+      feedChannel = null;
+    }
+    if (expiredPostTimer) {
+      clearInterval(expiredPostTimer);
+      expiredPostTimer = null;
+    }
+  },
+
+  // Remove posts that have passed their expires_at from the feed
+  pruneExpiredPosts: () => {
+    const now = Date.now();
+    const { classPosts } = get();
+    const activePosts = classPosts.filter(post => new Date(post.expires_at).getTime() > now);
+    if (activePosts.length === classPosts.length) return;
+
+    console.log('⏰ Class Store - Pruning', classPosts.length - activePosts.length, 'expired posts');
+    set({ classPosts: activePosts });
+  },
+
   // Clear all class data (for logout)
   clearClassData: () => {
     console.log('🧹 Class Store - Clearing all class data');
+    get().unsubscribeFromClassFeed();
     set({
       currentClass: null,
       userClasses: [],
@@ -534,7 +1445,14 @@ export const useClassStore = create<ClassState>((set, get) => ({
       postComments: {},
       isLoading: false,
       isLoadingPosts: false,
+      isLoadingOlderPosts: false,
+      hasMorePosts: false,
+      feedFilter: {},
       isLoadingComments: {},
+      postFeedback: {},
+      isRequestingFeedback: {},
+      postViewStatus: {},
+      viewErrors: {},
       feedRefreshKey: 0,
       lastPostUpdate: null,
       pendingScrollToPostId: null
@@ -4,33 +4,60 @@
  * This store manages global state for the Solo AI Tutor feature including:
  * - Chat session management
  * - Message history and real-time updates
- * - AI response loading states
+ * - AI response loading states and live streamed replies
  * - Error handling and retry functionality
  * - Image upload states
- * - Chat creation and navigation
+ * - Chat creation and navigation, with chat previews (last message, latest image, summary)
+ *   kept current as messages are sent, including the title the backend gives new chats
+ * - Full-text search over the user's messages
  * - Share with class feature state
+ * - Offline outbox that queues messages and drains them in order when back online
+ * - Juni usage (messages left today / this month), refreshed after every send
  */
 
 import { create } from 'zustand';
 import {
   createSoloChat,
   deleteChat,
+  getAIUsageSummary,
   getChatMessages,
+  getChatPreviews,
   getOrCreateDefaultChat,
-  getUserChats,
+  isPermanentAIError,
+  isRetryableAIError,
+  searchMessages,
   sendMessage,
   updateChatTitle,
   type AIResponseResult,
   type SendMessageOptions,
 } from '../lib/soloService';
-import type { SoloAIChat, SoloAIMessage } from '../lib/supabase';
+import {
+  checkConnectivity,
+  createOutboxMessage,
+  loadOutbox,
+  removeOutboxImage,
+  saveOutbox,
+  type OutboxMessage,
+} from '../lib/soloOutbox';
+import type {
+  AIUsageSummary,
+  SoloAIChat,
+  SoloAIChatPreview,
+  SoloAIMessage,
+  SoloMessageSearchResult,
+} from '../lib/supabase';
+
+// Temporary failures (timeouts, provider errors, dropped connections) are retried automatically
+// this many times, waiting 2s, 4s, 8s... in between, before the message is marked failed
+const MAX_AUTO_RETRY_ATTEMPTS = 3;
+const AUTO_RETRY_BASE_DELAY_MS = 2000;
 
 // Solo Tutor state interface
 export interface SoloState {
   // Current state
   currentChat: SoloAIChat | null;
   messages: SoloAIMessage[];
-  userChats: SoloAIChat[];
+  userChats: SoloAIChatPreview[];
   
   // Loading states
   isLoading: boolean;
@@ -38,6 +65,7 @@ export interface SoloState {
   isLoadingChats: boolean;
   isSendingMessage: boolean;
   isCreatingChat: boolean;
+  streamingResponse: string | null; // Partial AI reply while tokens are streaming in
   
   // Error states
   error: string | null;
@@ -51,15 +79,31 @@ export interface SoloState {
   lastUploadedImageUrl: string | null;
   showShareButton: boolean;
   
+  // Offline outbox states
+  outbox: OutboxMessage[];
+  isOnline: boolean;
+  isDrainingOutbox: boolean;
+  
+  // Usage quota state
+  usage: AIUsageSummary | null;
+  
+  // Message search states
+  searchQuery: string;
+  searchResults: SoloMessageSearchResult[];
+  isSearching: boolean;
+  
   // Actions
   initialize: (userId: string) => Promise<void>;
   loadChats: (userId: string) => Promise<void>;
   loadMessages: (chatId: string) => Promise<void>;
+  loadUsage: () => Promise<void>;
   sendMessage: (options: SendMessageOptions) => Promise<AIResponseResult>;
   createNewChat: (userId: string, title?: string) => Promise<SoloAIChat | null>;
   switchToChat: (chatId: string) => Promise<void>;
   deleteChat: (chatId: string, userId: string) => Promise<boolean>;
   updateChatTitle: (chatId: string, userId: string, title: string) => Promise<boolean>;
+  searchMessages: (query: string) => Promise<void>;
+  clearSearch: () => void;
   clearError: () => void;
   clearMessageError: () => void;
   reset: () => void;
@@ -70,14 +114,23 @@ export interface SoloState {
   setLastUploadedImageUrl: (imageUrl: string | null) => void;
   setShowShareButton: (show: boolean) => void;
   getMostRecentUserImage: () => string | null;
+  getUserImages: () => string[];
   resetShareButtonState: () => void;
   
+  // Offline outbox actions
+  loadOutbox: (userId: string) => Promise<void>;
+  queueMessage: (options: SendMessageOptions) => Promise<void>;
+  drainOutbox: () => Promise<void>;
+  retryOutboxMessage: (messageId: string) => Promise<void>;
+  discardOutboxMessage: (messageId: string) => Promise<void>;
+  setOnline: (isOnline: boolean) => void;
+  
   // Internal state setters
   setCurrentChat: (chat: SoloAIChat | null) => void;
   setMessages: (messages: SoloAIMessage[]) => void;
   addMessage: (message: SoloAIMessage) => void;
   addMessages: (messages: SoloAIMessage[]) => void;
-  setUserChats: (chats: SoloAIChat[]) => void;
+  setUserChats: (chats: SoloAIChatPreview[]) => void;
   setLoading: (loading: boolean) => void;
   setLoadingMessages: (loading: boolean) => void;
   setLoadingChats: (loading: boolean) => void;
@@ -86,6 +139,8 @@ export interface SoloState {
   setError: (error: string | null) => void;
   setMessageError: (error: string | null) => void;
   setInitialized: (initialized: boolean) => void;
+  setOutbox: (outbox: OutboxMessage[]) => void;
+  updateOutboxMessage: (messageId: string, updates: Partial<OutboxMessage>) => void;
 }
 
 export const useSoloStore = create<SoloState>((set, get) => ({
@@ -98,6 +153,7 @@ export const useSoloStore = create<SoloState>((set, get) => ({
   isLoadingChats: false,
   isSendingMessage: false,
   isCreatingChat: false,
+  streamingResponse: null,
   error: null,
   messageError: null,
   isInitialized: false,
@@ -106,6 +162,19 @@ export const useSoloStore = create<SoloState>((set, get) => ({
   // Share with class feature initial state
   lastUploadedImageUrl: null,
   showShareButton: false,
+  
+  // Offline outbox initial state
+  outbox: [],
+  isOnline: true,
+  isDrainingOutbox: false,
+  
+  // Usage quota initial state
+  usage: null,
+  
+  // Message search initial state
+  searchQuery: '',
+  searchResults: [],
+  isSearching: false,
 
   // Initialize the Solo Tutor store
   initialize: async (userId: string) => {
@@ -113,8 +182,8 @@ export const useSoloStore = create<SoloState>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
-      // Load user's chats
-      await get().loadChats(userId);
+      // Load user's chats and how many messages they have left
+      await Promise.all([get().loadChats(userId), get().loadUsage()]);
       
       // Get or create default chat
       const defaultChat = await getOrCreateDefaultChat(userId);
@@ -149,7 +218,7 @@ export const useSoloStore = create<SoloState>((set, get) => ({
     set({ isLoadingChats: true, error: null });
 
     try {
-      const chats = await getUserChats(userId);
+      const chats = await getChatPreviews();
       console.log('✅ Solo Store - Loaded', chats.length, 'chats');
       set({ userChats: chats });
       
@@ -179,30 +248,78 @@ export const useSoloStore = create<SoloState>((set, get) => ({
     }
   },
 
+  // Load the user's Juni usage against their quotas (keeps the last value on failure)
+  loadUsage: async () => {
+    const usage = await getAIUsageSummary();
+    if (usage) {
+      set({ usage });
+    }
+  },
+
   // Send a message and get AI response
   sendMessage: async (options: SendMessageOptions) => {
-    set({ isSendingMessage: true, messageError: null });
+    // Outbox sends show their own queued bubble and delivery errors
+    const isOutboxSend = !!options.clientMessageId;
+    const isCurrentChat = () => get().currentChat?.id === options.chatId;
+
+    set({ isSendingMessage: true, messageError: null, streamingResponse: null });
 
     try {
-      const result = await sendMessage(options);
+      const result = await sendMessage({
+        ...options,
+        // Show the user's message as soon as the backend has persisted it
+        // (outbox sends keep showing the queued bubble until the reply lands)
+        onUserMessageSaved: (userMessage) => {
+          if (!isOutboxSend && isCurrentChat()) {
+            set({ messages: [...get().messages, userMessage] });
+          }
+        },
+        // Render the partial reply live while tokens stream in
+        onToken: (partialResponse) => {
+          if (isCurrentChat()) {
+            set({ streamingResponse: partialResponse });
+          }
+        },
+      });
       
       if (result.success && result.userMessage && result.aiMessage) {
         console.log('✅ Solo Store - Message sent successfully');
         
-        // Add both messages to the store
-        const currentMessages = get().messages;
-        set({ 
-          messages: [...currentMessages, result.userMessage, result.aiMessage]
-        });
+        // Add both messages to the store (the user message may already be there from streaming)
+        if (isCurrentChat()) {
+          const currentMessages = get().messages;
+          const newMessages = [result.userMessage, result.aiMessage].filter(
+            message => !currentMessages.some(existing => existing.id === message.id)
+          );
+          set({ 
+            messages: [...currentMessages, ...newMessages]
+          });
+        }
         
-        // Update the chat's updated_at timestamp in the chats list
+        // Refresh the chat's preview and move it to the top of the chats list
+        const { userMessage, aiMessage } = result;
         const currentChats = get().userChats;
-        const updatedChats = currentChats.map(chat => 
-          chat.id === options.chatId 
-            ? { ...chat, updated_at: new Date().toISOString() }
-            : chat
-        );
-        set({ userChats: updatedChats });
+        const sentChat = currentChats.find(chat => chat.id === options.chatId);
+        if (sentChat) {
+          const updatedChat: SoloAIChatPreview = {
+            ...sentChat,
+            title: result.chatTitle ?? sentChat.title,
+            updated_at: new Date().toISOString(),
+            last_message: aiMessage.content,
+            last_message_role: aiMessage.role,
+            last_message_at: aiMessage.created_at,
+            last_image_url: userMessage.image_url ?? sentChat.last_image_url,
+            message_count: (sentChat.message_count ?? 0) + 2,
+          };
+          set({ userChats: [updatedChat, ...currentChats.filter(chat => chat.id !== options.chatId)] });
+        }
+
+        // Show the chat's new automatic title in the header
+        const currentChat = get().currentChat;
+        if (result.chatTitle && currentChat?.id === options.chatId) {
+          console.log('🏷️ Solo Store - Chat titled:', result.chatTitle);
+          set({ currentChat: { ...currentChat, title: result.chatTitle } });
+        }
         
         // Check if this was an image message that Juni responded to
         if (options.imageUri && result.userMessage.image_url) {
@@ -218,7 +335,9 @@ export const useSoloStore = create<SoloState>((set, get) => ({
         
       } else {
         console.error('❌ Solo Store - Message send failed:', result.error);
-        set({ messageError: result.error || 'Failed to send message' });
+        if (!isOutboxSend) {
+          set({ messageError: result.error || 'Failed to send message' });
+        }
       }
       
       return result;
@@ -226,14 +345,18 @@ export const useSoloStore = create<SoloState>((set, get) => ({
     } catch (error) {
       console.error('❌ Solo Store - Unexpected error sending message:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unexpected error';
-      set({ messageError: errorMessage });
+      if (!isOutboxSend) {
+        set({ messageError: errorMessage });
+      }
       
       return {
         success: false,
         error: errorMessage,
       };
     } finally {
-      set({ isSendingMessage: false });
+      set({ isSendingMessage: false, streamingResponse: null });
+      // Every attempt may have used up a message (or hit a limit)
+      get().loadUsage();
     }
   },
 
@@ -372,6 +495,43 @@ export const useSoloStore = create<SoloState>((set, get) => ({
     }
   },
 
+  // Search all of the user's messages (results for an outdated query are dropped)
+  searchMessages: async (query: string) => {
+    console.log('🔎 Solo Store - Searching messages:', query);
+    set({ searchQuery: query });
+
+    if (!query.trim()) {
+      set({ searchResults: [], isSearching: false });
+      return;
+    }
+
+    set({ isSearching: true });
+
+    try {
+      const results = await searchMessages(query);
+      if (get().searchQuery !== query) return;
+      console.log('✅ Solo Store - Found', results.length, 'messages');
+      set({ searchResults: results });
+
+    } catch (error) {
+      console.error('❌ Solo Store - Error searching messages:', error);
+      if (get().searchQuery !== query) return;
+      set({
+        searchResults: [],
+        error: error instanceof Error ? error.message : 'Failed to search messages',
+      });
+    } finally {
+      if (get().searchQuery === query) {
+        set({ isSearching: false });
+      }
+    }
+  },
+
+  // Clear the message search
+  clearSearch: () => {
+    set({ searchQuery: '', searchResults: [], isSearching: false });
+  },
+
   // Clear general error
   clearError: () => {
     console.log('🧹 Solo Store - Clearing error');
@@ -396,12 +556,19 @@ export const useSoloStore = create<SoloState>((set, get) => ({
       isLoadingChats: false,
       isSendingMessage: false,
       isCreatingChat: false,
+      streamingResponse: null,
       error: null,
       messageError: null,
       isInitialized: false,
       prepopulatedImageUri: null,
       lastUploadedImageUrl: null,
       showShareButton: false,
+      outbox: [],
+      isDrainingOutbox: false,
+      usage: null,
+      searchQuery: '',
+      searchResults: [],
+      isSearching: false,
     });
   },
 
@@ -424,7 +591,7 @@ export const useSoloStore = create<SoloState>((set, get) => ({
     set({ messages: [...currentMessages, ...messages] });
   },
 
-  setUserChats: (chats: SoloAIChat[]) => {
+  setUserChats: (chats: SoloAIChatPreview[]) => {
     set({ userChats: chats });
   },
 
@@ -460,6 +627,151 @@ export const useSoloStore = create<SoloState>((set, get) => ({
     set({ isInitialized: initialized });
   },
 
+  setOutbox: (outbox: OutboxMessage[]) => {
+    set({ outbox });
+    saveOutbox(outbox);
+  },
+
+  updateOutboxMessage: (messageId: string, updates: Partial<OutboxMessage>) => {
+    get().setOutbox(
+      get().outbox.map(message => message.id === messageId ? { ...message, ...updates } : message)
+    );
+  },
+
+  // Offline outbox actions
+  // Restore the signed-in user's queued messages (other accounts' messages can't be sent from this session)
+  loadOutbox: async (userId: string) => {
+    const outbox = await loadOutbox();
+    get().setOutbox(outbox.filter(message => message.userId === userId));
+    await get().drainOutbox();
+  },
+
+  /**
+   * Queue a message in the outbox and start delivering it
+   * The message and picked image survive network drops and app restarts.
+   */
+  queueMessage: async (options: SendMessageOptions) => {
+    const queuedMessage = await createOutboxMessage(options);
+    get().setOutbox([...get().outbox, queuedMessage]);
+
+    // Resolve once the message is safely queued; delivery continues in the background
+    get().drainOutbox();
+  },
+
+  /**
+   * Deliver queued messages one at a time, oldest first
+   * A chat's messages wait behind its oldest undelivered message, so order is preserved
+   * per chat; a failed message blocks its chat until it is retried or discarded.
+   * Temporary failures are retried with backoff; other errors surface the server's reason.
+   */
+  drainOutbox: async () => {
+    if (get().isDrainingOutbox || !get().isOnline) {
+      return;
+    }
+
+    console.log('📮 Solo Store - Draining outbox:', get().outbox.length, 'messages');
+    set({ isDrainingOutbox: true });
+
+    try {
+      while (get().isOnline) {
+        const nextMessage = get().outbox.find((message, index, outbox) =>
+          message.status === 'queued' &&
+          !outbox.slice(0, index).some(earlier => earlier.chatId === message.chatId)
+        );
+
+        if (!nextMessage) {
+          break;
+        }
+
+        console.log('📤 Solo Store - Delivering queued message:', nextMessage.id);
+        const attempts = nextMessage.attempts + 1;
+        get().updateOutboxMessage(nextMessage.id, {
+          status: 'sending',
+          error: undefined,
+          errorCode: undefined,
+          attempts,
+        });
+
+        const result = await get().sendMessage({
+          chatId: nextMessage.chatId,
+          message: nextMessage.message,
+          imageUri: nextMessage.imageUri,
+          userId: nextMessage.userId,
+          clientMessageId: nextMessage.id,
+          uploadedImageUrl: nextMessage.uploadedImageUrl,
+          onImageUploaded: (imageUrl) => {
+            get().updateOutboxMessage(nextMessage.id, { uploadedImageUrl: imageUrl });
+          },
+        });
+
+        if (result.success) {
+          console.log('✅ Solo Store - Queued message delivered:', nextMessage.id);
+          get().setOutbox(get().outbox.filter(message => message.id !== nextMessage.id));
+          await removeOutboxImage(nextMessage);
+          continue;
+        }
+
+        // Offline: keep it queued for the reconnect; online: retry temporary failures, then surface it
+        const isOnline = await checkConnectivity();
+        console.log('⚠️ Solo Store - Queued message not delivered:', result.errorCode || result.error, '| online:', isOnline);
+
+        if (isOnline && isRetryableAIError(result.errorCode) && attempts < MAX_AUTO_RETRY_ATTEMPTS) {
+          const delay = AUTO_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+          console.log('🔁 Solo Store - Retrying queued message in', delay, 'ms');
+          get().updateOutboxMessage(nextMessage.id, { status: 'queued' });
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        get().updateOutboxMessage(nextMessage.id, {
+          status: isOnline ? 'failed' : 'queued',
+          error: result.error,
+          errorCode: result.errorCode,
+        });
+        set({ isOnline });
+      }
+    } finally {
+      set({ isDrainingOutbox: false });
+    }
+  },
+
+  // Retry a failed message (with a fresh round of automatic retries)
+  retryOutboxMessage: async (messageId: string) => {
+    console.log('🔁 Solo Store - Retrying queued message:', messageId);
+    get().updateOutboxMessage(messageId, { status: 'queued', error: undefined, errorCode: undefined, attempts: 0 });
+    await get().drainOutbox();
+  },
+
+  // Drop a failed message from the outbox
+  discardOutboxMessage: async (messageId: string) => {
+    console.log('🗑️ Solo Store - Discarding queued message:', messageId);
+    const discarded = get().outbox.find(message => message.id === messageId);
+    get().setOutbox(get().outbox.filter(message => message.id !== messageId));
+    if (discarded) {
+      await removeOutboxImage(discarded);
+    }
+    await get().drainOutbox();
+  },
+
+  // Track connectivity; coming back online retries failed messages (unless they can never succeed)
+  // and drains the outbox
+  setOnline: (isOnline: boolean) => {
+    const wasOnline = get().isOnline;
+    set({ isOnline });
+
+    if (isOnline && !wasOnline) {
+      console.log('🌐 Solo Store - Back online, draining outbox');
+      get().setOutbox(
+        get().outbox.map(message =>
+          message.status === 'failed' && !isPermanentAIError(message.errorCode)
+            ? { ...message, status: 'queued', attempts: 0 }
+            : message
+        )
+      );
+      get().drainOutbox();
+    }
+  },
+
   // Share with class feature actions
   setLastUploadedImageUrl: (imageUrl: string | null) => {
     console.log('📸 Solo Store - Setting last uploaded image URL:', imageUrl);
@@ -492,6 +804,20 @@ export const useSoloStore = create<SoloState>((set, get) => ({
     return null;
   },
 
+  /**
+   * Get every user-uploaded image in the current chat, oldest first
+   * Used to share a work-in-progress sequence; repeated images are listed once.
+   */
+  getUserImages: () => {
+    const imageUrls = get().messages
+      .filter(message => message.role === 'user' && message.image_url)
+      .map(message => message.image_url as string);
+    
+    const uniqueImageUrls = Array.from(new Set(imageUrls));
+    console.log('🖼️ Solo Store - Found', uniqueImageUrls.length, 'user images in current chat');
+    return uniqueImageUrls;
+  },
+
   /**
    * Reset share button state when leaving solo tab
    * Clears the share button visibility but preserves the last uploaded image URL
@@ -0,0 +1,78 @@
+/**
+ * Error Codes for Edge Functions
+ *
+ * Every error body an edge function returns carries a stable `error_code` next to the
+ * human-readable `error`. Clients branch on the code (retry, or show the user a message);
+ * the text is for logs and may change.
+ *
+ * Features:
+ * - One error-code enum shared by all functions, each code with a fixed HTTP status
+ * - EdgeFunctionError for throwing a coded error from deep inside a request, with optional
+ *   details for the client (e.g. when a rate limit frees up)
+ * - Mapping of unknown thrown values to INTERNAL_ERROR
+ */
+
+export type EdgeErrorCode =
+  | 'INVALID_INPUT' // Payload failed validation - fix the request, don't retry it
+  | 'UNAUTHORIZED' // Missing or invalid session
+  | 'FORBIDDEN' // Signed in, but not allowed to touch this resource
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'RATE_LIMITED' // Too many requests from this user - retry later
+  | 'UPSTREAM_TIMEOUT' // The model provider didn't answer in time - safe to retry
+  | 'UPSTREAM_ERROR' // The model provider failed or is overloaded - safe to retry
+  | 'INTERNAL_ERROR';
+
+export const ERROR_STATUS: Record<EdgeErrorCode, number> = {
+  INVALID_INPUT: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  RATE_LIMITED: 429,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_ERROR: 502,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * Extra fields sent with an error so the client can act on it
+ */
+export interface EdgeErrorDetails {
+  limit?: 'burst' | 'daily' | 'monthly'; // RATE_LIMITED: which limit was hit
+  retry_after_seconds?: number; // RATE_LIMITED: when that limit frees up
+}
+
+/**
+ * An error with a code, thrown where the failure is detected and turned into a response
+ * by the function's top-level handler
+ */
+export class EdgeFunctionError extends Error {
+  readonly code: EdgeErrorCode;
+  readonly details: EdgeErrorDetails;
+
+  constructor(code: EdgeErrorCode, message: string, details: EdgeErrorDetails = {}) {
+    super(message);
+    this.name = 'EdgeFunctionError';
+    this.code = code;
+    this.details = details;
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+/**
+ * Treat anything that isn't already an EdgeFunctionError as an internal error
+ */
+export function toEdgeFunctionError(error: unknown): EdgeFunctionError {
+  if (error instanceof EdgeFunctionError) {
+    return error;
+  }
+
+  return new EdgeFunctionError(
+    'INTERNAL_ERROR',
+    error instanceof Error ? error.message : 'Internal server error'
+  );
+}
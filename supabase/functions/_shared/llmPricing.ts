@@ -0,0 +1,66 @@
+/**
+ * LLM Pricing for the Usage Ledger
+ *
+ * Turns the token usage reported by the LLM provider into a cost estimate for ai_usage.
+ *
+ * Features:
+ * - USD list prices per million tokens for the models the app uses
+ * - Per-request totals (chat tokens, embedding tokens, cost) across every provider call
+ * - Unknown models (local servers, the mock provider) cost nothing
+ */
+
+import type { LLMUsage } from './llmProvider.ts';
+
+interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// USD per 1M tokens - update when OpenAI changes its prices
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'text-embedding-3-large': { inputPerMillion: 0.13, outputPerMillion: 0 },
+  'text-embedding-3-small': { inputPerMillion: 0.02, outputPerMillion: 0 },
+};
+
+/**
+ * Totals for one request, in the shape of the ai_usage columns
+ */
+export interface UsageTotals {
+  model: string | null; // Chat model
+  embedding_model: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  embedding_tokens: number;
+  cost_usd: number;
+}
+
+/**
+ * Estimated cost of one provider call in USD
+ */
+export function estimateCostUsd(usage: LLMUsage): number {
+  const price = MODEL_PRICES[usage.model];
+  if (!price) return 0;
+
+  return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Add up every provider call made for a request
+ */
+export function summarizeUsage(calls: LLMUsage[]): UsageTotals {
+  const chatCalls = calls.filter(call => call.kind === 'chat');
+  const embeddingCalls = calls.filter(call => call.kind === 'embedding');
+  const cost = calls.reduce((sum, call) => sum + estimateCostUsd(call), 0);
+
+  return {
+    model: chatCalls[0]?.model ?? null,
+    embedding_model: embeddingCalls[0]?.model ?? null,
+    prompt_tokens: chatCalls.reduce((sum, call) => sum + call.promptTokens, 0),
+    completion_tokens: chatCalls.reduce((sum, call) => sum + call.completionTokens, 0),
+    embedding_tokens: embeddingCalls.reduce((sum, call) => sum + call.promptTokens, 0),
+    // ai_usage.cost_usd is NUMERIC(10, 6)
+    cost_usd: Math.round(cost * 1_000_000) / 1_000_000,
+  };
+}
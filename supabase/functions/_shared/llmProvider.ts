@@ -0,0 +1,429 @@
+/**
+ * LLM Provider Layer for Edge Functions
+ *
+ * This module abstracts chat completion and embedding generation behind a single
+ * provider interface so edge functions don't hard-code OpenAI endpoints or models.
+ *
+ * Providers (selected with the LLM_PROVIDER env var):
+ * - openai: api.openai.com with OPENAI_API_KEY (default)
+ * - openai-compatible: any OpenAI-compatible server (Ollama, vLLM, LM Studio) at LLM_BASE_URL
+ * - mock: deterministic offline provider with canned replies and hash-based vectors
+ *
+ * Optional overrides:
+ * - LLM_CHAT_MODEL / LLM_EMBEDDING_MODEL: model names (default gpt-4o / text-embedding-3-large)
+ * - LLM_API_KEY: API key for openai-compatible servers that require one
+ * - EMBEDDING_DIMENSIONS: vector size, must match solo_ai_messages.embedding (default 3072)
+ * - LLM_TIMEOUT_MS: how long to wait for the provider to start answering (default 30000)
+ *
+ * Provider failures are thrown as coded errors: UPSTREAM_TIMEOUT when the provider doesn't
+ * answer in time, UPSTREAM_ERROR for network failures and error responses.
+ *
+ * Token usage is reported per call through an optional onUsage callback (from the API's usage
+ * fields; the mock provider estimates it), so callers can record it in the usage ledger.
+ */
+
+import { EdgeFunctionError } from './errors.ts';
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+/**
+ * Chat message in OpenAI format (content may be multimodal)
+ */
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | Array<
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } }
+  >;
+}
+
+/**
+ * Tokens used by one provider call
+ */
+export interface LLMUsage {
+  kind: 'chat' | 'embedding';
+  model: string;
+  promptTokens: number;
+  completionTokens: number; // Always 0 for embeddings
+}
+
+export type LLMUsageCallback = (usage: LLMUsage) => void;
+
+export interface LLMChatOptions {
+  maxTokens?: number;
+  temperature?: number;
+  onUsage?: LLMUsageCallback;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  chatModel: string;
+  embeddingModel: string;
+  embeddingDimensions: number;
+  embed(text: string, onUsage?: LLMUsageCallback): Promise<number[]>;
+  chat(messages: LLMChatMessage[], options?: LLMChatOptions): Promise<string>;
+  chatStream(
+    messages: LLMChatMessage[],
+    options: LLMChatOptions,
+    onToken: (delta: string) => void
+  ): Promise<string>;
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{
+    embedding: number[];
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChatResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChatStreamChunk {
+  choices: Array<{
+    delta: {
+      content?: string;
+    };
+  }>;
+  usage?: OpenAIUsage | null; // Only on the final chunk, when include_usage is requested
+}
+
+const DEFAULT_CHAT_MODEL = 'gpt-4o';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-large';
+const DEFAULT_EMBEDDING_DIMENSIONS = 3072;
+const DEFAULT_TIMEOUT_MS = 30000;
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Provider for OpenAI and any server implementing the same REST API
+ */
+function createOpenAICompatibleProvider(config: {
+  name: LLMProviderName;
+  baseUrl: string;
+  apiKey?: string;
+  chatModel: string;
+  embeddingModel: string;
+  embeddingDimensions: number;
+  timeoutMs: number;
+}): LLMProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  const reportUsage = (
+    kind: LLMUsage['kind'],
+    model: string,
+    usage: OpenAIUsage | null | undefined,
+    onUsage: LLMUsageCallback | undefined
+  ) => {
+    if (!onUsage) return;
+    if (!usage) {
+      console.warn('⚠️ LLM Provider - No usage reported for', kind, 'call');
+      return;
+    }
+    onUsage({
+      kind,
+      model,
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens ?? 0,
+    });
+  };
+
+  /**
+   * POST to the provider, failing with UPSTREAM_TIMEOUT if the response doesn't start in time
+   * (a stream that has started is read to the end)
+   */
+  const post = async (path: string, body: Record<string, unknown>, label: string): Promise<Response> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.error('❌ LLM Provider -', label, 'timed out after', config.timeoutMs, 'ms');
+        throw new EdgeFunctionError('UPSTREAM_TIMEOUT', `${config.name} ${label} timed out`);
+      }
+      console.error('❌ LLM Provider -', label, 'request failed:', error);
+      throw new EdgeFunctionError('UPSTREAM_ERROR', `${config.name} ${label} request failed`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      console.error('❌ LLM Provider -', label, 'error:', response.status, errorText);
+      throw new EdgeFunctionError('UPSTREAM_ERROR', `${config.name} ${label} API error: ${response.status}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name: config.name,
+    chatModel: config.chatModel,
+    embeddingModel: config.embeddingModel,
+    embeddingDimensions: config.embeddingDimensions,
+
+    async embed(text: string, onUsage?: LLMUsageCallback): Promise<number[]> {
+      const response = await post('/embeddings', {
+        model: config.embeddingModel,
+        input: text,
+        encoding_format: 'float',
+      }, 'embedding');
+
+      const data: OpenAIEmbeddingResponse = await response.json();
+      reportUsage('embedding', config.embeddingModel, data.usage, onUsage);
+      return data.data[0].embedding;
+    },
+
+    async chat(messages: LLMChatMessage[], options: LLMChatOptions = {}): Promise<string> {
+      const response = await post('/chat/completions', {
+        model: config.chatModel,
+        messages,
+        max_tokens: options.maxTokens ?? 500,
+        temperature: options.temperature ?? 0.8,
+      }, 'chat');
+
+      const data: OpenAIChatResponse = await response.json();
+      reportUsage('chat', config.chatModel, data.usage, options.onUsage);
+      return data.choices[0].message.content;
+    },
+
+    async chatStream(
+      messages: LLMChatMessage[],
+      options: LLMChatOptions,
+      onToken: (delta: string) => void
+    ): Promise<string> {
+      const response = await post('/chat/completions', {
+        model: config.chatModel,
+        messages,
+        max_tokens: options.maxTokens ?? 500,
+        temperature: options.temperature ?? 0.8,
+        stream: true,
+        stream_options: { include_usage: true },
+      }, 'chat stream');
+
+      // Server-sent events: "data: {...}" lines terminated by "data: [DONE]"
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let fullResponse = '';
+      let usage: OpenAIUsage | null | undefined;
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') continue;
+
+          const chunk: OpenAIChatStreamChunk = JSON.parse(payload);
+          usage = chunk.usage ?? usage;
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            fullResponse += delta;
+            onToken(delta);
+          }
+        }
+      }
+
+      reportUsage('chat', config.chatModel, usage, options.onUsage);
+      return fullResponse;
+    },
+  };
+}
+
+/**
+ * Canned tutor replies returned by the mock provider
+ */
+const MOCK_REPLIES = [
+  "That's a lovely start! Try pushing the contrast between your lightest and darkest values to give the piece more depth.",
+  'Building on what we discussed before, focus on where the light source sits and keep your cast shadows consistent with it.',
+  'Your composition has a clear focal point. Consider simplifying the background so the eye stays on your subject.',
+  'Nice color choices! A limited palette of three or four hues will help the whole piece feel more harmonious.',
+];
+
+/**
+ * 32-bit FNV-1a hash - small, fast and deterministic across runtimes
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hash-based bag-of-words embedding
+ *
+ * Each word is hashed into a bucket with a signed weight and the vector is
+ * L2-normalized, so texts sharing words have a positive cosine similarity.
+ */
+function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+
+  for (const word of words) {
+    const hash = fnv1a(word);
+    vector[hash % dimensions] += (hash & 0x80000000) ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    // Empty or symbol-only text still needs a valid non-zero vector
+    vector[0] = 1;
+    return vector;
+  }
+
+  return vector.map(value => value / norm);
+}
+
+/**
+ * Extract the text of the last user message to pick a deterministic reply
+ */
+function lastUserText(messages: LLMChatMessage[]): string {
+  const lastUser = [...messages].reverse().find(message => message.role === 'user');
+  if (!lastUser) return '';
+  if (typeof lastUser.content === 'string') return lastUser.content;
+
+  return lastUser.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join(' ');
+}
+
+/**
+ * Rough token count (about four characters per token) for the mock provider's usage reports
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic offline provider for local development and tests
+ */
+function createMockProvider(embeddingDimensions: number): LLMProvider {
+  const reply = (messages: LLMChatMessage[]) =>
+    MOCK_REPLIES[fnv1a(lastUserText(messages)) % MOCK_REPLIES.length];
+
+  const reportChatUsage = (messages: LLMChatMessage[], response: string, onUsage?: LLMUsageCallback) => {
+    onUsage?.({
+      kind: 'chat',
+      model: 'mock-chat',
+      promptTokens: messages.reduce((sum, message) => sum + estimateTokens(JSON.stringify(message.content)), 0),
+      completionTokens: estimateTokens(response),
+    });
+  };
+
+  return {
+    name: 'mock',
+    chatModel: 'mock-chat',
+    embeddingModel: 'mock-embedding',
+    embeddingDimensions,
+
+    async embed(text: string, onUsage?: LLMUsageCallback): Promise<number[]> {
+      onUsage?.({ kind: 'embedding', model: 'mock-embedding', promptTokens: estimateTokens(text), completionTokens: 0 });
+      return hashEmbedding(text, embeddingDimensions);
+    },
+
+    async chat(messages: LLMChatMessage[], options: LLMChatOptions = {}): Promise<string> {
+      const response = reply(messages);
+      reportChatUsage(messages, response, options.onUsage);
+      return response;
+    },
+
+    async chatStream(
+      messages: LLMChatMessage[],
+      options: LLMChatOptions,
+      onToken: (delta: string) => void
+    ): Promise<string> {
+      const fullResponse = reply(messages);
+      // Emit word by word so streaming clients exercise their partial rendering
+      for (const token of fullResponse.match(/\S+\s*/g) ?? []) {
+        onToken(token);
+      }
+      reportChatUsage(messages, fullResponse, options.onUsage);
+      return fullResponse;
+    },
+  };
+}
+
+/**
+ * Create the provider configured by environment variables
+ */
+export function createLLMProviderFromEnv(): LLMProvider {
+  const name = (Deno.env.get('LLM_PROVIDER') || 'openai') as LLMProviderName;
+  const chatModel = Deno.env.get('LLM_CHAT_MODEL') || DEFAULT_CHAT_MODEL;
+  const embeddingModel = Deno.env.get('LLM_EMBEDDING_MODEL') || DEFAULT_EMBEDDING_MODEL;
+  const embeddingDimensions = Number(Deno.env.get('EMBEDDING_DIMENSIONS')) || DEFAULT_EMBEDDING_DIMENSIONS;
+  const timeoutMs = Number(Deno.env.get('LLM_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS;
+
+  switch (name) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('Missing required environment variable: OPENAI_API_KEY');
+      }
+      return createOpenAICompatibleProvider({
+        name,
+        baseUrl: OPENAI_BASE_URL,
+        apiKey,
+        chatModel,
+        embeddingModel,
+        embeddingDimensions,
+        timeoutMs,
+      });
+    }
+
+    case 'openai-compatible': {
+      const baseUrl = Deno.env.get('LLM_BASE_URL');
+      if (!baseUrl) {
+        throw new Error('Missing required environment variable: LLM_BASE_URL');
+      }
+      return createOpenAICompatibleProvider({
+        name,
+        baseUrl,
+        apiKey: Deno.env.get('LLM_API_KEY') || undefined,
+        chatModel,
+        embeddingModel,
+        embeddingDimensions,
+        timeoutMs,
+      });
+    }
+
+    case 'mock':
+      return createMockProvider(embeddingDimensions);
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}. Expected openai, openai-compatible or mock`);
+  }
+}
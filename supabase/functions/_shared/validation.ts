@@ -0,0 +1,134 @@
+/**
+ * Request Payload Validation for Edge Functions
+ *
+ * Request bodies arrive as untrusted JSON. Each function describes its payload as a small
+ * schema and gets back either typed data or one INVALID_INPUT message naming the bad field.
+ *
+ * Features:
+ * - Field rules for strings (length limits), UUIDs, booleans and image URLs
+ * - Image URLs must be http(s) on an allowed host: this project's Supabase host, plus any
+ *   hosts listed in ALLOWED_IMAGE_HOSTS (comma-separated, e.g. a CDN or the local stack's
+ *   public address)
+ * - Malformed JSON and unknown fields are rejected as INVALID_INPUT
+ */
+
+import { EdgeFunctionError } from './errors.ts';
+
+export type FieldRule =
+  | { type: 'string'; required?: boolean; maxLength: number } // Must contain non-whitespace text
+  | { type: 'uuid'; required?: boolean }
+  | { type: 'boolean'; required?: boolean }
+  | { type: 'imageUrl'; required?: boolean };
+
+export type PayloadSchema = Record<string, FieldRule>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Longest URL accepted for an image (storage URLs are well under this)
+const MAX_IMAGE_URL_LENGTH = 2048;
+
+/**
+ * Hosts image URLs may point at
+ */
+function getAllowedImageHosts(): string[] {
+  const hosts = (Deno.env.get('ALLOWED_IMAGE_HOSTS') || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  if (supabaseUrl) {
+    hosts.push(new URL(supabaseUrl).host.toLowerCase());
+  }
+
+  return hosts;
+}
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+/**
+ * Whether a URL is an http(s) URL on an allowed host
+ */
+export function isAllowedImageUrl(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > MAX_IMAGE_URL_LENGTH) {
+    return false;
+  }
+
+  try {
+    const url = new URL(value);
+    return (
+      (url.protocol === 'https:' || url.protocol === 'http:') &&
+      getAllowedImageHosts().includes(url.host.toLowerCase())
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check one field, returning an error message or null when it is valid
+ */
+function validateField(name: string, value: unknown, rule: FieldRule): string | null {
+  if (value === undefined || value === null) {
+    return rule.required ? `Missing required field: ${name}` : null;
+  }
+
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string' || !value.trim()) {
+        return `${name} must be a non-empty string`;
+      }
+      if (value.length > rule.maxLength) {
+        return `${name} must be at most ${rule.maxLength} characters`;
+      }
+      return null;
+    case 'uuid':
+      return isUuid(value) ? null : `${name} must be a UUID`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${name} must be true or false`;
+    case 'imageUrl':
+      return isAllowedImageUrl(value) ? null : `${name} must be an image URL on an allowed host`;
+  }
+}
+
+/**
+ * Validate a parsed body against a schema
+ * Throws an INVALID_INPUT EdgeFunctionError for the first problem found.
+ */
+export function validatePayload<T>(body: unknown, schema: PayloadSchema): T {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new EdgeFunctionError('INVALID_INPUT', 'Request body must be a JSON object');
+  }
+
+  const record = body as Record<string, unknown>;
+
+  const unknownField = Object.keys(record).find(name => !(name in schema));
+  if (unknownField) {
+    throw new EdgeFunctionError('INVALID_INPUT', `Unknown field: ${unknownField}`);
+  }
+
+  for (const [name, rule] of Object.entries(schema)) {
+    const error = validateField(name, record[name], rule);
+    if (error) {
+      throw new EdgeFunctionError('INVALID_INPUT', error);
+    }
+  }
+
+  return record as T;
+}
+
+/**
+ * Parse the request body as JSON and validate it
+ */
+export async function parsePayload<T>(req: Request, schema: PayloadSchema): Promise<T> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new EdgeFunctionError('INVALID_INPUT', 'Request body must be valid JSON');
+  }
+
+  return validatePayload<T>(body, schema);
+}
@@ -0,0 +1,394 @@
+/**
+ * Expired Post Cleanup Edge Function
+ *
+ * This Supabase Edge Function is invoked on a schedule (pg_cron, see the
+ * 20250704000001_schedule_expired_post_cleanup migration) to retire ephemeral posts.
+ *
+ * Features:
+ * - Marks expired posts via mark_expired_posts()
+ * - Deletes the storage objects behind each expired post (image_path, or the public image_url)
+ *   along with their feed thumbnails, including every image of a multi-image post (post_images)
+ * - Keeps files still referenced by a Juni chat message or another active post (cover or sequence image)
+ * - Removes the photos (media asset) rows of deleted files so they can't be reused
+ * - Records storage_cleaned_at so each post is only processed once
+ * - Reports counts for every run; `dry_run: true` reports without deleting anything
+ * - Only callable with the service role key
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.0';
+import type { EdgeErrorCode } from '../_shared/errors.ts';
+
+// Types for the request and response
+interface CleanupRequest {
+  dry_run?: boolean;
+  batch_size?: number;
+}
+
+interface CleanupResponse {
+  success: boolean;
+  dry_run?: boolean;
+  posts_marked_expired?: number;
+  posts_processed?: number;
+  files_deleted?: number;
+  files_retained?: number;
+  files_missing?: number;
+  errors?: string[];
+  error?: string;
+  error_code?: EdgeErrorCode;
+  processing_time_ms?: number;
+}
+
+interface ExpiredPostRow {
+  id: string;
+  image_url: string;
+  image_path: string | null;
+  thumbnail_url: string | null;
+}
+
+interface PostImageRow {
+  post_id: string;
+  image_url: string;
+  thumbnail_url: string | null;
+}
+
+// One image of an expired post; only the cover can carry an image_path
+interface ExpiredImageRef {
+  image_url: string;
+  image_path: string | null;
+  thumbnail_url: string | null;
+}
+
+interface StorageObjectRef {
+  bucket: string;
+  path: string;
+}
+
+// Default bucket for posts that only store an image_path (camera uploads)
+const DEFAULT_POST_BUCKET = 'photos';
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_BATCH_SIZE = 500;
+
+// Initialize Supabase client with service role for database and storage operations
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+console.log('🚀 Cleanup Function - Initializing with environment variables');
+console.log('📍 Supabase URL:', supabaseUrl ? 'Set ✓' : 'Missing ❌');
+console.log('🔑 Service Key:', supabaseServiceKey ? 'Set ✓' : 'Missing ❌');
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * Build a JSON response with CORS headers
+ */
+function jsonResponse(body: CleanupResponse, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+/**
+ * Parse a public storage URL: {SUPABASE_URL}/storage/v1/object/public/{bucket}/{path}
+ */
+function parsePublicUrl(url: string): StorageObjectRef | null {
+  const match = url.match(/\/storage\/v1\/object\/public\/([^/]+)\/([^?#]+)/);
+  return match ? { bucket: match[1], path: decodeURIComponent(match[2]) } : null;
+}
+
+/**
+ * List every image of a post: the cover first, then the rest of its sequence
+ */
+function getExpiredImages(post: ExpiredPostRow, postImages: PostImageRow[]): ExpiredImageRef[] {
+  const images: ExpiredImageRef[] = [{
+    image_url: post.image_url,
+    image_path: post.image_path,
+    thumbnail_url: post.thumbnail_url,
+  }];
+
+  for (const postImage of postImages) {
+    // The cover is also stored as the first post_images row
+    if (!images.some(image => image.image_url === postImage.image_url)) {
+      images.push({ image_url: postImage.image_url, image_path: null, thumbnail_url: postImage.thumbnail_url });
+    }
+  }
+
+  return images;
+}
+
+/**
+ * Resolve the storage object behind a post image
+ *
+ * Juni shares reuse the solo-images URL, so image_path is often empty.
+ */
+function resolveStorageObject(image: ExpiredImageRef): StorageObjectRef | null {
+  const parsed = parsePublicUrl(image.image_url);
+  if (parsed) {
+    return parsed;
+  }
+
+  if (image.image_path) {
+    return { bucket: DEFAULT_POST_BUCKET, path: image.image_path };
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a file is still referenced outside this expired post
+ */
+async function isImageStillReferenced(postId: string, imageUrl: string): Promise<boolean> {
+  const { count: messageCount, error: messageError } = await supabase
+    .from('solo_ai_messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('image_url', imageUrl);
+
+  if (messageError) {
+    throw new Error(`Failed to check chat references: ${messageError.message}`);
+  }
+
+  if ((messageCount || 0) > 0) {
+    return true;
+  }
+
+  const { count: postCount, error: postError } = await supabase
+    .from('posts')
+    .select('id', { count: 'exact', head: true })
+    .eq('image_url', imageUrl)
+    .eq('is_expired', false)
+    .neq('id', postId);
+
+  if (postError) {
+    throw new Error(`Failed to check post references: ${postError.message}`);
+  }
+
+  if ((postCount || 0) > 0) {
+    return true;
+  }
+
+  const { count: postImageCount, error: postImageError } = await supabase
+    .from('post_images')
+    .select('id, posts!inner(is_expired)', { count: 'exact', head: true })
+    .eq('image_url', imageUrl)
+    .eq('posts.is_expired', false)
+    .neq('post_id', postId);
+
+  if (postImageError) {
+    throw new Error(`Failed to check post image references: ${postImageError.message}`);
+  }
+
+  return (postImageCount || 0) > 0;
+}
+
+/**
+ * Main Edge Function handler
+ */
+Deno.serve(async (req) => {
+  const startTime = Date.now();
+  console.log('🚀 Cleanup Function - Request received at', new Date().toISOString());
+
+  if (req.method !== 'POST') {
+    console.log('❌ Cleanup Function - Invalid method:', req.method);
+    return jsonResponse({ success: false, error: 'Method not allowed', error_code: 'METHOD_NOT_ALLOWED' }, 405);
+  }
+
+  // Only the scheduler (service role) may run the cleanup
+  const authHeader = req.headers.get('Authorization') || '';
+  if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+    console.log('❌ Cleanup Function - Unauthorized caller');
+    return jsonResponse({ success: false, error: 'Unauthorized', error_code: 'UNAUTHORIZED' }, 401);
+  }
+
+  try {
+    // Step 1: Parse options (body is optional)
+    const requestBody: CleanupRequest = await req.json().catch(() => ({}));
+    const dryRun = requestBody.dry_run === true;
+    const batchSize = Math.min(
+      Math.max(Number(requestBody.batch_size) || DEFAULT_BATCH_SIZE, 1),
+      MAX_BATCH_SIZE
+    );
+    console.log('📥 Cleanup Function - Options:', { dryRun, batchSize });
+
+    // Step 2: Mark newly expired posts
+    let postsMarkedExpired = 0;
+    if (!dryRun) {
+      const { data: markedCount, error: markError } = await supabase.rpc('mark_expired_posts');
+      if (markError) {
+        throw new Error(`Failed to mark expired posts: ${markError.message}`);
+      }
+      postsMarkedExpired = markedCount || 0;
+    }
+    console.log('⏰ Cleanup Function - Posts marked expired:', postsMarkedExpired);
+
+    // Step 3: Load expired posts whose storage hasn't been cleaned yet
+    const { data: expiredPosts, error: loadError } = await supabase
+      .from('posts')
+      .select('id, image_url, image_path, thumbnail_url')
+      .eq('is_expired', true)
+      .is('storage_cleaned_at', null)
+      .order('expires_at', { ascending: true })
+      .limit(batchSize);
+
+    if (loadError) {
+      throw new Error(`Failed to load expired posts: ${loadError.message}`);
+    }
+
+    const posts = (expiredPosts || []) as ExpiredPostRow[];
+    console.log('🧹 Cleanup Function - Expired posts to process:', posts.length);
+
+    // Step 4: Load the images of multi-image posts
+    const postImagesByPostId = new Map<string, PostImageRow[]>();
+    if (posts.length > 0) {
+      const { data: postImages, error: postImagesError } = await supabase
+        .from('post_images')
+        .select('post_id, image_url, thumbnail_url')
+        .in('post_id', posts.map(post => post.id))
+        .order('position', { ascending: true });
+
+      if (postImagesError) {
+        throw new Error(`Failed to load post images: ${postImagesError.message}`);
+      }
+
+      for (const postImage of (postImages || []) as PostImageRow[]) {
+        const images = postImagesByPostId.get(postImage.post_id) ?? [];
+        images.push(postImage);
+        postImagesByPostId.set(postImage.post_id, images);
+      }
+    }
+
+    // Step 5: Decide which files to delete, grouped by bucket
+    const filesByBucket = new Map<string, Set<string>>();
+    const deleteBucketsByPostId = new Map<string, Set<string>>();
+    const processedPostIds: string[] = [];
+    const errors: string[] = [];
+    let filesRetained = 0;
+    let filesMissing = 0;
+
+    for (const post of posts) {
+      try {
+        const postBuckets = new Set<string>();
+
+        for (const image of getExpiredImages(post, postImagesByPostId.get(post.id) ?? [])) {
+          const storageObject = resolveStorageObject(image);
+
+          if (!storageObject) {
+            filesMissing++;
+            continue;
+          }
+
+          if (await isImageStillReferenced(post.id, image.image_url)) {
+            console.log('📌 Cleanup Function - Keeping referenced file:', storageObject.path);
+            filesRetained++;
+            continue;
+          }
+
+          const paths = filesByBucket.get(storageObject.bucket) ?? new Set<string>();
+          paths.add(storageObject.path);
+
+          // The feed thumbnail sits next to the image, so it goes in the same bucket batch
+          const thumbnail = image.thumbnail_url ? parsePublicUrl(image.thumbnail_url) : null;
+          if (thumbnail?.bucket === storageObject.bucket) {
+            paths.add(thumbnail.path);
+          }
+
+          filesByBucket.set(storageObject.bucket, paths);
+          postBuckets.add(storageObject.bucket);
+        }
+
+        deleteBucketsByPostId.set(post.id, postBuckets);
+        processedPostIds.push(post.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('❌ Cleanup Function - Error processing post:', post.id, message);
+        errors.push(`${post.id}: ${message}`);
+      }
+    }
+
+    // Step 6: Delete files and record cleanup
+    let filesDeleted = 0;
+    let cleanedPostIds = processedPostIds;
+    if (!dryRun) {
+      const failedBuckets = new Set<string>();
+
+      for (const [bucket, paths] of filesByBucket) {
+        const { data: removed, error: removeError } = await supabase.storage
+          .from(bucket)
+          .remove([...paths]);
+
+        if (removeError) {
+          // Leave these posts unmarked so the next run retries them
+          console.error('❌ Cleanup Function - Storage remove error:', bucket, removeError);
+          errors.push(`${bucket}: ${removeError.message}`);
+          failedBuckets.add(bucket);
+          continue;
+        }
+
+        filesDeleted += removed?.length || 0;
+        filesMissing += paths.size - (removed?.length || 0);
+
+        // Forget the media assets so uploads of the same image store it again
+        const { error: assetError } = await supabase
+          .from('photos')
+          .delete()
+          .eq('storage_bucket', bucket)
+          .in('file_path', [...paths]);
+
+        if (assetError) {
+          console.error('❌ Cleanup Function - Asset row delete error:', bucket, assetError);
+          errors.push(`${bucket} assets: ${assetError.message}`);
+        }
+      }
+
+      cleanedPostIds = processedPostIds.filter(
+        id => ![...(deleteBucketsByPostId.get(id) ?? [])].some(bucket => failedBuckets.has(bucket))
+      );
+
+      if (cleanedPostIds.length > 0) {
+        const { error: markCleanedError } = await supabase
+          .from('posts')
+          .update({ storage_cleaned_at: new Date().toISOString() })
+          .in('id', cleanedPostIds);
+
+        if (markCleanedError) {
+          throw new Error(`Failed to record cleanup: ${markCleanedError.message}`);
+        }
+      }
+    } else {
+      filesDeleted = [...filesByBucket.values()].reduce((total, paths) => total + paths.size, 0);
+    }
+
+    const processingTime = Date.now() - startTime;
+    const result: CleanupResponse = {
+      success: errors.length === 0,
+      dry_run: dryRun,
+      posts_marked_expired: postsMarkedExpired,
+      posts_processed: cleanedPostIds.length,
+      files_deleted: filesDeleted,
+      files_retained: filesRetained,
+      files_missing: filesMissing,
+      errors,
+      processing_time_ms: processingTime,
+    };
+
+    console.log('✅ Cleanup Function - Completed:', result);
+    return jsonResponse(result, 200);
+
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+    console.error('❌ Cleanup Function - Run failed after', processingTime, 'ms:', error);
+
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+      error_code: 'INTERNAL_ERROR',
+      processing_time_ms: processingTime,
+    }, 500);
+  }
+});
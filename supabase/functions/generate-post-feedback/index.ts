@@ -0,0 +1,368 @@
+/**
+ * Post Feedback Edge Function
+ *
+ * This Supabase Edge Function generates Juni's AI critique for an artwork shared to a class feed.
+ * It runs a vision critique on the post image and records the result in the ai_feedback table.
+ *
+ * Features:
+ * - Caller identity derived from the Authorization JWT (only the post owner can request a critique)
+ * - ai_feedback row lifecycle: pending → processing → completed/failed
+ * - Records processing_time_ms and the ai_model used for every critique
+ * - Idempotent: completed or in-flight critiques are returned instead of regenerated
+ * - Failed critiques, and pending/processing ones left stale by a crashed run, can be retried by
+ *   calling the function again (a conditional update lets only one retry claim the row)
+ * - The artist's title, note, medium, size, time spent and tags are given to the critique
+ * - Validated payload and a stable `error_code` on every error (see _shared/errors.ts)
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.0';
+import { EdgeFunctionError, toEdgeFunctionError, type EdgeErrorCode } from '../_shared/errors.ts';
+import { createLLMProviderFromEnv, type LLMChatMessage } from '../_shared/llmProvider.ts';
+import { parsePayload, type PayloadSchema } from '../_shared/validation.ts';
+
+// Types for the request and response
+interface PostFeedbackRequest {
+  post_id: string;
+}
+
+const POST_FEEDBACK_REQUEST_SCHEMA: PayloadSchema = {
+  post_id: { type: 'uuid', required: true },
+};
+
+interface AIFeedbackRow {
+  id: string;
+  post_id: string;
+  user_id: string;
+  feedback_text: string | null;
+  feedback_status: 'pending' | 'processing' | 'completed' | 'failed';
+  processing_time_ms: number | null;
+  ai_model: string;
+  error_message: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Details the artist gave when sharing, passed to the critique as context
+interface CritiqueContext {
+  title: string | null;
+  description: string | null;
+  medium: string | null;
+  dimensions: string | null;
+  time_spent_minutes: number | null;
+  tags: string[] | null;
+}
+
+interface PostFeedbackResponse {
+  success: boolean;
+  feedback?: AIFeedbackRow;
+  error?: string;
+  error_code?: EdgeErrorCode;
+  processing_time_ms?: number;
+}
+
+// Initialize Supabase client with service role for database operations
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+console.log('🚀 Post Feedback Function - Initializing with environment variables');
+console.log('📍 Supabase URL:', supabaseUrl ? 'Set ✓' : 'Missing ❌');
+console.log('🔑 Service Key:', supabaseServiceKey ? 'Set ✓' : 'Missing ❌');
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// A pending/processing row untouched for this long belongs to a run that crashed or timed out
+const STALE_FEEDBACK_MS = 5 * 60 * 1000;
+
+// LLM provider (must support image input for critiques)
+const llm = createLLMProviderFromEnv();
+console.log('🤖 LLM Provider:', llm.name, '| chat:', llm.chatModel);
+
+/**
+ * Juni Critique System Prompt - structured, encouraging feedback for class artwork
+ */
+const CRITIQUE_SYSTEM_PROMPT = `You are Juni, a supportive AI art tutor giving a written critique of a student's artwork that was shared with their class.
+
+Structure your critique in three short parts:
+1. What's working - specific strengths in composition, value, color, line or technique
+2. One or two areas to develop - concrete, actionable suggestions
+3. A next step - a small exercise or experiment to try on the next piece
+
+Keep the tone warm and encouraging, use art terminology naturally, and keep the whole critique under 150 words.`;
+
+/**
+ * Build a JSON response with CORS headers
+ */
+function jsonResponse(body: PostFeedbackResponse, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+/**
+ * Resolve the calling user from the Authorization header
+ */
+async function getCallerId(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get('Authorization') || '';
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    console.log('❌ Post Feedback Function - Invalid auth token:', error?.message);
+    return null;
+  }
+
+  return data.user.id;
+}
+
+/**
+ * Update the feedback row and return the new state
+ */
+async function updateFeedback(
+  feedbackId: string,
+  updates: Partial<AIFeedbackRow>
+): Promise<AIFeedbackRow> {
+  const { data, error } = await supabase
+    .from('ai_feedback')
+    .update(updates)
+    .eq('id', feedbackId)
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('❌ Post Feedback Function - Feedback update error:', error);
+    throw new Error(`Failed to update feedback: ${error.message}`);
+  }
+
+  return data as AIFeedbackRow;
+}
+
+/**
+ * Whether an existing feedback row can be taken over by a new run
+ */
+function isRetryable(feedback: AIFeedbackRow): boolean {
+  if (feedback.feedback_status === 'failed') return true;
+  if (feedback.feedback_status === 'completed') return false;
+  return Date.now() - new Date(feedback.updated_at).getTime() > STALE_FEEDBACK_MS;
+}
+
+/**
+ * Create the pending feedback row, or claim a retryable one
+ *
+ * Returns null when another request created or claimed the row first.
+ * The claim only matches while updated_at is unchanged, so concurrent retries can't both win.
+ */
+async function claimFeedback(
+  postId: string,
+  userId: string,
+  existing: AIFeedbackRow | null
+): Promise<AIFeedbackRow | null> {
+  const pendingFields = {
+    feedback_text: null,
+    feedback_status: 'pending' as const,
+    processing_time_ms: null,
+    ai_model: llm.chatModel,
+    error_message: null,
+  };
+
+  if (!existing) {
+    const { data, error } = await supabase
+      .from('ai_feedback')
+      .insert({ post_id: postId, user_id: userId, ...pendingFields })
+      .select('*')
+      .single();
+
+    // Unique violation: another request created the row first
+    if (error?.code === '23505') return null;
+    if (error || !data) {
+      throw new Error(`Failed to create feedback request: ${error?.message}`);
+    }
+    return data as AIFeedbackRow;
+  }
+
+  const { data, error } = await supabase
+    .from('ai_feedback')
+    .update(pendingFields)
+    .eq('id', existing.id)
+    .eq('updated_at', existing.updated_at)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim feedback request: ${error.message}`);
+  }
+  return (data as AIFeedbackRow) || null;
+}
+
+/**
+ * Run the vision critique on the post image
+ */
+async function generateCritique(imageUrl: string, details: CritiqueContext): Promise<string> {
+  console.log('🎨 Post Feedback Function - Generating critique for image:', imageUrl);
+
+  const context = [
+    details.title ? `Title: ${details.title}` : null,
+    details.medium ? `Medium: ${details.medium.replace('_', ' ')}` : null,
+    details.dimensions ? `Size: ${details.dimensions}` : null,
+    details.time_spent_minutes ? `Time spent: ${details.time_spent_minutes} minutes` : null,
+    details.tags?.length ? `Tags: ${details.tags.join(', ')}` : null,
+    details.description ? `Artist's note: ${details.description}` : null,
+  ].filter(Boolean).join('\n');
+
+  const messages: LLMChatMessage[] = [
+    { role: 'system', content: CRITIQUE_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: context ? `Please critique this artwork.\n${context}` : 'Please critique this artwork.' },
+        { type: 'image_url', image_url: { url: imageUrl } },
+      ],
+    },
+  ];
+
+  const critique = await llm.chat(messages, { maxTokens: 400, temperature: 0.7 });
+  console.log('✅ Post Feedback Function - Generated critique length:', critique.length);
+  return critique;
+}
+
+/**
+ * Main Edge Function handler
+ */
+Deno.serve(async (req) => {
+  const startTime = Date.now();
+  console.log('🚀 Post Feedback Function - Request received at', new Date().toISOString());
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    });
+  }
+
+  if (req.method !== 'POST') {
+    console.log('❌ Post Feedback Function - Invalid method:', req.method);
+    return jsonResponse({ success: false, error: 'Method not allowed', error_code: 'METHOD_NOT_ALLOWED' }, 405);
+  }
+
+  let feedbackId: string | null = null;
+
+  try {
+    // Step 1: Authenticate caller
+    const callerId = await getCallerId(req);
+    if (!callerId) {
+      throw new EdgeFunctionError('UNAUTHORIZED', 'Authentication required');
+    }
+
+    // Step 2: Parse and validate request
+    const requestBody = await parsePayload<PostFeedbackRequest>(req, POST_FEEDBACK_REQUEST_SCHEMA);
+    console.log('📥 Post Feedback Function - Parsed request:', { post_id: requestBody.post_id, caller_id: callerId });
+
+    // Step 3: Load the post and verify ownership
+    const { data: post, error: postError } = await supabase
+      .from('posts')
+      .select('id, user_id, image_url, title, description, medium, dimensions, time_spent_minutes, tags, is_expired')
+      .eq('id', requestBody.post_id)
+      .single();
+
+    if (postError || !post) {
+      console.log('❌ Post Feedback Function - Post not found:', postError?.message);
+      throw new EdgeFunctionError('NOT_FOUND', 'Post not found');
+    }
+
+    if (post.user_id !== callerId) {
+      console.log('❌ Post Feedback Function - Caller does not own post');
+      throw new EdgeFunctionError('FORBIDDEN', 'Only the artist can request a critique');
+    }
+
+    if (post.is_expired) {
+      throw new EdgeFunctionError('INVALID_INPUT', 'Cannot request a critique on an expired post');
+    }
+
+    // Step 4: Reuse completed or in-flight feedback, otherwise create or claim a pending row
+    const { data: existing } = await supabase
+      .from('ai_feedback')
+      .select('*')
+      .eq('post_id', post.id)
+      .maybeSingle();
+
+    if (existing && !isRetryable(existing as AIFeedbackRow)) {
+      console.log('ℹ️ Post Feedback Function - Returning existing feedback with status:', existing.feedback_status);
+      return jsonResponse({ success: true, feedback: existing as AIFeedbackRow }, 200);
+    }
+
+    if (existing) {
+      console.log('🔁 Post Feedback Function - Retrying feedback with status:', existing.feedback_status);
+    }
+
+    const pending = await claimFeedback(post.id, post.user_id, (existing as AIFeedbackRow) || null);
+
+    if (!pending) {
+      // Another request got there first; return the row it is working on
+      console.log('ℹ️ Post Feedback Function - Feedback already claimed by another request');
+      const { data: current, error: currentError } = await supabase
+        .from('ai_feedback')
+        .select('*')
+        .eq('post_id', post.id)
+        .single();
+
+      if (currentError || !current) {
+        throw new Error(`Failed to load feedback request: ${currentError?.message}`);
+      }
+      return jsonResponse({ success: true, feedback: current as AIFeedbackRow }, 200);
+    }
+
+    feedbackId = pending.id;
+    console.log('📝 Post Feedback Function - Feedback row pending:', feedbackId);
+
+    // Step 5: Run the critique
+    await updateFeedback(feedbackId, { feedback_status: 'processing' });
+    const critiqueStart = Date.now();
+    const critique = await generateCritique(post.image_url, post);
+
+    // Step 6: Persist the completed critique
+    const completed = await updateFeedback(feedbackId, {
+      feedback_text: critique,
+      feedback_status: 'completed',
+      processing_time_ms: Date.now() - critiqueStart,
+      ai_model: llm.chatModel,
+    });
+
+    const processingTime = Date.now() - startTime;
+    console.log('✅ Post Feedback Function - Critique completed in', processingTime, 'ms');
+
+    return jsonResponse({ success: true, feedback: completed, processing_time_ms: processingTime }, 200);
+
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+    const { message: errorMessage, code, status } = toEdgeFunctionError(error);
+    console.error('❌ Post Feedback Function - Request failed after', processingTime, 'ms:', error);
+
+    // Mark the row as failed so the owner can retry
+    if (feedbackId) {
+      try {
+        await updateFeedback(feedbackId, {
+          feedback_status: 'failed',
+          processing_time_ms: processingTime,
+          error_message: errorMessage,
+        });
+      } catch (updateError) {
+        console.error('❌ Post Feedback Function - Could not mark feedback as failed:', updateError);
+      }
+    }
+
+    return jsonResponse({ success: false, error: errorMessage, error_code: code, processing_time_ms: processingTime }, status);
+  }
+});
@@ -2,34 +2,99 @@
  * Solo AI Tutor Edge Function
  * 
  * This Supabase Edge Function implements the complete RAG (Retrieval-Augmented Generation) logic
- * for the Solo AI Tutor feature. It combines vector similarity search with OpenAI's GPT-4o
- * for intelligent, context-aware art tutoring conversations.
+ * for the Solo AI Tutor feature. It combines vector similarity search with a configurable chat
+ * model (OpenAI's GPT-4o by default) for intelligent, context-aware art tutoring conversations.
  * 
  * Features:
- * - OpenAI text-embedding-3-large for generating embeddings (3072 dimensions)
+ * - Pluggable LLM provider (OpenAI, OpenAI-compatible local servers, offline mock)
+ * - text-embedding-3-large embeddings by default (3072 dimensions)
  * - Vector similarity search using pgvector for long-term memory
  * - Recent conversation context for short-term memory
- * - GPT-4o multimodal API for text and image analysis
+ * - Rolling per-chat summary of the messages that have left the recent window, refreshed every
+ *   few messages and used in place of those raw messages in the context
+ * - Automatic short title for untitled chats after their first exchange
+ * - GPT-4o multimodal API by default for text and image analysis
  * - Dual message persistence with automatic embedding generation
+ * - Optional NDJSON streaming mode that forwards tokens as they arrive
+ * - Idempotent retries: a repeated client_message_id replays the saved exchange
+ * - Caller identity from the Authorization JWT; the chat must belong to the caller before any
+ *   messages or memories are read or written (typed 401/403 errors otherwise)
+ * - Payload validation (UUIDs, message length, image URL host) and a stable `error_code` on
+ *   every error, in JSON bodies and stream error events
+ * - Per-user burst limit and daily/monthly message quotas (RATE_LIMITED with retry_after_seconds),
+ *   and a usage ledger row per request with its tokens, models and estimated cost
  * - Comprehensive error handling and logging
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.0';
+import { EdgeFunctionError, toEdgeFunctionError, type EdgeErrorCode, type EdgeErrorDetails } from '../_shared/errors.ts';
+import { summarizeUsage } from '../_shared/llmPricing.ts';
+import {
+  createLLMProviderFromEnv,
+  type LLMChatMessage,
+  type LLMUsage,
+  type LLMUsageCallback,
+} from '../_shared/llmProvider.ts';
+import { parsePayload, type PayloadSchema } from '../_shared/validation.ts';
+
+// Longest user message accepted (matches MAX_SOLO_MESSAGE_LENGTH in the app)
+const MAX_MESSAGE_LENGTH = 4000;
+
+// Messages sent to the model verbatim as the recent conversation
+const RECENT_CONVERSATION_LIMIT = 6;
+
+// Fold messages that have left the recent window into the chat summary once this many are waiting
+const SUMMARY_REFRESH_INTERVAL = 10;
+
+// Title the app gives the default chat (getOrCreateDefaultChat) - treated as untitled
+const DEFAULT_CHAT_TITLE = 'Chat with Canvas';
+const MAX_CHAT_TITLE_LENGTH = 80;
 
 // Types for the request and response
 interface SoloAIRequest {
   chat_id: string;
   user_message: string;
   image_url?: string;
-  user_id: string;
+  user_id?: string; // Optional; must match the authenticated caller when sent
+  stream?: boolean; // Forward tokens as NDJSON events instead of a single JSON body
+  client_message_id?: string; // Idempotency key from the app's offline outbox
 }
 
+const SOLO_AI_REQUEST_SCHEMA: PayloadSchema = {
+  chat_id: { type: 'uuid', required: true },
+  user_message: { type: 'string', required: true, maxLength: MAX_MESSAGE_LENGTH },
+  image_url: { type: 'imageUrl' },
+  user_id: { type: 'uuid' },
+  stream: { type: 'boolean' },
+  client_message_id: { type: 'uuid' },
+};
+
+/**
+ * Events written to the response body in streaming mode, one JSON object per line
+ */
+type SoloAIStreamEvent =
+  | { type: 'start'; user_message_id: string; user_message_created_at: string }
+  | { type: 'token'; delta: string }
+  | {
+      type: 'done';
+      ai_response: string;
+      ai_message_id: string;
+      ai_message_created_at: string;
+      chat_title?: string; // Set when this exchange gave the chat its automatic title
+      processing_time_ms: number;
+    }
+  | { type: 'error'; error: string; error_code: EdgeErrorCode; processing_time_ms: number };
+
 interface SoloAIResponse {
   success: boolean;
   ai_response?: string;
   user_message_id?: string;
   ai_message_id?: string;
+  chat_title?: string; // Set when this exchange gave the chat its automatic title
   error?: string;
+  error_code?: EdgeErrorCode;
+  limit?: EdgeErrorDetails['limit']; // RATE_LIMITED only
+  retry_after_seconds?: number; // RATE_LIMITED only
   processing_time_ms?: number;
   rag_details?: {
     relevant_history_count: number;
@@ -37,6 +102,7 @@ interface SoloAIResponse {
     similarity_threshold: number;
     context_used: boolean;
     context_type: string;
+    summary_used: boolean;
     relevant_messages?: Array<{
       id: string;
       content: string;
@@ -69,73 +135,207 @@ interface DatabaseMessage {
   similarity?: number;
 }
 
-interface OpenAIEmbeddingResponse {
-  data: Array<{
-    embedding: number[];
-  }>;
+interface SavedMessage {
+  id: string;
+  created_at: string;
 }
 
-interface OpenAIChatResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
+/**
+ * The chat being answered, with the memory fields kept up to date by this function
+ */
+interface SoloChatRecord {
+  id: string;
+  user_id: string;
+  title: string | null;
+  summary: string | null;
+  summary_message_count: number;
+  summary_covers_until: string | null;
+  title_generated_at: string | null;
 }
 
+/**
+ * Messages already saved for an idempotency key by an earlier attempt
+ */
+interface SavedExchange {
+  userMessage?: SavedMessage;
+  aiMessage?: SavedMessage & { content: string };
+}
+
+/**
+ * The ai_usage row reserved for a request, and the provider calls made for it so far
+ */
+interface UsageEntry {
+  id: string;
+  calls: LLMUsage[];
+}
+
+/**
+ * Row returned by reserve_ai_usage
+ */
+interface UsageReservation {
+  allowed: boolean;
+  usage_id: string | null;
+  reason: 'ok' | 'burst' | 'daily' | 'monthly';
+  retry_after_seconds: number;
+}
+
+const RATE_LIMIT_MESSAGES: Record<Exclude<UsageReservation['reason'], 'ok'>, string> = {
+  burst: 'Too many messages in a short time',
+  daily: 'Daily message quota reached',
+  monthly: 'Monthly message quota reached',
+};
+
 // Initialize Supabase client with service role for database operations
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const openaiApiKey = Deno.env.get('OPENAI_API_KEY')!;
 
 console.log('🚀 Solo AI Function - Initializing with environment variables');
 console.log('📍 Supabase URL:', supabaseUrl ? 'Set ✓' : 'Missing ❌');
 console.log('🔑 Service Key:', supabaseServiceKey ? 'Set ✓' : 'Missing ❌');
-console.log('🤖 OpenAI Key:', openaiApiKey ? 'Set ✓' : 'Missing ❌');
 
-if (!supabaseUrl || !supabaseServiceKey || !openaiApiKey) {
-  throw new Error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, OPENAI_API_KEY');
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('Missing required environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY');
 }
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+// LLM provider (chat + embeddings) chosen by LLM_PROVIDER
+const llm = createLLMProviderFromEnv();
+console.log('🤖 LLM Provider:', llm.name, '| chat:', llm.chatModel, '| embeddings:', llm.embeddingModel, `(${llm.embeddingDimensions} dims)`);
+
 /**
- * Generate text embedding using OpenAI text-embedding-3-large model
+ * Build a JSON response with CORS headers
  */
-async function generateEmbedding(text: string): Promise<number[]> {
-  console.log('📊 Solo AI Function - Generating embedding for text length:', text.length);
-  console.log('🔄 Solo AI Function - Using text-embedding-3-large model (3072 dimensions)');
-  
-  try {
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-large',
-        input: text,
-        encoding_format: 'float',
-      }),
+function jsonResponse(body: SoloAIResponse, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+/**
+ * Build the JSON body for a failed request
+ */
+function errorResponse(error: EdgeFunctionError, processingTime?: number): Response {
+  return jsonResponse({
+    success: false,
+    error: error.message,
+    error_code: error.code,
+    ...error.details,
+    processing_time_ms: processingTime,
+  }, error.status);
+}
+
+/**
+ * Resolve the calling user from the Authorization header
+ */
+async function getCallerId(req: Request): Promise<string | null> {
+  const authHeader = req.headers.get('Authorization') || '';
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    console.log('❌ Solo AI Function - Invalid auth token:', error?.message);
+    return null;
+  }
+
+  return data.user.id;
+}
+
+/**
+ * Load the chat if it exists and belongs to the user
+ */
+async function getOwnedChat(chatId: string, userId: string): Promise<SoloChatRecord | null> {
+  const { data: chat, error } = await supabase
+    .from('solo_ai_chats')
+    .select('id, user_id, title, summary, summary_message_count, summary_covers_until, title_generated_at')
+    .eq('id', chatId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load chat: ${error.message}`);
+  }
+
+  return chat && chat.user_id === userId ? chat as SoloChatRecord : null;
+}
+
+/**
+ * Check the caller's burst limit and quotas, and reserve a ledger row for this request
+ * Throws RATE_LIMITED (with the limit hit and when it frees up) when the request may not go ahead
+ */
+async function reserveUsage(userId: string, chatId: string): Promise<UsageEntry> {
+  const { data, error } = await supabase
+    .rpc('reserve_ai_usage', { target_user_id: userId, target_chat_id: chatId })
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to check usage limits: ${error?.message ?? 'No result'}`);
+  }
+
+  const reservation = data as UsageReservation;
+  if (!reservation.allowed || !reservation.usage_id) {
+    const limit = reservation.reason === 'ok' ? 'burst' : reservation.reason;
+    console.log('🚦 Solo AI Function - Rate limited:', limit, '| retry after', reservation.retry_after_seconds, 's');
+    throw new EdgeFunctionError('RATE_LIMITED', RATE_LIMIT_MESSAGES[limit], {
+      limit,
+      retry_after_seconds: reservation.retry_after_seconds,
     });
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Solo AI Function - OpenAI embedding error:', response.status, errorText);
-      throw new Error(`OpenAI embedding API error: ${response.status}`);
-    }
+  console.log('🎫 Solo AI Function - Reserved usage row:', reservation.usage_id);
+  return { id: reservation.usage_id, calls: [] };
+}
+
+/**
+ * Collect the provider usage reported for a request
+ */
+function trackUsage(usage: UsageEntry): LLMUsageCallback {
+  return (call) => {
+    usage.calls.push(call);
+  };
+}
+
+/**
+ * Write the request's tokens, models and cost to its ledger row
+ * Failed requests keep the tokens they used but stop counting toward the quotas.
+ * Never throws: a ledger write must not fail the student's request.
+ */
+async function recordUsage(usage: UsageEntry, status: 'completed' | 'failed'): Promise<void> {
+  const totals = summarizeUsage(usage.calls);
+  console.log('📈 Solo AI Function - Recording usage:', status, '|', totals.prompt_tokens + totals.completion_tokens + totals.embedding_tokens, 'tokens | $', totals.cost_usd);
+
+  const { error } = await supabase
+    .from('ai_usage')
+    .update({ ...totals, status, completed_at: new Date().toISOString() })
+    .eq('id', usage.id);
+
+  if (error) {
+    console.error('❌ Solo AI Function - Failed to record usage:', error);
+  }
+}
 
-    const data: OpenAIEmbeddingResponse = await response.json();
-    const embedding = data.data[0].embedding;
+/**
+ * Generate text embedding with the configured provider (text-embedding-3-large by default)
+ */
+async function generateEmbedding(text: string, onUsage?: LLMUsageCallback): Promise<number[]> {
+  console.log('📊 Solo AI Function - Generating embedding for text length:', text.length);
+  console.log('🔄 Solo AI Function - Using', llm.embeddingModel, `(${llm.embeddingDimensions} dimensions)`);
+  
+  try {
+    const embedding = await llm.embed(text, onUsage);
     
     console.log('✅ Solo AI Function - Generated embedding with dimension:', embedding.length);
-    if (embedding.length !== 3072) {
-      console.warn('⚠️ Solo AI Function - Unexpected embedding dimension:', embedding.length, 'expected 3072');
+    if (embedding.length !== llm.embeddingDimensions) {
+      console.warn('⚠️ Solo AI Function - Unexpected embedding dimension:', embedding.length, 'expected', llm.embeddingDimensions);
     }
     return embedding;
   } catch (error) {
     console.error('❌ Solo AI Function - Embedding generation failed:', error);
+    if (error instanceof EdgeFunctionError) throw error;
     throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -277,7 +477,10 @@ async function searchRelevantHistory(
 /**
  * Fetch recent conversation messages for short-term memory
  */
-async function getRecentConversation(chatId: string, limit: number = 6): Promise<DatabaseMessage[]> {
+async function getRecentConversation(
+  chatId: string,
+  limit: number = RECENT_CONVERSATION_LIMIT
+): Promise<DatabaseMessage[]> {
   console.log('💬 Solo AI Function - Fetching recent conversation for chat:', chatId);
   
   try {
@@ -350,93 +553,279 @@ Context Usage Priority:
 Remember: You're not just an art tutor - you're THIS student's personal art mentor who remembers every conversation, celebrates their growth, and builds upon their unique learning journey.`;
 
 /**
- * Generate AI response using OpenAI GPT-4o with context
+ * Build the chat messages (system prompt with RAG context + user turn)
+ */
+function buildChatMessages(
+  userMessage: string,
+  imageUrl: string | undefined,
+  relevantHistory: DatabaseMessage[],
+  recentConversation: DatabaseMessage[],
+  chatSummary: string | null
+): LLMChatMessage[] {
+  // Construct context from relevant history
+  let contextPrompt = '';
+  
+  if (relevantHistory.length > 0) {
+    contextPrompt += '\n\n=== RELEVANT CONVERSATION HISTORY ===';
+    contextPrompt += '\nThese are semantically similar conversations from your past with this student. Reference and build upon these when relevant:\n';
+    relevantHistory.forEach((msg) => {
+      const timestamp = new Date(msg.created_at).toLocaleDateString();
+      contextPrompt += `[${timestamp}] ${msg.role === 'user' ? 'Student' : 'Canvas'}: ${msg.content}\n`;
+    });
+    contextPrompt += '\n';
+  }
+
+  // Summary of this chat's older messages (they are no longer sent verbatim)
+  if (chatSummary) {
+    contextPrompt += '\n=== EARLIER IN THIS CHAT (SUMMARY) ===';
+    contextPrompt += '\nThis summarizes the part of this conversation that came before the recent exchanges below:\n';
+    contextPrompt += `${chatSummary}\n\n`;
+  }
+
+  // Add recent conversation for immediate context
+  if (recentConversation.length > 0) {
+    contextPrompt += '\n=== RECENT CONVERSATION CONTEXT ===';
+    contextPrompt += '\nThis is the immediate conversation flow. Maintain continuity with these recent exchanges:\n';
+    recentConversation.forEach((msg) => {
+      const timestamp = new Date(msg.created_at).toLocaleTimeString();
+      contextPrompt += `[${timestamp}] ${msg.role === 'user' ? 'Student' : 'Canvas'}: ${msg.content}\n`;
+    });
+    contextPrompt += '\n';
+  }
+
+  if (relevantHistory.length > 0 || recentConversation.length > 0 || chatSummary) {
+    contextPrompt += '=== INSTRUCTION ===\nYou MUST reference and build upon the above context in your response. Show that you remember and are continuing the student\'s learning journey.\n';
+  }
+
+  // Prepare messages in OpenAI chat format
+  return [
+    {
+      role: 'system',
+      content: CANVAS_SYSTEM_PROMPT + contextPrompt
+    },
+    {
+      role: 'user',
+      content: imageUrl ? [
+        { type: 'text', text: userMessage },
+        { type: 'image_url', image_url: { url: imageUrl } }
+      ] : userMessage
+    }
+  ];
+}
+
+/**
+ * Generate AI response with the configured chat model (GPT-4o by default) and context
  */
 async function generateAIResponse(
   userMessage: string,
   imageUrl: string | undefined,
   relevantHistory: DatabaseMessage[],
-  recentConversation: DatabaseMessage[]
+  recentConversation: DatabaseMessage[],
+  chatSummary: string | null,
+  onUsage?: LLMUsageCallback
 ): Promise<string> {
   console.log('🤖 Solo AI Function - Generating AI response');
   console.log('📝 Solo AI Function - User message length:', userMessage.length);
   console.log('🖼️ Solo AI Function - Has image:', !!imageUrl);
   console.log('📚 Solo AI Function - Relevant history count:', relevantHistory.length);
   console.log('💬 Solo AI Function - Recent conversation count:', recentConversation.length);
+  console.log('🗂️ Solo AI Function - Has chat summary:', !!chatSummary);
 
   try {
-    // Construct context from relevant history
-    let contextPrompt = '';
+    const messages = buildChatMessages(userMessage, imageUrl, relevantHistory, recentConversation, chatSummary);
+    const aiResponse = await llm.chat(messages, { maxTokens: 500, temperature: 0.8, onUsage });
     
-    if (relevantHistory.length > 0) {
-      contextPrompt += '\n\n=== RELEVANT CONVERSATION HISTORY ===';
-      contextPrompt += '\nThese are semantically similar conversations from your past with this student. Reference and build upon these when relevant:\n';
-      relevantHistory.forEach((msg, index) => {
-        const timestamp = new Date(msg.created_at).toLocaleDateString();
-        contextPrompt += `[${timestamp}] ${msg.role === 'user' ? 'Student' : 'Canvas'}: ${msg.content}\n`;
-      });
-      contextPrompt += '\n';
-    }
+    console.log('✅ Solo AI Function - Generated AI response length:', aiResponse.length);
+    return aiResponse;
+  } catch (error) {
+    console.error('❌ Solo AI Function - AI response generation failed:', error);
+    if (error instanceof EdgeFunctionError) throw error;
+    throw new Error(`Failed to generate AI response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-    // Add recent conversation for immediate context
-    if (recentConversation.length > 0) {
-      contextPrompt += '\n=== RECENT CONVERSATION CONTEXT ===';
-      contextPrompt += '\nThis is the immediate conversation flow. Maintain continuity with these recent exchanges:\n';
-      recentConversation.forEach((msg, index) => {
-        const timestamp = new Date(msg.created_at).toLocaleTimeString();
-        contextPrompt += `[${timestamp}] ${msg.role === 'user' ? 'Student' : 'Canvas'}: ${msg.content}\n`;
-      });
-      contextPrompt += '\n';
-    }
+/**
+ * Stream AI response from the configured chat model, invoking onToken for every content delta
+ * Returns the full concatenated response once the upstream stream completes
+ */
+async function streamAIResponse(
+  userMessage: string,
+  imageUrl: string | undefined,
+  relevantHistory: DatabaseMessage[],
+  recentConversation: DatabaseMessage[],
+  chatSummary: string | null,
+  onToken: (delta: string) => void,
+  onUsage?: LLMUsageCallback
+): Promise<string> {
+  console.log('🌊 Solo AI Function - Streaming AI response');
+  console.log('📝 Solo AI Function - User message length:', userMessage.length);
+  console.log('🖼️ Solo AI Function - Has image:', !!imageUrl);
 
-    if (relevantHistory.length > 0 || recentConversation.length > 0) {
-      contextPrompt += '=== INSTRUCTION ===\nYou MUST reference and build upon the above context in your response. Show that you remember and are continuing the student\'s learning journey.\n';
-    }
+  try {
+    const messages = buildChatMessages(userMessage, imageUrl, relevantHistory, recentConversation, chatSummary);
+    const aiResponse = await llm.chatStream(messages, { maxTokens: 500, temperature: 0.8, onUsage }, onToken);
 
-    // Prepare messages for OpenAI
-    const messages = [
-      {
-        role: 'system',
-        content: CANVAS_SYSTEM_PROMPT + contextPrompt
-      },
-      {
-        role: 'user',
-        content: imageUrl ? [
-          { type: 'text', text: userMessage },
-          { type: 'image_url', image_url: { url: imageUrl } }
-        ] : userMessage
-      }
-    ];
+    console.log('✅ Solo AI Function - Streamed AI response length:', aiResponse.length);
+    return aiResponse;
+  } catch (error) {
+    console.error('❌ Solo AI Function - AI response streaming failed:', error);
+    if (error instanceof EdgeFunctionError) throw error;
+    throw new Error(`Failed to stream AI response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages,
-        max_tokens: 500,
-        temperature: 0.8,
-      }),
-    });
+/**
+ * Prompts for chat upkeep (titles and rolling summaries)
+ */
+const CHAT_TITLE_PROMPT = `Write a short title (2 to 6 words) for this art tutoring conversation between a student and Canvas, their AI art tutor. Name the artwork, technique or question it is about. Reply with the title only - no quotes and no final punctuation.`;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Solo AI Function - OpenAI chat error:', response.status, errorText);
-      throw new Error(`OpenAI chat API error: ${response.status}`);
-    }
+const CHAT_SUMMARY_PROMPT = `You keep a running summary of an art tutoring conversation between a student and Canvas, their AI art tutor. Update the current summary with the new messages. Keep what the student is working on, their goals, recurring difficulties, the advice Canvas gave and the progress they made; drop small talk. Write plain prose, at most 150 words, in the third person ("The student...").`;
 
-    const data: OpenAIChatResponse = await response.json();
-    const aiResponse = data.choices[0].message.content;
-    
-    console.log('✅ Solo AI Function - Generated AI response length:', aiResponse.length);
-    return aiResponse;
-  } catch (error) {
-    console.error('❌ Solo AI Function - AI response generation failed:', error);
-    throw new Error(`Failed to generate AI response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+/**
+ * Format messages as a plain transcript for the upkeep prompts
+ */
+function formatTranscript(messages: Pick<DatabaseMessage, 'role' | 'content'>[]): string {
+  return messages
+    .map(msg => `${msg.role === 'user' ? 'Student' : 'Canvas'}: ${msg.content}`)
+    .join('\n');
+}
+
+/**
+ * Drop this chat's messages that the chat summary already covers
+ * (messages from the student's other chats stay as long-term memory)
+ */
+function withoutSummarizedMessages(messages: DatabaseMessage[], chat: SoloChatRecord): DatabaseMessage[] {
+  if (!chat.summary || !chat.summary_covers_until) return messages;
+
+  const coveredUntil = new Date(chat.summary_covers_until).getTime();
+  return messages.filter(msg =>
+    msg.chat_id !== chat.id || new Date(msg.created_at).getTime() > coveredUntil
+  );
+}
+
+/**
+ * Give an untitled chat a short title based on its first exchange
+ * Returns the new title, or undefined when the chat already has one
+ */
+async function generateChatTitle(
+  chat: SoloChatRecord,
+  userMessage: string,
+  aiResponse: string,
+  onUsage?: LLMUsageCallback
+): Promise<string | undefined> {
+  const isUntitled = !chat.title?.trim() || chat.title === DEFAULT_CHAT_TITLE;
+  if (!isUntitled || chat.title_generated_at) return undefined;
+
+  console.log('🏷️ Solo AI Function - Generating title for chat:', chat.id);
+  const rawTitle = await llm.chat([
+    { role: 'system', content: CHAT_TITLE_PROMPT },
+    { role: 'user', content: formatTranscript([{ role: 'user', content: userMessage }, { role: 'assistant', content: aiResponse }]) },
+  ], { maxTokens: 20, temperature: 0.5, onUsage });
+
+  const title = rawTitle.trim().replace(/^["'“”]+|["'“”.!]+$/g, '').slice(0, MAX_CHAT_TITLE_LENGTH).trim();
+  if (!title) return undefined;
+
+  // Only if the student hasn't named the chat in the meantime
+  const { data, error } = await supabase
+    .from('solo_ai_chats')
+    .update({ title, title_generated_at: new Date().toISOString() })
+    .eq('id', chat.id)
+    .is('title_generated_at', null)
+    .or(`title.is.null,title.eq."${DEFAULT_CHAT_TITLE}",title.eq.""`)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to save chat title: ${error.message}`);
   }
+  if (!data?.length) return undefined;
+
+  console.log('✅ Solo AI Function - Chat titled:', title);
+  return title;
+}
+
+/**
+ * Fold messages that have left the recent window into the chat's rolling summary,
+ * once at least SUMMARY_REFRESH_INTERVAL of them are waiting
+ */
+async function refreshChatSummary(chat: SoloChatRecord, onUsage?: LLMUsageCallback): Promise<void> {
+  const { count, error: countError } = await supabase
+    .from('solo_ai_messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('chat_id', chat.id);
+
+  if (countError) {
+    throw new Error(`Failed to count chat messages: ${countError.message}`);
+  }
+
+  const outsideWindow = (count ?? 0) - RECENT_CONVERSATION_LIMIT;
+  const waiting = outsideWindow - chat.summary_message_count;
+  if (waiting < SUMMARY_REFRESH_INTERVAL) return;
+
+  console.log('🗂️ Solo AI Function - Folding', waiting, 'messages into the summary of chat:', chat.id);
+  let query = supabase
+    .from('solo_ai_messages')
+    .select('role, content, created_at')
+    .eq('chat_id', chat.id)
+    .order('created_at', { ascending: true })
+    .limit(waiting);
+  if (chat.summary_covers_until) {
+    query = query.gt('created_at', chat.summary_covers_until);
+  }
+
+  const { data: newMessages, error: messagesError } = await query;
+  if (messagesError || !newMessages?.length) {
+    throw new Error(`Failed to load messages to summarize: ${messagesError?.message ?? 'No messages'}`);
+  }
+
+  const summary = await llm.chat([
+    { role: 'system', content: CHAT_SUMMARY_PROMPT },
+    {
+      role: 'user',
+      content: `Current summary:\n${chat.summary || '(none yet)'}\n\nNew messages:\n${formatTranscript(newMessages)}`,
+    },
+  ], { maxTokens: 300, temperature: 0.3, onUsage });
+
+  const { error: updateError } = await supabase
+    .from('solo_ai_chats')
+    .update({
+      summary: summary.trim(),
+      summary_message_count: chat.summary_message_count + newMessages.length,
+      summary_covers_until: newMessages[newMessages.length - 1].created_at,
+      summary_updated_at: new Date().toISOString(),
+    })
+    .eq('id', chat.id);
+
+  if (updateError) {
+    throw new Error(`Failed to save chat summary: ${updateError.message}`);
+  }
+
+  console.log('✅ Solo AI Function - Chat summary refreshed, now covering', chat.summary_message_count + newMessages.length, 'messages');
+}
+
+/**
+ * Keep the chat's title and summary up to date after an exchange
+ * Never throws: chat upkeep must not fail the student's request.
+ * Returns the chat's new title when this exchange gave it one.
+ */
+async function updateChatMemory(
+  chat: SoloChatRecord,
+  userMessage: string,
+  aiResponse: string,
+  onUsage?: LLMUsageCallback
+): Promise<string | undefined> {
+  const [titleResult, summaryResult] = await Promise.allSettled([
+    generateChatTitle(chat, userMessage, aiResponse, onUsage),
+    refreshChatSummary(chat, onUsage),
+  ]);
+
+  if (titleResult.status === 'rejected') {
+    console.error('❌ Solo AI Function - Chat title generation failed:', titleResult.reason);
+  }
+  if (summaryResult.status === 'rejected') {
+    console.error('❌ Solo AI Function - Chat summary refresh failed:', summaryResult.reason);
+  }
+
+  return titleResult.status === 'fulfilled' ? titleResult.value : undefined;
 }
 
 /**
@@ -446,13 +835,16 @@ async function saveMessage(
   chatId: string,
   role: 'user' | 'assistant',
   content: string,
-  imageUrl?: string
-): Promise<string> {
+  imageUrl?: string,
+  precomputedEmbedding?: number[],
+  clientMessageId?: string,
+  onUsage?: LLMUsageCallback
+): Promise<SavedMessage> {
   console.log('💾 Solo AI Function - Saving', role, 'message to database');
   
   try {
-    // Generate embedding for the message content
-    const embedding = await generateEmbedding(content);
+    // Generate embedding for the message content (reuse the query embedding when we already have it)
+    const embedding = precomputedEmbedding ?? await generateEmbedding(content, onUsage);
     
     // Insert message into database
     const { data, error } = await supabase
@@ -462,24 +854,243 @@ async function saveMessage(
         role,
         content,
         image_url: imageUrl,
-        embedding
+        embedding,
+        client_message_id: clientMessageId ?? null
       })
-      .select('id')
+      .select('id, created_at')
       .single();
 
+    // A concurrent retry with the same idempotency key saved this message first
+    if (error?.code === '23505' && clientMessageId) {
+      console.log('🔁 Solo AI Function -', role, 'message already saved for client message ID:', clientMessageId);
+      const { data: existing, error: existingError } = await supabase
+        .from('solo_ai_messages')
+        .select('id, created_at')
+        .eq('chat_id', chatId)
+        .eq('client_message_id', clientMessageId)
+        .eq('role', role)
+        .single();
+
+      if (existingError) {
+        throw new Error(`Failed to load existing message: ${existingError.message}`);
+      }
+
+      return existing as SavedMessage;
+    }
+
     if (error) {
       console.error('❌ Solo AI Function - Message save error:', error);
       throw new Error(`Failed to save message: ${error.message}`);
     }
 
     console.log('✅ Solo AI Function - Saved', role, 'message with ID:', data.id);
-    return data.id;
+    return data as SavedMessage;
   } catch (error) {
     console.error('❌ Solo AI Function - Message save failed:', error);
     throw new Error(`Message save failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Find messages an earlier attempt already saved for this idempotency key
+ */
+async function findSavedExchange(chatId: string, clientMessageId: string): Promise<SavedExchange> {
+  console.log('🔍 Solo AI Function - Checking for saved messages with client message ID:', clientMessageId);
+
+  const { data, error } = await supabase
+    .from('solo_ai_messages')
+    .select('id, role, content, created_at')
+    .eq('chat_id', chatId)
+    .eq('client_message_id', clientMessageId);
+
+  if (error) {
+    console.error('❌ Solo AI Function - Saved exchange lookup error:', error);
+    throw new Error(`Failed to check for saved messages: ${error.message}`);
+  }
+
+  const userMessage = data?.find((message) => message.role === 'user');
+  const aiMessage = data?.find((message) => message.role === 'assistant');
+
+  console.log('📋 Solo AI Function - Saved exchange:', {
+    has_user_message: !!userMessage,
+    has_ai_message: !!aiMessage
+  });
+
+  return {
+    userMessage: userMessage ? { id: userMessage.id, created_at: userMessage.created_at } : undefined,
+    aiMessage: aiMessage
+      ? { id: aiMessage.id, created_at: aiMessage.created_at, content: aiMessage.content }
+      : undefined,
+  };
+}
+
+/**
+ * Replay an exchange that was fully saved by an earlier attempt
+ *
+ * Answers in the same shape as a fresh request (NDJSON or JSON) without calling the model.
+ */
+function createReplayResponse(
+  requestBody: SoloAIRequest,
+  userMessage: SavedMessage,
+  aiMessage: SavedMessage & { content: string },
+  startTime: number
+): Response {
+  const processingTime = Date.now() - startTime;
+  console.log('🔁 Solo AI Function - Replaying saved exchange for client message ID:', requestBody.client_message_id);
+
+  if (requestBody.stream) {
+    const events: SoloAIStreamEvent[] = [
+      { type: 'start', user_message_id: userMessage.id, user_message_created_at: userMessage.created_at },
+      {
+        type: 'done',
+        ai_response: aiMessage.content,
+        ai_message_id: aiMessage.id,
+        ai_message_created_at: aiMessage.created_at,
+        processing_time_ms: processingTime,
+      },
+    ];
+
+    return new Response(events.map((event) => JSON.stringify(event)).join('\n') + '\n', {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  }
+
+  const response: SoloAIResponse = {
+    success: true,
+    ai_response: aiMessage.content,
+    user_message_id: userMessage.id,
+    ai_message_id: aiMessage.id,
+    processing_time_ms: processingTime,
+  };
+
+  return new Response(
+    JSON.stringify(response),
+    {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    }
+  );
+}
+
+/**
+ * Build the NDJSON streaming response
+ *
+ * Persists the user message up front, forwards model tokens as they arrive,
+ * then persists the final assistant message (with embedding) and updates the chat's title and
+ * summary before closing the stream.
+ * The request's usage ledger row is finalized here, since the handler has already returned.
+ */
+function createStreamingResponse(
+  requestBody: SoloAIRequest,
+  chat: SoloChatRecord,
+  queryEmbedding: number[],
+  relevantHistory: DatabaseMessage[],
+  recentConversation: DatabaseMessage[],
+  startTime: number,
+  usage: UsageEntry,
+  savedUserMessage?: SavedMessage
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: SoloAIStreamEvent) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      try {
+        // Step 4: Save user message so the client can render it with its real ID
+        // (a retry reuses the user message an earlier attempt saved)
+        console.log('💾 Solo AI Function - Step 4 (stream): Saving user message');
+        const userMessage = savedUserMessage ?? await saveMessage(
+          requestBody.chat_id,
+          'user',
+          requestBody.user_message,
+          requestBody.image_url,
+          queryEmbedding,
+          requestBody.client_message_id
+        );
+        send({
+          type: 'start',
+          user_message_id: userMessage.id,
+          user_message_created_at: userMessage.created_at,
+        });
+
+        // Step 5: Stream AI response tokens to the client
+        console.log('🌊 Solo AI Function - Step 5 (stream): Streaming AI response');
+        const aiResponse = await streamAIResponse(
+          requestBody.user_message,
+          requestBody.image_url,
+          relevantHistory,
+          recentConversation,
+          chat.summary,
+          (delta) => send({ type: 'token', delta }),
+          trackUsage(usage)
+        );
+
+        // Step 6: Persist the final assistant message with its embedding
+        console.log('💾 Solo AI Function - Step 6 (stream): Saving AI response');
+        const aiMessage = await saveMessage(
+          requestBody.chat_id,
+          'assistant',
+          aiResponse,
+          undefined,
+          undefined,
+          requestBody.client_message_id,
+          trackUsage(usage)
+        );
+
+        // Step 7: Title the chat and refresh its summary
+        console.log('🗂️ Solo AI Function - Step 7 (stream): Updating chat title and summary');
+        const chatTitle = await updateChatMemory(chat, requestBody.user_message, aiResponse, trackUsage(usage));
+        await recordUsage(usage, 'completed');
+
+        const processingTime = Date.now() - startTime;
+        console.log('✅ Solo AI Function - Streamed request completed successfully in', processingTime, 'ms');
+
+        send({
+          type: 'done',
+          ai_response: aiResponse,
+          ai_message_id: aiMessage.id,
+          ai_message_created_at: aiMessage.created_at,
+          chat_title: chatTitle,
+          processing_time_ms: processingTime,
+        });
+      } catch (error) {
+        const processingTime = Date.now() - startTime;
+        console.error('❌ Solo AI Function - Streamed request failed after', processingTime, 'ms:', error);
+        await recordUsage(usage, 'failed');
+        const { message, code } = toEdgeFunctionError(error);
+        send({
+          type: 'error',
+          error: message,
+          error_code: code,
+          processing_time_ms: processingTime,
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
 /**
  * Main Edge Function handler
  */
@@ -501,88 +1112,126 @@ Deno.serve(async (req) => {
 
   if (req.method !== 'POST') {
     console.log('❌ Solo AI Function - Invalid method:', req.method);
-    return new Response(
-      JSON.stringify({ success: false, error: 'Method not allowed' }),
-      { 
-        status: 405,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      }
-    );
+    return errorResponse(new EdgeFunctionError('METHOD_NOT_ALLOWED', 'Method not allowed'));
   }
 
+  // Ledger row for this request, marked failed if anything below throws
+  let usage: UsageEntry | null = null;
+
   try {
-    // Parse request body
-    const requestBody: SoloAIRequest = await req.json();
+    // Authenticate caller: the user comes from the JWT, never from the body
+    const callerId = await getCallerId(req);
+    if (!callerId) {
+      throw new EdgeFunctionError('UNAUTHORIZED', 'Authentication required');
+    }
+
+    // Parse and validate request body
+    const requestBody = await parsePayload<SoloAIRequest>(req, SOLO_AI_REQUEST_SCHEMA);
     console.log('📥 Solo AI Function - Parsed request:', {
       chat_id: requestBody.chat_id,
-      user_id: requestBody.user_id,
-      message_length: requestBody.user_message?.length || 0,
-      has_image: !!requestBody.image_url
+      caller_id: callerId,
+      message_length: requestBody.user_message.length,
+      has_image: !!requestBody.image_url,
+      client_message_id: requestBody.client_message_id || null
     });
 
-    // Validate required fields
-    if (!requestBody.chat_id || !requestBody.user_message || !requestBody.user_id) {
-      console.log('❌ Solo AI Function - Missing required fields');
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: 'Missing required fields: chat_id, user_message, user_id' 
-        }),
-        { 
-          status: 400,
-          headers: { 
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        }
-      );
+    if (requestBody.user_id && requestBody.user_id !== callerId) {
+      console.log('❌ Solo AI Function - user_id does not match caller:', requestBody.user_id, '!==', callerId);
+      throw new EdgeFunctionError('FORBIDDEN', 'user_id does not match the signed-in user');
+    }
+
+    // Verify chat ownership before reading or writing any messages
+    const chat = await getOwnedChat(requestBody.chat_id, callerId);
+    if (!chat) {
+      console.log('❌ Solo AI Function - Chat not owned by caller:', requestBody.chat_id);
+      throw new EdgeFunctionError('FORBIDDEN', 'You do not have access to this chat');
     }
 
+    // Idempotent retries: replay a finished exchange, or reuse an already saved user message
+    const savedExchange: SavedExchange = requestBody.client_message_id
+      ? await findSavedExchange(requestBody.chat_id, requestBody.client_message_id)
+      : {};
+
+    if (savedExchange.userMessage && savedExchange.aiMessage) {
+      return createReplayResponse(requestBody, savedExchange.userMessage, savedExchange.aiMessage, startTime);
+    }
+
+    // Enforce the burst limit and quotas (replays above are free)
+    usage = await reserveUsage(callerId, requestBody.chat_id);
+    const onUsage = trackUsage(usage);
+
     // Step 1: Generate embedding for user's message
     console.log('📊 Solo AI Function - Step 1: Generating query embedding');
-    const queryEmbedding = await generateEmbedding(requestBody.user_message);
+    const queryEmbedding = await generateEmbedding(requestBody.user_message, onUsage);
 
     // Step 2: Search for relevant historical context
     console.log('🔍 Solo AI Function - Step 2: Searching relevant history');
-    const { messages, debugInfo } = await searchRelevantHistory(
+    const { messages: similarMessages, debugInfo } = await searchRelevantHistory(
       queryEmbedding,
       requestBody.chat_id,
-      requestBody.user_id
+      callerId
     );
+    // This chat's older messages are represented by its summary instead
+    const messages = withoutSummarizedMessages(similarMessages, chat);
 
     // Step 3: Get recent conversation context
     console.log('💬 Solo AI Function - Step 3: Fetching recent conversation');
     const recentConversation = await getRecentConversation(requestBody.chat_id);
 
+    // Streaming mode: hand the remaining steps to the NDJSON stream
+    if (requestBody.stream) {
+      console.log('🌊 Solo AI Function - Streaming mode requested');
+      return createStreamingResponse(
+        requestBody,
+        chat,
+        queryEmbedding,
+        messages,
+        recentConversation,
+        startTime,
+        usage,
+        savedExchange.userMessage
+      );
+    }
+
     // Step 4: Generate AI response with context
     console.log('🤖 Solo AI Function - Step 4: Generating AI response');
     const aiResponse = await generateAIResponse(
       requestBody.user_message,
       requestBody.image_url,
       messages,
-      recentConversation
+      recentConversation,
+      chat.summary,
+      onUsage
     );
 
     // Step 5: Save user message
     console.log('💾 Solo AI Function - Step 5: Saving user message');
-    const userMessageId = await saveMessage(
+    const { id: userMessageId } = savedExchange.userMessage ?? await saveMessage(
       requestBody.chat_id,
       'user',
       requestBody.user_message,
-      requestBody.image_url
+      requestBody.image_url,
+      queryEmbedding,
+      requestBody.client_message_id
     );
 
     // Step 6: Save AI response
     console.log('💾 Solo AI Function - Step 6: Saving AI response');
-    const aiMessageId = await saveMessage(
+    const { id: aiMessageId } = await saveMessage(
       requestBody.chat_id,
       'assistant',
-      aiResponse
+      aiResponse,
+      undefined,
+      undefined,
+      requestBody.client_message_id,
+      onUsage
     );
 
+    // Step 7: Title the chat and refresh its summary
+    console.log('🗂️ Solo AI Function - Step 7: Updating chat title and summary');
+    const chatTitle = await updateChatMemory(chat, requestBody.user_message, aiResponse, onUsage);
+    await recordUsage(usage, 'completed');
+
     const processingTime = Date.now() - startTime;
     console.log('✅ Solo AI Function - Request completed successfully in', processingTime, 'ms');
 
@@ -591,13 +1240,15 @@ Deno.serve(async (req) => {
       ai_response: aiResponse,
       user_message_id: userMessageId,
       ai_message_id: aiMessageId,
+      chat_title: chatTitle,
       processing_time_ms: processingTime,
               rag_details: {
           relevant_history_count: messages.length,
           recent_conversation_count: recentConversation.length,
           similarity_threshold: 0.5,
-          context_used: messages.length > 0 || recentConversation.length > 0,
+          context_used: messages.length > 0 || recentConversation.length > 0 || !!chat.summary,
           context_type: messages.length > 0 ? 'RAG with history' : (recentConversation.length > 0 ? 'Recent only' : 'None'),
+          summary_used: !!chat.summary,
           relevant_messages: messages.map((msg: DatabaseMessage) => ({
             id: msg.id,
             content: msg.content,
@@ -605,7 +1256,7 @@ Deno.serve(async (req) => {
             created_at: msg.created_at
           })),
           debug_info: {
-            user_id_received: requestBody.user_id,
+            user_id_received: callerId,
             chat_id_received: requestBody.chat_id,
             query_embedding_dimension: queryEmbedding.length,
             total_messages_searched: debugInfo.totalMessagesSearched,
@@ -615,36 +1266,14 @@ Deno.serve(async (req) => {
         }
     };
 
-    return new Response(
-      JSON.stringify(response),
-      {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      }
-    );
+    return jsonResponse(response, 200);
 
   } catch (error) {
     const processingTime = Date.now() - startTime;
     console.error('❌ Solo AI Function - Request failed after', processingTime, 'ms:', error);
-
-    const errorResponse: SoloAIResponse = {
-      success: false,
-      error: error instanceof Error ? error.message : 'Internal server error',
-      processing_time_ms: processingTime
-    };
-
-    return new Response(
-      JSON.stringify(errorResponse),
-      {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      }
-    );
+    if (usage) {
+      await recordUsage(usage, 'failed');
+    }
+    return errorResponse(toEdgeFunctionError(error), processingTime);
   }
 }); 
\ No newline at end of file
@@ -0,0 +1,40 @@
+-- Enable AI feedback generation for class posts
+-- The generate-post-feedback edge function moves each ai_feedback row through
+-- pending -> processing -> completed/failed, so the row must exist before any text does.
+
+-- Feedback text is only required once the critique has completed
+ALTER TABLE public.ai_feedback
+  ALTER COLUMN feedback_text DROP NOT NULL;
+
+ALTER TABLE public.ai_feedback
+  DROP CONSTRAINT IF EXISTS ai_feedback_text_not_empty;
+
+ALTER TABLE public.ai_feedback
+  ADD CONSTRAINT ai_feedback_text_not_empty CHECK (
+    feedback_status <> 'completed'
+    OR (feedback_text IS NOT NULL AND length(trim(feedback_text)) > 0)
+  );
+
+-- New requests start in the pending state
+ALTER TABLE public.ai_feedback
+  ALTER COLUMN feedback_status SET DEFAULT 'pending';
+
+-- Add an error message column so failed critiques can be surfaced to the post owner
+ALTER TABLE public.ai_feedback
+  ADD COLUMN IF NOT EXISTS error_message TEXT;
+
+-- Only completed feedback counts as "has feedback" for feed badges
+CREATE OR REPLACE FUNCTION public.has_ai_feedback(post_uuid UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  feedback_exists BOOLEAN;
+BEGIN
+  SELECT EXISTS(
+    SELECT 1 FROM public.ai_feedback
+    WHERE post_id = post_uuid
+      AND feedback_status = 'completed'
+  ) INTO feedback_exists;
+
+  RETURN COALESCE(feedback_exists, false);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,99 @@
+-- Class feed aggregation function
+-- Replaces the per-post N+1 queries in classStore.loadClassPosts with a single call that
+-- returns active posts joined with author info, comment count, AI feedback and view status.
+--
+-- Pagination uses a (created_at, id) cursor: pass the oldest post already loaded to get the
+-- next page of older posts. Pages are returned newest first.
+--
+-- View status is always the caller's (auth.uid()), so nobody can look up whether someone else
+-- has seen a post.
+--
+-- SECURITY INVOKER (default) so the posts/comments/post_views/ai_feedback RLS policies still apply.
+
+CREATE OR REPLACE FUNCTION public.get_class_feed(
+  target_class_id UUID,
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  class_id UUID,
+  image_url TEXT,
+  image_path TEXT,
+  frame_style TEXT,
+  title TEXT,
+  description TEXT,
+  max_viewers INTEGER,
+  view_count INTEGER,
+  duration_minutes INTEGER,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_expired BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  username TEXT,
+  avatar_url TEXT,
+  comments_count INTEGER,
+  has_ai_feedback BOOLEAN,
+  user_has_viewed BOOLEAN
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.class_id,
+    p.image_url,
+    p.image_path,
+    p.frame_style,
+    p.title,
+    p.description,
+    p.max_viewers,
+    p.view_count,
+    p.duration_minutes,
+    p.expires_at,
+    p.is_expired,
+    p.created_at,
+    p.updated_at,
+    u.username,
+    u.avatar_url,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM public.comments c
+      WHERE c.post_id = p.id
+    ) AS comments_count,
+    EXISTS (
+      SELECT 1
+      FROM public.ai_feedback af
+      WHERE af.post_id = p.id
+        AND af.feedback_status = 'completed'
+    ) AS has_ai_feedback,
+    EXISTS (
+      SELECT 1
+      FROM public.post_views pv
+      WHERE pv.post_id = p.id
+        AND pv.user_id = auth.uid()
+    ) AS user_has_viewed
+  FROM public.posts p
+  LEFT JOIN public.users u ON u.id = p.user_id
+  WHERE p.class_id = target_class_id
+    AND p.is_expired = false
+    -- Cursor: strictly older than the oldest post the client already has
+    AND (
+      before_created_at IS NULL
+      OR p.created_at < before_created_at
+      OR (before_id IS NOT NULL AND p.created_at = before_created_at AND p.id < before_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+-- Supports the cursor ordering above
+CREATE INDEX IF NOT EXISTS posts_class_feed_cursor_idx
+  ON public.posts(class_id, created_at DESC, id DESC)
+  WHERE is_expired = false;
+
+-- Grant execution permissions
+GRANT EXECUTE ON FUNCTION public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER) TO authenticated;
@@ -0,0 +1,25 @@
+-- Enable Supabase Realtime for the class feed
+-- classStore subscribes to post inserts/updates (filtered by class_id) and comment inserts
+-- so new artwork, view counts, expirations and comment counts update without a refresh.
+-- Realtime respects the existing RLS policies, so members only receive rows they can read.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'posts'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.posts;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
+  END IF;
+END $$;
@@ -0,0 +1,70 @@
+-- Scheduled expiry and storage cleanup for ephemeral posts
+-- pg_cron calls the cleanup-expired-posts edge function every 5 minutes through pg_net.
+-- The function marks expired posts, deletes their images from storage (unless a Juni chat
+-- message or another active post still uses the same file) and reports counts.
+--
+-- The job reads the project URL and service role key from Vault:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+-- Without those secrets it falls back to marking expired posts only.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Track which expired posts have had their storage cleaned up
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS storage_cleaned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS posts_pending_cleanup_idx
+  ON public.posts(expires_at)
+  WHERE is_expired = true AND storage_cleaned_at IS NULL;
+
+-- Invoke the cleanup edge function (returns the pg_net request id)
+CREATE OR REPLACE FUNCTION public.invoke_expired_post_cleanup()
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url TEXT;
+  service_role_key TEXT;
+  request_id BIGINT;
+BEGIN
+  SELECT decrypted_secret INTO project_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO service_role_key
+  FROM vault.decrypted_secrets
+  WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    -- Keep the feed accurate even when the edge function isn't configured
+    PERFORM public.mark_expired_posts();
+    RAISE NOTICE 'Expired post cleanup: Vault secrets missing, marked expired posts only';
+    RETURN NULL;
+  END IF;
+
+  SELECT net.http_post(
+    url := rtrim(project_url, '/') || '/functions/v1/cleanup-expired-posts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  ) INTO request_id;
+
+  RETURN request_id;
+END;
+$$;
+
+-- Only the scheduler should run this
+REVOKE EXECUTE ON FUNCTION public.invoke_expired_post_cleanup() FROM PUBLIC, anon, authenticated;
+
+-- Schedule every 5 minutes (re-scheduling with the same name replaces the job)
+SELECT cron.schedule(
+  'cleanup-expired-posts',
+  '*/5 * * * *',
+  $$SELECT public.invoke_expired_post_cleanup();$$
+);
@@ -0,0 +1,192 @@
+-- Teacher class management
+-- Lets teachers/admins of a class edit its details, regenerate its join code, deactivate it
+-- and view its roster from the app. Students can no longer grant themselves elevated roles,
+-- and only staff can read a class's join code.
+-- Tests: supabase/tests/database/teacher_class_management.test.sql (run with `supabase test db`).
+
+-- ==========================================
+-- HELPER: CLASS STAFF CHECK
+-- ==========================================
+
+-- SECURITY DEFINER so policies on class_members can use it without RLS recursion
+CREATE OR REPLACE FUNCTION public.is_class_staff(class_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.class_members
+    WHERE class_id = class_uuid
+      AND user_id = user_uuid
+      AND role IN ('teacher', 'admin')
+      AND is_active = true
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_class_staff(UUID, UUID) TO authenticated;
+
+-- ==========================================
+-- CLASSES POLICIES
+-- ==========================================
+
+-- Classes are created through create_class, which also adds the creator as teacher; a class
+-- inserted on its own would have no staff, and nobody could ever manage it
+DROP POLICY IF EXISTS "Authenticated users can create classes" ON public.classes;
+
+-- Teachers/admins (not just the creator) manage class details
+DROP POLICY IF EXISTS "Class creators can update their classes" ON public.classes;
+
+CREATE POLICY "Class staff can update their classes" ON public.classes
+FOR UPDATE
+TO authenticated
+USING (public.is_class_staff(id))
+WITH CHECK (public.is_class_staff(id));
+
+-- Staff can still see a class after deactivating it
+CREATE POLICY "Class staff can view their classes" ON public.classes
+FOR SELECT
+TO authenticated
+USING (public.is_class_staff(id));
+
+-- ==========================================
+-- JOIN CODES (STAFF ONLY)
+-- ==========================================
+
+-- Active classes are readable by everyone (including anon), so anyone could read a join code
+-- and regenerating it would lock nobody out. Every other column stays readable (new columns
+-- need adding to this grant); staff read codes through class_join_codes.
+REVOKE SELECT ON public.classes FROM anon, authenticated;
+GRANT SELECT (id, name, description, created_by, is_active, max_students, created_at, updated_at)
+  ON public.classes TO anon, authenticated;
+
+-- Runs with the owner's rights, which it needs to read join_code, and only returns classes the
+-- caller is staff of
+CREATE OR REPLACE VIEW public.class_join_codes AS
+SELECT
+  c.id AS class_id,
+  c.join_code
+FROM public.classes c
+WHERE public.is_class_staff(c.id);
+
+REVOKE ALL ON public.class_join_codes FROM anon;
+GRANT SELECT ON public.class_join_codes TO authenticated;
+
+-- ==========================================
+-- CLASS_MEMBERS POLICIES
+-- ==========================================
+
+-- Staff can see the full roster of their classes
+CREATE POLICY "Class staff can view roster" ON public.class_members
+FOR SELECT
+TO authenticated
+USING (public.is_class_staff(class_id));
+
+-- Users join as students; create_class adds the teacher
+DROP POLICY IF EXISTS "Users can join classes" ON public.class_members;
+
+CREATE POLICY "Users can join classes" ON public.class_members
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND role = 'student'
+);
+
+-- Members may update their own membership (leave/rejoin) but not change their role, and a
+-- membership can never be moved to another class or user (otherwise a teacher row from a
+-- throwaway class could be pointed at someone else's class)
+CREATE OR REPLACE FUNCTION public.prevent_member_role_escalation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.class_id IS DISTINCT FROM OLD.class_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A class membership cannot be moved to another class or user';
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND NOT public.is_class_staff(NEW.class_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only class teachers can change member roles';
+  END IF;
+
+  -- Rejoining needs the join code, so it only happens inside join_class_with_code
+  -- (SECURITY DEFINER, so current_user is the function owner there)
+  IF NEW.is_active AND NOT OLD.is_active AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'Rejoin the class with its join code';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS class_members_prevent_role_escalation ON public.class_members;
+
+CREATE TRIGGER class_members_prevent_role_escalation
+  BEFORE UPDATE ON public.class_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_member_role_escalation();
+
+-- ==========================================
+-- TEACHER ACTIONS
+-- ==========================================
+
+-- Create a class with the caller as its teacher, in one transaction
+-- (a join code is generated by the classes_set_join_code trigger when none is given)
+CREATE OR REPLACE FUNCTION public.create_class(
+  class_name TEXT,
+  class_description TEXT DEFAULT NULL,
+  class_max_students INTEGER DEFAULT 30,
+  class_join_code TEXT DEFAULT NULL
+)
+RETURNS public.classes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_class public.classes;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in to create a class';
+  END IF;
+
+  INSERT INTO public.classes (name, description, max_students, join_code, created_by)
+  VALUES (class_name, class_description, COALESCE(class_max_students, 30), class_join_code, auth.uid())
+  RETURNING * INTO new_class;
+
+  INSERT INTO public.class_members (class_id, user_id, role, is_active)
+  VALUES (new_class.id, auth.uid(), 'teacher', true);
+
+  RETURN new_class;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_class(TEXT, TEXT, INTEGER, TEXT) TO authenticated;
+
+-- Replace a class's join code with a new unique one
+CREATE OR REPLACE FUNCTION public.regenerate_class_join_code(target_class_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_code TEXT;
+BEGIN
+  IF NOT public.is_class_staff(target_class_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only class teachers can regenerate the join code';
+  END IF;
+
+  new_code := public.generate_join_code();
+
+  UPDATE public.classes
+  SET join_code = new_code, updated_at = NOW()
+  WHERE id = target_class_id;
+
+  RETURN new_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.regenerate_class_join_code(UUID) TO authenticated;
@@ -0,0 +1,233 @@
+-- Enforce class membership in feed RLS policies
+-- The original posts/comments policies let any authenticated user read or write any active
+-- class ("membership validation happens at the application level"). This migration moves the
+-- membership check into the database for posts, comments, post_views and ai_feedback.
+-- Classmates can read completed critiques, so only the generate-post-feedback edge function
+-- (service role) may write ai_feedback; otherwise a student could post their own "Juni" critique.
+--
+-- Membership itself can only be gained with the class's join code: joins go through the
+-- join_class_with_code function instead of direct inserts into class_members.
+--
+-- The helpers are SECURITY DEFINER so policies can consult class_members/posts without
+-- triggering those tables' own RLS (which is what caused the earlier recursion issues).
+-- Tests: supabase/tests/database/class_membership_rls.test.sql (run with `supabase test db`).
+
+-- ==========================================
+-- HELPERS
+-- ==========================================
+
+-- Is the user an active member of an active class?
+CREATE OR REPLACE FUNCTION public.is_class_member(class_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.class_members cm
+    JOIN public.classes c ON c.id = cm.class_id
+    WHERE cm.class_id = class_uuid
+      AND cm.user_id = user_uuid
+      AND cm.is_active = true
+      AND c.is_active = true
+  );
+$$;
+
+-- Is the user a member of the class an active (non-expired) post belongs to?
+CREATE OR REPLACE FUNCTION public.is_post_class_member(post_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.posts p
+    WHERE p.id = post_uuid
+      AND p.is_expired = false
+      AND public.is_class_member(p.class_id, user_uuid)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_class_member(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_post_class_member(UUID, UUID) TO authenticated;
+
+-- ==========================================
+-- JOINING CLASSES
+-- ==========================================
+
+-- Class IDs are readable by everyone, so a direct insert would let anyone join any class
+DROP POLICY IF EXISTS "Users can join classes" ON public.class_members;
+
+-- Join (or rejoin) the active class with this join code as a student
+-- reason: 'joined' | 'rejoined' | 'already_member' | 'not_found' | 'full'
+CREATE OR REPLACE FUNCTION public.join_class_with_code(code TEXT)
+RETURNS TABLE (
+  is_member BOOLEAN,
+  reason TEXT,
+  joined_class_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_class public.classes;
+  membership public.class_members;
+  member_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You need to be signed in to join a class';
+  END IF;
+
+  -- Lock the class so concurrent joins can't overfill it
+  SELECT c.* INTO target_class
+  FROM public.classes c
+  WHERE c.join_code = upper(trim(code))
+    AND c.is_active = true
+  FOR UPDATE;
+
+  IF target_class.id IS NULL THEN
+    RETURN QUERY SELECT false, 'not_found'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT cm.* INTO membership
+  FROM public.class_members cm
+  WHERE cm.class_id = target_class.id
+    AND cm.user_id = auth.uid();
+
+  IF membership.is_active THEN
+    RETURN QUERY SELECT true, 'already_member'::TEXT, target_class.id;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*)::INTEGER INTO member_count
+  FROM public.class_members cm
+  WHERE cm.class_id = target_class.id
+    AND cm.is_active = true;
+
+  IF member_count >= target_class.max_students THEN
+    RETURN QUERY SELECT false, 'full'::TEXT, target_class.id;
+    RETURN;
+  END IF;
+
+  IF membership.id IS NOT NULL THEN
+    UPDATE public.class_members SET is_active = true WHERE id = membership.id;
+    RETURN QUERY SELECT true, 'rejoined'::TEXT, target_class.id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.class_members (class_id, user_id, role, is_active)
+  VALUES (target_class.id, auth.uid(), 'student', true);
+
+  RETURN QUERY SELECT true, 'joined'::TEXT, target_class.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_class_with_code(TEXT) TO authenticated;
+
+-- ==========================================
+-- POSTS
+-- ==========================================
+
+DROP POLICY IF EXISTS "Users can view posts in their classes" ON public.posts;
+DROP POLICY IF EXISTS "Users can create posts" ON public.posts;
+
+-- Members see active posts in their classes; owners always see their own posts
+CREATE POLICY "Users can view posts in their classes" ON public.posts
+FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR (is_expired = false AND public.is_class_member(class_id))
+);
+
+-- Only members can post to a class
+CREATE POLICY "Users can create posts" ON public.posts
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_class_member(class_id)
+);
+
+-- ==========================================
+-- COMMENTS
+-- ==========================================
+
+DROP POLICY IF EXISTS "Users can view comments on accessible posts" ON public.comments;
+DROP POLICY IF EXISTS "Users can create comments" ON public.comments;
+
+-- Members see comments on active class posts; owners always see comments on their posts
+CREATE POLICY "Users can view comments on accessible posts" ON public.comments
+FOR SELECT
+TO authenticated
+USING (
+  public.is_post_class_member(post_id)
+  OR post_id IN (SELECT id FROM public.posts WHERE user_id = auth.uid())
+);
+
+-- Only members can comment on active posts in their classes
+CREATE POLICY "Users can create comments" ON public.comments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_post_class_member(post_id)
+);
+
+-- The view must run as the caller, or it would bypass the policies above
+CREATE OR REPLACE VIEW public.comments_with_users WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.post_id,
+  c.user_id,
+  c.content,
+  c.is_edited,
+  c.created_at,
+  c.updated_at,
+  u.username,
+  u.avatar_url
+FROM public.comments c
+INNER JOIN public.users u ON c.user_id = u.id;
+
+-- ==========================================
+-- POST_VIEWS
+-- ==========================================
+
+-- Two equivalent insert policies exist (original + recursion fix); replace both
+DROP POLICY IF EXISTS "Users can record own views" ON public.post_views;
+DROP POLICY IF EXISTS "Users can record post views" ON public.post_views;
+
+CREATE POLICY "Users can record post views" ON public.post_views
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_post_class_member(post_id)
+);
+
+-- ==========================================
+-- AI_FEEDBACK
+-- ==========================================
+
+DROP POLICY IF EXISTS "Users can view AI feedback on own posts" ON public.ai_feedback;
+DROP POLICY IF EXISTS "Users can request AI feedback on own posts" ON public.ai_feedback;
+DROP POLICY IF EXISTS "Users can update own AI feedback" ON public.ai_feedback;
+
+-- Owners see their feedback in any state; classmates see completed critiques
+CREATE POLICY "Users can view AI feedback on accessible posts" ON public.ai_feedback
+FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR post_id IN (SELECT id FROM public.posts WHERE user_id = auth.uid())
+  OR (feedback_status = 'completed' AND public.is_post_class_member(post_id))
+);
+
+-- No INSERT or UPDATE policies: critiques are requested through generate-post-feedback,
+-- which writes the row with the service role
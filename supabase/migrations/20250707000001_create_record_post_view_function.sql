@@ -0,0 +1,111 @@
+-- Atomic post view recording
+-- Replaces the client's two-step "insert into post_views, then increment_post_view" flow,
+-- which could drift (view recorded but not counted, or counted twice) and let concurrent
+-- viewers race past max_viewers until the CHECK constraint fired.
+--
+-- record_post_view locks the post row, so concurrent viewers of the same post are serialized
+-- and the view row + count update commit together. It returns whether the viewer may see the
+-- post and how many view slots are left, so the client can show a "view limit reached" state.
+--
+-- Rules:
+-- - The post owner can always view their post; owner views are never recorded or counted
+-- - A viewer who already viewed the post can view it again without using another slot
+-- - New viewers must be class members and the post must be active with a free slot
+
+-- ==========================================
+-- RECORD POST VIEW
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION public.record_post_view(target_post_id UUID)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  already_viewed BOOLEAN,
+  view_count INTEGER,
+  max_viewers INTEGER,
+  remaining_views INTEGER,
+  reason TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  viewer_id UUID := auth.uid();
+  target_post RECORD;
+BEGIN
+  IF viewer_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the post so concurrent viewers are counted one at a time
+  SELECT p.id, p.user_id, p.class_id, p.view_count, p.max_viewers, p.is_expired, p.expires_at
+  INTO target_post
+  FROM public.posts p
+  WHERE p.id = target_post_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, false, 0, 0, 0, 'not_found'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Owners always see their own post and never use a view slot
+  IF target_post.user_id = viewer_id THEN
+    RETURN QUERY SELECT true, false, target_post.view_count, target_post.max_viewers,
+      GREATEST(target_post.max_viewers - target_post.view_count, 0), 'owner'::TEXT;
+    RETURN;
+  END IF;
+
+  IF target_post.is_expired OR target_post.expires_at <= NOW() THEN
+    RETURN QUERY SELECT false, false, target_post.view_count, target_post.max_viewers, 0, 'expired'::TEXT;
+    RETURN;
+  END IF;
+
+  IF NOT public.is_class_member(target_post.class_id, viewer_id) THEN
+    RETURN QUERY SELECT false, false, target_post.view_count, target_post.max_viewers,
+      GREATEST(target_post.max_viewers - target_post.view_count, 0), 'not_member'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Returning viewers don't use another slot
+  IF EXISTS (
+    SELECT 1 FROM public.post_views pv
+    WHERE pv.post_id = target_post_id AND pv.user_id = viewer_id
+  ) THEN
+    RETURN QUERY SELECT true, true, target_post.view_count, target_post.max_viewers,
+      GREATEST(target_post.max_viewers - target_post.view_count, 0), 'already_viewed'::TEXT;
+    RETURN;
+  END IF;
+
+  IF target_post.view_count >= target_post.max_viewers THEN
+    RETURN QUERY SELECT false, false, target_post.view_count, target_post.max_viewers, 0, 'limit_reached'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Record the view and use a slot in the same transaction
+  INSERT INTO public.post_views (post_id, user_id)
+  VALUES (target_post_id, viewer_id);
+
+  UPDATE public.posts p
+  SET view_count = p.view_count + 1, updated_at = NOW()
+  WHERE p.id = target_post_id;
+
+  RETURN QUERY SELECT true, false, target_post.view_count + 1, target_post.max_viewers,
+    target_post.max_viewers - target_post.view_count - 1, 'recorded'::TEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_post_view(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_post_view(UUID) TO authenticated;
+
+-- ==========================================
+-- RETIRE THE TWO-STEP FLOW
+-- ==========================================
+
+-- Views are only written through record_post_view now, so counts can't drift
+DROP POLICY IF EXISTS "Users can record post views" ON public.post_views;
+REVOKE INSERT ON public.post_views FROM authenticated;
+
+-- Superseded by record_post_view (and never worked for viewers: it ran as the caller,
+-- and only post owners can update posts)
+DROP FUNCTION IF EXISTS public.increment_post_view(UUID, UUID);
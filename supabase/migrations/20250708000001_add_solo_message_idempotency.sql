@@ -0,0 +1,13 @@
+-- Solo message idempotency keys
+-- The app now queues Solo chat messages in an offline outbox and retries them when connectivity
+-- returns. Each queued message carries a client-generated UUID (client_message_id) which the
+-- get-ai-response edge function stores on both the user message and Juni's reply, so a retried
+-- request replays the saved exchange instead of creating duplicate messages.
+
+ALTER TABLE public.solo_ai_messages
+ADD COLUMN IF NOT EXISTS client_message_id UUID;
+
+-- One user message and one reply per idempotency key in a chat
+CREATE UNIQUE INDEX IF NOT EXISTS solo_ai_messages_client_message_id_idx
+ON public.solo_ai_messages(chat_id, client_message_id, role)
+WHERE client_message_id IS NOT NULL;
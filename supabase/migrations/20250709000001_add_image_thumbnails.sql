@@ -0,0 +1,104 @@
+-- Image thumbnails
+-- Camera and Solo uploads are now resized and compressed on the device, and a small thumbnail
+-- is stored next to each original ({name}_thumb.jpg in the same bucket and folder).
+-- posts.thumbnail_url is what the class feed cards load; the full-screen view keeps image_url.
+-- photos also records the thumbnail and the processed width/height.
+--
+-- Older rows have no thumbnail; the app falls back to image_url.
+
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+ALTER TABLE public.photos
+ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+-- ==========================================
+-- CLASS FEED WITH THUMBNAILS
+-- ==========================================
+
+-- The return type changes, so the function has to be dropped and recreated
+DROP FUNCTION IF EXISTS public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE FUNCTION public.get_class_feed(
+  target_class_id UUID,
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  class_id UUID,
+  image_url TEXT,
+  image_path TEXT,
+  thumbnail_url TEXT,
+  frame_style TEXT,
+  title TEXT,
+  description TEXT,
+  max_viewers INTEGER,
+  view_count INTEGER,
+  duration_minutes INTEGER,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_expired BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  username TEXT,
+  avatar_url TEXT,
+  comments_count INTEGER,
+  has_ai_feedback BOOLEAN,
+  user_has_viewed BOOLEAN
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.class_id,
+    p.image_url,
+    p.image_path,
+    p.thumbnail_url,
+    p.frame_style,
+    p.title,
+    p.description,
+    p.max_viewers,
+    p.view_count,
+    p.duration_minutes,
+    p.expires_at,
+    p.is_expired,
+    p.created_at,
+    p.updated_at,
+    u.username,
+    u.avatar_url,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM public.comments c
+      WHERE c.post_id = p.id
+    ) AS comments_count,
+    EXISTS (
+      SELECT 1
+      FROM public.ai_feedback af
+      WHERE af.post_id = p.id
+        AND af.feedback_status = 'completed'
+    ) AS has_ai_feedback,
+    EXISTS (
+      SELECT 1
+      FROM public.post_views pv
+      WHERE pv.post_id = p.id
+        AND pv.user_id = auth.uid()
+    ) AS user_has_viewed
+  FROM public.posts p
+  LEFT JOIN public.users u ON u.id = p.user_id
+  WHERE p.class_id = target_class_id
+    AND p.is_expired = false
+    -- Cursor: strictly older than the oldest post the client already has
+    AND (
+      before_created_at IS NULL
+      OR p.created_at < before_created_at
+      OR (before_id IS NOT NULL AND p.created_at = before_created_at AND p.id < before_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER) TO authenticated;
@@ -0,0 +1,38 @@
+-- Unified media assets
+-- Camera photos and Solo images now go through one media service (lib/mediaService.ts) that
+-- records a photos row for every stored file, whichever bucket it lives in. Object keys are
+-- content hashes ({userId}/{sha256}.jpg), so the app looks up photos.content_hash before
+-- uploading and reuses an identical image instead of storing it twice.
+--
+-- The cleanup-expired-posts function deletes these rows together with their files.
+
+ALTER TABLE public.photos
+ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+-- One stored copy of each image per user
+CREATE UNIQUE INDEX IF NOT EXISTS photos_user_content_hash_idx
+ON public.photos(user_id, content_hash)
+WHERE content_hash IS NOT NULL;
+
+-- ==========================================
+-- OWNERSHIP
+-- ==========================================
+
+-- Asset rows must belong to the uploader (previously any authenticated user could insert any row)
+DROP POLICY IF EXISTS "Users can upload photos" ON public.photos;
+
+CREATE POLICY "Users can upload photos" ON public.photos
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+-- Photos bucket uploads go in the uploader's folder, like solo-images
+DROP POLICY IF EXISTS "Authenticated users can upload to photos bucket" ON storage.objects;
+
+CREATE POLICY "Authenticated users can upload to photos bucket" ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'photos'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
@@ -0,0 +1,178 @@
+-- Multi-image posts
+-- Artists can share a progression (sketch → underpainting → final) as one post. Each post's
+-- images live in post_images, ordered by position; position 0 is the cover and is also kept in
+-- posts.image_url / posts.thumbnail_url, so AI feedback and older clients keep working.
+--
+-- Existing posts get a single position 0 row from their image_url.
+
+-- ==========================================
+-- POST IMAGES
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.post_images (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  image_url TEXT NOT NULL,
+  thumbnail_url TEXT,
+  position INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT post_images_position_unique UNIQUE(post_id, position),
+  CONSTRAINT post_images_position_range CHECK (position >= 0 AND position < 10)
+);
+
+CREATE INDEX IF NOT EXISTS post_images_image_url_idx ON public.post_images(image_url);
+
+ALTER TABLE public.post_images ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as the post itself
+CREATE POLICY "Users can view images of accessible posts" ON public.post_images
+FOR SELECT
+TO authenticated
+USING (
+  public.is_post_class_member(post_id)
+  OR post_id IN (SELECT id FROM public.posts WHERE user_id = auth.uid())
+);
+
+-- Only the artist adds images, to their own post
+CREATE POLICY "Users can add images to own posts" ON public.post_images
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  post_id IN (SELECT id FROM public.posts WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete images from own posts" ON public.post_images
+FOR DELETE
+TO authenticated
+USING (
+  post_id IN (SELECT id FROM public.posts WHERE user_id = auth.uid())
+);
+
+GRANT SELECT, INSERT, DELETE ON public.post_images TO authenticated;
+
+-- Backfill single-image posts
+INSERT INTO public.post_images (post_id, image_url, thumbnail_url, position, created_at)
+SELECT p.id, p.image_url, p.thumbnail_url, 0, p.created_at
+FROM public.posts p
+WHERE NOT EXISTS (SELECT 1 FROM public.post_images pi WHERE pi.post_id = p.id);
+
+-- Images are added right after their post, so the feed listens for them too
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'post_images'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.post_images;
+  END IF;
+END $$;
+
+-- ==========================================
+-- CLASS FEED WITH IMAGES
+-- ==========================================
+
+-- The return type changes, so the function has to be dropped and recreated
+DROP FUNCTION IF EXISTS public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE FUNCTION public.get_class_feed(
+  target_class_id UUID,
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  class_id UUID,
+  image_url TEXT,
+  image_path TEXT,
+  thumbnail_url TEXT,
+  frame_style TEXT,
+  title TEXT,
+  description TEXT,
+  max_viewers INTEGER,
+  view_count INTEGER,
+  duration_minutes INTEGER,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_expired BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  username TEXT,
+  avatar_url TEXT,
+  comments_count INTEGER,
+  has_ai_feedback BOOLEAN,
+  user_has_viewed BOOLEAN,
+  images JSONB
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.class_id,
+    p.image_url,
+    p.image_path,
+    p.thumbnail_url,
+    p.frame_style,
+    p.title,
+    p.description,
+    p.max_viewers,
+    p.view_count,
+    p.duration_minutes,
+    p.expires_at,
+    p.is_expired,
+    p.created_at,
+    p.updated_at,
+    u.username,
+    u.avatar_url,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM public.comments c
+      WHERE c.post_id = p.id
+    ) AS comments_count,
+    EXISTS (
+      SELECT 1
+      FROM public.ai_feedback af
+      WHERE af.post_id = p.id
+        AND af.feedback_status = 'completed'
+    ) AS has_ai_feedback,
+    EXISTS (
+      SELECT 1
+      FROM public.post_views pv
+      WHERE pv.post_id = p.id
+        AND pv.user_id = auth.uid()
+    ) AS user_has_viewed,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', pi.id,
+          'post_id', pi.post_id,
+          'image_url', pi.image_url,
+          'thumbnail_url', pi.thumbnail_url,
+          'position', pi.position,
+          'created_at', pi.created_at
+        )
+        ORDER BY pi.position
+      )
+      FROM public.post_images pi
+      WHERE pi.post_id = p.id
+    ), '[]'::jsonb) AS images
+  FROM public.posts p
+  LEFT JOIN public.users u ON u.id = p.user_id
+  WHERE p.class_id = target_class_id
+    AND p.is_expired = false
+    -- Cursor: strictly older than the oldest post the client already has
+    AND (
+      before_created_at IS NULL
+      OR p.created_at < before_created_at
+      OR (before_id IS NOT NULL AND p.created_at = before_created_at AND p.id < before_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER) TO authenticated;
@@ -0,0 +1,18 @@
+-- Post frame styles
+-- Artists pick a frame when sharing; the feed and full-screen view draw it around the artwork.
+-- frame_style was free text, so unknown values are reset to 'none' before the check is added.
+
+UPDATE public.posts
+SET frame_style = 'none'
+WHERE frame_style IS NULL
+   OR frame_style NOT IN ('none', 'classic', 'modern', 'vintage');
+
+ALTER TABLE public.posts
+  ALTER COLUMN frame_style SET DEFAULT 'none',
+  ALTER COLUMN frame_style SET NOT NULL;
+
+ALTER TABLE public.posts
+  ADD CONSTRAINT posts_frame_style_check
+  CHECK (frame_style IN ('none', 'classic', 'modern', 'vintage'));
+
+COMMENT ON COLUMN public.posts.frame_style IS 'Frame drawn around the artwork: none, classic, modern or vintage';
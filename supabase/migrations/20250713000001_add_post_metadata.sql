@@ -0,0 +1,166 @@
+-- Structured post metadata
+-- Posts get a medium (charcoal, watercolor, ...), physical dimensions, time spent and
+-- free-form tags alongside the existing title and description, and the class feed can be
+-- filtered by medium or tag.
+--
+-- Shares used to store "username: caption" in description; the author now comes from the
+-- joined user, so that prefix is stripped from existing posts.
+
+-- ==========================================
+-- METADATA COLUMNS
+-- ==========================================
+
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS medium TEXT,
+  ADD COLUMN IF NOT EXISTS dimensions TEXT,
+  ADD COLUMN IF NOT EXISTS time_spent_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.posts
+  ADD CONSTRAINT posts_medium_check CHECK (
+    medium IS NULL OR medium IN (
+      'pencil', 'charcoal', 'ink', 'watercolor', 'gouache', 'acrylic',
+      'oil', 'pastel', 'digital', 'mixed_media', 'other'
+    )
+  ),
+  ADD CONSTRAINT posts_title_length CHECK (title IS NULL OR length(title) <= 80),
+  ADD CONSTRAINT posts_dimensions_length CHECK (dimensions IS NULL OR length(dimensions) <= 40),
+  ADD CONSTRAINT posts_time_spent_range CHECK (
+    time_spent_minutes IS NULL OR (time_spent_minutes > 0 AND time_spent_minutes <= 100000)
+  ),
+  ADD CONSTRAINT posts_tags_limit CHECK (cardinality(tags) <= 10);
+
+-- Feed filters
+CREATE INDEX IF NOT EXISTS posts_class_medium_idx ON public.posts(class_id, medium);
+CREATE INDEX IF NOT EXISTS posts_tags_idx ON public.posts USING GIN (tags);
+
+-- ==========================================
+-- AUTHOR NAME BACKFILL
+-- ==========================================
+
+UPDATE public.posts p
+SET description = substring(p.description FROM length(u.username) + 3)
+FROM public.users u
+WHERE u.id = p.user_id
+  AND u.username IS NOT NULL
+  AND p.description LIKE u.username || ': %';
+
+-- ==========================================
+-- CLASS FEED WITH METADATA AND FILTERS
+-- ==========================================
+
+-- The signature and return type change, so the function has to be dropped and recreated
+DROP FUNCTION IF EXISTS public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE FUNCTION public.get_class_feed(
+  target_class_id UUID,
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20,
+  filter_medium TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  class_id UUID,
+  image_url TEXT,
+  image_path TEXT,
+  thumbnail_url TEXT,
+  frame_style TEXT,
+  title TEXT,
+  description TEXT,
+  medium TEXT,
+  dimensions TEXT,
+  time_spent_minutes INTEGER,
+  tags TEXT[],
+  max_viewers INTEGER,
+  view_count INTEGER,
+  duration_minutes INTEGER,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_expired BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  username TEXT,
+  avatar_url TEXT,
+  comments_count INTEGER,
+  has_ai_feedback BOOLEAN,
+  user_has_viewed BOOLEAN,
+  images JSONB
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.class_id,
+    p.image_url,
+    p.image_path,
+    p.thumbnail_url,
+    p.frame_style,
+    p.title,
+    p.description,
+    p.medium,
+    p.dimensions,
+    p.time_spent_minutes,
+    p.tags,
+    p.max_viewers,
+    p.view_count,
+    p.duration_minutes,
+    p.expires_at,
+    p.is_expired,
+    p.created_at,
+    p.updated_at,
+    u.username,
+    u.avatar_url,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM public.comments c
+      WHERE c.post_id = p.id
+    ) AS comments_count,
+    EXISTS (
+      SELECT 1
+      FROM public.ai_feedback af
+      WHERE af.post_id = p.id
+        AND af.feedback_status = 'completed'
+    ) AS has_ai_feedback,
+    EXISTS (
+      SELECT 1
+      FROM public.post_views pv
+      WHERE pv.post_id = p.id
+        AND pv.user_id = auth.uid()
+    ) AS user_has_viewed,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', pi.id,
+          'post_id', pi.post_id,
+          'image_url', pi.image_url,
+          'thumbnail_url', pi.thumbnail_url,
+          'position', pi.position,
+          'created_at', pi.created_at
+        )
+        ORDER BY pi.position
+      )
+      FROM public.post_images pi
+      WHERE pi.post_id = p.id
+    ), '[]'::jsonb) AS images
+  FROM public.posts p
+  LEFT JOIN public.users u ON u.id = p.user_id
+  WHERE p.class_id = target_class_id
+    AND p.is_expired = false
+    -- Optional filters (tags are stored lowercase)
+    AND (filter_medium IS NULL OR p.medium = filter_medium)
+    AND (filter_tag IS NULL OR p.tags @> ARRAY[lower(filter_tag)])
+    -- Cursor: strictly older than the oldest post the client already has
+    AND (
+      before_created_at IS NULL
+      OR p.created_at < before_created_at
+      OR (before_id IS NOT NULL AND p.created_at = before_created_at AND p.id < before_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,394 @@
+-- Threaded comments and reactions
+-- Comments can be replies (one level deep: a reply always points at a top-level comment),
+-- artists and classmates can react to posts and comments with a small set of emoji, and
+-- commenters can edit or delete their own comments.
+--
+-- posts.comments_count is now kept by a trigger, so realtime post updates carry the correct
+-- count (including replies and cascaded deletes) and the client never has to count itself.
+-- Tests: supabase/tests/database/comment_threads.test.sql (run with `supabase test db`).
+
+-- ==========================================
+-- COMMENT LENGTH
+-- ==========================================
+
+-- The comment box allows 200 characters; the original table stopped at 150
+ALTER TABLE public.comments DROP CONSTRAINT IF EXISTS comments_content_check;
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_content_length CHECK (length(content) >= 1 AND length(content) <= 200);
+
+CREATE OR REPLACE FUNCTION public.validate_comment_content()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Basic content validation
+  IF length(trim(NEW.content)) = 0 THEN
+    RAISE EXCEPTION 'Comment cannot be empty';
+  END IF;
+
+  -- Character limit check (also enforced by constraint)
+  IF length(NEW.content) > 200 THEN
+    RAISE EXCEPTION 'Comment cannot exceed 200 characters';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ==========================================
+-- REPLIES
+-- ==========================================
+
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS parent_comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS comments_parent_comment_id_idx ON public.comments(parent_comment_id);
+
+-- Replies must be on the same post as a top-level comment; edits can only change the content
+CREATE OR REPLACE FUNCTION public.validate_comment_thread()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.post_id IS DISTINCT FROM OLD.post_id
+      OR NEW.user_id IS DISTINCT FROM OLD.user_id
+      OR NEW.parent_comment_id IS DISTINCT FROM OLD.parent_comment_id THEN
+      RAISE EXCEPTION 'Only the content of a comment can be edited';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_comment_id IS NOT NULL THEN
+    SELECT post_id, parent_comment_id INTO parent
+    FROM public.comments
+    WHERE id = NEW.parent_comment_id;
+
+    IF NOT FOUND OR parent.post_id <> NEW.post_id THEN
+      RAISE EXCEPTION 'Replies must be on the same post as the comment they answer';
+    END IF;
+
+    IF parent.parent_comment_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Replies can only answer top-level comments';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER comments_validate_thread
+  BEFORE INSERT OR UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_comment_thread();
+
+-- Only members can edit, and only while the post is active
+DROP POLICY IF EXISTS "Users can update own comments" ON public.comments;
+
+CREATE POLICY "Users can update own comments" ON public.comments
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id AND public.is_post_class_member(post_id))
+WITH CHECK (auth.uid() = user_id AND public.is_post_class_member(post_id));
+
+CREATE OR REPLACE VIEW public.comments_with_users WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.post_id,
+  c.user_id,
+  c.content,
+  c.is_edited,
+  c.created_at,
+  c.updated_at,
+  u.username,
+  u.avatar_url,
+  c.parent_comment_id
+FROM public.comments c
+INNER JOIN public.users u ON c.user_id = u.id;
+
+-- ==========================================
+-- COMMENT COUNTS
+-- ==========================================
+
+ALTER TABLE public.posts
+  ADD COLUMN IF NOT EXISTS comments_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.posts p
+SET comments_count = (SELECT COUNT(*) FROM public.comments c WHERE c.post_id = p.id);
+
+-- SECURITY DEFINER: commenters can't update other people's posts themselves
+CREATE OR REPLACE FUNCTION public.sync_post_comment_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts SET comments_count = comments_count + 1 WHERE id = NEW.post_id;
+    RETURN NEW;
+  END IF;
+
+  -- Also fires for replies removed with their parent
+  UPDATE public.posts SET comments_count = GREATEST(comments_count - 1, 0) WHERE id = OLD.post_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER comments_sync_post_count
+  AFTER INSERT OR DELETE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_comment_count();
+
+-- ==========================================
+-- REACTIONS
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.post_reactions (
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (emoji IN ('❤️', '👏', '🔥', '😍', '💡')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (post_id, user_id, emoji)
+);
+
+CREATE TABLE IF NOT EXISTS public.comment_reactions (
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (emoji IN ('❤️', '👏', '🔥', '😍', '💡')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (comment_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS post_reactions_user_id_idx ON public.post_reactions(user_id);
+CREATE INDEX IF NOT EXISTS comment_reactions_user_id_idx ON public.comment_reactions(user_id);
+
+-- Is the user a member of the class an active post with this comment belongs to?
+CREATE OR REPLACE FUNCTION public.is_comment_class_member(comment_uuid UUID, user_uuid UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.comments c
+    WHERE c.id = comment_uuid
+      AND public.is_post_class_member(c.post_id, user_uuid)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_comment_class_member(UUID, UUID) TO authenticated;
+
+ALTER TABLE public.post_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comment_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as comments: members of the post's class, plus the artist
+CREATE POLICY "Users can view reactions on accessible posts" ON public.post_reactions
+FOR SELECT
+TO authenticated
+USING (
+  public.is_post_class_member(post_id)
+  OR post_id IN (SELECT id FROM public.posts WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Members can react to posts" ON public.post_reactions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_post_class_member(post_id)
+);
+
+CREATE POLICY "Users can remove own post reactions" ON public.post_reactions
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view reactions on accessible comments" ON public.comment_reactions
+FOR SELECT
+TO authenticated
+USING (
+  public.is_comment_class_member(comment_id)
+  OR comment_id IN (
+    SELECT c.id
+    FROM public.comments c
+    JOIN public.posts p ON p.id = c.post_id
+    WHERE p.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Members can react to comments" ON public.comment_reactions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.is_comment_class_member(comment_id)
+);
+
+CREATE POLICY "Users can remove own comment reactions" ON public.comment_reactions
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, DELETE ON public.post_reactions TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.comment_reactions TO authenticated;
+
+-- Realtime: reaction changes (deletes only carry the primary key, which is all the client needs)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'post_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.post_reactions;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'comment_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.comment_reactions;
+  END IF;
+END $$;
+
+-- ==========================================
+-- CLASS FEED WITH COMMENT COUNTS AND REACTIONS
+-- ==========================================
+
+-- The return type changes, so the function has to be dropped and recreated
+DROP FUNCTION IF EXISTS public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, TEXT, TEXT);
+
+CREATE FUNCTION public.get_class_feed(
+  target_class_id UUID,
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20,
+  filter_medium TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  class_id UUID,
+  image_url TEXT,
+  image_path TEXT,
+  thumbnail_url TEXT,
+  frame_style TEXT,
+  title TEXT,
+  description TEXT,
+  medium TEXT,
+  dimensions TEXT,
+  time_spent_minutes INTEGER,
+  tags TEXT[],
+  max_viewers INTEGER,
+  view_count INTEGER,
+  duration_minutes INTEGER,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_expired BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  username TEXT,
+  avatar_url TEXT,
+  comments_count INTEGER,
+  has_ai_feedback BOOLEAN,
+  user_has_viewed BOOLEAN,
+  images JSONB,
+  reactions JSONB
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.class_id,
+    p.image_url,
+    p.image_path,
+    p.thumbnail_url,
+    p.frame_style,
+    p.title,
+    p.description,
+    p.medium,
+    p.dimensions,
+    p.time_spent_minutes,
+    p.tags,
+    p.max_viewers,
+    p.view_count,
+    p.duration_minutes,
+    p.expires_at,
+    p.is_expired,
+    p.created_at,
+    p.updated_at,
+    u.username,
+    u.avatar_url,
+    p.comments_count,
+    EXISTS (
+      SELECT 1
+      FROM public.ai_feedback af
+      WHERE af.post_id = p.id
+        AND af.feedback_status = 'completed'
+    ) AS has_ai_feedback,
+    EXISTS (
+      SELECT 1
+      FROM public.post_views pv
+      WHERE pv.post_id = p.id
+        AND pv.user_id = auth.uid()
+    ) AS user_has_viewed,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', pi.id,
+          'post_id', pi.post_id,
+          'image_url', pi.image_url,
+          'thumbnail_url', pi.thumbnail_url,
+          'position', pi.position,
+          'created_at', pi.created_at
+        )
+        ORDER BY pi.position
+      )
+      FROM public.post_images pi
+      WHERE pi.post_id = p.id
+    ), '[]'::jsonb) AS images,
+    -- One entry per emoji: how many reacted and whether the viewer is one of them
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'emoji', r.emoji,
+          'count', r.reaction_count,
+          'reacted', r.reacted
+        )
+        ORDER BY r.emoji
+      )
+      FROM (
+        SELECT
+          pr.emoji,
+          COUNT(*)::INTEGER AS reaction_count,
+          bool_or(pr.user_id = auth.uid()) AS reacted
+        FROM public.post_reactions pr
+        WHERE pr.post_id = p.id
+        GROUP BY pr.emoji
+      ) r
+    ), '[]'::jsonb) AS reactions
+  FROM public.posts p
+  LEFT JOIN public.users u ON u.id = p.user_id
+  WHERE p.class_id = target_class_id
+    AND p.is_expired = false
+    -- Optional filters (tags are stored lowercase)
+    AND (filter_medium IS NULL OR p.medium = filter_medium)
+    AND (filter_tag IS NULL OR p.tags @> ARRAY[lower(filter_tag)])
+    -- Cursor: strictly older than the oldest post the client already has
+    AND (
+      before_created_at IS NULL
+      OR p.created_at < before_created_at
+      OR (before_id IS NOT NULL AND p.created_at = before_created_at AND p.id < before_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, TEXT, TEXT) TO authenticated;
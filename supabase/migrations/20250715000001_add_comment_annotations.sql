@@ -0,0 +1,270 @@
+-- Annotation comments
+-- A top-level comment can be pinned to a spot (or a rectangle) on one of the post's images,
+-- so critique can point at "the shadow here". Coordinates are fractions (0-1) of the original
+-- image's width and height, measured from the top-left corner, so they land on the same spot
+-- whatever the screen size or crop the image is shown with.
+-- Tests: supabase/tests/database/comment_annotations.test.sql (run with `supabase test db`).
+
+-- ==========================================
+-- ANCHOR COLUMNS
+-- ==========================================
+
+ALTER TABLE public.comments
+  ADD COLUMN IF NOT EXISTS anchor_image_index INTEGER,
+  ADD COLUMN IF NOT EXISTS anchor_x NUMERIC(5, 4),
+  ADD COLUMN IF NOT EXISTS anchor_y NUMERIC(5, 4),
+  ADD COLUMN IF NOT EXISTS anchor_width NUMERIC(5, 4),
+  ADD COLUMN IF NOT EXISTS anchor_height NUMERIC(5, 4);
+
+-- A pin needs an image and both coordinates; a rectangle also needs both sides and must fit
+-- inside the image
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_anchor_complete CHECK (
+    (anchor_x IS NULL) = (anchor_y IS NULL)
+    AND (anchor_x IS NULL) = (anchor_image_index IS NULL)
+    AND (anchor_width IS NULL) = (anchor_height IS NULL)
+    AND (anchor_width IS NULL OR anchor_x IS NOT NULL)
+  ),
+  ADD CONSTRAINT comments_anchor_range CHECK (
+    anchor_image_index >= 0
+    AND anchor_x BETWEEN 0 AND 1
+    AND anchor_y BETWEEN 0 AND 1
+  ),
+  ADD CONSTRAINT comments_anchor_rect_range CHECK (
+    anchor_width > 0
+    AND anchor_height > 0
+    AND anchor_x + anchor_width <= 1
+    AND anchor_y + anchor_height <= 1
+  );
+
+-- ==========================================
+-- THREAD RULES
+-- ==========================================
+
+-- Adds to the rules from add_comment_threads_and_reactions: only top-level comments can be
+-- pinned, the pinned image must belong to the post, and an edit can't move the pin
+CREATE OR REPLACE FUNCTION public.validate_comment_thread()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.post_id IS DISTINCT FROM OLD.post_id
+      OR NEW.user_id IS DISTINCT FROM OLD.user_id
+      OR NEW.parent_comment_id IS DISTINCT FROM OLD.parent_comment_id
+      OR NEW.anchor_image_index IS DISTINCT FROM OLD.anchor_image_index
+      OR NEW.anchor_x IS DISTINCT FROM OLD.anchor_x
+      OR NEW.anchor_y IS DISTINCT FROM OLD.anchor_y
+      OR NEW.anchor_width IS DISTINCT FROM OLD.anchor_width
+      OR NEW.anchor_height IS DISTINCT FROM OLD.anchor_height THEN
+      RAISE EXCEPTION 'Only the content of a comment can be edited';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_comment_id IS NOT NULL THEN
+    SELECT post_id, parent_comment_id INTO parent
+    FROM public.comments
+    WHERE id = NEW.parent_comment_id;
+
+    IF NOT FOUND OR parent.post_id <> NEW.post_id THEN
+      RAISE EXCEPTION 'Replies must be on the same post as the comment they answer';
+    END IF;
+
+    IF parent.parent_comment_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Replies can only answer top-level comments';
+    END IF;
+
+    IF NEW.anchor_x IS NOT NULL THEN
+      RAISE EXCEPTION 'Replies cannot be pinned to the artwork';
+    END IF;
+  END IF;
+
+  IF NEW.anchor_image_index IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.post_images pi
+    WHERE pi.post_id = NEW.post_id
+      AND pi.position = NEW.anchor_image_index
+  ) THEN
+    RAISE EXCEPTION 'Pinned image does not belong to this post';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE VIEW public.comments_with_users WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.post_id,
+  c.user_id,
+  c.content,
+  c.is_edited,
+  c.created_at,
+  c.updated_at,
+  u.username,
+  u.avatar_url,
+  c.parent_comment_id,
+  c.anchor_image_index,
+  c.anchor_x,
+  c.anchor_y,
+  c.anchor_width,
+  c.anchor_height
+FROM public.comments c
+INNER JOIN public.users u ON c.user_id = u.id;
+
+-- ==========================================
+-- CLASS FEED WITH ANNOTATIONS
+-- ==========================================
+
+-- The return type changes, so the function has to be dropped and recreated
+DROP FUNCTION IF EXISTS public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, TEXT, TEXT);
+
+CREATE FUNCTION public.get_class_feed(
+  target_class_id UUID,
+  before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  before_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20,
+  filter_medium TEXT DEFAULT NULL,
+  filter_tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  class_id UUID,
+  image_url TEXT,
+  image_path TEXT,
+  thumbnail_url TEXT,
+  frame_style TEXT,
+  title TEXT,
+  description TEXT,
+  medium TEXT,
+  dimensions TEXT,
+  time_spent_minutes INTEGER,
+  tags TEXT[],
+  max_viewers INTEGER,
+  view_count INTEGER,
+  duration_minutes INTEGER,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_expired BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  username TEXT,
+  avatar_url TEXT,
+  comments_count INTEGER,
+  has_ai_feedback BOOLEAN,
+  user_has_viewed BOOLEAN,
+  images JSONB,
+  reactions JSONB,
+  annotations JSONB
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id,
+    p.user_id,
+    p.class_id,
+    p.image_url,
+    p.image_path,
+    p.thumbnail_url,
+    p.frame_style,
+    p.title,
+    p.description,
+    p.medium,
+    p.dimensions,
+    p.time_spent_minutes,
+    p.tags,
+    p.max_viewers,
+    p.view_count,
+    p.duration_minutes,
+    p.expires_at,
+    p.is_expired,
+    p.created_at,
+    p.updated_at,
+    u.username,
+    u.avatar_url,
+    p.comments_count,
+    EXISTS (
+      SELECT 1
+      FROM public.ai_feedback af
+      WHERE af.post_id = p.id
+        AND af.feedback_status = 'completed'
+    ) AS has_ai_feedback,
+    EXISTS (
+      SELECT 1
+      FROM public.post_views pv
+      WHERE pv.post_id = p.id
+        AND pv.user_id = auth.uid()
+    ) AS user_has_viewed,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', pi.id,
+          'post_id', pi.post_id,
+          'image_url', pi.image_url,
+          'thumbnail_url', pi.thumbnail_url,
+          'position', pi.position,
+          'created_at', pi.created_at
+        )
+        ORDER BY pi.position
+      )
+      FROM public.post_images pi
+      WHERE pi.post_id = p.id
+    ), '[]'::jsonb) AS images,
+    -- One entry per emoji: how many reacted and whether the viewer is one of them
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'emoji', r.emoji,
+          'count', r.reaction_count,
+          'reacted', r.reacted
+        )
+        ORDER BY r.emoji
+      )
+      FROM (
+        SELECT
+          pr.emoji,
+          COUNT(*)::INTEGER AS reaction_count,
+          bool_or(pr.user_id = auth.uid()) AS reacted
+        FROM public.post_reactions pr
+        WHERE pr.post_id = p.id
+        GROUP BY pr.emoji
+      ) r
+    ), '[]'::jsonb) AS reactions,
+    -- Pinned comments' anchors, so feed cards can mark them without loading the thread
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'comment_id', c.id,
+          'image_index', c.anchor_image_index,
+          'x', c.anchor_x,
+          'y', c.anchor_y,
+          'width', c.anchor_width,
+          'height', c.anchor_height
+        )
+        ORDER BY c.created_at, c.id
+      )
+      FROM public.comments c
+      WHERE c.post_id = p.id
+        AND c.anchor_x IS NOT NULL
+    ), '[]'::jsonb) AS annotations
+  FROM public.posts p
+  LEFT JOIN public.users u ON u.id = p.user_id
+  WHERE p.class_id = target_class_id
+    AND p.is_expired = false
+    -- Optional filters (tags are stored lowercase)
+    AND (filter_medium IS NULL OR p.medium = filter_medium)
+    AND (filter_tag IS NULL OR p.tags @> ARRAY[lower(filter_tag)])
+    -- Cursor: strictly older than the oldest post the client already has
+    AND (
+      before_created_at IS NULL
+      OR p.created_at < before_created_at
+      OR (before_id IS NOT NULL AND p.created_at = before_created_at AND p.id < before_id)
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_class_feed(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER, TEXT, TEXT) TO authenticated;
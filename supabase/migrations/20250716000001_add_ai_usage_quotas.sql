@@ -0,0 +1,222 @@
+-- Juni usage ledger, quotas and rate limits
+-- Every Solo message costs two embedding calls and one chat completion, so usage is now metered:
+-- - ai_usage records one row per get-ai-response request with its tokens, models and estimated
+--   cost (from the provider's usage fields)
+-- - ai_usage_quotas holds the daily and monthly message quotas and the burst rate limit; the row
+--   without a user_id is the default, and a row for a user overrides it
+-- - reserve_ai_usage (service role only) checks the limits and reserves a ledger row in one
+--   step, serialized per user so concurrent requests can't overshoot a quota
+-- - get_ai_usage_summary tells the signed-in student how many messages they have left
+--
+-- Days and months are counted in UTC. Failed requests count toward the burst limit but not
+-- toward the quotas, so a provider outage doesn't use up a student's messages.
+-- Tests: supabase/tests/database/ai_usage_quotas.test.sql (run with `supabase test db`).
+
+-- ==========================================
+-- USAGE LEDGER
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.ai_usage (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chat_id UUID REFERENCES public.solo_ai_chats(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  model TEXT, -- Chat model
+  embedding_model TEXT,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0 CHECK (prompt_tokens >= 0),
+  completion_tokens INTEGER NOT NULL DEFAULT 0 CHECK (completion_tokens >= 0),
+  embedding_tokens INTEGER NOT NULL DEFAULT 0 CHECK (embedding_tokens >= 0),
+  total_tokens INTEGER GENERATED ALWAYS AS (prompt_tokens + completion_tokens + embedding_tokens) STORED,
+  cost_usd NUMERIC(10, 6) NOT NULL DEFAULT 0 CHECK (cost_usd >= 0), -- Estimate from list prices
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS ai_usage_user_id_created_at_idx ON public.ai_usage(user_id, created_at DESC);
+
+-- Students can read their own usage; only the edge function (service role) writes it
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI usage" ON public.ai_usage
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+GRANT SELECT ON public.ai_usage TO authenticated;
+
+-- ==========================================
+-- QUOTAS
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS public.ai_usage_quotas (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL for the default quota
+  daily_message_limit INTEGER NOT NULL CHECK (daily_message_limit >= 0),
+  monthly_message_limit INTEGER NOT NULL CHECK (monthly_message_limit >= 0),
+  burst_message_limit INTEGER NOT NULL CHECK (burst_message_limit > 0), -- Messages per burst window
+  burst_window_seconds INTEGER NOT NULL CHECK (burst_window_seconds > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only one default quota
+CREATE UNIQUE INDEX IF NOT EXISTS ai_usage_quotas_default_idx
+ON public.ai_usage_quotas((user_id IS NULL))
+WHERE user_id IS NULL;
+
+CREATE TRIGGER ai_usage_quotas_updated_at
+  BEFORE UPDATE ON public.ai_usage_quotas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Managed by the team (SQL editor / dashboard); read through the functions below
+ALTER TABLE public.ai_usage_quotas ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.ai_usage_quotas (user_id, daily_message_limit, monthly_message_limit, burst_message_limit, burst_window_seconds)
+VALUES (NULL, 50, 500, 5, 60)
+ON CONFLICT DO NOTHING;
+
+-- The user's own quota, or the default
+CREATE OR REPLACE FUNCTION public.get_ai_usage_quota(target_user_id UUID)
+RETURNS public.ai_usage_quotas
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.*
+  FROM public.ai_usage_quotas q
+  WHERE q.user_id = target_user_id OR q.user_id IS NULL
+  ORDER BY q.user_id NULLS LAST
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_ai_usage_quota(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Requests that count toward the quotas since a point in time
+CREATE OR REPLACE FUNCTION public.count_ai_usage(target_user_id UUID, since TIMESTAMP WITH TIME ZONE)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.ai_usage u
+  WHERE u.user_id = target_user_id
+    AND u.created_at >= since
+    AND u.status <> 'failed';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.count_ai_usage(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- ==========================================
+-- RESERVE USAGE (edge function)
+-- ==========================================
+
+-- Check the burst limit and quotas, and reserve a pending ledger row when the request may go ahead.
+-- reason: 'ok', or the limit that was hit ('burst', 'daily', 'monthly');
+-- retry_after_seconds: when the limit frees up again (0 when allowed).
+CREATE OR REPLACE FUNCTION public.reserve_ai_usage(target_user_id UUID, target_chat_id UUID)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  usage_id UUID,
+  reason TEXT,
+  retry_after_seconds INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quota public.ai_usage_quotas;
+  day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', NOW(), 'UTC');
+  month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', NOW(), 'UTC');
+  burst_count INTEGER;
+  oldest_in_window TIMESTAMP WITH TIME ZONE;
+  new_usage_id UUID;
+BEGIN
+  -- One reservation per user at a time, so concurrent requests see each other's rows
+  PERFORM pg_advisory_xact_lock(hashtext('ai_usage:' || target_user_id::TEXT));
+
+  quota := public.get_ai_usage_quota(target_user_id);
+
+  SELECT COUNT(*)::INTEGER, MIN(u.created_at)
+  INTO burst_count, oldest_in_window
+  FROM public.ai_usage u
+  WHERE u.user_id = target_user_id
+    AND u.created_at > NOW() - make_interval(secs => quota.burst_window_seconds);
+
+  IF burst_count >= quota.burst_message_limit THEN
+    RETURN QUERY SELECT false, NULL::UUID, 'burst'::TEXT,
+      GREATEST(CEIL(EXTRACT(EPOCH FROM
+        oldest_in_window + make_interval(secs => quota.burst_window_seconds) - NOW()))::INTEGER, 1);
+    RETURN;
+  END IF;
+
+  IF public.count_ai_usage(target_user_id, day_start) >= quota.daily_message_limit THEN
+    RETURN QUERY SELECT false, NULL::UUID, 'daily'::TEXT,
+      CEIL(EXTRACT(EPOCH FROM day_start + INTERVAL '1 day' - NOW()))::INTEGER;
+    RETURN;
+  END IF;
+
+  IF public.count_ai_usage(target_user_id, month_start) >= quota.monthly_message_limit THEN
+    RETURN QUERY SELECT false, NULL::UUID, 'monthly'::TEXT,
+      CEIL(EXTRACT(EPOCH FROM month_start + INTERVAL '1 month' - NOW()))::INTEGER;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.ai_usage (user_id, chat_id)
+  VALUES (target_user_id, target_chat_id)
+  RETURNING id INTO new_usage_id;
+
+  RETURN QUERY SELECT true, new_usage_id, 'ok'::TEXT, 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_ai_usage(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_ai_usage(UUID, UUID) TO service_role;
+
+-- ==========================================
+-- USAGE SUMMARY (app)
+-- ==========================================
+
+-- Messages used and allowed for the signed-in user, and when each quota resets
+CREATE OR REPLACE FUNCTION public.get_ai_usage_summary()
+RETURNS TABLE (
+  daily_used INTEGER,
+  daily_limit INTEGER,
+  daily_resets_at TIMESTAMP WITH TIME ZONE,
+  monthly_used INTEGER,
+  monthly_limit INTEGER,
+  monthly_resets_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  quota public.ai_usage_quotas;
+  day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', NOW(), 'UTC');
+  month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', NOW(), 'UTC');
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  quota := public.get_ai_usage_quota(caller_id);
+
+  RETURN QUERY SELECT
+    public.count_ai_usage(caller_id, day_start),
+    quota.daily_message_limit,
+    day_start + INTERVAL '1 day',
+    public.count_ai_usage(caller_id, month_start),
+    quota.monthly_message_limit,
+    month_start + INTERVAL '1 month';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_ai_usage_summary() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_ai_usage_summary() TO authenticated;
@@ -0,0 +1,131 @@
+-- Solo chat history browser
+-- The Solo screen gets a chat list with each chat's last message and latest image, and
+-- students can search everything in their chats with Juni by keyword:
+-- - A GIN index on to_tsvector('english', content) for full-text search over solo_ai_messages
+-- - get_solo_chat_previews: the caller's chats, most recently active first, with the last
+--   message, the latest image and the message count
+-- - search_solo_messages: full-text search over the caller's messages, best matches first,
+--   with a snippet that marks the matched words
+-- Both functions run as the caller, so RLS keeps them to the caller's own chats.
+-- Tests: supabase/tests/database/solo_chat_search.test.sql (run with `supabase test db`).
+
+-- ==========================================
+-- INDEXES
+-- ==========================================
+
+-- Full-text search (queries must use the same expression to hit the index)
+CREATE INDEX IF NOT EXISTS solo_ai_messages_content_search_idx
+ON public.solo_ai_messages USING GIN (to_tsvector('english', content));
+
+-- Latest message / image per chat for the previews
+CREATE INDEX IF NOT EXISTS solo_ai_messages_chat_id_created_at_idx
+ON public.solo_ai_messages(chat_id, created_at DESC);
+
+-- ==========================================
+-- CHAT PREVIEWS
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION public.get_solo_chat_previews()
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  last_message TEXT,
+  last_message_role TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_image_url TEXT,
+  message_count INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.id,
+    c.user_id,
+    c.title,
+    c.created_at,
+    c.updated_at,
+    lm.content AS last_message,
+    lm.role AS last_message_role,
+    lm.created_at AS last_message_at,
+    li.image_url AS last_image_url,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM public.solo_ai_messages m
+      WHERE m.chat_id = c.id
+    ) AS message_count
+  FROM public.solo_ai_chats c
+  LEFT JOIN LATERAL (
+    SELECT m.content, m.role, m.created_at
+    FROM public.solo_ai_messages m
+    WHERE m.chat_id = c.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) lm ON true
+  LEFT JOIN LATERAL (
+    SELECT m.image_url
+    FROM public.solo_ai_messages m
+    WHERE m.chat_id = c.id
+      AND m.image_url IS NOT NULL
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) li ON true
+  WHERE c.user_id = auth.uid()
+  -- Chats without messages sort by when they were created or renamed
+  ORDER BY COALESCE(lm.created_at, c.updated_at) DESC, c.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_solo_chat_previews() TO authenticated;
+
+-- ==========================================
+-- MESSAGE SEARCH
+-- ==========================================
+
+-- search_query uses web search syntax: words, "quoted phrases", -excluded, or.
+-- Matched words in the snippet are wrapped in « and ».
+CREATE OR REPLACE FUNCTION public.search_solo_messages(
+  search_query TEXT,
+  result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  message_id UUID,
+  chat_id UUID,
+  chat_title TEXT,
+  role TEXT,
+  snippet TEXT,
+  image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  )
+  SELECT
+    m.id AS message_id,
+    m.chat_id,
+    c.title AS chat_title,
+    m.role,
+    ts_headline(
+      'english',
+      m.content,
+      query.q,
+      'StartSel=«, StopSel=», MinWords=8, MaxWords=24'
+    ) AS snippet,
+    m.image_url,
+    m.created_at,
+    ts_rank(to_tsvector('english', m.content), query.q) AS rank
+  FROM query
+  CROSS JOIN public.solo_ai_messages m
+  JOIN public.solo_ai_chats c ON c.id = m.chat_id
+  WHERE c.user_id = auth.uid()
+    AND to_tsvector('english', m.content) @@ query.q
+  ORDER BY ts_rank(to_tsvector('english', m.content), query.q) DESC, m.created_at DESC
+  LIMIT LEAST(GREATEST(result_limit, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_solo_messages(TEXT, INTEGER) TO authenticated;
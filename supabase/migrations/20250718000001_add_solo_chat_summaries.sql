@@ -0,0 +1,84 @@
+-- Automatic Solo chat titles and rolling summaries
+-- get-ai-response now looks after each chat's memory:
+-- - After an untitled chat's first exchange it generates a short title (title_generated_at
+--   records that, so a chat is only titled automatically once and a rename always wins)
+-- - Messages that have left the recent-conversation window are folded into a rolling summary
+--   every few messages; the summary replaces those raw messages in Juni's context
+-- The chat list shows the summary, so get_solo_chat_previews returns it.
+
+-- ==========================================
+-- SUMMARY COLUMNS
+-- ==========================================
+
+ALTER TABLE public.solo_ai_chats
+  ADD COLUMN IF NOT EXISTS summary TEXT,
+  ADD COLUMN IF NOT EXISTS summary_message_count INTEGER NOT NULL DEFAULT 0, -- Messages folded into the summary
+  ADD COLUMN IF NOT EXISTS summary_covers_until TIMESTAMP WITH TIME ZONE, -- created_at of the newest summarized message
+  ADD COLUMN IF NOT EXISTS summary_updated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS title_generated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.solo_ai_chats
+  ADD CONSTRAINT solo_ai_chats_summary_message_count_check CHECK (summary_message_count >= 0);
+
+-- ==========================================
+-- CHAT PREVIEWS WITH SUMMARY
+-- ==========================================
+
+-- The return type changes, so the function has to be dropped and recreated
+DROP FUNCTION IF EXISTS public.get_solo_chat_previews();
+
+CREATE FUNCTION public.get_solo_chat_previews()
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  summary TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  last_message TEXT,
+  last_message_role TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_image_url TEXT,
+  message_count INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.id,
+    c.user_id,
+    c.title,
+    c.summary,
+    c.created_at,
+    c.updated_at,
+    lm.content AS last_message,
+    lm.role AS last_message_role,
+    lm.created_at AS last_message_at,
+    li.image_url AS last_image_url,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM public.solo_ai_messages m
+      WHERE m.chat_id = c.id
+    ) AS message_count
+  FROM public.solo_ai_chats c
+  LEFT JOIN LATERAL (
+    SELECT m.content, m.role, m.created_at
+    FROM public.solo_ai_messages m
+    WHERE m.chat_id = c.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) lm ON true
+  LEFT JOIN LATERAL (
+    SELECT m.image_url
+    FROM public.solo_ai_messages m
+    WHERE m.chat_id = c.id
+      AND m.image_url IS NOT NULL
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) li ON true
+  WHERE c.user_id = auth.uid()
+  -- Chats without messages sort by when they were created or renamed
+  ORDER BY COALESCE(lm.created_at, c.updated_at) DESC, c.id DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_solo_chat_previews() TO authenticated;
@@ -0,0 +1,107 @@
+-- Juni usage quota tests
+-- Proves the burst limit and daily quota are enforced, failed requests don't use up the quota,
+-- per-user quotas override the default, and students can only read their own usage.
+-- Run against the local stack with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- ==========================================
+-- FIXTURES (created as postgres, bypassing RLS)
+-- ==========================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a401', 'student@usage.test'),
+  ('00000000-0000-0000-0000-00000000a402', 'classmate@usage.test');
+
+INSERT INTO public.solo_ai_chats (id, user_id, title) VALUES
+  ('00000000-0000-0000-0000-00000000b401', '00000000-0000-0000-0000-00000000a401', 'Usage Test Chat');
+
+-- Tight limits for the first student: 2 messages a minute, 3 a day
+INSERT INTO public.ai_usage_quotas (user_id, daily_message_limit, monthly_message_limit, burst_message_limit, burst_window_seconds)
+VALUES ('00000000-0000-0000-0000-00000000a401', 3, 100, 2, 60);
+
+-- ==========================================
+-- BURST LIMIT
+-- ==========================================
+
+SELECT results_eq(
+  $$ SELECT allowed, reason FROM public.reserve_ai_usage('00000000-0000-0000-0000-00000000a401', '00000000-0000-0000-0000-00000000b401') $$,
+  $$ VALUES (true, 'ok'::TEXT) $$,
+  'A request within the limits is allowed'
+);
+
+SELECT public.reserve_ai_usage('00000000-0000-0000-0000-00000000a401', '00000000-0000-0000-0000-00000000b401');
+
+SELECT results_eq(
+  $$ SELECT allowed, reason, retry_after_seconds > 0 FROM public.reserve_ai_usage('00000000-0000-0000-0000-00000000a401', '00000000-0000-0000-0000-00000000b401') $$,
+  $$ VALUES (false, 'burst'::TEXT, true) $$,
+  'Too many requests in the burst window are rate limited'
+);
+
+-- ==========================================
+-- DAILY QUOTA
+-- ==========================================
+
+-- Move the earlier requests out of the burst window and add a failed one
+UPDATE public.ai_usage SET created_at = NOW() - INTERVAL '61 seconds', status = 'completed'
+WHERE user_id = '00000000-0000-0000-0000-00000000a401';
+
+INSERT INTO public.ai_usage (user_id, chat_id, status, created_at) VALUES
+  ('00000000-0000-0000-0000-00000000a401', '00000000-0000-0000-0000-00000000b401', 'failed', NOW() - INTERVAL '61 seconds');
+
+SELECT results_eq(
+  $$ SELECT allowed, reason FROM public.reserve_ai_usage('00000000-0000-0000-0000-00000000a401', '00000000-0000-0000-0000-00000000b401') $$,
+  $$ VALUES (true, 'ok'::TEXT) $$,
+  'Failed requests do not count toward the daily quota'
+);
+
+UPDATE public.ai_usage SET created_at = NOW() - INTERVAL '61 seconds'
+WHERE user_id = '00000000-0000-0000-0000-00000000a401';
+
+SELECT results_eq(
+  $$ SELECT allowed, reason FROM public.reserve_ai_usage('00000000-0000-0000-0000-00000000a401', '00000000-0000-0000-0000-00000000b401') $$,
+  $$ VALUES (false, 'daily'::TEXT) $$,
+  'Requests past the daily quota are rate limited'
+);
+
+-- ==========================================
+-- APP ACCESS
+-- ==========================================
+
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a401", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT daily_used, daily_limit, monthly_limit FROM public.get_ai_usage_summary() $$,
+  $$ VALUES (3, 3, 100) $$,
+  'Students see their own usage against their quota'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.reserve_ai_usage('00000000-0000-0000-0000-00000000a401', '00000000-0000-0000-0000-00000000b401') $$,
+  '42501', NULL,
+  'Only the edge function can reserve usage'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a402", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT daily_used, daily_limit FROM public.get_ai_usage_summary() $$,
+  $$ VALUES (0, 50) $$,
+  'Students without their own quota get the default'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.ai_usage),
+  0,
+  'Students cannot see other students'' usage'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,230 @@
+-- Class membership RLS tests
+-- Proves users outside a class cannot read or write its posts, comments, views or feedback, can
+-- only join (or rejoin) with the class's join code, and that students cannot write Juni's
+-- critiques themselves.
+-- Run against the local stack with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(27);
+
+-- ==========================================
+-- FIXTURES (created as postgres, bypassing RLS)
+-- ==========================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a001', 'member@rls.test'),
+  ('00000000-0000-0000-0000-00000000a002', 'outsider@rls.test'),
+  ('00000000-0000-0000-0000-00000000a003', 'former@rls.test');
+
+INSERT INTO public.classes (id, name, join_code, created_by) VALUES
+  ('00000000-0000-0000-0000-00000000c001', 'RLS Test Class', 'RLST01', '00000000-0000-0000-0000-00000000a001');
+
+INSERT INTO public.class_members (class_id, user_id, role, is_active) VALUES
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000a001', 'student', true),
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000a003', 'student', false);
+
+INSERT INTO public.posts (id, user_id, class_id, image_url, duration_minutes, expires_at) VALUES
+  ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000a001',
+   '00000000-0000-0000-0000-00000000c001', 'https://example.com/rls-test.jpg', 60, NOW() + INTERVAL '1 hour'),
+  ('00000000-0000-0000-0000-00000000b002', '00000000-0000-0000-0000-00000000a001',
+   '00000000-0000-0000-0000-00000000c001', 'https://example.com/rls-pending.jpg', 60, NOW() + INTERVAL '1 hour'),
+  ('00000000-0000-0000-0000-00000000b003', '00000000-0000-0000-0000-00000000a001',
+   '00000000-0000-0000-0000-00000000c001', 'https://example.com/rls-no-feedback.jpg', 60, NOW() + INTERVAL '1 hour');
+
+INSERT INTO public.comments (post_id, user_id, content) VALUES
+  ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000a001', 'Work in progress');
+
+INSERT INTO public.ai_feedback (post_id, user_id, feedback_text, feedback_status) VALUES
+  ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000a001', 'Strong values.', 'completed'),
+  ('00000000-0000-0000-0000-00000000b002', '00000000-0000-0000-0000-00000000a001', NULL, 'pending');
+
+-- ==========================================
+-- OUTSIDER (never joined)
+-- ==========================================
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a002", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.posts WHERE class_id = '00000000-0000-0000-0000-00000000c001' $$,
+  'Outsider cannot read class posts'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.comments WHERE post_id = '00000000-0000-0000-0000-00000000b001' $$,
+  'Outsider cannot read comments on class posts'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.comments_with_users WHERE post_id = '00000000-0000-0000-0000-00000000b001' $$,
+  'Outsider cannot read comments through comments_with_users'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.ai_feedback WHERE post_id = '00000000-0000-0000-0000-00000000b001' $$,
+  'Outsider cannot read AI feedback on class posts'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.get_class_feed('00000000-0000-0000-0000-00000000c001') $$,
+  'Outsider gets an empty class feed'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.posts (user_id, class_id, image_url, duration_minutes, expires_at)
+     VALUES ('00000000-0000-0000-0000-00000000a002', '00000000-0000-0000-0000-00000000c001',
+             'https://example.com/outsider.jpg', 60, NOW() + INTERVAL '1 hour') $$,
+  '42501', NULL,
+  'Outsider cannot post to the class'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.comments (post_id, user_id, content)
+     VALUES ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000a002', 'Hello') $$,
+  '42501', NULL,
+  'Outsider cannot comment on class posts'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.post_views (post_id, user_id)
+     VALUES ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000a002') $$,
+  '42501', NULL,
+  'Outsider cannot record views on class posts'
+);
+
+SELECT is(
+  public.is_class_member('00000000-0000-0000-0000-00000000c001'),
+  false,
+  'is_class_member is false for the outsider'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.class_members (class_id, user_id, role)
+     VALUES ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000a002', 'student') $$,
+  '42501', NULL,
+  'Outsider cannot add themselves to the class without the join code'
+);
+
+SELECT results_eq(
+  $$ SELECT is_member, reason FROM public.join_class_with_code('WRONG1') $$,
+  $$ VALUES (false, 'not_found'::TEXT) $$,
+  'Joining with a wrong code finds no class'
+);
+
+-- ==========================================
+-- FORMER MEMBER (left the class)
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a003", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.posts WHERE class_id = '00000000-0000-0000-0000-00000000c001' $$,
+  'Former member cannot read class posts'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.comments (post_id, user_id, content)
+     VALUES ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000a003', 'Hello') $$,
+  '42501', NULL,
+  'Former member cannot comment on class posts'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.class_members SET is_active = true
+     WHERE class_id = '00000000-0000-0000-0000-00000000c001'
+       AND user_id = '00000000-0000-0000-0000-00000000a003' $$,
+  'P0001', 'Rejoin the class with its join code',
+  'Former member cannot reactivate their membership directly'
+);
+
+SELECT results_eq(
+  $$ SELECT is_member, reason FROM public.join_class_with_code('rlst01') $$,
+  $$ VALUES (true, 'rejoined'::TEXT) $$,
+  'Former member can rejoin with the join code'
+);
+
+-- ==========================================
+-- MEMBER
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a001", "role": "authenticated"}', true);
+
+SELECT isnt_empty(
+  $$ SELECT id FROM public.posts WHERE class_id = '00000000-0000-0000-0000-00000000c001' $$,
+  'Member can read class posts'
+);
+
+SELECT isnt_empty(
+  $$ SELECT id FROM public.comments WHERE post_id = '00000000-0000-0000-0000-00000000b001' $$,
+  'Member can read comments on class posts'
+);
+
+SELECT isnt_empty(
+  $$ SELECT id FROM public.comments_with_users WHERE post_id = '00000000-0000-0000-0000-00000000b001' $$,
+  'Member can read comments through comments_with_users'
+);
+
+SELECT isnt_empty(
+  $$ SELECT id FROM public.ai_feedback WHERE post_id = '00000000-0000-0000-0000-00000000b001' $$,
+  'Member can read completed AI feedback'
+);
+
+SELECT isnt_empty(
+  $$ SELECT id FROM public.get_class_feed('00000000-0000-0000-0000-00000000c001') $$,
+  'Member gets the class feed'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.posts (user_id, class_id, image_url, duration_minutes, expires_at)
+     VALUES ('00000000-0000-0000-0000-00000000a001', '00000000-0000-0000-0000-00000000c001',
+             'https://example.com/member.jpg', 60, NOW() + INTERVAL '1 hour') $$,
+  'Member can post to the class'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.comments (post_id, user_id, content)
+     VALUES ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000a001', 'Thanks!') $$,
+  'Member can comment on class posts'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.post_views (post_id, user_id)
+     VALUES ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-00000000a001') $$,
+  '42501', NULL,
+  'Views can only be recorded through record_post_view'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.ai_feedback (post_id, user_id, feedback_text, feedback_status)
+     VALUES ('00000000-0000-0000-0000-00000000b003', '00000000-0000-0000-0000-00000000a001',
+             'Flawless work.', 'completed') $$,
+  '42501', NULL,
+  'Artist cannot write a completed critique for their own post'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.ai_feedback
+     SET feedback_text = 'Flawless work.', feedback_status = 'completed'
+     WHERE post_id = '00000000-0000-0000-0000-00000000b002' $$,
+  'Updating a critique as the artist runs without error'
+);
+
+SELECT results_eq(
+  $$ SELECT feedback_text, feedback_status FROM public.ai_feedback
+     WHERE post_id = '00000000-0000-0000-0000-00000000b002' $$,
+  $$ VALUES (NULL::TEXT, 'pending'::TEXT) $$,
+  'Artist cannot complete their own pending critique'
+);
+
+SELECT is(
+  public.is_class_member('00000000-0000-0000-0000-00000000c001'),
+  true,
+  'is_class_member is true for the member'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,86 @@
+-- Annotation comment tests
+-- Proves anchors stay inside the image, only top-level comments on the post's own images can be
+-- pinned, and the class feed returns each post's pins.
+-- Run against the local stack with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- ==========================================
+-- FIXTURES (created as postgres, bypassing RLS)
+-- ==========================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a301', 'artist@annotations.test'),
+  ('00000000-0000-0000-0000-00000000a302', 'classmate@annotations.test');
+
+INSERT INTO public.classes (id, name, join_code, created_by) VALUES
+  ('00000000-0000-0000-0000-00000000b301', 'Annotations Test Class', 'ANNO01', '00000000-0000-0000-0000-00000000a301');
+
+INSERT INTO public.class_members (class_id, user_id, role, is_active) VALUES
+  ('00000000-0000-0000-0000-00000000b301', '00000000-0000-0000-0000-00000000a301', 'student', true),
+  ('00000000-0000-0000-0000-00000000b301', '00000000-0000-0000-0000-00000000a302', 'student', true);
+
+INSERT INTO public.posts (id, user_id, class_id, image_url, duration_minutes, expires_at) VALUES
+  ('00000000-0000-0000-0000-00000000c301', '00000000-0000-0000-0000-00000000a301',
+   '00000000-0000-0000-0000-00000000b301', 'https://example.com/portrait.jpg', 60, NOW() + INTERVAL '1 hour');
+
+INSERT INTO public.post_images (post_id, image_url, position) VALUES
+  ('00000000-0000-0000-0000-00000000c301', 'https://example.com/portrait.jpg', 0);
+
+INSERT INTO public.comments (id, post_id, user_id, content, anchor_image_index, anchor_x, anchor_y, anchor_width, anchor_height) VALUES
+  ('00000000-0000-0000-0000-00000000d301', '00000000-0000-0000-0000-00000000c301',
+   '00000000-0000-0000-0000-00000000a302', 'The shadow here is too hard', 0, 0.25, 0.4, 0.5, 0.6);
+
+-- ==========================================
+-- ANCHORS
+-- ==========================================
+
+SELECT throws_ok(
+  $$ INSERT INTO public.comments (post_id, user_id, content, anchor_image_index, anchor_x, anchor_y) VALUES
+     ('00000000-0000-0000-0000-00000000c301', '00000000-0000-0000-0000-00000000a302', 'Off the edge', 0, 1.2, 0.5) $$,
+  '23514', NULL,
+  'Pins must be inside the image'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.comments (post_id, user_id, content, anchor_image_index, anchor_x, anchor_y, anchor_width, anchor_height) VALUES
+     ('00000000-0000-0000-0000-00000000c301', '00000000-0000-0000-0000-00000000a302', 'Too wide', 0, 0.6, 0.1, 0.5, 0.2) $$,
+  '23514', NULL,
+  'Areas must fit inside the image'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.comments (post_id, user_id, content, parent_comment_id, anchor_image_index, anchor_x, anchor_y) VALUES
+     ('00000000-0000-0000-0000-00000000c301', '00000000-0000-0000-0000-00000000a301', 'Pinned reply',
+      '00000000-0000-0000-0000-00000000d301', 0, 0.5, 0.5) $$,
+  'P0001', NULL,
+  'Replies cannot be pinned'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.comments (post_id, user_id, content, anchor_image_index, anchor_x, anchor_y) VALUES
+     ('00000000-0000-0000-0000-00000000c301', '00000000-0000-0000-0000-00000000a302', 'Missing image', 3, 0.5, 0.5) $$,
+  'P0001', NULL,
+  'Pins must be on one of the post''s images'
+);
+
+-- ==========================================
+-- FEED (as a classmate)
+-- ==========================================
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a302", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT feed.annotations FROM public.get_class_feed('00000000-0000-0000-0000-00000000b301') feed),
+  '[{"comment_id": "00000000-0000-0000-0000-00000000d301", "image_index": 0, "x": 0.2500, "y": 0.4000, "width": 0.5000, "height": 0.6000}]'::jsonb,
+  'Feed returns each post''s pinned comments'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,105 @@
+-- Comment thread and reaction tests
+-- Proves replies stay one level deep on the same post, the comment count follows inserts and
+-- cascaded deletes, and only class members can react.
+-- Run against the local stack with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- ==========================================
+-- FIXTURES (created as postgres, bypassing RLS)
+-- ==========================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a201', 'artist@threads.test'),
+  ('00000000-0000-0000-0000-00000000a202', 'classmate@threads.test'),
+  ('00000000-0000-0000-0000-00000000a203', 'outsider@threads.test');
+
+INSERT INTO public.classes (id, name, join_code, created_by) VALUES
+  ('00000000-0000-0000-0000-00000000b201', 'Threads Test Class', 'THRD01', '00000000-0000-0000-0000-00000000a201');
+
+INSERT INTO public.class_members (class_id, user_id, role, is_active) VALUES
+  ('00000000-0000-0000-0000-00000000b201', '00000000-0000-0000-0000-00000000a201', 'student', true),
+  ('00000000-0000-0000-0000-00000000b201', '00000000-0000-0000-0000-00000000a202', 'student', true);
+
+INSERT INTO public.posts (id, user_id, class_id, image_url, duration_minutes, expires_at) VALUES
+  ('00000000-0000-0000-0000-00000000c201', '00000000-0000-0000-0000-00000000a201',
+   '00000000-0000-0000-0000-00000000b201', 'https://example.com/still-life.jpg', 60, NOW() + INTERVAL '1 hour'),
+  ('00000000-0000-0000-0000-00000000c202', '00000000-0000-0000-0000-00000000a201',
+   '00000000-0000-0000-0000-00000000b201', 'https://example.com/sketch.jpg', 60, NOW() + INTERVAL '1 hour');
+
+INSERT INTO public.comments (id, post_id, user_id, content, parent_comment_id) VALUES
+  ('00000000-0000-0000-0000-00000000d201', '00000000-0000-0000-0000-00000000c201',
+   '00000000-0000-0000-0000-00000000a202', 'Love the shadows!', NULL),
+  ('00000000-0000-0000-0000-00000000d202', '00000000-0000-0000-0000-00000000c201',
+   '00000000-0000-0000-0000-00000000a201', 'Thank you!', '00000000-0000-0000-0000-00000000d201');
+
+-- ==========================================
+-- THREADS
+-- ==========================================
+
+SELECT throws_ok(
+  $$ INSERT INTO public.comments (post_id, user_id, content, parent_comment_id) VALUES
+     ('00000000-0000-0000-0000-00000000c202', '00000000-0000-0000-0000-00000000a202', 'Wrong post',
+      '00000000-0000-0000-0000-00000000d201') $$,
+  'P0001', NULL,
+  'A reply must be on the same post as its parent'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.comments (post_id, user_id, content, parent_comment_id) VALUES
+     ('00000000-0000-0000-0000-00000000c201', '00000000-0000-0000-0000-00000000a202', 'Too deep',
+      '00000000-0000-0000-0000-00000000d202') $$,
+  'P0001', NULL,
+  'Replies cannot be nested under other replies'
+);
+
+SELECT is(
+  (SELECT comments_count FROM public.posts WHERE id = '00000000-0000-0000-0000-00000000c201'),
+  2,
+  'Comment count includes replies'
+);
+
+DELETE FROM public.comments WHERE id = '00000000-0000-0000-0000-00000000d201';
+
+SELECT is(
+  (SELECT comments_count FROM public.posts WHERE id = '00000000-0000-0000-0000-00000000c201'),
+  0,
+  'Deleting a comment removes its replies from the count'
+);
+
+-- ==========================================
+-- REACTIONS
+-- ==========================================
+
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a202", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.post_reactions (post_id, user_id, emoji) VALUES
+     ('00000000-0000-0000-0000-00000000c201', '00000000-0000-0000-0000-00000000a202', '🔥') $$,
+  'Class members can react to a post'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a203", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.post_reactions (post_id, user_id, emoji) VALUES
+     ('00000000-0000-0000-0000-00000000c201', '00000000-0000-0000-0000-00000000a203', '🔥') $$,
+  '42501', NULL,
+  'Users outside the class cannot react'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.post_reactions),
+  0,
+  'Users outside the class cannot see reactions'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,111 @@
+-- Post images tests
+-- Proves a multi-image post's images follow the post's visibility, only the artist can add
+-- images, and the class feed returns them in order.
+-- Run against the local stack with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- ==========================================
+-- FIXTURES (created as postgres, bypassing RLS)
+-- ==========================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000d001', 'artist@images.test'),
+  ('00000000-0000-0000-0000-00000000d002', 'classmate@images.test'),
+  ('00000000-0000-0000-0000-00000000d003', 'outsider@images.test');
+
+INSERT INTO public.classes (id, name, join_code, created_by) VALUES
+  ('00000000-0000-0000-0000-00000000e001', 'Images Test Class', 'IMGT01', '00000000-0000-0000-0000-00000000d001');
+
+INSERT INTO public.class_members (class_id, user_id, role, is_active) VALUES
+  ('00000000-0000-0000-0000-00000000e001', '00000000-0000-0000-0000-00000000d001', 'student', true),
+  ('00000000-0000-0000-0000-00000000e001', '00000000-0000-0000-0000-00000000d002', 'student', true);
+
+INSERT INTO public.posts (id, user_id, class_id, image_url, duration_minutes, expires_at) VALUES
+  ('00000000-0000-0000-0000-00000000f001', '00000000-0000-0000-0000-00000000d001',
+   '00000000-0000-0000-0000-00000000e001', 'https://example.com/sketch.jpg', 60, NOW() + INTERVAL '1 hour');
+
+INSERT INTO public.post_images (post_id, image_url, position) VALUES
+  ('00000000-0000-0000-0000-00000000f001', 'https://example.com/final.jpg', 2),
+  ('00000000-0000-0000-0000-00000000f001', 'https://example.com/sketch.jpg', 0),
+  ('00000000-0000-0000-0000-00000000f001', 'https://example.com/underpainting.jpg', 1);
+
+-- ==========================================
+-- OUTSIDER (never joined)
+-- ==========================================
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000d003", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.post_images WHERE post_id = '00000000-0000-0000-0000-00000000f001' $$,
+  'Outsider cannot read images of class posts'
+);
+
+-- ==========================================
+-- CLASSMATE (active member, not the artist)
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000d002", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.post_images WHERE post_id = '00000000-0000-0000-0000-00000000f001'),
+  3,
+  'Classmate can read every image of a class post'
+);
+
+SELECT is(
+  (SELECT ARRAY(
+    SELECT image->>'image_url'
+    FROM public.get_class_feed('00000000-0000-0000-0000-00000000e001') feed,
+         jsonb_array_elements(feed.images) image
+    WHERE feed.id = '00000000-0000-0000-0000-00000000f001'
+  )),
+  ARRAY[
+    'https://example.com/sketch.jpg',
+    'https://example.com/underpainting.jpg',
+    'https://example.com/final.jpg'
+  ],
+  'Class feed returns post images in sequence order'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.post_images (post_id, image_url, position)
+     VALUES ('00000000-0000-0000-0000-00000000f001', 'https://example.com/classmate.jpg', 3) $$,
+  '42501', NULL,
+  'Classmate cannot add images to someone else''s post'
+);
+
+-- ==========================================
+-- ARTIST (post owner)
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000d001", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.post_images (post_id, image_url, position)
+     VALUES ('00000000-0000-0000-0000-00000000f001', 'https://example.com/detail.jpg', 3) $$,
+  'Artist can add images to their own post'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.post_images (post_id, image_url, position)
+     VALUES ('00000000-0000-0000-0000-00000000f001', 'https://example.com/duplicate.jpg', 1) $$,
+  '23505', NULL,
+  'Each position holds one image'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.post_images (post_id, image_url, position)
+     VALUES ('00000000-0000-0000-0000-00000000f001', 'https://example.com/too-many.jpg', 10) $$,
+  '23514', NULL,
+  'A post holds at most 10 images'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,89 @@
+-- Post metadata tests
+-- Proves the metadata checks reject values the app doesn't offer and the class feed can be
+-- filtered by medium or tag.
+-- Run against the local stack with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+-- ==========================================
+-- FIXTURES (created as postgres, bypassing RLS)
+-- ==========================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a101', 'artist@metadata.test'),
+  ('00000000-0000-0000-0000-00000000a102', 'classmate@metadata.test');
+
+INSERT INTO public.classes (id, name, join_code, created_by) VALUES
+  ('00000000-0000-0000-0000-00000000b101', 'Metadata Test Class', 'META01', '00000000-0000-0000-0000-00000000a101');
+
+INSERT INTO public.class_members (class_id, user_id, role, is_active) VALUES
+  ('00000000-0000-0000-0000-00000000b101', '00000000-0000-0000-0000-00000000a101', 'student', true),
+  ('00000000-0000-0000-0000-00000000b101', '00000000-0000-0000-0000-00000000a102', 'student', true);
+
+INSERT INTO public.posts (id, user_id, class_id, image_url, duration_minutes, expires_at, medium, tags) VALUES
+  ('00000000-0000-0000-0000-00000000c101', '00000000-0000-0000-0000-00000000a101',
+   '00000000-0000-0000-0000-00000000b101', 'https://example.com/portrait.jpg', 60, NOW() + INTERVAL '1 hour',
+   'charcoal', ARRAY['portrait', 'figure-study']),
+  ('00000000-0000-0000-0000-00000000c102', '00000000-0000-0000-0000-00000000a101',
+   '00000000-0000-0000-0000-00000000b101', 'https://example.com/landscape.jpg', 60, NOW() + INTERVAL '1 hour',
+   'watercolor', ARRAY['landscape']);
+
+-- ==========================================
+-- CONSTRAINTS
+-- ==========================================
+
+SELECT throws_ok(
+  $$ UPDATE public.posts SET medium = 'crayon' WHERE id = '00000000-0000-0000-0000-00000000c101' $$,
+  '23514', NULL,
+  'Medium must be one of the offered mediums'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.posts SET tags = ARRAY['a','b','c','d','e','f','g','h','i','j','k']
+     WHERE id = '00000000-0000-0000-0000-00000000c101' $$,
+  '23514', NULL,
+  'A post holds at most 10 tags'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.posts SET time_spent_minutes = 0 WHERE id = '00000000-0000-0000-0000-00000000c101' $$,
+  '23514', NULL,
+  'Time spent must be positive'
+);
+
+-- ==========================================
+-- FEED FILTERS (as a classmate)
+-- ==========================================
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a102", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.get_class_feed('00000000-0000-0000-0000-00000000b101')),
+  2,
+  'Unfiltered feed returns every post'
+);
+
+SELECT is(
+  (SELECT ARRAY(
+    SELECT feed.id FROM public.get_class_feed('00000000-0000-0000-0000-00000000b101', filter_medium => 'charcoal') feed
+  )),
+  ARRAY['00000000-0000-0000-0000-00000000c101'::UUID],
+  'Feed can be filtered by medium'
+);
+
+SELECT is(
+  (SELECT ARRAY(
+    SELECT feed.id FROM public.get_class_feed('00000000-0000-0000-0000-00000000b101', filter_tag => 'Landscape') feed
+  )),
+  ARRAY['00000000-0000-0000-0000-00000000c102'::UUID],
+  'Feed can be filtered by tag, ignoring case'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,157 @@
+-- record_post_view tests
+-- Proves views are recorded and counted together, owners and returning viewers don't use
+-- slots, viewers past max_viewers are turned away, and the feed only reports the caller's
+-- own views.
+-- Run against the local stack with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+-- ==========================================
+-- FIXTURES (created as postgres, bypassing RLS)
+-- ==========================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000d001', 'artist@views.test'),
+  ('00000000-0000-0000-0000-00000000d002', 'first@views.test'),
+  ('00000000-0000-0000-0000-00000000d003', 'second@views.test'),
+  ('00000000-0000-0000-0000-00000000d004', 'outsider@views.test');
+
+INSERT INTO public.classes (id, name, join_code, created_by) VALUES
+  ('00000000-0000-0000-0000-00000000e001', 'View Test Class', 'VIEW01', '00000000-0000-0000-0000-00000000d001');
+
+INSERT INTO public.class_members (class_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-00000000e001', '00000000-0000-0000-0000-00000000d001', 'student'),
+  ('00000000-0000-0000-0000-00000000e001', '00000000-0000-0000-0000-00000000d002', 'student'),
+  ('00000000-0000-0000-0000-00000000e001', '00000000-0000-0000-0000-00000000d003', 'student');
+
+-- One view slot only
+INSERT INTO public.posts (id, user_id, class_id, image_url, max_viewers, duration_minutes, expires_at) VALUES
+  ('00000000-0000-0000-0000-00000000f001', '00000000-0000-0000-0000-00000000d001',
+   '00000000-0000-0000-0000-00000000e001', 'https://example.com/views-test.jpg', 1, 60, NOW() + INTERVAL '1 hour');
+
+SET LOCAL ROLE authenticated;
+
+-- ==========================================
+-- OWNER
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000d001", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT allowed, reason, remaining_views FROM public.record_post_view('00000000-0000-0000-0000-00000000f001') $$,
+  $$ VALUES (true, 'owner'::TEXT, 1) $$,
+  'Owner can view without using a slot'
+);
+
+-- ==========================================
+-- OUTSIDER
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000d004", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT allowed, reason FROM public.record_post_view('00000000-0000-0000-0000-00000000f001') $$,
+  $$ VALUES (false, 'not_member'::TEXT) $$,
+  'Outsider is not allowed to view'
+);
+
+-- ==========================================
+-- FIRST VIEWER
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000d002", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT allowed, already_viewed, view_count, remaining_views, reason
+     FROM public.record_post_view('00000000-0000-0000-0000-00000000f001') $$,
+  $$ VALUES (true, false, 1, 0, 'recorded'::TEXT) $$,
+  'First viewer is recorded and uses the last slot'
+);
+
+SELECT results_eq(
+  $$ SELECT allowed, already_viewed, view_count, reason
+     FROM public.record_post_view('00000000-0000-0000-0000-00000000f001') $$,
+  $$ VALUES (true, true, 1, 'already_viewed'::TEXT) $$,
+  'Returning viewer can view again without another slot'
+);
+
+-- ==========================================
+-- SECOND VIEWER (limit reached)
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000d003", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT allowed, remaining_views, reason FROM public.record_post_view('00000000-0000-0000-0000-00000000f001') $$,
+  $$ VALUES (false, 0, 'limit_reached'::TEXT) $$,
+  'Viewer past max_viewers is turned away'
+);
+
+SELECT is(
+  (SELECT feed.user_has_viewed FROM public.get_class_feed('00000000-0000-0000-0000-00000000e001') feed),
+  false,
+  'The feed reports the caller''s own view status'
+);
+
+SELECT throws_ok(
+  $$ SELECT feed.user_has_viewed FROM public.get_class_feed(
+       '00000000-0000-0000-0000-00000000e001',
+       viewer_id => '00000000-0000-0000-0000-00000000d002'
+     ) feed $$,
+  '42883', NULL,
+  'The feed cannot be asked about another user''s views'
+);
+
+-- ==========================================
+-- COUNTS (checked as postgres)
+-- ==========================================
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT view_count FROM public.posts WHERE id = '00000000-0000-0000-0000-00000000f001'),
+  1,
+  'view_count matches the one recorded viewer'
+);
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.post_views WHERE post_id = '00000000-0000-0000-0000-00000000f001'),
+  1,
+  'Exactly one post_views row was written'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.post_views
+     WHERE post_id = '00000000-0000-0000-0000-00000000f001'
+       AND user_id IN ('00000000-0000-0000-0000-00000000d001', '00000000-0000-0000-0000-00000000d003') $$,
+  'Owner and rejected viewer views are not recorded'
+);
+
+-- ==========================================
+-- EXPIRED POST
+-- ==========================================
+
+UPDATE public.posts SET is_expired = true WHERE id = '00000000-0000-0000-0000-00000000f001';
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000d002", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT allowed, reason FROM public.record_post_view('00000000-0000-0000-0000-00000000f001') $$,
+  $$ VALUES (false, 'expired'::TEXT) $$,
+  'Expired posts cannot be viewed'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.increment_post_view('00000000-0000-0000-0000-00000000f001', '00000000-0000-0000-0000-00000000d002') $$,
+  '42883', NULL,
+  'The old two-step increment_post_view function is gone'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,90 @@
+-- Solo chat history tests
+-- Proves the chat previews show each chat's last message, latest image and summary in order of
+-- activity, message search matches word forms and marks the matches, and students only ever see
+-- their own chats and messages.
+-- Run against the local stack with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- ==========================================
+-- FIXTURES (created as postgres, bypassing RLS)
+-- ==========================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a501', 'student@history.test'),
+  ('00000000-0000-0000-0000-00000000a502', 'classmate@history.test');
+
+INSERT INTO public.solo_ai_chats (id, user_id, title, updated_at) VALUES
+  ('00000000-0000-0000-0000-00000000b501', '00000000-0000-0000-0000-00000000a501', 'Shading', NOW() - INTERVAL '3 days'),
+  ('00000000-0000-0000-0000-00000000b502', '00000000-0000-0000-0000-00000000a501', 'Colour', NOW() - INTERVAL '3 days'),
+  ('00000000-0000-0000-0000-00000000b503', '00000000-0000-0000-0000-00000000a502', 'Classmate chat', NOW());
+
+INSERT INTO public.solo_ai_messages (chat_id, role, content, image_url, created_at) VALUES
+  ('00000000-0000-0000-0000-00000000b501', 'user', 'How do I draw soft shadows under a chin?',
+   'https://example.com/portrait.jpg', NOW() - INTERVAL '2 days'),
+  ('00000000-0000-0000-0000-00000000b501', 'assistant', 'Blend the shadow edge with a tissue.', NULL, NOW() - INTERVAL '2 days'),
+  ('00000000-0000-0000-0000-00000000b502', 'user', 'Which blues mix into a good sky?', NULL, NOW() - INTERVAL '1 day'),
+  ('00000000-0000-0000-0000-00000000b502', 'assistant', 'Try ultramarine with a touch of burnt sienna.', NULL, NOW() - INTERVAL '1 day'),
+  ('00000000-0000-0000-0000-00000000b503', 'user', 'My shadow looks muddy.', NULL, NOW());
+
+UPDATE public.solo_ai_chats
+SET summary = 'Working on portrait shading.', summary_message_count = 2
+WHERE id = '00000000-0000-0000-0000-00000000b501';
+
+-- ==========================================
+-- AS THE STUDENT
+-- ==========================================
+
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a501", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT id FROM public.get_solo_chat_previews() $$,
+  $$ VALUES ('00000000-0000-0000-0000-00000000b502'::UUID), ('00000000-0000-0000-0000-00000000b501'::UUID) $$,
+  'Chat previews list only the student''s chats, most recently active first'
+);
+
+SELECT results_eq(
+  $$ SELECT last_message, last_message_role, last_image_url, message_count
+     FROM public.get_solo_chat_previews()
+     WHERE id = '00000000-0000-0000-0000-00000000b501' $$,
+  $$ VALUES ('Blend the shadow edge with a tissue.'::TEXT, 'assistant'::TEXT, 'https://example.com/portrait.jpg'::TEXT, 2) $$,
+  'A preview carries the last message, the latest image and the message count'
+);
+
+SELECT is(
+  (SELECT summary FROM public.get_solo_chat_previews() WHERE id = '00000000-0000-0000-0000-00000000b501'),
+  'Working on portrait shading.',
+  'A preview carries the chat''s rolling summary'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.search_solo_messages('shadow')),
+  2,
+  'Search matches other forms of the word ("shadows") in the student''s own messages only'
+);
+
+SELECT ok(
+  (SELECT bool_and(snippet LIKE '%«shadow%»%') FROM public.search_solo_messages('shadow')),
+  'Snippets mark the matched words'
+);
+
+SELECT is(
+  (SELECT chat_title FROM public.search_solo_messages('"burnt sienna"')),
+  'Colour',
+  'Quoted phrases find the message and name its chat'
+);
+
+SELECT is_empty(
+  $$ SELECT * FROM public.search_solo_messages('the') $$,
+  'Searching only for stop words returns nothing'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
@@ -0,0 +1,174 @@
+-- Teacher class management tests
+-- Proves classes are created together with their teacher, only a class's teachers/admins can
+-- edit it, read or regenerate its join code and see its roster, and that students can't raise
+-- their role or move a membership to another class or user to become a teacher there.
+-- Run against the local stack with: supabase test db
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(17);
+
+-- ==========================================
+-- FIXTURES (created as postgres, bypassing RLS)
+-- ==========================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a701', 'teacher@staff.test'),
+  ('00000000-0000-0000-0000-00000000a702', 'student@staff.test'),
+  ('00000000-0000-0000-0000-00000000a703', 'attacker@staff.test');
+
+INSERT INTO public.classes (id, name, join_code, created_by) VALUES
+  ('00000000-0000-0000-0000-00000000c701', 'Staff Test Class', 'STAF01', '00000000-0000-0000-0000-00000000a701'),
+  ('00000000-0000-0000-0000-00000000c702', 'Throwaway Class', 'STAF02', '00000000-0000-0000-0000-00000000a703');
+
+INSERT INTO public.class_members (class_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-00000000c701', '00000000-0000-0000-0000-00000000a701', 'teacher'),
+  ('00000000-0000-0000-0000-00000000c701', '00000000-0000-0000-0000-00000000a702', 'student'),
+  ('00000000-0000-0000-0000-00000000c702', '00000000-0000-0000-0000-00000000a703', 'teacher');
+
+SET LOCAL ROLE authenticated;
+
+-- ==========================================
+-- ATTACKER (teacher of their own throwaway class)
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a703", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.class_members
+     SET class_id = '00000000-0000-0000-0000-00000000c701'
+     WHERE class_id = '00000000-0000-0000-0000-00000000c702'
+       AND user_id = '00000000-0000-0000-0000-00000000a703' $$,
+  'P0001', 'A class membership cannot be moved to another class or user',
+  'A teacher membership cannot be moved into another class'
+);
+
+SELECT is(
+  public.is_class_staff('00000000-0000-0000-0000-00000000c701'),
+  false,
+  'The attacker is not staff of the other class'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.classes (name, created_by)
+     VALUES ('Direct insert', '00000000-0000-0000-0000-00000000a703') $$,
+  '42501', NULL,
+  'Classes cannot be inserted without going through create_class'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.create_class('New Class') $$,
+  'Any signed-in user can create a class'
+);
+
+SELECT is(
+  (SELECT role FROM public.class_members cm
+   JOIN public.classes c ON c.id = cm.class_id
+   WHERE c.name = 'New Class' AND cm.user_id = '00000000-0000-0000-0000-00000000a703'),
+  'teacher',
+  'create_class makes the caller the teacher of the new class'
+);
+
+-- ==========================================
+-- STUDENT
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a702", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.class_members
+     SET user_id = '00000000-0000-0000-0000-00000000a703'
+     WHERE class_id = '00000000-0000-0000-0000-00000000c701'
+       AND user_id = '00000000-0000-0000-0000-00000000a702' $$,
+  'P0001', 'A class membership cannot be moved to another class or user',
+  'A membership cannot be handed to another user'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.class_members
+     SET role = 'teacher'
+     WHERE class_id = '00000000-0000-0000-0000-00000000c701'
+       AND user_id = '00000000-0000-0000-0000-00000000a702' $$,
+  'P0001', 'Only class teachers can change member roles',
+  'Student cannot make themselves a teacher'
+);
+
+UPDATE public.classes SET name = 'Renamed by student' WHERE id = '00000000-0000-0000-0000-00000000c701';
+
+SELECT is(
+  (SELECT name FROM public.classes WHERE id = '00000000-0000-0000-0000-00000000c701'),
+  'Staff Test Class',
+  'Student cannot edit the class'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.class_members WHERE class_id = '00000000-0000-0000-0000-00000000c701'),
+  1,
+  'Student only sees their own membership, not the roster'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.regenerate_class_join_code('00000000-0000-0000-0000-00000000c701') $$,
+  'P0001', 'Only class teachers can regenerate the join code',
+  'Student cannot regenerate the join code'
+);
+
+SELECT throws_ok(
+  $$ SELECT join_code FROM public.classes WHERE id = '00000000-0000-0000-0000-00000000c701' $$,
+  '42501', NULL,
+  'Student cannot read the join code column'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.class_join_codes),
+  0,
+  'Student sees no join codes through class_join_codes'
+);
+
+RESET ROLE;
+SET LOCAL ROLE anon;
+
+SELECT throws_ok(
+  $$ SELECT join_code FROM public.classes $$,
+  '42501', NULL,
+  'Anonymous users cannot read join codes'
+);
+
+SET LOCAL ROLE authenticated;
+
+-- ==========================================
+-- TEACHER
+-- ==========================================
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a701", "role": "authenticated"}', true);
+
+UPDATE public.classes SET name = 'Renamed by teacher' WHERE id = '00000000-0000-0000-0000-00000000c701';
+
+SELECT is(
+  (SELECT name FROM public.classes WHERE id = '00000000-0000-0000-0000-00000000c701'),
+  'Renamed by teacher',
+  'Teacher can edit the class'
+);
+
+SELECT is(
+  (SELECT COUNT(*)::INTEGER FROM public.class_members WHERE class_id = '00000000-0000-0000-0000-00000000c701'),
+  2,
+  'Teacher sees the whole roster'
+);
+
+SELECT results_eq(
+  $$ SELECT join_code FROM public.class_join_codes $$,
+  $$ VALUES ('STAF01') $$,
+  'Teacher reads the join code of their class through class_join_codes'
+);
+
+SELECT ok(
+  public.regenerate_class_join_code('00000000-0000-0000-0000-00000000c701') ~ '^[A-Z0-9]{6}$',
+  'Teacher can regenerate the join code'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;